@@ -3,15 +3,135 @@ pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
 
+// NFT 发售：先是 Merkle 白名单阶段，然后是公开发售，每个钱包合计最多 mint maxPerWallet 个
+// 揭晓之前所有 token 的 tokenURI 都是 unrevealedURI，揭晓之后是 baseURI + tokenId
+// 白名单的 Merkle 树和 proof 用 utils/merkle.ts 生成
 contract MyToken is ERC721, Ownable {
+    enum Phase {
+        Closed,
+        Allowlist,
+        Public
+    }
+
+    uint256 public immutable maxSupply;
+    uint256 public immutable maxPerWallet;
+    uint256 public price;
+    Phase public phase;
+    bytes32 public merkleRoot;
+    // 每个地址在两个阶段一共 mint 的数量
+    mapping(address => uint256) public minted;
+
+    bool public revealed;
+    string public unrevealedURI;
+    string private _baseTokenURI;
+
     uint256 private _nextTokenId = 0;
-    constructor() ERC721("MyToken", "MTK") Ownable(msg.sender) {}
 
+    event PhaseChanged(Phase phase);
+    event PriceChanged(uint256 price);
+    event MerkleRootChanged(bytes32 merkleRoot);
+    event Revealed(string baseURI);
+    event Withdrawal(address indexed recipient, uint256 amount);
+
+    constructor(
+        uint256 price_,
+        uint256 maxSupply_,
+        uint256 maxPerWallet_,
+        string memory unrevealedURI_
+    ) ERC721("MyToken", "MTK") Ownable(msg.sender) {
+        require(maxSupply_ > 0, "max supply must be positive");
+        require(maxPerWallet_ > 0, "max per wallet must be positive");
+        price = price_;
+        maxSupply = maxSupply_;
+        maxPerWallet = maxPerWallet_;
+        unrevealedURI = unrevealedURI_;
+    }
+
+    function totalSupply() public view returns (uint256) {
+        return _nextTokenId;
+    }
+
+    // 公开发售阶段任何人都可以 mint
     function mint(uint256 quantity) public payable {
-        require(quantity == 1, "quantity must be 1");
-        require(msg.value == 0.01 ether, "must pay 0.01 ether");
-        uint256 tokenId = _nextTokenId++;
-        _mint(msg.sender, tokenId);
+        require(phase == Phase.Public, "public sale not active");
+        _mintBatch(quantity);
+    }
+
+    // 白名单阶段需要提供自己地址的 Merkle proof
+    function allowlistMint(
+        uint256 quantity,
+        bytes32[] calldata proof
+    ) public payable {
+        require(phase == Phase.Allowlist, "allowlist sale not active");
+        // 叶子节点和 OpenZeppelin StandardMerkleTree 的格式一致，做两次哈希防止第二原像攻击
+        bytes32 leaf = keccak256(
+            bytes.concat(keccak256(abi.encode(msg.sender)))
+        );
+        require(
+            MerkleProof.verifyCalldata(proof, merkleRoot, leaf),
+            "invalid proof"
+        );
+        _mintBatch(quantity);
+    }
+
+    function _mintBatch(uint256 quantity) private {
+        require(quantity > 0, "quantity must be positive");
+        require(_nextTokenId + quantity <= maxSupply, "exceeds max supply");
+        require(
+            minted[msg.sender] + quantity <= maxPerWallet,
+            "exceeds max per wallet"
+        );
+        require(msg.value == price * quantity, "incorrect payment");
+        minted[msg.sender] += quantity;
+        for (uint256 i = 0; i < quantity; i++) {
+            _mint(msg.sender, _nextTokenId++);
+        }
+    }
+
+    function setPhase(Phase phase_) external onlyOwner {
+        phase = phase_;
+        emit PhaseChanged(phase_);
+    }
+
+    function setPrice(uint256 price_) external onlyOwner {
+        price = price_;
+        emit PriceChanged(price_);
+    }
+
+    function setMerkleRoot(bytes32 merkleRoot_) external onlyOwner {
+        merkleRoot = merkleRoot_;
+        emit MerkleRootChanged(merkleRoot_);
+    }
+
+    // 只能揭晓一次，之后 baseURI 不能再修改
+    function reveal(string calldata baseURI) external onlyOwner {
+        require(!revealed, "already revealed");
+        revealed = true;
+        _baseTokenURI = baseURI;
+        emit Revealed(baseURI);
+    }
+
+    function tokenURI(
+        uint256 tokenId
+    ) public view override returns (string memory) {
+        if (!revealed) {
+            _requireOwned(tokenId);
+            return unrevealedURI;
+        }
+        return super.tokenURI(tokenId);
+    }
+
+    function _baseURI() internal view override returns (string memory) {
+        return _baseTokenURI;
+    }
+
+    // 把发售收到的 ETH 全部转给 recipient
+    function withdraw(address payable recipient) external onlyOwner {
+        uint256 amount = address(this).balance;
+        (bool success, ) = recipient.call{ value: amount }("");
+        require(success, "withdraw failed");
+        emit Withdrawal(recipient, amount);
     }
 }
@@ -1,19 +1,153 @@
 // SPDX-License-Identifier: GPL-2.0-or-later
 pragma solidity ^0.8.24;
 
+import "@openzeppelin/contracts/access/Ownable2Step.sol";
+
 import "./interfaces/IFactory.sol";
+import "./libraries/CustomRevert.sol";
+import "./libraries/PoolAddress.sol";
+import "./libraries/TickMath.sol";
 import "./Pool.sol";
+import "./PoolDeployer.sol";
+
+// Factory 的 owner 可以设置和提取池子的协议费，以及管理可以使用的 fee
+// owner 的转移分两步：transferOwnership 之后需要新的 owner 调用 acceptOwnership
+// owner 可以指定一个 guardian，发现问题时由 guardian 暂停池子的 mint 和 swap
+contract Factory is IFactory, Ownable2Step {
+    using CustomRevert for bytes4;
 
-contract Factory is IFactory {
     // 存放所有创建的池子
     mapping(address => mapping(address => address[])) public pools;
 
+    // fee => tickSpacing，为 0 表示没有启用
+    mapping(uint24 => int24) public override feeAmountTickSpacing;
+
     Parameters public override parameters;
 
+    // 负责创建 Pool 的合约，见 PoolDeployer
+    address public immutable override poolDeployer;
+
+    address public override guardian;
+
+    bool public override globalPaused;
+
+    mapping(address => bool) public override poolPaused;
+
+    constructor() Ownable(msg.sender) {
+        poolDeployer = address(new PoolDeployer());
+        guardian = msg.sender;
+
+        // 默认启用常用的四个费率，tickSpacing 为 1，不限制价格区间
+        _enableFeeAmount(100, 1);
+        _enableFeeAmount(500, 1);
+        _enableFeeAmount(3000, 1);
+        _enableFeeAmount(10000, 1);
+    }
+
+    function enableFeeAmount(
+        uint24 fee,
+        int24 tickSpacing
+    ) external override onlyOwner {
+        // fee 以 1,000,000 为基底
+        if (fee >= 1000000) {
+            // CustomRevert 没有 uint24 的版本，ABI 编码和 uint160 一样
+            IFactory.InvalidFee.selector.revertWith(uint160(fee));
+        }
+        if (
+            tickSpacing < TickMath.MIN_TICK_SPACING ||
+            tickSpacing > TickMath.MAX_TICK_SPACING
+        ) {
+            IFactory.InvalidTickSpacing.selector.revertWith(tickSpacing);
+        }
+        _enableFeeAmount(fee, tickSpacing);
+    }
+
+    function disableFeeAmount(uint24 fee) external override onlyOwner {
+        if (feeAmountTickSpacing[fee] == 0) {
+            IFactory.FeeNotEnabled.selector.revertWith(uint160(fee));
+        }
+        delete feeAmountTickSpacing[fee];
+        emit FeeAmountDisabled(fee);
+    }
+
+    function setGuardian(address newGuardian) external override onlyOwner {
+        emit GuardianChanged(guardian, newGuardian);
+        guardian = newGuardian;
+    }
+
+    // owner 也可以暂停，guardian 的私钥丢失时不至于无法处理紧急情况
+    modifier onlyGuardian() {
+        if (msg.sender != guardian && msg.sender != owner()) {
+            IFactory.NotGuardian.selector.revertWith(msg.sender);
+        }
+        _;
+    }
+
+    function isPaused(address pool) external view override returns (bool) {
+        return globalPaused || poolPaused[pool];
+    }
+
+    function pause(address pool) external override onlyGuardian {
+        if (pool == address(0)) {
+            globalPaused = true;
+        } else {
+            poolPaused[pool] = true;
+        }
+        emit Paused(pool);
+    }
+
+    function unpause(address pool) external override onlyGuardian {
+        if (pool == address(0)) {
+            globalPaused = false;
+        } else {
+            poolPaused[pool] = false;
+        }
+        emit Unpaused(pool);
+    }
+
+    // 每个新池子创建时调用，index 是池子在交易对中的下标，为 0 时说明是交易对的第一个池子
+    // PoolManager 用它记录所有的交易对和池子
+    function _onPoolCreated(
+        address token0,
+        address token1,
+        address pool,
+        uint32 index
+    ) internal virtual {}
+
+    function _enableFeeAmount(uint24 fee, int24 tickSpacing) private {
+        feeAmountTickSpacing[fee] = tickSpacing;
+        emit FeeAmountEnabled(fee, tickSpacing);
+    }
+
+    // 检查 fee 已经启用，tick 区间有效并且对齐 tickSpacing
+    function _validatePoolParameters(
+        int24 tickLower,
+        int24 tickUpper,
+        uint24 fee
+    ) private view {
+        int24 tickSpacing = feeAmountTickSpacing[fee];
+        if (tickSpacing == 0) {
+            IFactory.FeeNotEnabled.selector.revertWith(uint160(fee));
+        }
+        if (
+            tickLower >= tickUpper ||
+            tickLower < TickMath.MIN_TICK ||
+            tickUpper > TickMath.MAX_TICK
+        ) {
+            IFactory.InvalidTickRange.selector.revertWith(tickLower, tickUpper);
+        }
+        if (tickLower % tickSpacing != 0) {
+            IFactory.TickMisaligned.selector.revertWith(tickLower, tickSpacing);
+        }
+        if (tickUpper % tickSpacing != 0) {
+            IFactory.TickMisaligned.selector.revertWith(tickUpper, tickSpacing);
+        }
+    }
+
     function sortToken(
         address tokenA,
         address tokenB
-    ) private pure returns (address, address) {
+    ) internal pure returns (address, address) {
         return tokenA < tokenB ? (tokenA, tokenB) : (tokenB, tokenA);
     }
 
@@ -67,26 +201,31 @@ contract Factory is IFactory {
             }
         }
 
-        // save pool info
+        // 已经存在的池子直接返回，只有创建新池子时才检查参数，停用 fee 不影响已有的池子
+        _validatePoolParameters(tickLower, tickUpper, fee);
+
+        // save pool info，Pool 在构造函数中读取，token 需要排序后保存
         parameters = Parameters(
             address(this),
-            tokenA,
-            tokenB,
+            token0,
+            token1,
             tickLower,
             tickUpper,
             fee
         );
 
-        // generate create2 salt
-        bytes32 salt = keccak256(
-            abi.encode(token0, token1, tickLower, tickUpper, fee)
+        // generate create2 salt，和 PoolAddress.computeAddress 使用同一个 salt
+        bytes32 salt = PoolAddress.computeSalt(
+            PoolAddress.PoolKey(token0, token1, tickLower, tickUpper, fee)
         );
 
         // create pool
-        pool = address(new Pool{ salt: salt }());
+        pool = IPoolDeployer(poolDeployer).deploy(salt);
 
         // save created pool
         pools[token0][token1].push(pool);
+        // createPool 是公开的，任何人都可以创建池子，所以在这里登记交易对和池子
+        _onPoolCreated(token0, token1, pool, uint32(existingPools.length));
 
         // delete pool info
         delete parameters;
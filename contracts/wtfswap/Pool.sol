@@ -2,6 +2,7 @@
 pragma solidity ^0.8.24;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
 
 import "./libraries/SqrtPriceMath.sol";
 import "./libraries/TickMath.sol";
@@ -11,6 +12,8 @@ import "./libraries/SafeCast.sol";
 import "./libraries/TransferHelper.sol";
 import "./libraries/SwapMath.sol";
 import "./libraries/FixedPoint128.sol";
+import "./libraries/Oracle.sol";
+import "./libraries/CustomRevert.sol";
 
 import "./interfaces/IPool.sol";
 import "./interfaces/IFactory.sol";
@@ -19,6 +22,8 @@ contract Pool is IPool {
     using SafeCast for uint256;
     using LowGasSafeMath for int256;
     using LowGasSafeMath for uint256;
+    using Oracle for Oracle.Observation[65535];
+    using CustomRevert for bytes4;
 
     /// @inheritdoc IPool
     address public immutable override factory;
@@ -45,6 +50,56 @@ contract Pool is IPool {
     /// @inheritdoc IPool
     uint256 public override feeGrowthGlobal1X128;
 
+    /// @inheritdoc IPool
+    uint8 public override feeProtocol;
+
+    struct ProtocolFees {
+        uint128 token0;
+        uint128 token1;
+    }
+    /// @inheritdoc IPool
+    ProtocolFees public override protocolFees;
+
+    /// @inheritdoc IPool
+    uint16 public override observationIndex;
+    /// @inheritdoc IPool
+    uint16 public override observationCardinality;
+    /// @inheritdoc IPool
+    uint16 public override observationCardinalityNext;
+    /// @inheritdoc IPool
+    Oracle.Observation[65535] public override observations;
+
+    // 防止在回调中重入 Pool，例如在 flash 的回调中用借来的 token 支付 mint，同一笔 token 会被算两次
+    bool private locked;
+
+    modifier lock() {
+        _lock();
+        _;
+        locked = false;
+    }
+
+    // modifier 会把代码复制到每个方法中，检查放在函数里可以减小合约大小
+    function _lock() private {
+        require(!locked, "LOK");
+        locked = true;
+    }
+
+    // Factory（PoolManager）的 guardian 暂停池子后不能 mint、swap 和 flash，burn 和 collect 不受影响
+    modifier whenNotPaused() {
+        _checkNotPaused();
+        _;
+    }
+
+    function _checkNotPaused() private view {
+        require(!IFactory(factory).isPaused(address(this)), "Paused");
+    }
+
+    // 只有 Factory（PoolManager）的 owner 可以设置和提取协议费
+    modifier onlyFactoryOwner() {
+        require(msg.sender == Ownable(factory).owner(), "Not factory owner");
+        _;
+    }
+
     struct Position {
         // 该 Position 拥有的流动性
         uint128 liquidity;
@@ -84,17 +139,39 @@ contract Pool is IPool {
         );
     }
 
+    /// @dev 截断为 uint32 的区块时间，Oracle 中的时间戳允许溢出
+    function _blockTimestamp() internal view virtual returns (uint32) {
+        return uint32(block.timestamp);
+    }
+
+    /// @dev 在 tick 或者流动性变化之前写入一个 observation，累计上一个 observation 到现在这段时间的 tick 和流动性
+    function _writeObservation() private {
+        (observationIndex, observationCardinality) = observations.write(
+            observationIndex,
+            _blockTimestamp(),
+            tick,
+            liquidity,
+            observationCardinality,
+            observationCardinalityNext
+        );
+    }
+
     constructor() {
         // constructor 中初始化 immutable 的常量
-        // Factory 创建 Pool 时会通 new Pool{salt: salt}() 的方式创建 Pool 合约，通过 salt 指定 Pool 的地址，这样其他地方也可以推算出 Pool 的地址
-        // 参数通过读取 Factory 合约的 parameters 获取
+        // Factory 创建 Pool 时会通过 PoolDeployer 以 new Pool{salt: salt}() 的方式创建 Pool 合约，通过 salt 指定 Pool 的地址，这样其他地方也可以推算出 Pool 的地址
+        // 参数通过读取 PoolDeployer 的 parameters 获取，PoolDeployer 转发的是 Factory 合约的 parameters
         // 不通过构造函数传入，因为 CREATE2 会根据 initcode 计算出新地址（new_address = hash(0xFF, sender, salt, bytecode)），带上参数就不能计算出稳定的地址了
         (factory, token0, token1, tickLower, tickUpper, fee) = IFactory(
             msg.sender
         ).parameters();
     }
 
+    // 只能由 Factory 初始化，也就是通过 PoolManager.createAndInitializePoolIfNecessary 在创建池子时一起初始化，
+    // 避免池子创建之后被其他人抢先用错误的价格初始化
     function initialize(uint160 sqrtPriceX96_) external override {
+        if (msg.sender != factory) {
+            IPool.NotFactory.selector.revertWith(msg.sender);
+        }
         require(sqrtPriceX96 == 0, "INITIALIZED");
         // 通过价格获取 tick，判断 tick 是否在 tickLower 和 tickUpper 之间
         tick = TickMath.getTickAtSqrtPrice(sqrtPriceX96_);
@@ -104,6 +181,49 @@ contract Pool is IPool {
         );
         // 初始化 Pool 的 sqrtPriceX96
         sqrtPriceX96 = sqrtPriceX96_;
+        // 写入第一个 observation，之后可以通过 increaseObservationCardinalityNext 扩容
+        (observationCardinality, observationCardinalityNext) = observations
+            .initialize(_blockTimestamp());
+
+        emit Initialize(sqrtPriceX96_, tick);
+    }
+
+    function increaseObservationCardinalityNext(
+        uint16 observationCardinalityNext_
+    ) external override {
+        uint16 observationCardinalityNextOld = observationCardinalityNext;
+        uint16 observationCardinalityNextNew = observations.grow(
+            observationCardinalityNextOld,
+            observationCardinalityNext_
+        );
+        observationCardinalityNext = observationCardinalityNextNew;
+        if (observationCardinalityNextOld != observationCardinalityNextNew)
+            emit IncreaseObservationCardinalityNext(
+                observationCardinalityNextOld,
+                observationCardinalityNextNew
+            );
+    }
+
+    function observe(
+        uint32[] calldata secondsAgos
+    )
+        external
+        view
+        override
+        returns (
+            int56[] memory tickCumulatives,
+            uint160[] memory secondsPerLiquidityCumulativeX128s
+        )
+    {
+        return
+            observations.observe(
+                _blockTimestamp(),
+                secondsAgos,
+                tick,
+                observationIndex,
+                liquidity,
+                observationCardinality
+            );
     }
 
     struct ModifyPositionParams {
@@ -159,7 +279,8 @@ contract Pool is IPool {
             position.tokensOwed1 += tokensOwed1;
         }
 
-        // 修改 liquidity
+        // 修改 liquidity，之前先用旧的流动性写入 observation
+        _writeObservation();
         liquidity = LiquidityMath.addDelta(liquidity, params.liquidityDelta);
         position.liquidity = LiquidityMath.addDelta(
             position.liquidity,
@@ -193,7 +314,13 @@ contract Pool is IPool {
         address recipient,
         uint128 amount,
         bytes calldata data
-    ) external override returns (uint256 amount0, uint256 amount1) {
+    )
+        external
+        override
+        lock
+        whenNotPaused
+        returns (uint256 amount0, uint256 amount1)
+    {
         require(amount > 0, "Mint amount must be greater than 0");
         // 基于 amount 计算出当前需要多少 amount0 和 amount1
         (int256 amount0Int, int256 amount1Int) = _modifyPosition(
@@ -223,8 +350,12 @@ contract Pool is IPool {
 
     function burn(
         uint128 amount
-    ) external override returns (uint256 amount0, uint256 amount1) {
-        require(amount > 0, "Burn amount must be greater than 0");
+    ) external override lock returns (uint256 amount0, uint256 amount1) {
+        // amount 为 0 时不移除流动性，只把 position 累计的手续费结算到 tokensOwed 中
+        require(
+            amount > 0 || positions[msg.sender].liquidity > 0,
+            "Burn amount must be greater than 0"
+        );
         require(
             amount <= positions[msg.sender].liquidity,
             "Burn amount exceeds liquidity"
@@ -257,7 +388,7 @@ contract Pool is IPool {
         address recipient,
         uint128 amount0Requested,
         uint128 amount1Requested
-    ) external override returns (uint128 amount0, uint128 amount1) {
+    ) external override lock returns (uint128 amount0, uint128 amount1) {
         // 获取当前用户的 position
         Position storage position = positions[msg.sender];
 
@@ -297,6 +428,22 @@ contract Pool is IPool {
         uint256 amountOut;
         // 该交易中的手续费，如果 zeroForOne 是 ture，则是用户转入 token0，单位是 token0 的数量，反正是 token1 的数量
         uint256 feeAmount;
+        // 从手续费中分给协议的部分，单位和 feeAmount 一样
+        uint128 protocolFee;
+    }
+
+    // 协议从手续费中拿走的部分，feeProtocol 为 N 时是手续费的 1/N
+    function _protocolFee(
+        bool zeroForOne,
+        uint256 feeAmount
+    ) private view returns (uint128) {
+        uint8 feeProtocolForToken = zeroForOne
+            ? feeProtocol % 16
+            : feeProtocol >> 4;
+        return
+            feeProtocolForToken > 0
+                ? uint128(feeAmount / feeProtocolForToken)
+                : 0;
     }
 
     function swap(
@@ -305,7 +452,13 @@ contract Pool is IPool {
         int256 amountSpecified,
         uint160 sqrtPriceLimitX96,
         bytes calldata data
-    ) external override returns (int256 amount0, int256 amount1) {
+    )
+        external
+        override
+        lock
+        whenNotPaused
+        returns (int256 amount0, int256 amount1)
+    {
         require(amountSpecified != 0, "AS");
 
         // zeroForOne: 如果从 token0 交换 token1 则为 true，从 token1 交换 token0 则为 false
@@ -331,7 +484,8 @@ contract Pool is IPool {
                 : feeGrowthGlobal1X128,
             amountIn: 0,
             amountOut: 0,
-            feeAmount: 0
+            feeAmount: 0,
+            protocolFee: 0
         });
 
         // 计算交易的上下限，基于 tick 计算价格
@@ -365,10 +519,15 @@ contract Pool is IPool {
             fee
         );
 
-        // 更新新的价格
+        // 更新新的价格，之前先用旧的 tick 写入 observation
+        _writeObservation();
         sqrtPriceX96 = state.sqrtPriceX96;
         tick = TickMath.getTickAtSqrtPrice(state.sqrtPriceX96);
 
+        // 开启了协议费时，先从手续费中分出协议的部分，剩下的才分给 LP
+        state.protocolFee = _protocolFee(zeroForOne, state.feeAmount);
+        state.feeAmount -= state.protocolFee;
+
         // 计算手续费
         state.feeGrowthGlobalX128 += FullMath.mulDiv(
             state.feeAmount,
@@ -379,21 +538,25 @@ contract Pool is IPool {
         // 更新手续费相关信息
         if (zeroForOne) {
             feeGrowthGlobal0X128 = state.feeGrowthGlobalX128;
+            if (state.protocolFee > 0) protocolFees.token0 += state.protocolFee;
         } else {
             feeGrowthGlobal1X128 = state.feeGrowthGlobalX128;
+            if (state.protocolFee > 0) protocolFees.token1 += state.protocolFee;
         }
 
         // 计算交易后用户手里的 token0 和 token1 的数量
         if (exactInput) {
-            state.amountSpecifiedRemaining -= (state.amountIn + state.feeAmount)
-                .toInt256();
+            state.amountSpecifiedRemaining -= (state.amountIn +
+                state.feeAmount +
+                state.protocolFee).toInt256();
             state.amountCalculated = state.amountCalculated.sub(
                 state.amountOut.toInt256()
             );
         } else {
             state.amountSpecifiedRemaining += state.amountOut.toInt256();
             state.amountCalculated = state.amountCalculated.add(
-                (state.amountIn + state.feeAmount).toInt256()
+                (state.amountIn + state.feeAmount + state.protocolFee)
+                    .toInt256()
             );
         }
 
@@ -445,4 +608,114 @@ contract Pool is IPool {
             tick
         );
     }
+
+    function flash(
+        address recipient,
+        uint256 amount0,
+        uint256 amount1,
+        bytes calldata data
+    ) external override lock whenNotPaused {
+        uint128 _liquidity = liquidity;
+        // 手续费要分给 LP，没有流动性时不能借
+        require(_liquidity > 0, "L");
+
+        // 和交易一样按 fee 收取手续费，向上取整
+        uint256 fee0 = FullMath.mulDivRoundingUp(amount0, fee, 1e6);
+        uint256 fee1 = FullMath.mulDivRoundingUp(amount1, fee, 1e6);
+        uint256 balance0Before = balance0();
+        uint256 balance1Before = balance1();
+
+        if (amount0 > 0)
+            TransferHelper.safeTransfer(token0, recipient, amount0);
+        if (amount1 > 0)
+            TransferHelper.safeTransfer(token1, recipient, amount1);
+
+        IFlashCallback(msg.sender).flashCallback(fee0, fee1, data);
+
+        uint256 balance0After = balance0();
+        uint256 balance1After = balance1();
+        require(balance0Before.add(fee0) <= balance0After, "F0");
+        require(balance1Before.add(fee1) <= balance1After, "F1");
+
+        // 实际收到的手续费可能比 fee0 和 fee1 多，多付的部分也分给 LP
+        uint256 paid0 = balance0After - balance0Before;
+        uint256 paid1 = balance1After - balance1Before;
+        _addFlashFee(true, paid0, _liquidity);
+        _addFlashFee(false, paid1, _liquidity);
+
+        emit Flash(msg.sender, recipient, amount0, amount1, paid0, paid1);
+    }
+
+    // 闪电贷的手续费和交易的手续费一样，先分出协议费，剩下的按流动性分给 LP
+    function _addFlashFee(
+        bool isToken0,
+        uint256 paid,
+        uint128 _liquidity
+    ) private {
+        if (paid == 0) return;
+        uint128 protocolFee = _protocolFee(isToken0, paid);
+        uint256 feeGrowthDelta = FullMath.mulDiv(
+            paid - protocolFee,
+            FixedPoint128.Q128,
+            _liquidity
+        );
+        if (isToken0) {
+            protocolFees.token0 += protocolFee;
+            feeGrowthGlobal0X128 += feeGrowthDelta;
+        } else {
+            protocolFees.token1 += protocolFee;
+            feeGrowthGlobal1X128 += feeGrowthDelta;
+        }
+    }
+
+    function setFeeProtocol(
+        uint8 feeProtocol0,
+        uint8 feeProtocol1
+    ) external override onlyFactoryOwner {
+        // 和 Uniswap V3 一样，协议最多拿走 1/4，最少拿走 1/10 的手续费
+        require(
+            (feeProtocol0 == 0 || (feeProtocol0 >= 4 && feeProtocol0 <= 10)) &&
+                (feeProtocol1 == 0 ||
+                    (feeProtocol1 >= 4 && feeProtocol1 <= 10)),
+            "Invalid fee protocol"
+        );
+        uint8 feeProtocolOld = feeProtocol;
+        feeProtocol = feeProtocol0 + (feeProtocol1 << 4);
+        emit SetFeeProtocol(
+            feeProtocolOld % 16,
+            feeProtocolOld >> 4,
+            feeProtocol0,
+            feeProtocol1
+        );
+    }
+
+    function collectProtocol(
+        address recipient,
+        uint128 amount0Requested,
+        uint128 amount1Requested
+    )
+        external
+        override
+        lock
+        onlyFactoryOwner
+        returns (uint128 amount0, uint128 amount1)
+    {
+        amount0 = amount0Requested > protocolFees.token0
+            ? protocolFees.token0
+            : amount0Requested;
+        amount1 = amount1Requested > protocolFees.token1
+            ? protocolFees.token1
+            : amount1Requested;
+
+        if (amount0 > 0) {
+            protocolFees.token0 -= amount0;
+            TransferHelper.safeTransfer(token0, recipient, amount0);
+        }
+        if (amount1 > 0) {
+            protocolFees.token1 -= amount1;
+            TransferHelper.safeTransfer(token1, recipient, amount1);
+        }
+
+        emit CollectProtocol(msg.sender, recipient, amount0, amount1);
+    }
 }
@@ -0,0 +1,36 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity ^0.8.24;
+
+import "./interfaces/IFactory.sol";
+import "./interfaces/IPoolDeployer.sol";
+import "./Pool.sol";
+
+// Pool 的 bytecode 很大，直接在 Factory 中 new Pool 会把 Pool 的 initcode 放进 Factory 和 PoolManager 的 runtime bytecode，
+// 超过 24KB 的合约大小限制，所以由 Factory 在构造函数中部署 PoolDeployer，专门负责用 CREATE2 创建 Pool
+// 池子的地址由 PoolDeployer 的地址、salt 和 Pool 的 initcode 决定，见 PoolAddress
+contract PoolDeployer is IPoolDeployer {
+    address public immutable override factory;
+
+    // 编译参数或者 Pool 的代码变化时 initcode 都会变化，所以在部署时计算，而不是写死在 PoolAddress 中
+    bytes32 public immutable override poolInitCodeHash;
+
+    constructor() {
+        factory = msg.sender;
+        poolInitCodeHash = keccak256(type(Pool).creationCode);
+    }
+
+    // Pool 在构造函数中通过 msg.sender 的 parameters 读取参数，这里转发 Factory 中临时保存的参数
+    function parameters()
+        external
+        view
+        override
+        returns (address, address, address, int24, int24, uint24)
+    {
+        return IFactory(factory).parameters();
+    }
+
+    function deploy(bytes32 salt) external override returns (address pool) {
+        require(msg.sender == factory, "Not factory");
+        pool = address(new Pool{ salt: salt }());
+    }
+}
@@ -9,56 +9,96 @@ import "./Factory.sol";
 contract PoolManager is Factory, IPoolManager {
     Pair[] public pairs;
 
+    // 池子地址和它在交易对中的下标，两个字段放在同一个 slot 中
+    struct PoolRef {
+        address pool;
+        uint32 index;
+    }
+
+    // 所有池子按创建顺序排列，分页查询时直接按下标读取，不需要遍历交易对
+    PoolRef[] private _allPools;
+
+    function _onPoolCreated(
+        address token0,
+        address token1,
+        address pool,
+        uint32 index
+    ) internal override {
+        if (index == 0) {
+            pairs.push(Pair({ token0: token0, token1: token1 }));
+        }
+        _allPools.push(PoolRef({ pool: pool, index: index }));
+    }
+
     function getPairs() external view override returns (Pair[] memory) {
         return pairs;
     }
 
+    function _getPoolInfo(
+        address poolAddress,
+        uint32 index
+    ) private view returns (PoolInfo memory) {
+        IPool pool = IPool(poolAddress);
+        return
+            PoolInfo({
+                pool: poolAddress,
+                token0: pool.token0(),
+                token1: pool.token1(),
+                index: index,
+                fee: pool.fee(),
+                feeProtocol: pool.feeProtocol(),
+                tickLower: pool.tickLower(),
+                tickUpper: pool.tickUpper(),
+                tick: pool.tick(),
+                sqrtPriceX96: pool.sqrtPriceX96(),
+                liquidity: pool.liquidity(),
+                paused: globalPaused || poolPaused[poolAddress]
+            });
+    }
+
     function getAllPools()
         external
         view
         override
         returns (PoolInfo[] memory poolsInfo)
     {
-        uint32 length = 0;
-        // 先算一下大小
-        for (uint32 i = 0; i < pairs.length; i++) {
-            length += uint32(pools[pairs[i].token0][pairs[i].token1].length);
+        return getPools(0, type(uint256).max);
+    }
+
+    function getPools(
+        uint256 offset,
+        uint256 limit
+    ) public view override returns (PoolInfo[] memory poolsInfo) {
+        uint256 total = _allPools.length;
+        if (offset >= total) {
+            return new PoolInfo[](0);
         }
+        uint256 length = total - offset < limit ? total - offset : limit;
 
-        // 再填充数据
+        // 只读取这一页的池子，gas 和 limit 成正比，和池子总数无关
         poolsInfo = new PoolInfo[](length);
-
-        uint256 index;
-
-        for (uint32 i = 0; i < pairs.length; i++) {
-            address[] memory addresses = pools[pairs[i].token0][
-                pairs[i].token1
-            ];
-            for (uint32 j = 0; j < addresses.length; j++) {
-                IPool pool = IPool(addresses[j]);
-                poolsInfo[index] = PoolInfo({
-                    pool: addresses[j],
-                    token0: pool.token0(),
-                    token1: pool.token1(),
-                    index: j,
-                    fee: pool.fee(),
-                    feeProtocol: 0,
-                    tickLower: pool.tickLower(),
-                    tickUpper: pool.tickUpper(),
-                    tick: pool.tick(),
-                    sqrtPriceX96: pool.sqrtPriceX96(),
-                    liquidity: pool.liquidity()
-                });
-                index++;
-            }
+        for (uint256 i = 0; i < length; i++) {
+            PoolRef memory ref = _allPools[offset + i];
+            poolsInfo[i] = _getPoolInfo(ref.pool, ref.index);
         }
+    }
+
+    function getPoolsForPair(
+        address tokenA,
+        address tokenB
+    ) external view override returns (PoolInfo[] memory poolsInfo) {
+        (address token0, address token1) = sortToken(tokenA, tokenB);
+        address[] storage addresses = pools[token0][token1];
 
-        return poolsInfo;
+        poolsInfo = new PoolInfo[](addresses.length);
+        for (uint256 i = 0; i < addresses.length; i++) {
+            poolsInfo[i] = _getPoolInfo(addresses[i], uint32(i));
+        }
     }
 
     function createAndInitializePoolIfNecessary(
         CreateAndInitializeParams calldata params
-    ) external payable override returns (address pool) {
+    ) external override returns (address pool) {
         require(
             params.token0 < params.token1,
             "token0 must be less than token1"
@@ -74,17 +114,9 @@ contract PoolManager is Factory, IPoolManager {
 
         IPool pool = IPool(poolAddress);
 
-        uint256 index = pools[params.token0][params.token1].length;
-
-        // 新创建的池子，没有初始化价格，需要初始化价格
+        // 新创建的池子，或者直接通过 createPool 创建的池子，没有初始化价格，需要初始化价格
         if (pool.sqrtPriceX96() == 0) {
             pool.initialize(params.sqrtPriceX96);
-            // 如果是这个交易对的第一个池子，记录一下
-            if (index == 1) {
-                pairs.push(
-                    Pair({ token0: params.token0, token1: params.token1 })
-                );
-            }
         }
     }
 }
@@ -0,0 +1,357 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity ^0.8.24;
+pragma abicoder v2;
+
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "@openzeppelin/contracts/utils/Base64.sol";
+import "@openzeppelin/contracts/utils/Strings.sol";
+
+import "./libraries/FullMath.sol";
+import "./libraries/TickMath.sol";
+
+import "./interfaces/IPositionDescriptor.sol";
+import "./interfaces/IPositionManager.sol";
+import "./interfaces/IPoolManager.sol";
+import "./interfaces/IPool.sol";
+
+// 拼接 JSON 和 SVG 的代码比较大，和 PoolDeployer 一样单独放在一个合约中，由 PositionManager 在构造函数中部署
+contract PositionDescriptor is IPositionDescriptor {
+    using Strings for uint256;
+
+    address public immutable override positionManager;
+    address public immutable override poolManager;
+
+    constructor(address _poolManager) {
+        positionManager = msg.sender;
+        poolManager = _poolManager;
+    }
+
+    // 生成元数据需要的全部信息，避免 stack too deep
+    struct TokenData {
+        IPositionManager.PositionInfo position;
+        // 原始的 symbol，拼接 JSON 时用 Strings.escapeJSON 转义，拼接 SVG 时用 _escapeXML 转义
+        string symbol0;
+        string symbol1;
+        string feeTier;
+        // 以 token1/token0 计价的价格区间，已经按 decimals 换算
+        string priceLower;
+        string priceUpper;
+        int24 tick;
+        bool inRange;
+    }
+
+    function tokenURI(
+        uint256 positionId
+    ) external view override returns (string memory) {
+        TokenData memory data = _getTokenData(positionId);
+        string memory json = string.concat(
+            '{"name":"',
+            _name(data),
+            '","description":"',
+            _description(data)
+        );
+        json = string.concat(
+            json,
+            '","image":"data:image/svg+xml;base64,',
+            Base64.encode(bytes(_svg(data))),
+            '","attributes":',
+            _attributes(data),
+            "}"
+        );
+        return
+            string.concat(
+                "data:application/json;base64,",
+                Base64.encode(bytes(json))
+            );
+    }
+
+    function _getTokenData(
+        uint256 positionId
+    ) private view returns (TokenData memory data) {
+        data.position = IPositionManager(positionManager).getPositionInfo(
+            positionId
+        );
+        data.symbol0 = _symbol(data.position.token0);
+        data.symbol1 = _symbol(data.position.token1);
+        data.feeTier = _formatFee(data.position.fee);
+
+        uint8 decimals0 = _decimals(data.position.token0);
+        uint8 decimals1 = _decimals(data.position.token1);
+        data.priceLower = _formatPrice(
+            data.position.tickLower,
+            decimals0,
+            decimals1
+        );
+        data.priceUpper = _formatPrice(
+            data.position.tickUpper,
+            decimals0,
+            decimals1
+        );
+
+        data.tick = IPool(
+            IPoolManager(poolManager).getPool(
+                data.position.token0,
+                data.position.token1,
+                data.position.index
+            )
+        ).tick();
+        data.inRange =
+            data.tick >= data.position.tickLower &&
+            data.tick < data.position.tickUpper;
+    }
+
+    // 例如 "WTFSwap - 0.3% - TKA/TKB - 1<>40000"
+    function _name(TokenData memory data) private pure returns (string memory) {
+        return
+            string.concat(
+                "WTFSwap - ",
+                data.feeTier,
+                " - ",
+                Strings.escapeJSON(data.symbol0),
+                "/",
+                Strings.escapeJSON(data.symbol1),
+                " - ",
+                data.priceLower,
+                "<>",
+                data.priceUpper
+            );
+    }
+
+    function _description(
+        TokenData memory data
+    ) private pure returns (string memory) {
+        return
+            string.concat(
+                "This NFT represents a liquidity position in a WTFSwap ",
+                Strings.escapeJSON(data.symbol0),
+                "-",
+                Strings.escapeJSON(data.symbol1),
+                " pool. The owner of this NFT can modify or redeem the position.\\n\\nPool Index: ",
+                uint256(data.position.index).toString(),
+                "\\nFee Tier: ",
+                data.feeTier,
+                "\\nToken ID: ",
+                data.position.id.toString()
+            );
+    }
+
+    // string.concat 参数太多会 stack too deep，所以分段拼接
+    function _attributes(
+        TokenData memory data
+    ) private pure returns (string memory attributes) {
+        attributes = string.concat(
+            '[{"trait_type":"Token0","value":"',
+            Strings.escapeJSON(data.symbol0),
+            '"},{"trait_type":"Token1","value":"',
+            Strings.escapeJSON(data.symbol1),
+            '"},{"trait_type":"Fee Tier","value":"',
+            data.feeTier
+        );
+        attributes = string.concat(
+            attributes,
+            '"},{"trait_type":"Tick Lower","value":',
+            Strings.toStringSigned(data.position.tickLower),
+            '},{"trait_type":"Tick Upper","value":',
+            Strings.toStringSigned(data.position.tickUpper)
+        );
+        attributes = string.concat(
+            attributes,
+            '},{"trait_type":"Price Lower","value":"',
+            data.priceLower,
+            '"},{"trait_type":"Price Upper","value":"',
+            data.priceUpper
+        );
+        // liquidity 和 tokensOwed 可能超过 JSON 数字的精度，用字符串表示
+        attributes = string.concat(
+            attributes,
+            '"},{"trait_type":"Liquidity","value":"',
+            uint256(data.position.liquidity).toString(),
+            '"},{"trait_type":"Tokens Owed0","value":"',
+            uint256(data.position.tokensOwed0).toString()
+        );
+        attributes = string.concat(
+            attributes,
+            '"},{"trait_type":"Tokens Owed1","value":"',
+            uint256(data.position.tokensOwed1).toString(),
+            '"},{"trait_type":"In Range","value":"',
+            data.inRange ? "Yes" : "No",
+            '"}]'
+        );
+    }
+
+    function _svg(
+        TokenData memory data
+    ) private pure returns (string memory svg) {
+        string memory symbol0 = _escapeXML(data.symbol0);
+        string memory symbol1 = _escapeXML(data.symbol1);
+        svg = string.concat(
+            '<svg xmlns="http://www.w3.org/2000/svg" width="290" height="500" viewBox="0 0 290 500">',
+            '<rect width="290" height="500" rx="42" fill="#0d0e12"/>',
+            '<g font-family="monospace" fill="#fff"><text x="30" y="60" font-size="26">',
+            symbol0,
+            "/",
+            symbol1
+        );
+        svg = string.concat(
+            svg,
+            '</text><text x="30" y="95" font-size="18">',
+            data.feeTier,
+            '</text><text x="30" y="160" font-size="14">ID: ',
+            data.position.id.toString()
+        );
+        svg = string.concat(
+            svg,
+            '</text><text x="30" y="190" font-size="14">Min: ',
+            data.priceLower,
+            '</text><text x="30" y="220" font-size="14">Max: ',
+            data.priceUpper,
+            '</text><text x="30" y="250" font-size="14">Liquidity: ',
+            uint256(data.position.liquidity).toString()
+        );
+        svg = string.concat(
+            svg,
+            '</text><text x="30" y="280" font-size="14">Owed ',
+            symbol0,
+            ": ",
+            uint256(data.position.tokensOwed0).toString()
+        );
+        svg = string.concat(
+            svg,
+            '</text><text x="30" y="310" font-size="14">Owed ',
+            symbol1,
+            ": ",
+            uint256(data.position.tokensOwed1).toString(),
+            "</text>"
+        );
+        svg = string.concat(
+            svg,
+            data.inRange
+                ? '<text x="30" y="460" font-size="14" fill="#4caf50">In range</text>'
+                : '<text x="30" y="460" font-size="14" fill="#ff9800">Out of range</text>',
+            "</g></svg>"
+        );
+    }
+
+    // symbol 不是标准方法，调用失败时使用 token 地址
+    function _symbol(address token) private view returns (string memory) {
+        try IERC20Metadata(token).symbol() returns (string memory symbol) {
+            return symbol;
+        } catch {
+            return Strings.toHexString(token);
+        }
+    }
+
+    // decimals 调用失败时按 18 位计算
+    function _decimals(address token) private view returns (uint8) {
+        try IERC20Metadata(token).decimals() returns (uint8 decimals) {
+            return decimals;
+        } catch {
+            return 18;
+        }
+    }
+
+    // fee 以 1,000,000 为基底，3000 显示为 0.3%
+    function _formatFee(uint24 fee) private pure returns (string memory) {
+        return string.concat(_formatDecimal(fee, 4, 4), "%");
+    }
+
+    // tick 对应的 token1/token0 价格，大于 1 时保留 4 位小数，小于 1 时保留 4 位有效数字
+    function _formatPrice(
+        int24 tick,
+        uint8 decimals0,
+        uint8 decimals1
+    ) private pure returns (string memory) {
+        uint160 sqrtPriceX96 = TickMath.getSqrtPriceAtTick(tick);
+        // 先除以 2^64 避免 sqrtPriceX96 的平方溢出，同时保留小价格的精度
+        uint256 priceX128 = FullMath.mulDiv(
+            sqrtPriceX96,
+            sqrtPriceX96,
+            1 << 64
+        );
+        // 价格放大 10^18 后的整数
+        uint256 priceE18 = _scalePrice(
+            priceX128,
+            18 + int256(uint256(decimals0)) - int256(uint256(decimals1))
+        );
+
+        uint256 precision = 4;
+        if (priceE18 > 0 && priceE18 < 1e18) {
+            for (uint256 value = priceE18 * 10; value < 1e18; value *= 10) {
+                precision++;
+            }
+        }
+        return _formatDecimal(priceE18, 18, precision > 18 ? 18 : precision);
+    }
+
+    // 计算 priceX128 / 2^128 * 10^exponent，decimals 相差很大时 10 的幂会溢出，所以分步计算：
+    // 结果小于 1 时为 0，超过 uint256 时取 uint256 的最大值
+    function _scalePrice(
+        uint256 priceX128,
+        int256 exponent
+    ) private pure returns (uint256) {
+        // priceX128 < 2^256 < 2^128 * 10^39
+        if (exponent < -38) {
+            return 0;
+        }
+        if (exponent < 0) {
+            return
+                FullMath.mulDiv(
+                    priceX128,
+                    1,
+                    (1 << 128) * 10 ** uint256(-exponent)
+                );
+        }
+        // 10^38 < 2^128，这一步不会溢出
+        uint256 step = exponent > 38 ? 38 : uint256(exponent);
+        uint256 price = FullMath.mulDiv(priceX128, 10 ** step, 1 << 128);
+        uint256 rest = uint256(exponent) - step;
+        if (rest == 0 || price == 0) {
+            return price;
+        }
+        if (rest > 77 || price > type(uint256).max / 10 ** rest) {
+            return type(uint256).max;
+        }
+        return price * 10 ** rest;
+    }
+
+    // 把 value / 10^decimals 格式化为小数，最多保留 precision 位小数，去掉末尾的 0
+    function _formatDecimal(
+        uint256 value,
+        uint256 decimals,
+        uint256 precision
+    ) private pure returns (string memory) {
+        uint256 unit = 10 ** decimals;
+        uint256 fraction = (value % unit) / 10 ** (decimals - precision);
+        if (fraction == 0) {
+            return (value / unit).toString();
+        }
+        while (fraction % 10 == 0) {
+            fraction /= 10;
+            precision--;
+        }
+        string memory fractionString = fraction.toString();
+        // 补上小数部分开头的 0
+        while (bytes(fractionString).length < precision) {
+            fractionString = string.concat("0", fractionString);
+        }
+        return string.concat((value / unit).toString(), ".", fractionString);
+    }
+
+    function _escapeXML(
+        string memory input
+    ) private pure returns (string memory output) {
+        bytes memory buffer = bytes(input);
+        for (uint256 i = 0; i < buffer.length; i++) {
+            bytes1 char = buffer[i];
+            if (char == "<") {
+                output = string.concat(output, "&lt;");
+            } else if (char == ">") {
+                output = string.concat(output, "&gt;");
+            } else if (char == "&") {
+                output = string.concat(output, "&amp;");
+            } else {
+                output = string.concat(output, string(abi.encodePacked(char)));
+            }
+        }
+    }
+}
@@ -2,26 +2,58 @@
 pragma solidity ^0.8.24;
 pragma abicoder v2;
 
-import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import "@openzeppelin/contracts/token/ERC721/extensions/ERC721Enumerable.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 
 import "./libraries/LiquidityAmounts.sol";
 import "./libraries/TickMath.sol";
 import "./libraries/FixedPoint128.sol";
 
+import "./base/PeripheryPayments.sol";
+import "./base/Multicall.sol";
+import "./base/SelfPermit.sol";
+import "./base/PeripheryPoolAddress.sol";
+import "./PositionDescriptor.sol";
+
 import "./interfaces/IPositionManager.sol";
 import "./interfaces/IPool.sol";
 import "./interfaces/IPoolManager.sol";
 
-contract PositionManager is IPositionManager, ERC721 {
+contract PositionManager is
+    IPositionManager,
+    ERC721Enumerable,
+    PeripheryPayments,
+    Multicall,
+    SelfPermit,
+    PeripheryPoolAddress
+{
     // 保存 PoolManager 合约地址
     IPoolManager public poolManager;
 
+    // 生成 tokenURI 的合约，在构造函数中部署
+    IPositionDescriptor public immutable override descriptor;
+
     /// @dev The ID of the next token that will be minted. Skips 0
     uint176 private _nextId = 1;
 
-    constructor(address _poolManger) ERC721("WTFSwapPosition", "WTFP") {
+    constructor(
+        address _poolManger,
+        address _WETH9
+    )
+        ERC721("WTFSwapPosition", "WTFP")
+        PeripheryPayments(_WETH9)
+        PeripheryPoolAddress(_poolManger)
+    {
         poolManager = IPoolManager(_poolManger);
+        descriptor = new PositionDescriptor(_poolManger);
+    }
+
+    // 元数据完全在链上生成，返回 data URI
+    function tokenURI(
+        uint256 tokenId
+    ) public view override returns (string memory) {
+        _requireOwned(tokenId);
+        return descriptor.tokenURI(tokenId);
     }
 
     // 用一个 mapping 来存放所有 Position 的信息
@@ -41,6 +73,42 @@ contract PositionManager is IPositionManager, ERC721 {
         return positionInfo;
     }
 
+    function getPositionInfo(
+        uint256 positionId
+    ) external view override returns (PositionInfo memory positionInfo) {
+        positionInfo = positions[positionId];
+        require(positionInfo.id != 0, "Invalid position");
+    }
+
+    function getPositionsByOwner(
+        address owner,
+        uint256 offset,
+        uint256 limit
+    ) external view override returns (PositionInfo[] memory positionInfo) {
+        uint256 total = balanceOf(owner);
+        if (offset >= total) {
+            return new PositionInfo[](0);
+        }
+        uint256 length = total - offset < limit ? total - offset : limit;
+
+        positionInfo = new PositionInfo[](length);
+        for (uint256 i = 0; i < length; i++) {
+            positionInfo[i] = positions[tokenOfOwnerByIndex(owner, offset + i)];
+        }
+    }
+
+    // NFT 转移时同步更新 PositionInfo 中的 owner，销毁时保留最后的持有者
+    function _update(
+        address to,
+        uint256 tokenId,
+        address auth
+    ) internal override returns (address from) {
+        from = super._update(to, tokenId, auth);
+        if (to != address(0)) {
+            positions[tokenId].owner = to;
+        }
+    }
+
     function getSender() public view returns (address) {
         return msg.sender;
     }
@@ -54,33 +122,35 @@ contract PositionManager is IPositionManager, ERC721 {
         _;
     }
 
-    function mint(
-        MintParams calldata params
+    struct AddLiquidityParams {
+        address token0;
+        address token1;
+        uint32 index;
+        uint256 amount0Desired;
+        uint256 amount1Desired;
+        uint256 amount0Min;
+        uint256 amount1Min;
+    }
+
+    // mint 和 increaseLiquidity 共用的注入流动性逻辑，token 从 msg.sender 转入
+    function _addLiquidity(
+        AddLiquidityParams memory params
     )
-        external
-        payable
-        override
-        checkDeadline(params.deadline)
+        private
         returns (
-            uint256 positionId,
             uint128 liquidity,
             uint256 amount0,
-            uint256 amount1
+            uint256 amount1,
+            IPool pool
         )
     {
-        // mint 一个 NFT 作为 position 发给 LP
-        // NFT 的 tokenId 就是 positionId
-        // 通过 MintParams 里面的 token0 和 token1 以及 index 获取对应的 Pool
+        // 通过 token0 和 token1 以及 index 获取对应的 Pool
         // 调用 poolManager 的 getPool 方法获取 Pool 地址
-        address _pool = poolManager.getPool(
-            params.token0,
-            params.token1,
-            params.index
+        pool = IPool(
+            poolManager.getPool(params.token0, params.token1, params.index)
         );
-        IPool pool = IPool(_pool);
 
         // 通过获取 pool 相关信息，结合 params.amount0Desired 和 params.amount1Desired 计算这次要注入的流动性
-
         uint160 sqrtPriceX96 = pool.sqrtPriceX96();
         uint160 sqrtRatioAX96 = TickMath.getSqrtPriceAtTick(pool.tickLower());
         uint160 sqrtRatioBX96 = TickMath.getSqrtPriceAtTick(pool.tickUpper());
@@ -94,16 +164,98 @@ contract PositionManager is IPositionManager, ERC721 {
         );
 
         // data 是 mint 后回调 PositionManager 会额外带的数据
-        // 需要 PoistionManger 实现回调，在回调中给 Pool 打钱
+        // 需要 PoistionManger 实现回调，在回调中通过 PoolKey 算出 Pool 地址校验调用方，然后给 Pool 打钱
         bytes memory data = abi.encode(
-            params.token0,
-            params.token1,
-            params.index,
+            PoolAddress.getPoolKey(
+                params.token0,
+                params.token1,
+                pool.tickLower(),
+                pool.tickUpper(),
+                pool.fee()
+            ),
             msg.sender
         );
 
         (amount0, amount1) = pool.mint(address(this), liquidity, data);
 
+        require(
+            amount0 >= params.amount0Min && amount1 >= params.amount1Min,
+            "Price slippage check"
+        );
+    }
+
+    function _getPool(
+        PositionInfo storage position
+    ) private view returns (IPool) {
+        return
+            IPool(
+                poolManager.getPool(
+                    position.token0,
+                    position.token1,
+                    position.index
+                )
+            );
+    }
+
+    // 把 position 从上次更新到现在产生的手续费计入 tokensOwed
+    // 调用前需要先通过 Pool 的 mint 或 burn 更新 PositionManager 在 Pool 中的 position，这样读到的 feeGrowthInside 才是最新的
+    function _updateFees(PositionInfo storage position, IPool pool) private {
+        (
+            ,
+            uint256 feeGrowthInside0LastX128,
+            uint256 feeGrowthInside1LastX128,
+            ,
+
+        ) = pool.getPosition(address(this));
+
+        position.tokensOwed0 += uint128(
+            FullMath.mulDiv(
+                feeGrowthInside0LastX128 - position.feeGrowthInside0LastX128,
+                position.liquidity,
+                FixedPoint128.Q128
+            )
+        );
+        position.tokensOwed1 += uint128(
+            FullMath.mulDiv(
+                feeGrowthInside1LastX128 - position.feeGrowthInside1LastX128,
+                position.liquidity,
+                FixedPoint128.Q128
+            )
+        );
+
+        position.feeGrowthInside0LastX128 = feeGrowthInside0LastX128;
+        position.feeGrowthInside1LastX128 = feeGrowthInside1LastX128;
+    }
+
+    function mint(
+        MintParams calldata params
+    )
+        external
+        payable
+        override
+        checkDeadline(params.deadline)
+        returns (
+            uint256 positionId,
+            uint128 liquidity,
+            uint256 amount0,
+            uint256 amount1
+        )
+    {
+        // mint 一个 NFT 作为 position 发给 LP
+        // NFT 的 tokenId 就是 positionId
+        IPool pool;
+        (liquidity, amount0, amount1, pool) = _addLiquidity(
+            AddLiquidityParams({
+                token0: params.token0,
+                token1: params.token1,
+                index: params.index,
+                amount0Desired: params.amount0Desired,
+                amount1Desired: params.amount1Desired,
+                amount0Min: params.amount0Min,
+                amount1Min: params.amount1Min
+            })
+        );
+
         _mint(params.recipient, (positionId = _nextId++));
 
         (
@@ -129,6 +281,8 @@ contract PositionManager is IPositionManager, ERC721 {
             feeGrowthInside0LastX128: feeGrowthInside0LastX128,
             feeGrowthInside1LastX128: feeGrowthInside1LastX128
         });
+
+        emit IncreaseLiquidity(positionId, liquidity, amount0, amount1);
     }
 
     modifier isAuthorizedForToken(uint256 tokenId) {
@@ -137,92 +291,129 @@ contract PositionManager is IPositionManager, ERC721 {
         _;
     }
 
-    function burn(
-        uint256 positionId
+    function increaseLiquidity(
+        IncreaseLiquidityParams calldata params
     )
         external
+        payable
         override
-        isAuthorizedForToken(positionId)
-        returns (uint256 amount0, uint256 amount1)
+        checkDeadline(params.deadline)
+        returns (uint128 liquidity, uint256 amount0, uint256 amount1)
     {
-        PositionInfo storage position = positions[positionId];
-        // 通过 isAuthorizedForToken 检查 positionId 是否有权限
-        // 移除流动性，但是 token 还是保留在 pool 中，需要再调用 collect 方法才能取回 token
-        // 通过 positionId 获取对应 LP 的流动性
-        uint128 _liquidity = position.liquidity;
-        // 调用 Pool 的方法给 LP 退流动性
-        address _pool = poolManager.getPool(
-            position.token0,
-            position.token1,
-            position.index
+        // 和 Uniswap V3 一样，任何人都可以给已有的 position 增加流动性，但是 position 必须存在
+        ERC721.ownerOf(params.tokenId);
+        PositionInfo storage position = positions[params.tokenId];
+
+        IPool pool;
+        (liquidity, amount0, amount1, pool) = _addLiquidity(
+            AddLiquidityParams({
+                token0: position.token0,
+                token1: position.token1,
+                index: position.index,
+                amount0Desired: params.amount0Desired,
+                amount1Desired: params.amount1Desired,
+                amount0Min: params.amount0Min,
+                amount1Min: params.amount1Min
+            })
         );
-        IPool pool = IPool(_pool);
-        (amount0, amount1) = pool.burn(_liquidity);
 
-        // 计算这部分流动性产生的手续费
-        (
-            ,
-            uint256 feeGrowthInside0LastX128,
-            uint256 feeGrowthInside1LastX128,
-            ,
+        // 先按原来的流动性结算手续费，再增加流动性
+        _updateFees(position, pool);
+        position.liquidity += liquidity;
 
-        ) = pool.getPosition(address(this));
+        emit IncreaseLiquidity(params.tokenId, liquidity, amount0, amount1);
+    }
 
-        position.tokensOwed0 +=
-            uint128(amount0) +
-            uint128(
-                FullMath.mulDiv(
-                    feeGrowthInside0LastX128 -
-                        position.feeGrowthInside0LastX128,
-                    position.liquidity,
-                    FixedPoint128.Q128
-                )
-            );
+    function decreaseLiquidity(
+        DecreaseLiquidityParams calldata params
+    )
+        external
+        payable
+        override
+        isAuthorizedForToken(params.tokenId)
+        checkDeadline(params.deadline)
+        returns (uint256 amount0, uint256 amount1)
+    {
+        // 通过 isAuthorizedForToken 检查 tokenId 是否有权限
+        // 移除流动性，但是 token 还是保留在 pool 中，需要再调用 collect 方法才能取回 token
+        PositionInfo storage position = positions[params.tokenId];
+        require(
+            params.liquidity > 0 && params.liquidity <= position.liquidity,
+            "Invalid liquidity"
+        );
 
-        position.tokensOwed1 +=
-            uint128(amount1) +
-            uint128(
-                FullMath.mulDiv(
-                    feeGrowthInside1LastX128 -
-                        position.feeGrowthInside1LastX128,
-                    position.liquidity,
-                    FixedPoint128.Q128
-                )
-            );
+        // 调用 Pool 的方法给 LP 退流动性
+        IPool pool = _getPool(position);
+        (amount0, amount1) = pool.burn(params.liquidity);
+        require(
+            amount0 >= params.amount0Min && amount1 >= params.amount1Min,
+            "Price slippage check"
+        );
 
-        // 更新 position 的信息
-        position.feeGrowthInside0LastX128 = feeGrowthInside0LastX128;
-        position.feeGrowthInside1LastX128 = feeGrowthInside1LastX128;
-        position.liquidity = 0;
+        // 先按原来的流动性结算手续费，再把退出的本金计入 tokensOwed
+        _updateFees(position, pool);
+        position.tokensOwed0 += uint128(amount0);
+        position.tokensOwed1 += uint128(amount1);
+        position.liquidity -= params.liquidity;
+
+        emit DecreaseLiquidity(
+            params.tokenId,
+            params.liquidity,
+            amount0,
+            amount1
+        );
     }
 
     function collect(
-        uint256 positionId,
-        address recipient
+        CollectParams calldata params
     )
         external
+        payable
         override
-        isAuthorizedForToken(positionId)
+        isAuthorizedForToken(params.tokenId)
         returns (uint256 amount0, uint256 amount1)
     {
-        // 通过 isAuthorizedForToken 检查 positionId 是否有权限
-        // 调用 Pool 的方法给 LP 退流动性
-        PositionInfo storage position = positions[positionId];
-        address _pool = poolManager.getPool(
-            position.token0,
-            position.token1,
-            position.index
-        );
-        IPool pool = IPool(_pool);
+        // 通过 isAuthorizedForToken 检查 tokenId 是否有权限
+        PositionInfo storage position = positions[params.tokenId];
+        IPool pool = _getPool(position);
+
+        // 还有流动性时，通过 burn(0) 让 Pool 结算 PositionManager 的手续费，再计入这个 position
+        if (position.liquidity > 0) {
+            pool.burn(0);
+            _updateFees(position, pool);
+        }
+
+        uint128 amount0Collect = params.amount0Max > position.tokensOwed0
+            ? position.tokensOwed0
+            : params.amount0Max;
+        uint128 amount1Collect = params.amount1Max > position.tokensOwed1
+            ? position.tokensOwed1
+            : params.amount1Max;
+
+        // 调用 Pool 的方法把 token 转给 recipient
         (amount0, amount1) = pool.collect(
-            recipient,
-            position.tokensOwed0,
-            position.tokensOwed1
+            params.recipient,
+            amount0Collect,
+            amount1Collect
         );
 
-        // position 已经彻底没用了，销毁
-        position.tokensOwed0 = 0;
-        position.tokensOwed1 = 0;
+        position.tokensOwed0 -= amount0Collect;
+        position.tokensOwed1 -= amount1Collect;
+
+        emit Collect(params.tokenId, params.recipient, amount0, amount1);
+    }
+
+    function burn(
+        uint256 positionId
+    ) external payable override isAuthorizedForToken(positionId) {
+        // 只有流动性和 tokensOwed 都已经取完了才能销毁，避免 LP 丢失资产
+        PositionInfo storage position = positions[positionId];
+        require(
+            position.liquidity == 0 &&
+                position.tokensOwed0 == 0 &&
+                position.tokensOwed1 == 0,
+            "Not cleared"
+        );
         _burn(positionId);
     }
 
@@ -232,17 +423,19 @@ contract PositionManager is IPositionManager, ERC721 {
         bytes calldata data
     ) external override {
         // 检查 callback 的合约地址是否是 Pool
-        (address token0, address token1, uint32 index, address payer) = abi
-            .decode(data, (address, address, uint32, address));
-        address _pool = poolManager.getPool(token0, token1, index);
-        require(_pool == msg.sender, "Invalid callback caller");
+        (PoolAddress.PoolKey memory key, address payer) = abi.decode(
+            data,
+            (PoolAddress.PoolKey, address)
+        );
+        _verifyCallback(key);
 
         // 在这里给 Pool 打钱，需要用户先 approve 足够的金额，这里才会成功
+        // 其中一个 token 是 WETH9 时，也可以在调用 mint 时附带 ETH 支付
         if (amount0 > 0) {
-            IERC20(token0).transferFrom(payer, msg.sender, amount0);
+            _pay(key.token0, payer, msg.sender, amount0);
         }
         if (amount1 > 0) {
-            IERC20(token1).transferFrom(payer, msg.sender, amount1);
+            _pay(key.token1, payer, msg.sender, amount1);
         }
     }
 }
@@ -1,4 +1,399 @@
 // SPDX-License-Identifier: GPL-2.0-or-later
 pragma solidity ^0.8.24;
+pragma abicoder v2;
 
-contract SwapRouter {}
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
+import "./libraries/TickMath.sol";
+
+import "./base/PeripheryPayments.sol";
+import "./base/Multicall.sol";
+import "./base/SelfPermit.sol";
+import "./base/PeripheryPoolAddress.sol";
+
+import "./interfaces/ISwapRouter.sol";
+import "./interfaces/IPool.sol";
+import "./interfaces/IPoolManager.sol";
+
+contract SwapRouter is
+    ISwapRouter,
+    PeripheryPayments,
+    Multicall,
+    SelfPermit,
+    PeripheryPoolAddress
+{
+    // 保存 PoolManager 合约地址
+    IPoolManager public poolManager;
+
+    // 报价时 swapCallback 通过这个错误把交易数量带出来，用专门的 selector 区分其它 revert
+    error QuoteResult(int256 amount0, int256 amount1);
+
+    constructor(
+        address _poolManager,
+        address _WETH9
+    ) PeripheryPayments(_WETH9) PeripheryPoolAddress(_poolManager) {
+        poolManager = IPoolManager(_poolManager);
+    }
+
+    function _blockTimestamp() internal view virtual returns (uint256) {
+        return block.timestamp;
+    }
+
+    modifier checkDeadline(uint256 deadline) {
+        require(_blockTimestamp() <= deadline, "Transaction too old");
+        _;
+    }
+
+    // 一次路由交易中需要临时存储的变量
+    struct SwapContext {
+        address tokenIn;
+        address tokenOut;
+        address recipient;
+        // 支付 tokenIn 的地址，address(0) 代表这是一次报价（quote），不会真正转账
+        address payer;
+        bool zeroForOne;
+        uint160 sqrtPriceLimitX96;
+    }
+
+    // swapCallback 的 data，tickLower、tickUpper 和 fee 加上 token 可以确定 Pool 的地址
+    struct SwapCallbackData {
+        address tokenIn;
+        address tokenOut;
+        int24 tickLower;
+        int24 tickUpper;
+        uint24 fee;
+        address payer;
+    }
+
+    /// @dev 解析报价时 swapCallback 抛出的 QuoteResult，其它 revert 原样抛出去
+    function parseRevertReason(
+        bytes memory reason
+    ) private pure returns (int256, int256) {
+        if (reason.length != 68 || bytes4(reason) != QuoteResult.selector) {
+            assembly {
+                revert(add(reason, 0x20), mload(reason))
+            }
+        }
+        // 跳过 4 字节的 selector 再解码
+        int256 amount0;
+        int256 amount1;
+        assembly {
+            amount0 := mload(add(reason, 0x24))
+            amount1 := mload(add(reason, 0x44))
+        }
+        return (amount0, amount1);
+    }
+
+    /// @dev 报价时在单个 Pool 中交易，捕获回调中的 revert 并解析出交易数量
+    /// 只能由 SwapRouter 自己调用，这样才能用 try/catch 包住 pool.swap
+    function swapInPool(
+        IPool pool,
+        address recipient,
+        bool zeroForOne,
+        int256 amountSpecified,
+        uint160 sqrtPriceLimitX96,
+        bytes calldata data
+    ) external returns (int256 amount0, int256 amount1) {
+        require(msg.sender == address(this), "Only self");
+        try
+            pool.swap(
+                recipient,
+                zeroForOne,
+                amountSpecified,
+                sqrtPriceLimitX96,
+                data
+            )
+        returns (int256 _amount0, int256 _amount1) {
+            return (_amount0, _amount1);
+        } catch (bytes memory reason) {
+            return parseRevertReason(reason);
+        }
+    }
+
+    /// @dev sqrtPriceLimitX96 为 0 时代表不限制价格，取允许的最大范围
+    function _priceLimit(
+        bool zeroForOne,
+        uint160 sqrtPriceLimitX96
+    ) private pure returns (uint160) {
+        if (sqrtPriceLimitX96 != 0) {
+            return sqrtPriceLimitX96;
+        }
+        return
+            zeroForOne
+                ? TickMath.MIN_SQRT_PRICE + 1
+                : TickMath.MAX_SQRT_PRICE - 1;
+    }
+
+    /// @dev 判断 Pool 是否还能在价格限制内成交，没有流动性、被暂停或者价格已经越过限制的 Pool 会被跳过
+    function _canSwap(
+        IPool pool,
+        bool zeroForOne,
+        uint160 sqrtPriceLimitX96
+    ) private view returns (bool) {
+        if (pool.liquidity() == 0 || poolManager.isPaused(address(pool))) {
+            return false;
+        }
+        uint160 sqrtPriceX96 = pool.sqrtPriceX96();
+        return
+            zeroForOne
+                ? sqrtPriceX96 > sqrtPriceLimitX96
+                : sqrtPriceX96 < sqrtPriceLimitX96;
+    }
+
+    /// @dev 在 indexPath 中的某一个 Pool 里交易，Pool 不可交易时返回 (0, 0)
+    function _swap(
+        SwapContext memory ctx,
+        uint32 index,
+        int256 amountSpecified
+    ) private returns (int256 amount0, int256 amount1) {
+        address poolAddress = poolManager.getPool(
+            ctx.tokenIn,
+            ctx.tokenOut,
+            index
+        );
+        require(poolAddress != address(0), "Pool not found");
+        IPool pool = IPool(poolAddress);
+        if (!_canSwap(pool, ctx.zeroForOne, ctx.sqrtPriceLimitX96)) {
+            return (0, 0);
+        }
+
+        // swapCallback 需要的参数，用来算出 Pool 地址校验调用方和给 Pool 打钱
+        bytes memory data = abi.encode(
+            SwapCallbackData({
+                tokenIn: ctx.tokenIn,
+                tokenOut: ctx.tokenOut,
+                tickLower: pool.tickLower(),
+                tickUpper: pool.tickUpper(),
+                fee: pool.fee(),
+                payer: ctx.payer
+            })
+        );
+
+        // 只有报价需要捕获 revert，真正的交易直接调用 Pool，出错时原样 revert
+        if (ctx.payer == address(0)) {
+            (amount0, amount1) = this.swapInPool(
+                pool,
+                ctx.recipient,
+                ctx.zeroForOne,
+                amountSpecified,
+                ctx.sqrtPriceLimitX96,
+                data
+            );
+        } else {
+            (amount0, amount1) = pool.swap(
+                ctx.recipient,
+                ctx.zeroForOne,
+                amountSpecified,
+                ctx.sqrtPriceLimitX96,
+                data
+            );
+        }
+    }
+
+    function _exactInput(
+        SwapContext memory ctx,
+        uint32[] calldata indexPath,
+        uint256 amountIn
+    ) private returns (uint256 amountInRemaining, uint256 amountOut) {
+        amountInRemaining = amountIn;
+
+        // 按 indexPath 的顺序依次在每个 Pool 中交易，直到 amountIn 全部用完
+        for (uint256 i = 0; i < indexPath.length; i++) {
+            (int256 amount0, int256 amount1) = _swap(
+                ctx,
+                indexPath[i],
+                int256(amountInRemaining)
+            );
+
+            // 更新剩余的输入和累计的输出
+            amountInRemaining -= uint256(ctx.zeroForOne ? amount0 : amount1);
+            amountOut += uint256(ctx.zeroForOne ? -amount1 : -amount0);
+
+            if (amountInRemaining == 0) {
+                break;
+            }
+        }
+    }
+
+    function _exactOutput(
+        SwapContext memory ctx,
+        uint32[] calldata indexPath,
+        uint256 amountOut
+    ) private returns (uint256 amountOutRemaining, uint256 amountIn) {
+        amountOutRemaining = amountOut;
+
+        // 按 indexPath 的顺序依次在每个 Pool 中交易，直到换出足够的 amountOut
+        for (uint256 i = 0; i < indexPath.length; i++) {
+            // amountSpecified 小于 0 代表指定输出数量
+            (int256 amount0, int256 amount1) = _swap(
+                ctx,
+                indexPath[i],
+                -int256(amountOutRemaining)
+            );
+
+            amountOutRemaining -= uint256(ctx.zeroForOne ? -amount1 : -amount0);
+            amountIn += uint256(ctx.zeroForOne ? amount0 : amount1);
+
+            if (amountOutRemaining == 0) {
+                break;
+            }
+        }
+    }
+
+    function exactInput(
+        ExactInputParams calldata params
+    )
+        external
+        payable
+        override
+        checkDeadline(params.deadline)
+        returns (uint256 amountOut)
+    {
+        bool zeroForOne = params.tokenIn < params.tokenOut;
+        uint256 amountInRemaining;
+        (amountInRemaining, amountOut) = _exactInput(
+            SwapContext({
+                tokenIn: params.tokenIn,
+                tokenOut: params.tokenOut,
+                recipient: params.recipient,
+                payer: msg.sender,
+                zeroForOne: zeroForOne,
+                sqrtPriceLimitX96: _priceLimit(
+                    zeroForOne,
+                    params.sqrtPriceLimitX96
+                )
+            }),
+            params.indexPath,
+            params.amountIn
+        );
+
+        // 换出的数量少于用户指定的最少数量，说明滑点过大
+        require(amountOut >= params.amountOutMinimum, "Slippage exceeded");
+
+        emit Swap(
+            msg.sender,
+            zeroForOne,
+            params.amountIn - amountInRemaining,
+            amountOut,
+            amountInRemaining
+        );
+    }
+
+    function exactOutput(
+        ExactOutputParams calldata params
+    )
+        external
+        payable
+        override
+        checkDeadline(params.deadline)
+        returns (uint256 amountIn)
+    {
+        bool zeroForOne = params.tokenIn < params.tokenOut;
+        uint256 amountOutRemaining;
+        (amountOutRemaining, amountIn) = _exactOutput(
+            SwapContext({
+                tokenIn: params.tokenIn,
+                tokenOut: params.tokenOut,
+                recipient: params.recipient,
+                payer: msg.sender,
+                zeroForOne: zeroForOne,
+                sqrtPriceLimitX96: _priceLimit(
+                    zeroForOne,
+                    params.sqrtPriceLimitX96
+                )
+            }),
+            params.indexPath,
+            params.amountOut
+        );
+
+        // 指定的 Pool 中流动性不足，无法换出足够的 token
+        require(amountOutRemaining == 0, "Insufficient liquidity");
+        // 需要支付的数量超过用户指定的最大数量，说明滑点过大
+        require(amountIn <= params.amountInMaximum, "Slippage exceeded");
+
+        // 需要的输入全部成交，没有剩余的输入
+        emit Swap(msg.sender, zeroForOne, amountIn, params.amountOut, 0);
+    }
+
+    // 报价不会真正转账：swapCallback 中检测到 payer 为 address(0) 时会把交易数量通过 revert 抛出来
+    // 因此报价函数需要通过 eth_call（viem 的 simulate）调用
+    function quoteExactInput(
+        QuoteExactInputParams calldata params
+    ) external override returns (uint256 amountOut) {
+        bool zeroForOne = params.tokenIn < params.tokenOut;
+        (, amountOut) = _exactInput(
+            SwapContext({
+                tokenIn: params.tokenIn,
+                tokenOut: params.tokenOut,
+                recipient: address(0),
+                payer: address(0),
+                zeroForOne: zeroForOne,
+                sqrtPriceLimitX96: _priceLimit(
+                    zeroForOne,
+                    params.sqrtPriceLimitX96
+                )
+            }),
+            params.indexPath,
+            params.amountIn
+        );
+    }
+
+    function quoteExactOutput(
+        QuoteExactOutputParams calldata params
+    ) external override returns (uint256 amountIn) {
+        bool zeroForOne = params.tokenIn < params.tokenOut;
+        (, amountIn) = _exactOutput(
+            SwapContext({
+                tokenIn: params.tokenIn,
+                tokenOut: params.tokenOut,
+                recipient: address(0),
+                payer: address(0),
+                zeroForOne: zeroForOne,
+                sqrtPriceLimitX96: _priceLimit(
+                    zeroForOne,
+                    params.sqrtPriceLimitX96
+                )
+            }),
+            params.indexPath,
+            params.amountOut
+        );
+    }
+
+    function swapCallback(
+        int256 amount0Delta,
+        int256 amount1Delta,
+        bytes calldata data
+    ) external override {
+        SwapCallbackData memory callbackData = abi.decode(
+            data,
+            (SwapCallbackData)
+        );
+
+        // 检查 callback 的合约地址是否是 Pool
+        address _pool = _verifyCallback(
+            PoolAddress.getPoolKey(
+                callbackData.tokenIn,
+                callbackData.tokenOut,
+                callbackData.tickLower,
+                callbackData.tickUpper,
+                callbackData.fee
+            )
+        );
+
+        // payer 是 address(0)，这是一次报价请求，把交易数量通过 revert 返回
+        // 参考 https://github.com/Uniswap/v3-periphery/blob/main/contracts/lens/Quoter.sol
+        if (callbackData.payer == address(0)) {
+            revert QuoteResult(amount0Delta, amount1Delta);
+        }
+
+        // 正常交易，给 Pool 打钱，需要用户先 approve 足够的金额，tokenIn 是 WETH9 时也可以附带 ETH 支付
+        uint256 amountToPay = amount0Delta > 0
+            ? uint256(amount0Delta)
+            : amount1Delta > 0
+                ? uint256(amount1Delta)
+                : 0;
+        if (amountToPay > 0) {
+            _pay(callbackData.tokenIn, callbackData.payer, _pool, amountToPay);
+        }
+    }
+}
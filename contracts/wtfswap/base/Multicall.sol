@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity ^0.8.24;
+pragma abicoder v2;
+
+import "../interfaces/IMulticall.sol";
+
+abstract contract Multicall is IMulticall {
+    function multicall(
+        bytes[] calldata data
+    ) public payable override returns (bytes[] memory results) {
+        results = new bytes[](data.length);
+        for (uint256 i = 0; i < data.length; i++) {
+            // 使用 delegatecall，被调用的方法中 msg.sender 和 msg.value 保持不变
+            (bool success, bytes memory result) = address(this).delegatecall(
+                data[i]
+            );
+
+            if (!success) {
+                // 原样抛出被调用方法的 revert 数据，调用方可以看到原始的错误信息
+                assembly {
+                    revert(add(result, 32), mload(result))
+                }
+            }
+
+            results[i] = result;
+        }
+    }
+}
@@ -0,0 +1,77 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
+import "../interfaces/IPeripheryPayments.sol";
+import "../interfaces/IWETH9.sol";
+import "../libraries/TransferHelper.sol";
+
+abstract contract PeripheryPayments is IPeripheryPayments {
+    address public immutable override WETH9;
+
+    constructor(address _WETH9) {
+        WETH9 = _WETH9;
+    }
+
+    // 只接收 WETH9 在 withdraw 时转过来的 ETH，避免用户误转 ETH 到合约中
+    receive() external payable {
+        require(msg.sender == WETH9, "Not WETH9");
+    }
+
+    function unwrapWETH9(
+        uint256 amountMinimum,
+        address recipient
+    ) public payable override {
+        uint256 balanceWETH9 = IWETH9(WETH9).balanceOf(address(this));
+        require(balanceWETH9 >= amountMinimum, "Insufficient WETH9");
+
+        if (balanceWETH9 > 0) {
+            IWETH9(WETH9).withdraw(balanceWETH9);
+            _transferETH(recipient, balanceWETH9);
+        }
+    }
+
+    function sweepToken(
+        address token,
+        uint256 amountMinimum,
+        address recipient
+    ) public payable override {
+        uint256 balanceToken = IERC20(token).balanceOf(address(this));
+        require(balanceToken >= amountMinimum, "Insufficient token");
+
+        if (balanceToken > 0) {
+            TransferHelper.safeTransfer(token, recipient, balanceToken);
+        }
+    }
+
+    function refundETH() external payable override {
+        if (address(this).balance > 0) {
+            _transferETH(msg.sender, address(this).balance);
+        }
+    }
+
+    function _transferETH(address to, uint256 value) internal {
+        (bool success, ) = to.call{ value: value }("");
+        require(success, "ETH transfer failed");
+    }
+
+    /// @dev 从 payer 向 recipient 支付 token
+    /// token 是 WETH9 并且合约中有足够的 ETH 时，用 ETH 包装成 WETH9 支付，否则从 payer 转账，需要 payer 先 approve
+    /// 通过 TransferHelper 转账，兼容没有返回值的 token，调用方需要保证 value 大于 0
+    function _pay(
+        address token,
+        address payer,
+        address recipient,
+        uint256 value
+    ) internal {
+        if (token == WETH9 && address(this).balance >= value) {
+            IWETH9(WETH9).deposit{ value: value }();
+            TransferHelper.safeTransfer(WETH9, recipient, value);
+        } else if (payer == address(this)) {
+            TransferHelper.safeTransfer(token, recipient, value);
+        } else {
+            TransferHelper.safeTransferFrom(token, payer, recipient, value);
+        }
+    }
+}
@@ -0,0 +1,26 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity ^0.8.24;
+
+import "../libraries/PoolAddress.sol";
+import "../interfaces/IFactory.sol";
+import "../interfaces/IPoolDeployer.sol";
+
+abstract contract PeripheryPoolAddress {
+    // 创建 Pool 的 PoolDeployer 以及 Pool 的 initcode 哈希，部署后不会变化，用来在回调中直接算出 Pool 地址
+    address public immutable poolDeployer;
+    bytes32 public immutable poolInitCodeHash;
+
+    constructor(address _factory) {
+        address deployer = IFactory(_factory).poolDeployer();
+        poolDeployer = deployer;
+        poolInitCodeHash = IPoolDeployer(deployer).poolInitCodeHash();
+    }
+
+    // 检查 callback 的调用方是否是 key 对应的 Pool，不需要再去 Factory 中查询
+    function _verifyCallback(
+        PoolAddress.PoolKey memory key
+    ) internal view returns (address pool) {
+        pool = PoolAddress.computeAddress(poolDeployer, poolInitCodeHash, key);
+        require(msg.sender == pool, "Invalid callback caller");
+    }
+}
@@ -2,6 +2,20 @@
 pragma solidity ^0.8.24;
 
 interface IFactory {
+    // --- 自定义错误，通过 CustomRevert 抛出 ---
+    /// fee 没有在 Factory 中启用
+    error FeeNotEnabled(uint24 fee);
+    /// 启用的 fee 必须小于 1,000,000
+    error InvalidFee(uint24 fee);
+    /// tickSpacing 必须在 [TickMath.MIN_TICK_SPACING, TickMath.MAX_TICK_SPACING] 之间
+    error InvalidTickSpacing(int24 tickSpacing);
+    /// 要求 TickMath.MIN_TICK <= tickLower < tickUpper <= TickMath.MAX_TICK
+    error InvalidTickRange(int24 tickLower, int24 tickUpper);
+    /// tick 必须是 fee 对应的 tickSpacing 的整数倍
+    error TickMisaligned(int24 tick, int24 tickSpacing);
+    /// 只有 guardian 或者 owner 可以暂停和恢复池子
+    error NotGuardian(address caller);
+
     struct Parameters {
         address factory;
         address token0;
@@ -23,6 +37,54 @@ interface IFactory {
             uint24 fee
         );
 
+    /// 创建 Pool 的 PoolDeployer，Pool 的地址可以通过 PoolAddress.computeAddress 计算
+    function poolDeployer() external view returns (address);
+
+    /// fee 对应的 tickSpacing，为 0 表示没有启用，为 1 表示不限制 tick
+    function feeAmountTickSpacing(uint24 fee) external view returns (int24);
+
+    event FeeAmountEnabled(uint24 indexed fee, int24 indexed tickSpacing);
+
+    event FeeAmountDisabled(uint24 indexed fee);
+
+    /// 启用 fee 或者修改它的 tickSpacing，只影响之后创建的池子，只有 owner 可以调用
+    function enableFeeAmount(uint24 fee, int24 tickSpacing) external;
+
+    /// 停用 fee，已经创建的池子不受影响，只有 owner 可以调用
+    function disableFeeAmount(uint24 fee) external;
+
+    // --- 紧急暂停：暂停后池子不能 mint 和 swap，burn 和 collect 不受影响，LP 随时可以取回资金 ---
+    event GuardianChanged(
+        address indexed oldGuardian,
+        address indexed newGuardian
+    );
+
+    /// pool 为 address(0) 表示全局暂停
+    event Paused(address indexed pool);
+
+    event Unpaused(address indexed pool);
+
+    /// 可以暂停和恢复池子的地址，默认是部署者
+    function guardian() external view returns (address);
+
+    /// 修改 guardian，只有 owner 可以调用，设置为 address(0) 时只有 owner 可以暂停
+    function setGuardian(address newGuardian) external;
+
+    /// 是否全局暂停
+    function globalPaused() external view returns (bool);
+
+    /// 单独暂停的池子，不包含全局暂停
+    function poolPaused(address pool) external view returns (bool);
+
+    /// 池子是否被暂停，全局暂停或者单独暂停都算，Pool 在 mint 和 swap 时检查
+    function isPaused(address pool) external view returns (bool);
+
+    /// 暂停一个池子，pool 为 address(0) 时全局暂停，只有 guardian 或者 owner 可以调用
+    function pause(address pool) external;
+
+    /// 恢复一个池子，pool 为 address(0) 时解除全局暂停，单独暂停的池子仍然保持暂停
+    function unpause(address pool) external;
+
     event PoolCreated(
         address token0,
         address token1,
@@ -0,0 +1,12 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity ^0.8.24;
+pragma abicoder v2;
+
+// 在一笔交易中依次调用合约自己的多个方法，例如 selfPermit + mint 或者 exactInput + unwrapWETH9
+interface IMulticall {
+    // data 是每个调用 ABI 编码后的 calldata，任意一个调用失败时整笔交易 revert，并返回该调用的错误
+    // 所有调用共享同一个 msg.value，附带 ETH 时需要最后调用 refundETH 取回剩余的 ETH
+    function multicall(
+        bytes[] calldata data
+    ) external payable returns (bytes[] memory results);
+}
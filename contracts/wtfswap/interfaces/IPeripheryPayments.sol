@@ -0,0 +1,25 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity ^0.8.24;
+
+// PositionManager 和 SwapRouter 共用的 ETH 和 token 处理接口
+// 支付 WETH9 时，如果合约中有足够的 ETH（调用时附带的 msg.value），会先把 ETH 包装成 WETH9 再支付
+interface IPeripheryPayments {
+    function WETH9() external view returns (address);
+
+    // 把合约中全部的 WETH9 换成 ETH 转给 recipient，数量少于 amountMinimum 时 revert
+    // 用于把 collect 或者交易得到的 WETH9 换成 ETH，需要先把 recipient 设为合约自己，并且在同一笔交易中调用
+    function unwrapWETH9(
+        uint256 amountMinimum,
+        address recipient
+    ) external payable;
+
+    // 把合约中全部的 token 转给 recipient，数量少于 amountMinimum 时 revert
+    function sweepToken(
+        address token,
+        uint256 amountMinimum,
+        address recipient
+    ) external payable;
+
+    // 把合约中剩余的 ETH 退还给调用者，例如 exactOutput 或者 mint 时多付的 ETH
+    function refundETH() external payable;
+}
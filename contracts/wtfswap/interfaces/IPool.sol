@@ -18,8 +18,20 @@ interface ISwapCallback {
     ) external;
 }
 
+interface IFlashCallback {
+    // fee0 和 fee1 是需要额外归还的手续费，回调结束前需要把借出的 token 和手续费一起转回 Pool
+    function flashCallback(
+        uint256 fee0,
+        uint256 fee1,
+        bytes calldata data
+    ) external;
+}
+
 // 这个接口合约，定义了池子的核心方法
 interface IPool {
+    /// initialize 只能由创建池子的 Factory 调用
+    error NotFactory(address caller);
+
     // --- 不可变量的读方法 ---
     function factory() external view returns (address);
 
@@ -40,7 +52,7 @@ interface IPool {
 
     function liquidity() external view returns (uint128);
 
-    // --- 初始化方法 ---
+    // --- 初始化方法，只有 factory 可以调用 ---
     function initialize(uint160 sqrtPriceX96) external;
 
     /// feeGrowthGlobal0X128 记录从创建到现在，每个流动性累计产生的 token0 的手续费
@@ -53,6 +65,62 @@ interface IPool {
     /// @dev This value can overflow the uint256
     function feeGrowthGlobal1X128() external view returns (uint256);
 
+    /// feeProtocol 的低 4 位是 token0 的协议费比例，高 4 位是 token1 的协议费比例
+    /// 比例为 N 时，协议拿走手续费的 1/N，0 表示不收取协议费
+    function feeProtocol() external view returns (uint8);
+
+    /// 累计的还没有提取的协议费
+    function protocolFees()
+        external
+        view
+        returns (uint128 token0, uint128 token1);
+
+    // --- 价格预言机 ---
+    /// 最近一次写入的 observation 在 observations 中的下标
+    function observationIndex() external view returns (uint16);
+
+    /// observations 中已经使用的长度
+    function observationCardinality() external view returns (uint16);
+
+    /// observations 扩容后的长度，写满当前长度后才会生效
+    function observationCardinalityNext() external view returns (uint16);
+
+    /// 环形缓冲区中保存的 observation，tickCumulative 是 tick 对时间的累计，
+    /// secondsPerLiquidityCumulativeX128 是 时间 / max(1, liquidity) 的累计
+    function observations(
+        uint256 index
+    )
+        external
+        view
+        returns (
+            uint32 blockTimestamp,
+            int56 tickCumulative,
+            uint160 secondsPerLiquidityCumulativeX128,
+            bool initialized
+        );
+
+    /// 返回 secondsAgos 中每个时间点（距离现在的秒数）的累计值，两个时间点的差除以时间间隔就是这段时间的平均值
+    /// 时间点早于最老的 observation 时 revert "OLD"
+    function observe(
+        uint32[] calldata secondsAgos
+    )
+        external
+        view
+        returns (
+            int56[] memory tickCumulatives,
+            uint160[] memory secondsPerLiquidityCumulativeX128s
+        );
+
+    event IncreaseObservationCardinalityNext(
+        uint16 observationCardinalityNextOld,
+        uint16 observationCardinalityNextNew
+    );
+
+    /// 把 observations 的长度扩大到 observationCardinalityNext，由调用者支付存储的 gas
+    function increaseObservationCardinalityNext(
+        uint16 observationCardinalityNext
+    ) external;
+
     function getPosition(
         address owner
     )
@@ -67,6 +135,9 @@ interface IPool {
         );
 
     // --- 上层合约的底层实现 ---
+    /// 池子初始化价格时发出，链下索引从这里得到池子的初始价格
+    event Initialize(uint160 sqrtPriceX96, int24 tick);
+
     event Mint(
         address sender,
         address indexed owner,
@@ -122,4 +193,47 @@ interface IPool {
         uint160 sqrtPriceLimitX96,
         bytes calldata data
     ) external returns (int256 amount0, int256 amount1);
+
+    event Flash(
+        address indexed sender,
+        address indexed recipient,
+        uint256 amount0,
+        uint256 amount1,
+        uint256 paid0,
+        uint256 paid1
+    );
+
+    /// 闪电贷：把 amount0 和 amount1 转给 recipient，然后回调调用者的 flashCallback
+    /// 回调结束时 Pool 收到的 token 至少要是借出的数量加上按 fee 计算的手续费，多付的部分也算作手续费分给 LP
+    function flash(
+        address recipient,
+        uint256 amount0,
+        uint256 amount1,
+        bytes calldata data
+    ) external;
+
+    // --- 协议费，只有 Factory 的 owner 可以调用 ---
+    event SetFeeProtocol(
+        uint8 feeProtocol0Old,
+        uint8 feeProtocol1Old,
+        uint8 feeProtocol0New,
+        uint8 feeProtocol1New
+    );
+
+    /// @param feeProtocol0 token0 的协议费比例，0 或者 4 到 10
+    /// @param feeProtocol1 token1 的协议费比例，0 或者 4 到 10
+    function setFeeProtocol(uint8 feeProtocol0, uint8 feeProtocol1) external;
+
+    event CollectProtocol(
+        address indexed sender,
+        address indexed recipient,
+        uint128 amount0,
+        uint128 amount1
+    );
+
+    function collectProtocol(
+        address recipient,
+        uint128 amount0Requested,
+        uint128 amount1Requested
+    ) external returns (uint128 amount0, uint128 amount1);
 }
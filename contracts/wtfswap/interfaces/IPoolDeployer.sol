@@ -0,0 +1,17 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity ^0.8.24;
+
+// 负责用 CREATE2 创建 Pool 的合约，Pool 的地址可以通过 PoolAddress.computeAddress 计算
+interface IPoolDeployer {
+    function factory() external view returns (address);
+
+    // keccak256(type(Pool).creationCode)，计算 Pool 地址时需要
+    function poolInitCodeHash() external view returns (bytes32);
+
+    function parameters()
+        external
+        view
+        returns (address, address, address, int24, int24, uint24);
+
+    function deploy(bytes32 salt) external returns (address pool);
+}
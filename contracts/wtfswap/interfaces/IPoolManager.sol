@@ -24,11 +24,25 @@ interface IPoolManager is IFactory {
         int24 tick;
         uint160 sqrtPriceX96;
         uint128 liquidity;
+        // 全局暂停或者单独暂停时为 true，此时池子不能 mint 和 swap
+        bool paused;
     }
 
     // returns pools info of all pools
     function getAllPools() external view returns (PoolInfo[] memory poolsInfo);
 
+    // 分页返回池子信息，按池子的创建顺序排列，和 getAllPools 一致，offset 超出范围时返回空数组
+    function getPools(
+        uint256 offset,
+        uint256 limit
+    ) external view returns (PoolInfo[] memory poolsInfo);
+
+    // 返回一个交易对的全部池子，tokenA 和 tokenB 不需要排序
+    function getPoolsForPair(
+        address tokenA,
+        address tokenB
+    ) external view returns (PoolInfo[] memory poolsInfo);
+
     struct CreateAndInitializeParams {
         address token0;
         address token1;
@@ -41,5 +55,5 @@ interface IPoolManager is IFactory {
     // create pool if necessary, and initialize it
     function createAndInitializePoolIfNecessary(
         CreateAndInitializeParams calldata params
-    ) external payable returns (address pool);
+    ) external returns (address pool);
 }
@@ -0,0 +1,12 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity ^0.8.24;
+
+// 生成 PositionManager 中 NFT 的 tokenURI，元数据和图片都是链上生成的
+interface IPositionDescriptor {
+    function positionManager() external view returns (address);
+
+    function poolManager() external view returns (address);
+
+    // 返回 data:application/json;base64 格式的元数据，image 字段是 data:image/svg+xml;base64 格式的 SVG
+    function tokenURI(uint256 positionId) external view returns (string memory);
+}
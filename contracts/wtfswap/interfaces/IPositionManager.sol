@@ -2,9 +2,19 @@
 pragma solidity ^0.8.24;
 pragma abicoder v2;
 
-import "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+import "@openzeppelin/contracts/token/ERC721/extensions/IERC721Enumerable.sol";
 
-interface IPositionManager is IERC721 {
+import "./IPeripheryPayments.sol";
+import "./IMulticall.sol";
+import "./ISelfPermit.sol";
+import "./IPositionDescriptor.sol";
+
+interface IPositionManager is
+    IERC721Enumerable,
+    IPeripheryPayments,
+    IMulticall,
+    ISelfPermit
+{
     // 相关接口
     struct PositionInfo {
         uint256 id;
@@ -23,21 +33,34 @@ interface IPositionManager is IERC721 {
         uint256 feeGrowthInside1LastX128;
     }
 
-    // function getPositionInfo(
-    //     uint256 positionId
-    // ) external view returns (PositionInfo memory positionInfo);
+    // 生成 tokenURI 的合约
+    function descriptor() external view returns (IPositionDescriptor);
+
+    function getPositionInfo(
+        uint256 positionId
+    ) external view returns (PositionInfo memory positionInfo);
 
     function getAllPositions()
         external
         view
         returns (PositionInfo[] memory positionInfo);
 
+    // 分页返回 owner 持有的 position，按 ERC721Enumerable 中的顺序，offset 超出范围时返回空数组
+    function getPositionsByOwner(
+        address owner,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (PositionInfo[] memory positionInfo);
+
     struct MintParams {
         address token0;
         address token1;
         uint32 index;
         uint256 amount0Desired;
         uint256 amount1Desired;
+        // 实际注入的 token 数量不能少于 amount0Min 和 amount1Min，用于防止价格滑点
+        uint256 amount0Min;
+        uint256 amount1Min;
         address recipient;
         uint256 deadline;
     }
@@ -54,14 +77,75 @@ interface IPositionManager is IERC721 {
             uint256 amount1
         );
 
-    function burn(
-        uint256 positionId
-    ) external returns (uint256 amount0, uint256 amount1);
+    // mint 新的 position 和给已有 position 增加流动性时都会触发
+    event IncreaseLiquidity(
+        uint256 indexed tokenId,
+        uint128 liquidity,
+        uint256 amount0,
+        uint256 amount1
+    );
+
+    event DecreaseLiquidity(
+        uint256 indexed tokenId,
+        uint128 liquidity,
+        uint256 amount0,
+        uint256 amount1
+    );
+
+    event Collect(
+        uint256 indexed tokenId,
+        address recipient,
+        uint256 amount0,
+        uint256 amount1
+    );
+
+    struct IncreaseLiquidityParams {
+        uint256 tokenId;
+        uint256 amount0Desired;
+        uint256 amount1Desired;
+        // 实际注入的 token 数量不能少于 amount0Min 和 amount1Min，用于防止价格滑点
+        uint256 amount0Min;
+        uint256 amount1Min;
+        uint256 deadline;
+    }
+
+    // 给已有的 position 增加流动性，token 从调用者账户转入
+    function increaseLiquidity(
+        IncreaseLiquidityParams calldata params
+    )
+        external
+        payable
+        returns (uint128 liquidity, uint256 amount0, uint256 amount1);
+
+    struct DecreaseLiquidityParams {
+        uint256 tokenId;
+        uint128 liquidity;
+        // 退出的 token 数量不能少于 amount0Min 和 amount1Min，用于防止价格滑点
+        uint256 amount0Min;
+        uint256 amount1Min;
+        uint256 deadline;
+    }
 
+    // 移除部分或全部流动性，退出的 token 计入 tokensOwed，需要再调用 collect 取回
+    function decreaseLiquidity(
+        DecreaseLiquidityParams calldata params
+    ) external payable returns (uint256 amount0, uint256 amount1);
+
+    struct CollectParams {
+        uint256 tokenId;
+        address recipient;
+        // 最多取回的数量，传 type(uint128).max 取回全部
+        uint128 amount0Max;
+        uint128 amount1Max;
+    }
+
+    // 取回 tokensOwed 中的 token（移除的流动性和手续费），不会销毁 NFT
     function collect(
-        uint256 positionId,
-        address recipient
-    ) external returns (uint256 amount0, uint256 amount1);
+        CollectParams calldata params
+    ) external payable returns (uint256 amount0, uint256 amount1);
+
+    // 销毁 NFT，只有流动性和 tokensOwed 都为 0 时才可以调用
+    function burn(uint256 positionId) external payable;
 
     function mintCallback(
         uint256 amount0,
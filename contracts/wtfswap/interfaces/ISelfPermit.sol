@@ -0,0 +1,26 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity ^0.8.24;
+
+// 使用 EIP-2612 的 permit 签名给合约授权，和 multicall 一起使用可以省掉单独的 approve 交易
+interface ISelfPermit {
+    // 用调用者的签名授权合约使用 value 数量的 token
+    // permit 签名可能被其他人抢先提交，这时 permit 会 revert，需要容错的话使用 selfPermitIfNecessary
+    function selfPermit(
+        address token,
+        uint256 value,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external payable;
+
+    // 和 selfPermit 一样，但是合约已有的授权不少于 value 时跳过 permit
+    function selfPermitIfNecessary(
+        address token,
+        uint256 value,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external payable;
+}
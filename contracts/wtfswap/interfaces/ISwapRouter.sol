@@ -3,9 +3,18 @@ pragma solidity ^0.8.24;
 pragma abicoder v2;
 
 import "./IPool.sol";
+import "./IPeripheryPayments.sol";
+import "./IMulticall.sol";
+import "./ISelfPermit.sol";
 
-interface ISwapRouter is ISwapCallback {
-
+interface ISwapRouter is
+    ISwapCallback,
+    IPeripheryPayments,
+    IMulticall,
+    ISelfPermit
+{
+    // amountInRemaining 是 amountIn 中因为流动性不足或者价格限制没有成交的部分
+    // exactOutput 要求换出全部的 amountOut，所以总是 0
     event Swap(
         address indexed sender,
         bool zeroForOne,
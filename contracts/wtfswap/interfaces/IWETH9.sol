@@ -0,0 +1,12 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
+interface IWETH9 is IERC20 {
+    // 存入 ETH，得到同样数量的 WETH9
+    function deposit() external payable;
+
+    // 销毁 WETH9，取回同样数量的 ETH
+    function withdraw(uint256 amount) external;
+}
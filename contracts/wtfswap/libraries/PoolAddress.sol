@@ -0,0 +1,67 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity ^0.8.0;
+
+/// @title 计算 Pool 的 CREATE2 地址
+/// @notice Pool 由 PoolDeployer 创建，地址只由 PoolDeployer 的地址、PoolKey 和 Pool 的 initcode 决定，不需要读取 Factory 的存储
+/// @dev initcode 的哈希可以从 PoolDeployer.poolInitCodeHash 读取，对应 TypeScript 中的 utils/wtfswap/poolAddress.ts
+library PoolAddress {
+    /// @notice 确定一个 Pool 的参数，token0 必须小于 token1
+    struct PoolKey {
+        address token0;
+        address token1;
+        int24 tickLower;
+        int24 tickUpper;
+        uint24 fee;
+    }
+
+    /// @notice 对 token 排序后返回 PoolKey
+    function getPoolKey(
+        address tokenA,
+        address tokenB,
+        int24 tickLower,
+        int24 tickUpper,
+        uint24 fee
+    ) internal pure returns (PoolKey memory) {
+        if (tokenA > tokenB) (tokenA, tokenB) = (tokenB, tokenA);
+        return PoolKey(tokenA, tokenB, tickLower, tickUpper, fee);
+    }
+
+    /// @notice Factory 创建 Pool 时使用的 CREATE2 salt
+    function computeSalt(PoolKey memory key) internal pure returns (bytes32) {
+        return
+            keccak256(
+                abi.encode(
+                    key.token0,
+                    key.token1,
+                    key.tickLower,
+                    key.tickUpper,
+                    key.fee
+                )
+            );
+    }
+
+    /// @notice 计算 Pool 的地址，不检查 Pool 是否已经创建
+    /// @param deployer PoolDeployer 的地址
+    /// @param initCodeHash Pool 的 initcode 哈希
+    function computeAddress(
+        address deployer,
+        bytes32 initCodeHash,
+        PoolKey memory key
+    ) internal pure returns (address pool) {
+        require(key.token0 < key.token1, "Unsorted tokens");
+        pool = address(
+            uint160(
+                uint256(
+                    keccak256(
+                        abi.encodePacked(
+                            hex"ff",
+                            deployer,
+                            computeSalt(key),
+                            initCodeHash
+                        )
+                    )
+                )
+            )
+        );
+    }
+}
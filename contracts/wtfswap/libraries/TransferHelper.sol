@@ -5,7 +5,42 @@ import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 
 /// @title TransferHelper
 /// @notice Contains helper methods for interacting with ERC20 tokens that do not consistently return true/false
+/// @dev 所有的 token 转账都应该通过这里，对非标准 token 的处理如下：
+/// - 没有返回值的 token（例如 USDT）：调用成功并且没有返回数据时视为成功
+/// - 返回 false 的 token：视为失败并 revert
+/// - 转账 0 时 revert 的 token：调用方在数量为 0 时跳过转账
+/// 转账收取手续费的 token 和 rebase 的 token 这里不做处理，Pool 不记录储备量，只在回调前后比较余额：
+/// - 转账收取手续费的 token：Pool 实际收到的比应收的少，mint 会以 M0/M1 revert，swap 和 flash 会以 IIA/F0/F1 revert；
+///   Pool 转出时由接收方承担手续费，所以 burn 之后的 collect 和买入这个 token 的 swap 仍然可以成功
+/// - rebase 的 token：余额增加的部分留在 Pool 中，不计入任何 position；
+///   余额减少后 Pool 可能不够支付 tokensOwed，最后 collect 的 LP 会以 TF revert
 library TransferHelper {
+    /// @notice Transfers tokens from the targeted address to the given destination
+    /// @dev Calls transferFrom on token contract, errors with STF if transfer fails
+    /// @param token The contract address of the token to be transferred
+    /// @param from The originating address from which the tokens will be transferred
+    /// @param to The destination address of the transfer
+    /// @param value The amount to be transferred
+    function safeTransferFrom(
+        address token,
+        address from,
+        address to,
+        uint256 value
+    ) internal {
+        (bool success, bytes memory data) = token.call(
+            abi.encodeWithSelector(
+                IERC20.transferFrom.selector,
+                from,
+                to,
+                value
+            )
+        );
+        require(
+            success && (data.length == 0 || abi.decode(data, (bool))),
+            "STF"
+        );
+    }
+
     /// @notice Transfers tokens from msg.sender to a recipient
     /// @dev Calls transfer on token contract, errors with TF if transfer fails
     /// @param token The contract address of the token which will be transferred
@@ -20,4 +55,4 @@ library TransferHelper {
             "TF"
         );
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,36 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+// 转账时收取手续费的 TestToken，手续费直接销毁，接收方实际收到的比转账数量少
+contract TestFeeOnTransferToken is ERC20 {
+    // 手续费，单位是万分之一，默认为 0，可以先用它注入流动性再打开手续费
+    uint256 public feeBips;
+
+    constructor() ERC20("TestFeeOnTransferToken", "TFT") {}
+
+    function mint(address recipient, uint256 quantity) public payable {
+        _mint(recipient, quantity);
+    }
+
+    function setFee(uint256 feeBips_) external {
+        require(feeBips_ <= 10000, "Invalid fee");
+        feeBips = feeBips_;
+    }
+
+    function _update(
+        address from,
+        address to,
+        uint256 value
+    ) internal override {
+        // mint 和 burn 不收手续费
+        if (from == address(0) || to == address(0)) {
+            super._update(from, to, value);
+            return;
+        }
+        uint256 fee = (value * feeBips) / 10000;
+        super._update(from, address(0), fee);
+        super._update(from, to, value - fee);
+    }
+}
@@ -0,0 +1,90 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+import "../interfaces/IPool.sol";
+import "../libraries/TransferHelper.sol";
+
+/**
+ * @title TestFlash
+ * @dev 用于测试闪电贷的合约，借出的 token 转给自己，在回调中按指定的数量还给 Pool
+ * 合约中需要预先存入足够支付手续费的 token
+ */
+contract TestFlash is IFlashCallback {
+    event FlashCallback(uint256 fee0, uint256 fee1);
+
+    // 为 true 时在回调中调用 collectProtocol，用于测试协议费不能在回调中提取
+    bool private _collectProtocol;
+
+    /**
+     * @dev 从 pool 借出 amount0 和 amount1
+     * @param pay0 回调中还给 Pool 的 token0 数量，正常应该是借出的数量加上手续费
+     * @param pay1 回调中还给 Pool 的 token1 数量
+     * @param reenter 为 true 时在回调中再次调用 flash，用于测试重入保护
+     */
+    function testFlash(
+        address pool,
+        uint256 amount0,
+        uint256 amount1,
+        uint256 pay0,
+        uint256 pay1,
+        bool reenter
+    ) external {
+        IPool(pool).flash(
+            address(this),
+            amount0,
+            amount1,
+            abi.encode(pay0, pay1, reenter)
+        );
+    }
+
+    /**
+     * @dev 借 0 个 token，在回调中调用 collectProtocol
+     */
+    function testFlashCollectProtocol(address pool) external {
+        _collectProtocol = true;
+        IPool(pool).flash(address(this), 0, 0, abi.encode(0, 0, false));
+        _collectProtocol = false;
+    }
+
+    function flashCallback(
+        uint256 fee0,
+        uint256 fee1,
+        bytes calldata data
+    ) external override {
+        emit FlashCallback(fee0, fee1);
+
+        (uint256 pay0, uint256 pay1, bool reenter) = abi.decode(
+            data,
+            (uint256, uint256, bool)
+        );
+        if (_collectProtocol) {
+            IPool(msg.sender).collectProtocol(
+                address(this),
+                type(uint128).max,
+                type(uint128).max
+            );
+        }
+        if (reenter) {
+            IPool(msg.sender).flash(
+                address(this),
+                0,
+                0,
+                abi.encode(0, 0, false)
+            );
+        }
+
+        if (pay0 > 0) {
+            TransferHelper.safeTransfer(
+                IPool(msg.sender).token0(),
+                msg.sender,
+                pay0
+            );
+        }
+        if (pay1 > 0) {
+            TransferHelper.safeTransfer(
+                IPool(msg.sender).token1(),
+                msg.sender,
+                pay1
+            );
+        }
+    }
+}
@@ -1,7 +1,7 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.20;
 import "../interfaces/IPool.sol";
-import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "../libraries/TransferHelper.sol";
 
 /**
  * @title TestLP
@@ -112,11 +112,11 @@ contract TestLP is IMintCallback {
         (address token0, address token1) = abi.decode(data, (address, address));
         // 转移所需的 token0
         if (amount0Owed > 0) {
-            IERC20(token0).transfer(msg.sender, amount0Owed);
+            TransferHelper.safeTransfer(token0, msg.sender, amount0Owed);
         }
         // 转移所需的 token1
         if (amount1Owed > 0) {
-            IERC20(token1).transfer(msg.sender, amount1Owed);
+            TransferHelper.safeTransfer(token1, msg.sender, amount1Owed);
         }
     }
 }
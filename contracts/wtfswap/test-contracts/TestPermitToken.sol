@@ -0,0 +1,17 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
+
+// 支持 EIP-2612 permit 的 TestToken
+contract TestPermitToken is ERC20, ERC20Permit {
+    constructor()
+        ERC20("TestPermitToken", "TPK")
+        ERC20Permit("TestPermitToken")
+    {}
+
+    function mint(address recipient, uint256 quantity) public payable {
+        _mint(recipient, quantity);
+    }
+}
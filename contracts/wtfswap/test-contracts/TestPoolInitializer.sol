@@ -0,0 +1,90 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+import "../interfaces/IPoolManager.sol";
+
+/**
+ * @title TestPoolInitializer
+ * @dev 部署测试网络时使用的辅助合约
+ * Ignition 模块中的 token 和池子列表都是执行时才解析的参数，构建模块时并不知道 token 地址的大小关系，
+ * 而 PoolManager.createAndInitializePoolIfNecessary 要求 token0 < token1，
+ * 所以由该合约在链上对 token 排序，并在需要时把价格和 tick 区间换算成 token1/token0 的计价
+ */
+contract TestPoolInitializer {
+    // 池子的配置，tokenA 和 tokenB 是 createAndInitializePools 中 tokens 的下标
+    struct PoolConfig {
+        uint256 tokenA;
+        uint256 tokenB;
+        uint24 fee;
+        int24 tickLower;
+        int24 tickUpper;
+        uint160 sqrtPriceX96;
+    }
+
+    /**
+     * @dev 按配置依次创建并初始化池子，Ignition 模块把参数中的整个池子列表传进来
+     * @param poolManager PoolManager 合约地址
+     * @param tokens 池子中用到的 token 地址
+     * @param pools 池子的配置，价格和 tick 区间都以 tokenB/tokenA 计价
+     */
+    function createAndInitializePools(
+        address poolManager,
+        address[] calldata tokens,
+        PoolConfig[] calldata pools
+    ) external {
+        for (uint256 i = 0; i < pools.length; i++) {
+            PoolConfig calldata pool = pools[i];
+            createAndInitializePool(
+                poolManager,
+                tokens[pool.tokenA],
+                tokens[pool.tokenB],
+                pool.fee,
+                pool.tickLower,
+                pool.tickUpper,
+                pool.sqrtPriceX96
+            );
+        }
+    }
+
+    /**
+     * @dev 创建并初始化池子
+     * @param poolManager PoolManager 合约地址
+     * @param tokenA 第一个代币地址
+     * @param tokenB 第二个代币地址
+     * @param fee 手续费费率
+     * @param tickLower 以 tokenB/tokenA 计价的价格下限对应的 tick
+     * @param tickUpper 以 tokenB/tokenA 计价的价格上限对应的 tick
+     * @param sqrtPriceX96 以 tokenB/tokenA 计价的初始价格
+     *
+     * 如果 tokenA > tokenB，价格取倒数：sqrtPriceX96 变为 2^192 / sqrtPriceX96，
+     * tick 区间 [tickLower, tickUpper] 变为 [-tickUpper, -tickLower]
+     */
+    function createAndInitializePool(
+        address poolManager,
+        address tokenA,
+        address tokenB,
+        uint24 fee,
+        int24 tickLower,
+        int24 tickUpper,
+        uint160 sqrtPriceX96
+    ) public {
+        IPoolManager.CreateAndInitializeParams memory params = tokenA < tokenB
+            ? IPoolManager.CreateAndInitializeParams({
+                token0: tokenA,
+                token1: tokenB,
+                fee: fee,
+                tickLower: tickLower,
+                tickUpper: tickUpper,
+                sqrtPriceX96: sqrtPriceX96
+            })
+            : IPoolManager.CreateAndInitializeParams({
+                token0: tokenB,
+                token1: tokenA,
+                fee: fee,
+                tickLower: -tickUpper,
+                tickUpper: -tickLower,
+                sqrtPriceX96: uint160((uint256(1) << 192) / sqrtPriceX96)
+            });
+
+        IPoolManager(poolManager).createAndInitializePoolIfNecessary(params);
+    }
+}
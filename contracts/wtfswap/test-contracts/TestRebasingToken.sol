@@ -0,0 +1,75 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+// rebase 的 TestToken，和 Ampleforth 一样记录每个地址的 gons，余额 = gons / gonsPerFragment
+// 转账时按 value * gonsPerFragment 转移 gons，接收方的余额刚好增加 value；rebase 时修改 gonsPerFragment，所有地址的余额按比例变化
+contract TestRebasingToken {
+    string public constant name = "TestRebasingToken";
+    string public constant symbol = "TRB";
+    uint8 public constant decimals = 18;
+
+    uint256 public gonsPerFragment = 1e12;
+    uint256 private _totalGons;
+    mapping(address => uint256) private _gons;
+    mapping(address => mapping(address => uint256)) public allowance;
+
+    event Transfer(address indexed from, address indexed to, uint256 value);
+    event Approval(
+        address indexed owner,
+        address indexed spender,
+        uint256 value
+    );
+
+    function totalSupply() external view returns (uint256) {
+        return _totalGons / gonsPerFragment;
+    }
+
+    function balanceOf(address account) public view returns (uint256) {
+        return _gons[account] / gonsPerFragment;
+    }
+
+    function mint(address recipient, uint256 quantity) public payable {
+        _totalGons += quantity * gonsPerFragment;
+        _gons[recipient] += quantity * gonsPerFragment;
+        emit Transfer(address(0), recipient, quantity);
+    }
+
+    // 所有地址的余额乘以 numerator / denominator
+    function rebase(uint256 numerator, uint256 denominator) external {
+        gonsPerFragment = (gonsPerFragment * denominator) / numerator;
+        require(gonsPerFragment > 0, "Invalid rebase");
+    }
+
+    function approve(address spender, uint256 value) external returns (bool) {
+        allowance[msg.sender][spender] = value;
+        emit Approval(msg.sender, spender, value);
+        return true;
+    }
+
+    function transfer(address to, uint256 value) external returns (bool) {
+        _transfer(msg.sender, to, value);
+        return true;
+    }
+
+    function transferFrom(
+        address from,
+        address to,
+        uint256 value
+    ) external returns (bool) {
+        uint256 allowed = allowance[from][msg.sender];
+        if (allowed != type(uint256).max) {
+            require(allowed >= value, "Insufficient allowance");
+            allowance[from][msg.sender] = allowed - value;
+        }
+        _transfer(from, to, value);
+        return true;
+    }
+
+    function _transfer(address from, address to, uint256 value) private {
+        uint256 gons = value * gonsPerFragment;
+        require(_gons[from] >= gons, "Insufficient balance");
+        _gons[from] -= gons;
+        _gons[to] += gons;
+        emit Transfer(from, to, value);
+    }
+}
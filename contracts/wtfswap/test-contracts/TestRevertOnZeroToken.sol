@@ -0,0 +1,22 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+// 转账数量为 0 时 revert 的 TestToken，例如 LEND
+contract TestRevertOnZeroToken is ERC20 {
+    constructor() ERC20("TestRevertOnZeroToken", "TRZ") {}
+
+    function mint(address recipient, uint256 quantity) public payable {
+        _mint(recipient, quantity);
+    }
+
+    function _update(
+        address from,
+        address to,
+        uint256 value
+    ) internal override {
+        require(value > 0, "Zero amount");
+        super._update(from, to, value);
+    }
+}
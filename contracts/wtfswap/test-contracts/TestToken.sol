@@ -4,11 +4,22 @@ pragma solidity ^0.8.20;
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
 
 contract TestToken is ERC20 {
-    uint256 private _nextTokenId = 0;
+    uint8 private immutable _decimals;
 
-    constructor() ERC20("TestToken", "TK") {}
+    // 本地开发时可以部署多个 name、symbol 和 decimals 不同的 token，测试中一般用 ("TestToken", "TK", 18)
+    constructor(
+        string memory name_,
+        string memory symbol_,
+        uint8 decimals_
+    ) ERC20(name_, symbol_) {
+        _decimals = decimals_;
+    }
+
+    function decimals() public view override returns (uint8) {
+        return _decimals;
+    }
 
     function mint(address recipient, uint256 quantity) public payable {
         _mint(recipient, quantity);
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,38 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+import "./TestToken.sol";
+
+/**
+ * @title TestTokenFactory
+ * @dev 部署测试网络时使用的辅助合约
+ * Ignition 的参数在执行时才被解析，模块中不能按参数中的 token 列表逐个添加部署，
+ * 所以由该合约按名字列表部署 TestToken 并铸币，部署的地址按列表的顺序通过 getTokens 读取
+ */
+contract TestTokenFactory {
+    event TestTokenDeployed(string name, address token);
+
+    address[] private _tokens;
+
+    /**
+     * @dev 部署 TestToken，名字同时作为 symbol，decimals 都是 18
+     * @param names token 的名字列表
+     * @param mintAmount 给 recipient 铸造的数量
+     * @param recipient 接收铸造的 token 的地址
+     */
+    function deployTokens(
+        string[] calldata names,
+        uint256 mintAmount,
+        address recipient
+    ) external {
+        for (uint256 i = 0; i < names.length; i++) {
+            TestToken token = new TestToken(names[i], names[i], 18);
+            token.mint(recipient, mintAmount);
+            _tokens.push(address(token));
+            emit TestTokenDeployed(names[i], address(token));
+        }
+    }
+
+    function getTokens() external view returns (address[] memory) {
+        return _tokens;
+    }
+}
@@ -1,6 +1,9 @@
 import { HardhatUserConfig } from "hardhat/config";
+import "dotenv/config";
 import "@nomicfoundation/hardhat-toolbox-viem";
 
+import "./tasks/wtfswap";
+
 const config: HardhatUserConfig = {
   solidity: {
     version: "0.8.24",
@@ -8,6 +11,12 @@ const config: HardhatUserConfig = {
       optimizer: {
         enabled: true,
         runs: 200
+      },
+      // 恢复快照时按存储布局写入合约状态，见 utils/wtfswap/snapshot.ts
+      outputSelection: {
+        "*": {
+          "*": ["storageLayout"]
+        }
       }
     }
   },
@@ -1,9 +1,22 @@
 import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import { parseEther } from "viem";
 
+// 发售参数都可以在部署时通过 --parameters 覆盖
+// 白名单的 Merkle root 和发售阶段在部署之后由 owner 设置
 const MyTokenModule = buildModule("MyTokenModule", (m) => {
-  const lock = m.contract("MyToken");
+  const price = m.getParameter("price", parseEther("0.01"));
+  const maxSupply = m.getParameter("maxSupply", 10000n);
+  const maxPerWallet = m.getParameter("maxPerWallet", 5n);
+  const unrevealedURI = m.getParameter("unrevealedURI", "");
 
-  return { lock };
+  const myToken = m.contract("MyToken", [
+    price,
+    maxSupply,
+    maxPerWallet,
+    unrevealedURI,
+  ]);
+
+  return { myToken };
 });
 
-export default MyTokenModule;
\ No newline at end of file
+export default MyTokenModule;
@@ -1,27 +1,47 @@
 import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
 
-const WtfswapModule = buildModule('Wtfswap', (m) => {
+type ModuleBuilder = Parameters<Parameters<typeof buildModule>[1]>[0];
+type ContractFuture = Parameters<ModuleBuilder['call']>[0];
+
+// 每个网络的模块放在单独的文件中：
+// - Wtfswap.ts：只部署核心合约，使用参数 weth9 指定的已有 WETH9
+// - WtfswapLocal.ts：hardhat 和 localhost，部署 WETH9、测试 token 和初始池子
+// - WtfswapSepolia.ts：sepolia，使用已有的 WETH9 并创建初始池子
+// 它们的模块 id 都是 Wtfswap，部署记录中的合约名称一致，tasks 通过 utils/wtfswap/deployment.ts 读取
+// 测试 token 和池子列表通过 m.getParameter 读取，每个网络的参数文件是 ignition/parameters/<network>.json
+// 参数在执行时才被解析，所以列表整个传给链上的 TestTokenFactory 和 TestPoolInitializer 逐个处理
+
+/**
+ * 部署 wtfswap 的核心合约，SwapRouter 和 PositionManager 需要 poolManager 和 weth9 作为构造参数
+ */
+export function deployWtfswapCore(m: ModuleBuilder, weth9: ContractFuture) {
     // 部署 PoolManager 合约
     const poolManager = m.contract('PoolManager', [], {
         from: m.getAccount(0)  // 使用第一个账户作为部署者
     });
 
-    // 部署 SwapRouter 合约，需要 poolManager 作为参数
-    const swapRouter = m.contract('SwapRouter', [], {
+    // 部署 SwapRouter 合约，需要 poolManager 和 weth9 作为参数
+    const swapRouter = m.contract('SwapRouter', [poolManager, weth9], {
         from: m.getAccount(0)
     });
 
-    // 部署 PositionManager 合约，需要 poolManager 作为参数
-    const positionManager = m.contract('PositionManager', [], {
+    // 部署 PositionManager 合约，需要 poolManager 和 weth9 作为参数
+    const positionManager = m.contract('PositionManager', [poolManager, weth9], {
         from: m.getAccount(0)
     });
 
+    return { poolManager, swapRouter, positionManager };
+}
+
+// npx hardhat ignition deploy ./ignition/modules/Wtfswap.ts --network <network> --parameters '{"Wtfswap":{"weth9":"0x..."}}'
+const WtfswapModule = buildModule('Wtfswap', (m) => {
+    const weth9 = m.contractAt('WETH9', m.getParameter<string>('weth9'));
+
     // 返回所有部署的合约
     return {
-        poolManager,
-        positionManager,
-        swapRouter,
+        ...deployWtfswapCore(m, weth9),
+        weth9,
     };
 });
 
-export default WtfswapModule;
\ No newline at end of file
+export default WtfswapModule;
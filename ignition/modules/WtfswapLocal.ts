@@ -0,0 +1,41 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+import { deployWtfswapCore } from './Wtfswap';
+
+// hardhat 和 localhost 上的 wtfswap，参数文件是 ignition/parameters/<network>.json
+// npx hardhat ignition deploy ./ignition/modules/WtfswapLocal.ts --network localhost --parameters ignition/parameters/localhost.json
+// 参数：
+// - testTokens：需要部署并铸币的 TestToken 名字列表，同时作为 symbol，decimals 都是 18
+// - testTokenMintAmount：给部署者铸造的每种测试 token 的数量
+// - pools：初始池子列表，tokenA 和 tokenB 是 testTokens 中的下标，价格和 tick 区间都以 tokenB/tokenA 计价
+const WtfswapLocalModule = buildModule('Wtfswap', (m) => {
+    // 本地网络上没有 WETH9，部署一个新的
+    const weth9 = m.contract('WETH9', [], { from: m.getAccount(0) });
+    const { poolManager, swapRouter, positionManager } = deployWtfswapCore(m, weth9);
+
+    // 部署测试 token，并给部署者铸币，token 的数量由参数决定，所以在链上逐个部署
+    const testTokens = m.contract('TestTokenFactory', [], { from: m.getAccount(0) });
+    const deployTokens = m.call(
+        testTokens,
+        'deployTokens',
+        [m.getParameter('testTokens', []), m.getParameter('testTokenMintAmount', 10n ** 27n), m.getAccount(0)],
+        { from: m.getAccount(0) }
+    );
+    const tokens = m.staticCall(testTokens, 'getTokens', [], 0, { after: [deployTokens] });
+
+    // 部署前不知道测试 token 地址的大小关系，交给 TestPoolInitializer 在链上排序
+    const initializer = m.contract('TestPoolInitializer', [], { from: m.getAccount(0) });
+    m.call(initializer, 'createAndInitializePools', [poolManager, tokens, m.getParameter('pools', [])], {
+        from: m.getAccount(0),
+    });
+
+    // 返回所有部署的合约，测试 token 的地址通过 testTokens.getTokens 按参数中的顺序读取
+    return {
+        poolManager,
+        positionManager,
+        swapRouter,
+        weth9,
+        testTokens,
+    };
+});
+
+export default WtfswapLocalModule;
@@ -0,0 +1,32 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+import { deployWtfswapCore } from './Wtfswap';
+
+// sepolia 上的 wtfswap，使用已有的 WETH9，并按参数创建初始池子
+// npx hardhat ignition deploy ./ignition/modules/WtfswapSepolia.ts --network sepolia --parameters ignition/parameters/sepolia.json
+// 参数：
+// - weth9：sepolia 上已有的 WETH9 地址
+// - tokens：池子中用到的 token 地址
+// - pools：初始池子列表，tokenA 和 tokenB 是 tokens 中的下标，价格和 tick 区间都以 tokenB/tokenA 计价
+const WtfswapSepoliaModule = buildModule('Wtfswap', (m) => {
+    const weth9 = m.contractAt('WETH9', m.getParameter<string>('weth9'));
+    const { poolManager, swapRouter, positionManager } = deployWtfswapCore(m, weth9);
+
+    // 池子列表是执行时才解析的参数，由 TestPoolInitializer 在链上排序 token 并创建池子
+    const initializer = m.contract('TestPoolInitializer', [], { from: m.getAccount(0) });
+    m.call(
+        initializer,
+        'createAndInitializePools',
+        [poolManager, m.getParameter('tokens', []), m.getParameter('pools', [])],
+        { from: m.getAccount(0) }
+    );
+
+    // 返回所有部署的合约
+    return {
+        poolManager,
+        positionManager,
+        swapRouter,
+        weth9,
+    };
+});
+
+export default WtfswapSepoliaModule;
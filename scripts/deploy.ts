@@ -0,0 +1,138 @@
+import hre from 'hardhat';
+import {
+    ADDRESS_BOOK_VERSION,
+    AddressBook,
+    DeploymentRecord,
+    getAddressBookPath,
+    readAddressBook,
+    writeAddressBook,
+} from '../utils/wtfswap/addressBook';
+
+// 部署 wtfswap 的核心合约，并把地址记录到 deployments/<network>.json
+// npm run deploy:local
+// npm run deploy:sepolia
+// 重复执行时，地址簿中已经部署且构造参数没有变化的合约会被跳过
+
+// 本地网络不需要等待多个区块确认，也不需要验证源码
+const LOCAL_NETWORKS = ['hardhat', 'localhost'];
+// 测试网等待几个区块再验证，否则区块浏览器可能还没有索引到合约的 bytecode
+const CONFIRMATIONS = 5;
+
+// 比较构造参数时忽略地址的大小写
+function normalizeArgs(args: unknown[]): string {
+    return JSON.stringify(args, (_, value) =>
+        typeof value === 'bigint' ? value.toString() : typeof value === 'string' ? value.toLowerCase() : value
+    );
+}
+
+async function isDeployed(record: DeploymentRecord, args: unknown[]): Promise<boolean> {
+    if (normalizeArgs(record.constructorArgs) !== normalizeArgs(args)) {
+        return false;
+    }
+    const publicClient = await hre.viem.getPublicClient();
+    const code = await publicClient.getCode({ address: record.address });
+    return code !== undefined && code !== '0x';
+}
+
+async function main() {
+    const network = hre.network.name;
+    const isLocal = LOCAL_NETWORKS.includes(network);
+    const publicClient = await hre.viem.getPublicClient();
+    const [walletClient] = await hre.viem.getWalletClients();
+    const chainId = await publicClient.getChainId();
+
+    const existing = readAddressBook(hre);
+    if (existing && existing.chainId !== chainId) {
+        throw new Error(
+            `${getAddressBookPath(hre)} belongs to chain ${existing.chainId}, but ${network} is chain ${chainId}`
+        );
+    }
+    const book: AddressBook = existing ?? { version: ADDRESS_BOOK_VERSION, network, chainId, contracts: {} };
+
+    console.log(`Deploying wtfswap to ${network} (chain ${chainId}) with ${walletClient.account.address}`);
+
+    // hardhat 网络在脚本结束后就不存在了，不需要保存地址簿
+    const save = () => {
+        if (network !== 'hardhat') {
+            writeAddressBook(hre, book);
+        }
+    };
+
+    const deploy = async (name: string, args: unknown[]) => {
+        const record = book.contracts[name];
+        if (record && (await isDeployed(record, args))) {
+            console.log(`${name} already deployed at ${record.address}, skipping`);
+            return record.address;
+        }
+
+        const { contract, deploymentTransaction } = await hre.viem.sendDeploymentTransaction(name, args);
+        console.log(`${name} deploying at ${contract.address}, tx ${deploymentTransaction.hash}`);
+        const receipt = await publicClient.waitForTransactionReceipt({
+            hash: deploymentTransaction.hash,
+            confirmations: isLocal ? 1 : CONFIRMATIONS,
+        });
+        if (receipt.status !== 'success') {
+            throw new Error(`${name} deployment ${deploymentTransaction.hash} reverted`);
+        }
+
+        book.contracts[name] = {
+            address: contract.address,
+            transactionHash: receipt.transactionHash,
+            blockNumber: Number(receipt.blockNumber),
+            constructorArgs: args,
+            verified: false,
+        };
+        // 每部署一个合约就保存一次，中途失败后重新执行可以从断点继续
+        save();
+        return contract.address;
+    };
+
+    // 测试网和主网使用已有的 WETH9，本地网络没有配置时部署一个
+    let weth9 = process.env.WETH9_ADDRESS;
+    if (!weth9) {
+        if (!isLocal) {
+            throw new Error(`WETH9_ADDRESS is required on ${network}`);
+        }
+        weth9 = await deploy('WETH9', []);
+    }
+
+    // PositionManager 和 SwapRouter 都依赖 PoolManager 的地址，PoolManager 重新部署后它们也会重新部署
+    const poolManager = await deploy('PoolManager', []);
+    const positionManager = await deploy('PositionManager', [poolManager, weth9]);
+    const swapRouter = await deploy('SwapRouter', [poolManager, weth9]);
+
+    if (isLocal) {
+        console.log('Skipping verification on local network');
+    } else if (!hre.config.etherscan.apiKey) {
+        console.log('ETHERSCAN_API_KEY is not set, skipping verification');
+    } else {
+        for (const [name, record] of Object.entries(book.contracts)) {
+            if (record.verified) {
+                continue;
+            }
+            try {
+                await hre.run('verify:verify', {
+                    address: record.address,
+                    constructorArguments: record.constructorArgs,
+                });
+                record.verified = true;
+                save();
+            } catch (error) {
+                // 验证失败不影响部署结果，下次执行时会重试
+                console.error(`Failed to verify ${name} at ${record.address}:`, error);
+            }
+        }
+    }
+
+    console.log(`\nAddress book: ${network === 'hardhat' ? '(not saved on hardhat network)' : getAddressBookPath(hre)}`);
+    console.log('Add the following to .env:');
+    console.log(`FACTORY_ADDRESS=${poolManager}`);
+    console.log(`POSITION_MANAGER_ADDRESS=${positionManager}`);
+    console.log(`ROUTER_ADDRESS=${swapRouter}`);
+    console.log(`WETH9_ADDRESS=${weth9}`);
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
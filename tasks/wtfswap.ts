@@ -0,0 +1,765 @@
+import fs from 'fs';
+import path from 'path';
+import { TASK_NODE, TASK_NODE_SERVER_READY } from 'hardhat/builtin-tasks/task-names';
+import { scope, subtask, types } from 'hardhat/config';
+import type { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { erc20Abi, formatUnits, getAddress, maxUint128, maxUint256, parseEventLogs, parseUnits, zeroAddress } from 'viem';
+import { ADDRESS_BOOK_VERSION, getAddressBookPath, writeAddressBook } from '../utils/wtfswap/addressBook';
+import { parseSwapTrace, runBacktest, stringifyBacktestReport, summarizeBacktest } from '../utils/wtfswap/backtest';
+import { getWtfswapAddresses } from '../utils/wtfswap/deployment';
+import { DevnetConfig, parseDevnetConfig, setupDevnet, startTradingBot } from '../utils/wtfswap/devnet';
+import { WtfswapIndexer } from '../utils/wtfswap/indexer';
+import { JsonIndexerStore } from '../utils/wtfswap/indexerStore';
+import { getMintAmountsWithSlippage } from '../utils/wtfswap/liquidity';
+import { DEFAULT_PAGE_SIZE, iteratePools, iteratePositionsByOwner } from '../utils/wtfswap/pagination';
+import { invertPrice, priceToSqrtPriceX96, priceToTick, sqrtPriceX96ToPrice, tickToPrice } from '../utils/wtfswap/price';
+import { exportSnapshot, parseSnapshot, restoreSnapshot, verifySnapshot } from '../utils/wtfswap/snapshot';
+
+// 日常操作 wtfswap 的命令行工具，例如：
+// npx hardhat wtfswap pools --network localhost
+// npx hardhat wtfswap swap --token-in 0x... --token-out 0x... --amount-in 1.5 --network sepolia
+// npx hardhat wtfswap backtest --trace swaps.csv --positions ranges.json
+// npx hardhat wtfswap snapshot --out sepolia.json --network sepolia，然后 npx hardhat wtfswap restore --snapshot sepolia.json --network localhost
+// npx hardhat wtfswap devnet，启动本地节点并按 tasks/devnet.json 部署 token、池子和交易机器人
+// 合约地址从 ignition/modules/Wtfswap*.ts 的 Ignition 部署记录中读取
+const wtfswap = scope('wtfswap', 'Operate a wtfswap deployment');
+
+interface TokenInfo {
+    address: `0x${string}`;
+    symbol: string;
+    decimals: number;
+}
+
+async function getToken(hre: HardhatRuntimeEnvironment, address: string): Promise<TokenInfo> {
+    const publicClient = await hre.viem.getPublicClient();
+    const token = getAddress(address);
+    const [symbol, decimals] = await Promise.all([
+        publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'symbol' }),
+        publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'decimals' }),
+    ]);
+    return { address: token, symbol, decimals };
+}
+
+// 按地址大小排序，返回 [token0, token1]，以及是否交换了顺序
+async function getSortedTokens(hre: HardhatRuntimeEnvironment, tokenA: string, tokenB: string) {
+    const [a, b] = await Promise.all([getToken(hre, tokenA), getToken(hre, tokenB)]);
+    if (a.address.toLowerCase() === b.address.toLowerCase()) {
+        throw new Error('tokenA and tokenB must be different');
+    }
+    const reversed = a.address.toLowerCase() > b.address.toLowerCase();
+    return { token0: reversed ? b : a, token1: reversed ? a : b, reversed };
+}
+
+async function getContracts(hre: HardhatRuntimeEnvironment, deploymentId?: string) {
+    const addresses = await getWtfswapAddresses(hre, deploymentId);
+    return {
+        poolManager: await hre.viem.getContractAt('PoolManager', addresses.poolManager),
+        positionManager: await hre.viem.getContractAt('PositionManager', addresses.positionManager),
+        swapRouter: await hre.viem.getContractAt('SwapRouter', addresses.swapRouter),
+    };
+}
+
+async function getSigner(hre: HardhatRuntimeEnvironment) {
+    const [walletClient] = await hre.viem.getWalletClients();
+    return walletClient.account.address;
+}
+
+async function waitFor(hre: HardhatRuntimeEnvironment, hash: `0x${string}`) {
+    const publicClient = await hre.viem.getPublicClient();
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== 'success') {
+        throw new Error(`transaction ${hash} reverted`);
+    }
+    return receipt;
+}
+
+// 授权额度不够时才发起 approve
+async function ensureAllowance(hre: HardhatRuntimeEnvironment, token: TokenInfo, spender: `0x${string}`, amount: bigint) {
+    const publicClient = await hre.viem.getPublicClient();
+    const [walletClient] = await hre.viem.getWalletClients();
+    const allowance = await publicClient.readContract({
+        address: token.address,
+        abi: erc20Abi,
+        functionName: 'allowance',
+        args: [walletClient.account.address, spender],
+    });
+    if (allowance >= amount) {
+        return;
+    }
+    console.log(`Approving ${token.symbol} for ${spender}`);
+    await waitFor(
+        hre,
+        await walletClient.writeContract({
+            address: token.address,
+            abi: erc20Abi,
+            functionName: 'approve',
+            args: [spender, maxUint256],
+        })
+    );
+}
+
+function deadlineFromNow(minutes: number) {
+    return BigInt(Math.floor(Date.now() / 1000) + minutes * 60);
+}
+
+function parseIndexPath(indexPath: string): number[] {
+    return indexPath.split(',').map((index) => {
+        const value = Number(index.trim());
+        if (!Number.isInteger(value) || value < 0) {
+            throw new Error(`invalid pool index: ${index}`);
+        }
+        return value;
+    });
+}
+
+wtfswap
+    .task('create-pool', 'Create and initialize a pool through PoolManager.createAndInitializePoolIfNecessary')
+    .addParam('tokenA', 'Address of the first token')
+    .addParam('tokenB', 'Address of the second token')
+    .addParam('price', 'Initial price, how many tokenB for one tokenA')
+    .addParam('priceLower', 'Lower bound of the price range, how many tokenB for one tokenA')
+    .addParam('priceUpper', 'Upper bound of the price range, how many tokenB for one tokenA')
+    .addOptionalParam('fee', 'Fee in hundredths of a bip, 3000 means 0.3%', 3000, types.int)
+    .addOptionalParam('deploymentId', 'Ignition deployment id, defaults to chain-<chainId>')
+    .setAction(async (args, hre) => {
+        const { poolManager } = await getContracts(hre, args.deploymentId);
+        const { token0, token1, reversed } = await getSortedTokens(hre, args.tokenA, args.tokenB);
+
+        // 价格统一换算成 "1 个 token0 可以换多少个 token1"
+        const price = reversed ? invertPrice(args.price) : args.price;
+        const priceLower = reversed ? invertPrice(args.priceUpper) : args.priceLower;
+        const priceUpper = reversed ? invertPrice(args.priceLower) : args.priceUpper;
+
+        const params = {
+            token0: token0.address,
+            token1: token1.address,
+            fee: args.fee,
+            tickLower: priceToTick(priceLower, token0.decimals, token1.decimals),
+            tickUpper: priceToTick(priceUpper, token0.decimals, token1.decimals),
+            sqrtPriceX96: priceToSqrtPriceX96(price, token0.decimals, token1.decimals),
+        };
+        await waitFor(hre, await poolManager.write.createAndInitializePoolIfNecessary([params]));
+
+        const pools = await poolManager.read.getPoolsForPair([token0.address, token1.address]);
+        const pool = pools.find(
+            (p) =>
+                p.token0 === params.token0 &&
+                p.token1 === params.token1 &&
+                p.fee === params.fee &&
+                p.tickLower === params.tickLower &&
+                p.tickUpper === params.tickUpper
+        );
+        console.log(`Pool ${token0.symbol}/${token1.symbol} index ${pool?.index} at ${pool?.pool}`);
+        console.log(`  tickLower ${params.tickLower}, tickUpper ${params.tickUpper}, sqrtPriceX96 ${pool?.sqrtPriceX96}`);
+    });
+
+wtfswap
+    .task('pools', 'List all pools from PoolManager.getPools')
+    .addOptionalParam('pageSize', 'Number of pools to read per call', DEFAULT_PAGE_SIZE, types.int)
+    .addOptionalParam('deploymentId', 'Ignition deployment id, defaults to chain-<chainId>')
+    .setAction(async (args, hre) => {
+        const { poolManager } = await getContracts(hre, args.deploymentId);
+        const rows = [];
+        for await (const pool of iteratePools(poolManager, { pageSize: args.pageSize })) {
+            const [token0, token1] = await Promise.all([getToken(hre, pool.token0), getToken(hre, pool.token1)]);
+            rows.push({
+                pair: `${token0.symbol}/${token1.symbol}`,
+                index: pool.index,
+                pool: pool.pool,
+                fee: `${pool.fee / 10000}%`,
+                priceLower: tickToPrice(pool.tickLower, token0.decimals, token1.decimals),
+                priceUpper: tickToPrice(pool.tickUpper, token0.decimals, token1.decimals),
+                price: sqrtPriceX96ToPrice(pool.sqrtPriceX96, token0.decimals, token1.decimals),
+                liquidity: pool.liquidity.toString(),
+            });
+        }
+        console.table(rows);
+    });
+
+wtfswap
+    .task('set-fee-protocol', 'Set the protocol share of swap fees on a pool, only the PoolManager owner can call it')
+    .addParam('tokenA', 'Address of the first token')
+    .addParam('tokenB', 'Address of the second token')
+    .addOptionalParam('index', 'Pool index of the pair', 0, types.int)
+    .addParam('feeProtocol0', 'Protocol takes 1/N of token0 fees, 0 or 4 to 10', undefined, types.int)
+    .addParam('feeProtocol1', 'Protocol takes 1/N of token1 fees, 0 or 4 to 10', undefined, types.int)
+    .addOptionalParam('deploymentId', 'Ignition deployment id, defaults to chain-<chainId>')
+    .setAction(async (args, hre) => {
+        const { poolManager } = await getContracts(hre, args.deploymentId);
+        const pool = await hre.viem.getContractAt(
+            'Pool',
+            await poolManager.read.getPool([getAddress(args.tokenA), getAddress(args.tokenB), args.index])
+        );
+        await waitFor(hre, await pool.write.setFeeProtocol([args.feeProtocol0, args.feeProtocol1]));
+        console.log(`Pool ${pool.address} feeProtocol set to ${args.feeProtocol0}/${args.feeProtocol1}`);
+    });
+
+wtfswap
+    .task('collect-protocol', 'Collect accumulated protocol fees of a pool, only the PoolManager owner can call it')
+    .addParam('tokenA', 'Address of the first token')
+    .addParam('tokenB', 'Address of the second token')
+    .addOptionalParam('index', 'Pool index of the pair', 0, types.int)
+    .addOptionalParam('recipient', 'Receiver of the fees, defaults to the signer')
+    .addOptionalParam('deploymentId', 'Ignition deployment id, defaults to chain-<chainId>')
+    .setAction(async (args, hre) => {
+        const { poolManager } = await getContracts(hre, args.deploymentId);
+        const { token0, token1 } = await getSortedTokens(hre, args.tokenA, args.tokenB);
+        const pool = await hre.viem.getContractAt(
+            'Pool',
+            await poolManager.read.getPool([token0.address, token1.address, args.index])
+        );
+        const recipient = args.recipient ?? (await getSigner(hre));
+        const [amount0, amount1] = await pool.read.protocolFees();
+        await waitFor(hre, await pool.write.collectProtocol([recipient, amount0, amount1]));
+
+        console.log(`Collected protocol fees of ${pool.address} to ${recipient}:`);
+        console.log(`  ${formatUnits(amount0, token0.decimals)} ${token0.symbol}`);
+        console.log(`  ${formatUnits(amount1, token1.decimals)} ${token1.symbol}`);
+    });
+
+wtfswap
+    .task('mint', 'Add liquidity through PositionManager.mint')
+    .addParam('tokenA', 'Address of the first token')
+    .addParam('tokenB', 'Address of the second token')
+    .addParam('amountA', 'Maximum amount of tokenA to deposit, e.g. 1.5')
+    .addParam('amountB', 'Maximum amount of tokenB to deposit, e.g. 3000')
+    .addOptionalParam('index', 'Pool index of the pair', 0, types.int)
+    .addOptionalParam('slippage', 'Price slippage tolerance in percent', '0.5')
+    .addOptionalParam('recipient', 'Owner of the position NFT, defaults to the signer')
+    .addOptionalParam('deadline', 'Deadline in minutes from now', 20, types.int)
+    .addOptionalParam('deploymentId', 'Ignition deployment id, defaults to chain-<chainId>')
+    .setAction(async (args, hre) => {
+        const { poolManager, positionManager } = await getContracts(hre, args.deploymentId);
+        const { token0, token1, reversed } = await getSortedTokens(hre, args.tokenA, args.tokenB);
+        const amountA = parseUnits(args.amountA, reversed ? token1.decimals : token0.decimals);
+        const amountB = parseUnits(args.amountB, reversed ? token0.decimals : token1.decimals);
+        const [amount0Desired, amount1Desired] = reversed ? [amountB, amountA] : [amountA, amountB];
+
+        // 按池子当前的价格计算滑点保护
+        const pool = await hre.viem.getContractAt(
+            'Pool',
+            await poolManager.read.getPool([token0.address, token1.address, args.index])
+        );
+        const [sqrtPriceX96, tickLower, tickUpper] = await Promise.all([
+            pool.read.sqrtPriceX96(),
+            pool.read.tickLower(),
+            pool.read.tickUpper(),
+        ]);
+        const slippageBips = BigInt(Math.round(Number(args.slippage) * 100));
+        const { amount0Min, amount1Min } = getMintAmountsWithSlippage(
+            { sqrtPriceX96, tickLower, tickUpper },
+            amount0Desired,
+            amount1Desired,
+            slippageBips
+        );
+
+        await ensureAllowance(hre, token0, positionManager.address, amount0Desired);
+        await ensureAllowance(hre, token1, positionManager.address, amount1Desired);
+
+        const receipt = await waitFor(
+            hre,
+            await positionManager.write.mint([
+                {
+                    token0: token0.address,
+                    token1: token1.address,
+                    index: args.index,
+                    amount0Desired,
+                    amount1Desired,
+                    amount0Min,
+                    amount1Min,
+                    recipient: args.recipient ?? (await getSigner(hre)),
+                    deadline: deadlineFromNow(args.deadline),
+                },
+            ])
+        );
+
+        // 通过 NFT 的 Transfer 事件拿到新的 positionId
+        const [minted] = parseEventLogs({
+            abi: positionManager.abi,
+            eventName: 'Transfer',
+            logs: receipt.logs,
+        }).filter((log) => log.args.from === zeroAddress);
+        const position = await positionManager.read.positions([minted.args.tokenId]);
+        console.log(`Minted position ${minted.args.tokenId} with liquidity ${position[6]}`);
+    });
+
+wtfswap
+    .task('increase', 'Add liquidity to an existing position through PositionManager.increaseLiquidity')
+    .addParam('id', 'Position id', undefined, types.bigint)
+    .addParam('amount0', 'Maximum amount of token0 to deposit, e.g. 1.5')
+    .addParam('amount1', 'Maximum amount of token1 to deposit, e.g. 3000')
+    .addOptionalParam('deadline', 'Deadline in minutes from now', 20, types.int)
+    .addOptionalParam('deploymentId', 'Ignition deployment id, defaults to chain-<chainId>')
+    .setAction(async (args, hre) => {
+        const { positionManager } = await getContracts(hre, args.deploymentId);
+        const position = await positionManager.read.positions([args.id]);
+        const [token0, token1] = await Promise.all([getToken(hre, position[2]), getToken(hre, position[3])]);
+        const amount0Desired = parseUnits(args.amount0, token0.decimals);
+        const amount1Desired = parseUnits(args.amount1, token1.decimals);
+
+        await ensureAllowance(hre, token0, positionManager.address, amount0Desired);
+        await ensureAllowance(hre, token1, positionManager.address, amount1Desired);
+
+        const params = {
+            tokenId: args.id,
+            amount0Desired,
+            amount1Desired,
+            amount0Min: 0n,
+            amount1Min: 0n,
+            deadline: deadlineFromNow(args.deadline),
+        };
+        const { result } = await positionManager.simulate.increaseLiquidity([params], {
+            account: await getSigner(hre),
+        });
+        await waitFor(hre, await positionManager.write.increaseLiquidity([params]));
+
+        console.log(`Added liquidity ${result[0]} to position ${args.id}:`);
+        console.log(`  ${formatUnits(result[1], token0.decimals)} ${token0.symbol}`);
+        console.log(`  ${formatUnits(result[2], token1.decimals)} ${token1.symbol}`);
+    });
+
+wtfswap
+    .task('decrease', 'Remove liquidity of a position through PositionManager.decreaseLiquidity')
+    .addParam('id', 'Position id', undefined, types.bigint)
+    .addOptionalParam('liquidity', 'Liquidity to remove, defaults to all', undefined, types.bigint)
+    .addOptionalParam('deadline', 'Deadline in minutes from now', 20, types.int)
+    .addOptionalParam('deploymentId', 'Ignition deployment id, defaults to chain-<chainId>')
+    .setAction(async (args, hre) => {
+        const { positionManager } = await getContracts(hre, args.deploymentId);
+        const position = await positionManager.read.positions([args.id]);
+        const [token0, token1] = await Promise.all([getToken(hre, position[2]), getToken(hre, position[3])]);
+
+        const params = {
+            tokenId: args.id,
+            liquidity: args.liquidity ?? position[6],
+            amount0Min: 0n,
+            amount1Min: 0n,
+            deadline: deadlineFromNow(args.deadline),
+        };
+        const { result } = await positionManager.simulate.decreaseLiquidity([params], {
+            account: await getSigner(hre),
+        });
+        await waitFor(hre, await positionManager.write.decreaseLiquidity([params]));
+
+        // 退出的 token 计入 tokensOwed，需要再执行 collect 取回
+        console.log(`Removed liquidity ${params.liquidity} from position ${args.id}, owed:`);
+        console.log(`  ${formatUnits(result[0], token0.decimals)} ${token0.symbol}`);
+        console.log(`  ${formatUnits(result[1], token1.decimals)} ${token1.symbol}`);
+    });
+
+wtfswap
+    .task('collect', 'Collect tokens owed and fees of a position through PositionManager.collect')
+    .addParam('id', 'Position id', undefined, types.bigint)
+    .addOptionalParam('recipient', 'Receiver of the tokens, defaults to the signer')
+    .addOptionalParam('deploymentId', 'Ignition deployment id, defaults to chain-<chainId>')
+    .setAction(async (args, hre) => {
+        const { positionManager } = await getContracts(hre, args.deploymentId);
+        const position = await positionManager.read.positions([args.id]);
+        const [token0, token1] = await Promise.all([getToken(hre, position[2]), getToken(hre, position[3])]);
+
+        const params = {
+            tokenId: args.id,
+            recipient: args.recipient ?? (await getSigner(hre)),
+            amount0Max: maxUint128,
+            amount1Max: maxUint128,
+        };
+        const { result } = await positionManager.simulate.collect([params], {
+            account: await getSigner(hre),
+        });
+        await waitFor(hre, await positionManager.write.collect([params]));
+
+        console.log(`Collected position ${args.id} to ${params.recipient}:`);
+        console.log(`  ${formatUnits(result[0], token0.decimals)} ${token0.symbol}`);
+        console.log(`  ${formatUnits(result[1], token1.decimals)} ${token1.symbol}`);
+    });
+
+wtfswap
+    .task('burn', 'Burn the NFT of an empty position through PositionManager.burn')
+    .addParam('id', 'Position id', undefined, types.bigint)
+    .addOptionalParam('deploymentId', 'Ignition deployment id, defaults to chain-<chainId>')
+    .setAction(async (args, hre) => {
+        const { positionManager } = await getContracts(hre, args.deploymentId);
+        // 流动性和 tokensOwed 都为 0 时才能销毁，需要先执行 decrease 和 collect
+        await waitFor(hre, await positionManager.write.burn([args.id]));
+        console.log(`Burned position ${args.id}`);
+    });
+
+wtfswap
+    .task('positions', 'List positions of an owner')
+    .addOptionalParam('owner', 'Position owner, defaults to the signer')
+    .addOptionalParam('pageSize', 'Number of positions to read per call', DEFAULT_PAGE_SIZE, types.int)
+    .addOptionalParam('deploymentId', 'Ignition deployment id, defaults to chain-<chainId>')
+    .setAction(async (args, hre) => {
+        const { positionManager } = await getContracts(hre, args.deploymentId);
+        const owner = getAddress(args.owner ?? (await getSigner(hre)));
+
+        const rows = [];
+        for await (const position of iteratePositionsByOwner(positionManager, owner, { pageSize: args.pageSize })) {
+            const [token0, token1] = await Promise.all([getToken(hre, position.token0), getToken(hre, position.token1)]);
+            rows.push({
+                id: position.id.toString(),
+                pair: `${token0.symbol}/${token1.symbol}`,
+                index: position.index,
+                priceLower: tickToPrice(position.tickLower, token0.decimals, token1.decimals),
+                priceUpper: tickToPrice(position.tickUpper, token0.decimals, token1.decimals),
+                liquidity: position.liquidity.toString(),
+                owed0: formatUnits(position.tokensOwed0, token0.decimals),
+                owed1: formatUnits(position.tokensOwed1, token1.decimals),
+            });
+        }
+        console.table(rows);
+    });
+
+wtfswap
+    .task('swap', 'Swap through SwapRouter, exactly one of --amount-in and --amount-out is required')
+    .addParam('tokenIn', 'Address of the token to sell')
+    .addParam('tokenOut', 'Address of the token to buy')
+    .addOptionalParam('amountIn', 'Exact amount of tokenIn to sell, e.g. 1.5')
+    .addOptionalParam('amountOut', 'Exact amount of tokenOut to buy, e.g. 3000')
+    .addOptionalParam('indexPath', 'Comma separated pool indexes to walk through', '0')
+    .addOptionalParam('slippage', 'Slippage tolerance in percent', '0.5')
+    .addOptionalParam('recipient', 'Receiver of tokenOut, defaults to the signer')
+    .addOptionalParam('deadline', 'Deadline in minutes from now', 20, types.int)
+    .addOptionalParam('deploymentId', 'Ignition deployment id, defaults to chain-<chainId>')
+    .setAction(async (args, hre) => {
+        if ((args.amountIn === undefined) === (args.amountOut === undefined)) {
+            throw new Error('exactly one of --amount-in and --amount-out is required');
+        }
+
+        const { swapRouter } = await getContracts(hre, args.deploymentId);
+        const [tokenIn, tokenOut] = await Promise.all([getToken(hre, args.tokenIn), getToken(hre, args.tokenOut)]);
+        const indexPath = parseIndexPath(args.indexPath);
+        const recipient = args.recipient ?? (await getSigner(hre));
+        const deadline = deadlineFromNow(args.deadline);
+        // 滑点按万分之一计算
+        const slippageBips = BigInt(Math.round(Number(args.slippage) * 100));
+
+        if (args.amountIn !== undefined) {
+            const amountIn = parseUnits(args.amountIn, tokenIn.decimals);
+            const { result: quote } = await swapRouter.simulate.quoteExactInput([
+                { tokenIn: tokenIn.address, tokenOut: tokenOut.address, indexPath, amountIn, sqrtPriceLimitX96: 0n },
+            ]);
+            const amountOutMinimum = (quote * (10000n - slippageBips)) / 10000n;
+            console.log(`Quote: ${args.amountIn} ${tokenIn.symbol} -> ${formatUnits(quote, tokenOut.decimals)} ${tokenOut.symbol}`);
+
+            await ensureAllowance(hre, tokenIn, swapRouter.address, amountIn);
+            await waitFor(
+                hre,
+                await swapRouter.write.exactInput([
+                    {
+                        tokenIn: tokenIn.address,
+                        tokenOut: tokenOut.address,
+                        indexPath,
+                        recipient,
+                        deadline,
+                        amountIn,
+                        amountOutMinimum,
+                        sqrtPriceLimitX96: 0n,
+                    },
+                ])
+            );
+        } else {
+            const amountOut = parseUnits(args.amountOut, tokenOut.decimals);
+            const { result: quote } = await swapRouter.simulate.quoteExactOutput([
+                { tokenIn: tokenIn.address, tokenOut: tokenOut.address, indexPath, amountOut, sqrtPriceLimitX96: 0n },
+            ]);
+            const amountInMaximum = (quote * (10000n + slippageBips)) / 10000n;
+            console.log(`Quote: ${formatUnits(quote, tokenIn.decimals)} ${tokenIn.symbol} -> ${args.amountOut} ${tokenOut.symbol}`);
+
+            await ensureAllowance(hre, tokenIn, swapRouter.address, amountInMaximum);
+            await waitFor(
+                hre,
+                await swapRouter.write.exactOutput([
+                    {
+                        tokenIn: tokenIn.address,
+                        tokenOut: tokenOut.address,
+                        indexPath,
+                        recipient,
+                        deadline,
+                        amountOut,
+                        amountInMaximum,
+                        sqrtPriceLimitX96: 0n,
+                    },
+                ])
+            );
+        }
+        console.log('Swap confirmed');
+    });
+
+wtfswap
+    .task('index', 'Index pool and position events into a local JSON store and print statistics')
+    .addOptionalParam('store', 'Path of the JSON store, defaults to <cache>/wtfswap-indexer/<network>.json')
+    .addOptionalParam('fromBlock', 'Block to start indexing from on the first run', 0, types.int)
+    .addOptionalParam('confirmations', 'Only index blocks with at least this many confirmations', 0, types.int)
+    .addOptionalParam('owner', 'Only print positions of this owner')
+    .addOptionalParam('deploymentId', 'Ignition deployment id, defaults to chain-<chainId>')
+    .setAction(async (args, hre) => {
+        const { poolManager, positionManager } = await getWtfswapAddresses(hre, args.deploymentId);
+        const store = args.store ?? path.join(hre.config.paths.cache, 'wtfswap-indexer', `${hre.network.name}.json`);
+        const indexer = new WtfswapIndexer({
+            publicClient: await hre.viem.getPublicClient(),
+            store: new JsonIndexerStore(store),
+            poolManager,
+            positionManager,
+            fromBlock: args.fromBlock,
+            confirmations: args.confirmations,
+        });
+
+        const result = await indexer.sync();
+        // rolledBackTo: number | null | undefined，见 SyncResult
+        if (result.rolledBackTo === null) {
+            console.log(`Reorg detected, rolled back all indexed events and re-indexed from block ${result.fromBlock}`);
+        } else if (result.rolledBackTo !== undefined) {
+            console.log(`Reorg detected, rolled back to block ${result.rolledBackTo}`);
+        }
+        if (result.fromBlock > result.toBlock) {
+            console.log(`Already up to date at block ${result.toBlock}`);
+        } else {
+            console.log(`Indexed blocks ${result.fromBlock} to ${result.toBlock} into ${store}`);
+        }
+
+        const poolRows = [];
+        for (const pool of indexer.getPools()) {
+            const stats = indexer.getPoolStats(pool.pool);
+            // 通过 createPool 创建但还没有初始化的池子没有价格，跳过
+            if (!stats) {
+                continue;
+            }
+            const [token0, token1] = await Promise.all([getToken(hre, pool.token0), getToken(hre, pool.token1)]);
+            poolRows.push({
+                pair: `${token0.symbol}/${token1.symbol}`,
+                index: pool.index,
+                swaps: stats.swapCount,
+                volume0: formatUnits(stats.volume0, token0.decimals),
+                volume1: formatUnits(stats.volume1, token1.decimals),
+                fees0: formatUnits(stats.fees0, token0.decimals),
+                fees1: formatUnits(stats.fees1, token1.decimals),
+                price: sqrtPriceX96ToPrice(stats.sqrtPriceX96, token0.decimals, token1.decimals),
+            });
+        }
+        console.table(poolRows);
+
+        const positionRows = [];
+        for (const position of indexer.getPositions(args.owner)) {
+            const pool = indexer.getPools().find((p) => p.pool === position.pool)!;
+            const [token0, token1] = await Promise.all([getToken(hre, pool.token0), getToken(hre, pool.token1)]);
+            positionRows.push({
+                id: position.positionId.toString(),
+                pair: `${token0.symbol}/${token1.symbol}`,
+                owner: position.owner,
+                liquidity: position.liquidity.toString(),
+                fees0: formatUnits(position.fees0, token0.decimals),
+                fees1: formatUnits(position.fees1, token1.decimals),
+                [`pnl (${token1.symbol})`]: formatUnits(position.pnl1, token1.decimals),
+            });
+        }
+        console.table(positionRows);
+    });
+
+// 回测配置文件的格式，价格和数量都是人类可读的字符串，两个 token 都是 18 位小数
+// 价格区间可以用 tickLower/tickUpper，也可以用 priceLower/priceUpper
+interface BacktestConfigFile {
+    price: string;
+    positions: {
+        name?: string;
+        fee: number;
+        tickLower?: number;
+        tickUpper?: number;
+        priceLower?: string;
+        priceUpper?: string;
+        amount0: string;
+        amount1: string;
+    }[];
+}
+
+wtfswap
+    .task('backtest', 'Replay a swap trace against candidate pools on the in-process hardhat network')
+    .addParam('trace', 'CSV or JSON file of swaps with timestamp, direction (zeroForOne/oneForZero) and amount')
+    .addParam('positions', 'JSON file with the initial price and the positions to evaluate')
+    .addOptionalParam('out', 'Path of the JSON report, defaults to <cache>/wtfswap-backtest/report.json')
+    .addOptionalParam('snapshotInterval', 'Record token composition every N swaps', 1, types.int)
+    .setAction(async (args, hre) => {
+        if (hre.network.name !== 'hardhat') {
+            throw new Error('backtest deploys its own contracts and only runs on the in-process hardhat network');
+        }
+        const trace = parseSwapTrace(fs.readFileSync(args.trace, 'utf8'));
+        const file = JSON.parse(fs.readFileSync(args.positions, 'utf8')) as BacktestConfigFile;
+        const decimals = 18;
+        const report = await runBacktest(
+            hre,
+            {
+                sqrtPriceX96: priceToSqrtPriceX96(file.price, decimals, decimals),
+                snapshotInterval: args.snapshotInterval,
+                positions: file.positions.map((position) => ({
+                    name: position.name,
+                    fee: position.fee,
+                    tickLower: position.tickLower ?? priceToTick(position.priceLower!, decimals, decimals),
+                    tickUpper: position.tickUpper ?? priceToTick(position.priceUpper!, decimals, decimals),
+                    amount0: parseUnits(position.amount0, decimals),
+                    amount1: parseUnits(position.amount1, decimals),
+                })),
+            },
+            trace
+        );
+
+        const out = args.out ?? path.join(hre.config.paths.cache, 'wtfswap-backtest', 'report.json');
+        fs.mkdirSync(path.dirname(out), { recursive: true });
+        fs.writeFileSync(out, stringifyBacktestReport(report));
+        console.log(`Replayed ${report.trades} swaps against ${report.pools.length} pools, report written to ${out}`);
+        console.table(summarizeBacktest(report, (amount) => formatUnits(amount, decimals)));
+    });
+
+function parseAddressList(value?: string): `0x${string}`[] {
+    return (value ?? '')
+        .split(',')
+        .map((address) => address.trim())
+        .filter((address) => address !== '')
+        .map((address) => getAddress(address));
+}
+
+wtfswap
+    .task('snapshot', 'Export pools, positions, Pool.positions and token balances into a versioned JSON snapshot')
+    .addParam('out', 'Path of the JSON snapshot')
+    .addOptionalParam('block', 'Block number to read at, defaults to the latest block', undefined, types.bigint)
+    .addOptionalParam('holders', 'Extra comma separated addresses whose token balances are recorded')
+    .addOptionalParam('poolOwners', 'Comma separated addresses other than PositionManager that call Pool.mint directly')
+    .addOptionalParam('deploymentId', 'Ignition deployment id, defaults to chain-<chainId>')
+    .setAction(async (args, hre) => {
+        const { poolManager, positionManager } = await getContracts(hre, args.deploymentId);
+        const snapshot = await exportSnapshot(
+            hre,
+            { poolManager: poolManager.address, positionManager: positionManager.address },
+            { blockNumber: args.block, holders: parseAddressList(args.holders), poolOwners: parseAddressList(args.poolOwners) }
+        );
+        fs.mkdirSync(path.dirname(path.resolve(args.out)), { recursive: true });
+        fs.writeFileSync(args.out, JSON.stringify(snapshot, null, 2));
+        console.log(
+            `Exported ${snapshot.pools.length} pools, ${snapshot.positions.length} positions and ${snapshot.tokens.length} tokens at block ${snapshot.blockNumber} to ${args.out}`
+        );
+    });
+
+wtfswap
+    .task('restore', 'Deploy fresh contracts on a hardhat node, restore a snapshot into them and verify the result')
+    .addParam('snapshot', 'Path of the JSON snapshot written by wtfswap snapshot')
+    .addOptionalParam('out', 'Path to write the restored contract addresses and the address mapping')
+    .setAction(async (args, hre) => {
+        // 恢复需要 hardhat_setStorageAt，进程内的网络在命令结束后就没有了，通常应该用 --network localhost 连接 npx hardhat node
+        if (!['hardhat', 'localhost'].includes(hre.network.name)) {
+            throw new Error('restore writes contract storage directly and only runs on a hardhat network or node');
+        }
+        const snapshot = parseSnapshot(fs.readFileSync(args.snapshot, 'utf8'));
+        const restored = await restoreSnapshot(hre, snapshot);
+        console.log(`Restored snapshot of chain ${snapshot.chainId} at block ${snapshot.blockNumber}:`);
+        console.table(restored.contracts);
+        if (args.out) {
+            fs.mkdirSync(path.dirname(path.resolve(args.out)), { recursive: true });
+            fs.writeFileSync(args.out, JSON.stringify(restored, null, 2));
+            console.log(`Address mapping written to ${args.out}`);
+        }
+
+        const differences = await verifySnapshot(hre, snapshot, restored);
+        if (differences.length > 0) {
+            differences.forEach((difference) => console.log(`  ${difference}`));
+            throw new Error(`restored state differs from the snapshot in ${differences.length} fields`);
+        }
+        console.log('Verified: restored state matches the snapshot');
+    });
+
+interface DevnetOptions {
+    config: DevnetConfig;
+    maxSwaps?: number;
+    noBot: boolean;
+}
+
+// 在 hardhat 网络上执行 devnet 时，等 node 的 JSON-RPC 服务启动之后再部署
+let pendingDevnet: DevnetOptions | undefined;
+
+// 部署并打印 devnet 的内容，地址记录到 deployments/localhost.json，其它命令可以直接用 --network localhost 操作
+// 返回交易机器人，没有启动时返回 undefined
+async function runDevnet(hre: HardhatRuntimeEnvironment, options: DevnetOptions) {
+    const devnet = await setupDevnet(hre, options.config);
+    const publicClient = await hre.viem.getPublicClient();
+    const book = {
+        version: ADDRESS_BOOK_VERSION,
+        network: 'localhost',
+        chainId: await publicClient.getChainId(),
+        contracts: devnet.records,
+    };
+    writeAddressBook(hre, book);
+
+    console.table(devnet.contracts);
+    console.table(devnet.tokens);
+    console.table(
+        devnet.pools.map((pool) => ({
+            pair: pool.pair,
+            index: pool.index,
+            pool: pool.pool,
+            fee: `${pool.fee / 10000}%`,
+            positionId: pool.positionId.toString(),
+        }))
+    );
+    console.log(`Funded accounts: ${devnet.accounts.join(', ')}`);
+    console.log(`Address book written to ${getAddressBookPath(hre, book.network)}`);
+    if (options.noBot || devnet.pools.length === 0) {
+        return undefined;
+    }
+
+    const tokens = new Map(devnet.tokens.map((token) => [token.address, token]));
+    const format = (address: `0x${string}`, amount: bigint) => {
+        const token = tokens.get(address)!;
+        return `${formatUnits(amount, token.decimals)} ${token.symbol}`;
+    };
+    console.log(`Trading bot started, one swap every ${options.config.bot.intervalMs}ms`);
+    return startTradingBot(hre, devnet, {
+        ...options.config.bot,
+        maxSwaps: options.maxSwaps,
+        onSwap: (swap) => {
+            const pool = devnet.pools.find((info) => info.pool === swap.pool)!;
+            const [tokenIn, tokenOut] = swap.zeroForOne ? [pool.token0, pool.token1] : [pool.token1, pool.token0];
+            console.log(
+                `${swap.pair} ${swap.trader} swapped ${format(tokenIn, swap.amountIn)} for ${format(tokenOut, swap.amountOut)}`
+            );
+        },
+    });
+}
+
+subtask(TASK_NODE_SERVER_READY).setAction(async (args, hre, runSuper) => {
+    await runSuper(args);
+    if (pendingDevnet) {
+        const options = pendingDevnet;
+        pendingDevnet = undefined;
+        // 机器人在后台运行，node 一直运行到进程退出
+        await runDevnet(hre, options);
+    }
+});
+
+wtfswap
+    .task('devnet', 'Start a local devnet with TestTokens, seeded pools and a trading bot from a JSON config')
+    .addOptionalParam('configFile', 'Path of the devnet JSON config, defaults to tasks/devnet.json')
+    .addOptionalParam('port', 'Port of the JSON-RPC server when started on the hardhat network', 8545, types.int)
+    .addOptionalParam('maxSwaps', 'Stop the trading bot after N swaps, defaults to running until exit', undefined, types.int)
+    .addFlag('noBot', 'Only deploy tokens and pools, do not start the trading bot')
+    .setAction(async (args, hre) => {
+        const file = args.configFile ?? path.join(hre.config.paths.root, 'tasks', 'devnet.json');
+        const options: DevnetOptions = {
+            config: parseDevnetConfig(fs.readFileSync(file, 'utf8')),
+            maxSwaps: args.maxSwaps,
+            noBot: args.noBot,
+        };
+
+        if (hre.network.name === 'hardhat') {
+            // 启动 node，JSON-RPC 服务启动之后在同一条链上部署
+            pendingDevnet = options;
+            await hre.run(TASK_NODE, { port: args.port });
+        } else if (hre.network.name === 'localhost') {
+            // 已经有一个 npx hardhat node 在运行，部署之后在前台运行机器人，Ctrl+C 停止
+            const bot = await runDevnet(hre, options);
+            if (bot) {
+                process.once('SIGINT', () => bot.stop());
+                await bot.done;
+                console.log(`Trading bot stopped after ${bot.swaps} swaps`);
+            }
+        } else {
+            throw new Error('devnet mints test tokens with local accounts and only runs on hardhat or localhost');
+        }
+    });
@@ -1,13 +1,45 @@
 import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
 import { expect } from "chai";
 import hre from "hardhat";
+import { getAddress, parseEther, zeroHash } from "viem";
+import MyTokenModule from "../ignition/modules/MyToken";
+import { allowlistLeaf, buildAllowlistTree } from "../utils/merkle";
+
+// MyToken.Phase
+const CLOSED = 0;
+const ALLOWLIST = 1;
+const PUBLIC = 2;
 
 describe("MyToken", function () {
+  const PRICE = parseEther("0.01");
+  const MAX_SUPPLY = 8n;
+  const MAX_PER_WALLET = 3n;
+  const UNREVEALED_URI = "ipfs://unrevealed.json";
+
   async function deployFixture() {
-    const token = await hre.viem.deployContract("MyToken");
-    return {
-      token,
-    };
+    const [owner, alice, bob, carol, dave] = await hre.viem.getWalletClients();
+    const token = await hre.viem.deployContract("MyToken", [
+      PRICE,
+      MAX_SUPPLY,
+      MAX_PER_WALLET,
+      UNREVEALED_URI,
+    ]);
+    // 白名单是 alice、bob 和 dave，carol 不在白名单中；三个地址让树的某一层有奇数个节点
+    const tree = buildAllowlistTree([
+      alice.account.address,
+      bob.account.address,
+      dave.account.address,
+    ]);
+    await token.write.setMerkleRoot([tree.root]);
+    const publicClient = await hre.viem.getPublicClient();
+
+    // 用指定账户调用合约
+    const as = (account: typeof owner) =>
+      hre.viem.getContractAt("MyToken", token.address, {
+        client: { wallet: account },
+      });
+
+    return { token, tree, owner, alice, bob, carol, dave, publicClient, as };
   }
 
   describe("ERC721", function () {
@@ -15,7 +47,334 @@ describe("MyToken", function () {
       it("Get NFT name", async function () {
         const { token } = await loadFixture(deployFixture);
         expect(await token.read.name()).to.equal("MyToken");
+        expect(await token.read.symbol()).to.equal("MTK");
       });
     });
   });
-});
\ No newline at end of file
+
+  describe("Deployment", function () {
+    it("Should set the sale parameters", async function () {
+      const { token, owner } = await loadFixture(deployFixture);
+      expect(await token.read.price()).to.equal(PRICE);
+      expect(await token.read.maxSupply()).to.equal(MAX_SUPPLY);
+      expect(await token.read.maxPerWallet()).to.equal(MAX_PER_WALLET);
+      expect(await token.read.unrevealedURI()).to.equal(UNREVEALED_URI);
+      expect(await token.read.phase()).to.equal(CLOSED);
+      expect(await token.read.totalSupply()).to.equal(0n);
+      expect(await token.read.owner()).to.equal(
+        getAddress(owner.account.address)
+      );
+    });
+
+    it("Should reject a zero max supply or per wallet limit", async function () {
+      await expect(
+        hre.viem.deployContract("MyToken", [PRICE, 0n, MAX_PER_WALLET, ""])
+      ).to.be.rejectedWith("max supply must be positive");
+      await expect(
+        hre.viem.deployContract("MyToken", [PRICE, MAX_SUPPLY, 0n, ""])
+      ).to.be.rejectedWith("max per wallet must be positive");
+    });
+
+    it("Should deploy through the ignition module with parameters", async function () {
+      const { myToken } = await hre.ignition.deploy(MyTokenModule, {
+        parameters: {
+          MyTokenModule: {
+            price: parseEther("0.05"),
+            maxSupply: 100n,
+            unrevealedURI: UNREVEALED_URI,
+          },
+        },
+      });
+      expect(await myToken.read.price()).to.equal(parseEther("0.05"));
+      expect(await myToken.read.maxSupply()).to.equal(100n);
+      // 没有传入的参数使用模块中的默认值
+      expect(await myToken.read.maxPerWallet()).to.equal(5n);
+      expect(await myToken.read.unrevealedURI()).to.equal(UNREVEALED_URI);
+    });
+  });
+
+  describe("Closed", function () {
+    it("Should not mint before the sale starts", async function () {
+      const { tree, alice, as } = await loadFixture(deployFixture);
+      const token = await as(alice);
+      await expect(
+        token.write.mint([1n], { value: PRICE })
+      ).to.be.rejectedWith("public sale not active");
+      await expect(
+        token.write.allowlistMint([1n, tree.getProof(alice.account.address)], {
+          value: PRICE,
+        })
+      ).to.be.rejectedWith("allowlist sale not active");
+    });
+
+    it("Should only let the owner change the phase", async function () {
+      const { token, alice, as } = await loadFixture(deployFixture);
+      await expect(
+        (await as(alice)).write.setPhase([PUBLIC])
+      ).to.be.rejectedWith("OwnableUnauthorizedAccount");
+      await token.write.setPhase([ALLOWLIST]);
+      expect(await token.read.phase()).to.equal(ALLOWLIST);
+      const events = await token.getEvents.PhaseChanged();
+      expect(events[0].args.phase).to.equal(ALLOWLIST);
+    });
+  });
+
+  describe("Allowlist", function () {
+    async function allowlistFixture() {
+      const fixture = await deployFixture();
+      await fixture.token.write.setPhase([ALLOWLIST]);
+      return fixture;
+    }
+
+    it("Should build proofs that the contract accepts", async function () {
+      const { token, tree, alice, bob, dave, as } = await loadFixture(
+        allowlistFixture
+      );
+      for (const account of [alice, bob, dave]) {
+        await (await as(account)).write.allowlistMint(
+          [1n, tree.getProof(account.account.address)],
+          { value: PRICE }
+        );
+        expect(await token.read.minted([account.account.address])).to.equal(
+          1n
+        );
+      }
+      expect(await token.read.totalSupply()).to.equal(3n);
+      expect(await token.read.ownerOf([2n])).to.equal(
+        getAddress(dave.account.address)
+      );
+    });
+
+    it("Should batch mint up to the per wallet limit", async function () {
+      const { token, tree, alice, publicClient, as } = await loadFixture(
+        allowlistFixture
+      );
+      const proof = tree.getProof(alice.account.address);
+      const aliceToken = await as(alice);
+      await aliceToken.write.allowlistMint([2n, proof], { value: PRICE * 2n });
+      expect(await token.read.balanceOf([alice.account.address])).to.equal(2n);
+      await expect(
+        aliceToken.write.allowlistMint([2n, proof], { value: PRICE * 2n })
+      ).to.be.rejectedWith("exceeds max per wallet");
+      await aliceToken.write.allowlistMint([1n, proof], { value: PRICE });
+      expect(await token.read.minted([alice.account.address])).to.equal(
+        MAX_PER_WALLET
+      );
+      expect(await publicClient.getBalance({ address: token.address })).to.equal(
+        PRICE * MAX_PER_WALLET
+      );
+    });
+
+    it("Should reject accounts and proofs that are not in the allowlist", async function () {
+      const { tree, alice, bob, carol, as } = await loadFixture(
+        allowlistFixture
+      );
+      expect(() => tree.getProof(carol.account.address)).to.throw(
+        "is not in the allowlist"
+      );
+      // carol 使用别人的 proof 也不行，叶子节点是按 msg.sender 计算的
+      await expect(
+        (await as(carol)).write.allowlistMint(
+          [1n, tree.getProof(alice.account.address)],
+          { value: PRICE }
+        )
+      ).to.be.rejectedWith("invalid proof");
+      await expect(
+        (await as(bob)).write.allowlistMint([1n, []], { value: PRICE })
+      ).to.be.rejectedWith("invalid proof");
+      // 公开发售还没有开始
+      await expect(
+        (await as(alice)).write.mint([1n], { value: PRICE })
+      ).to.be.rejectedWith("public sale not active");
+    });
+
+    it("Should reject a wrong payment or zero quantity", async function () {
+      const { tree, alice, as } = await loadFixture(allowlistFixture);
+      const proof = tree.getProof(alice.account.address);
+      const token = await as(alice);
+      await expect(
+        token.write.allowlistMint([2n, proof], { value: PRICE })
+      ).to.be.rejectedWith("incorrect payment");
+      await expect(
+        token.write.allowlistMint([1n, proof], { value: PRICE * 2n })
+      ).to.be.rejectedWith("incorrect payment");
+      await expect(
+        token.write.allowlistMint([0n, proof], { value: 0n })
+      ).to.be.rejectedWith("quantity must be positive");
+    });
+
+    it("Should build the same tree regardless of order and duplicates", async function () {
+      const { tree, alice, bob, dave } = await loadFixture(allowlistFixture);
+      const reordered = buildAllowlistTree([
+        dave.account.address,
+        alice.account.address.toUpperCase().replace("0X", "0x"),
+        bob.account.address,
+        alice.account.address,
+      ]);
+      expect(reordered.root).to.equal(tree.root);
+      expect(reordered.accounts.length).to.equal(3);
+      // 只有一个地址时 root 就是叶子节点，proof 为空
+      const single = buildAllowlistTree([alice.account.address]);
+      expect(single.root).to.equal(allowlistLeaf(alice.account.address));
+      expect(single.getProof(alice.account.address)).to.deep.equal([]);
+      expect(() => buildAllowlistTree([])).to.throw("allowlist must not be empty");
+    });
+
+    it("Should only let the owner set the merkle root", async function () {
+      const { token, tree, alice, as } = await loadFixture(allowlistFixture);
+      await expect(
+        (await as(alice)).write.setMerkleRoot([zeroHash])
+      ).to.be.rejectedWith("OwnableUnauthorizedAccount");
+      await token.write.setMerkleRoot([zeroHash]);
+      await expect(
+        (await as(alice)).write.allowlistMint(
+          [1n, tree.getProof(alice.account.address)],
+          { value: PRICE }
+        )
+      ).to.be.rejectedWith("invalid proof");
+    });
+  });
+
+  describe("Public", function () {
+    async function publicFixture() {
+      const fixture = await deployFixture();
+      await fixture.token.write.setPhase([PUBLIC]);
+      return fixture;
+    }
+
+    it("Should let anyone batch mint", async function () {
+      const { token, carol, as } = await loadFixture(publicFixture);
+      await (await as(carol)).write.mint([3n], { value: PRICE * 3n });
+      expect(await token.read.balanceOf([carol.account.address])).to.equal(3n);
+      for (const tokenId of [0n, 1n, 2n]) {
+        expect(await token.read.ownerOf([tokenId])).to.equal(
+          getAddress(carol.account.address)
+        );
+      }
+      // 白名单阶段已经结束
+      await expect(
+        (await as(carol)).write.allowlistMint([1n, []], { value: PRICE })
+      ).to.be.rejectedWith("allowlist sale not active");
+    });
+
+    it("Should count allowlist mints towards the per wallet limit", async function () {
+      const { token, tree, alice, as } = await loadFixture(deployFixture);
+      const aliceToken = await as(alice);
+      await token.write.setPhase([ALLOWLIST]);
+      await aliceToken.write.allowlistMint(
+        [2n, tree.getProof(alice.account.address)],
+        { value: PRICE * 2n }
+      );
+      await token.write.setPhase([PUBLIC]);
+      await expect(
+        aliceToken.write.mint([2n], { value: PRICE * 2n })
+      ).to.be.rejectedWith("exceeds max per wallet");
+      await aliceToken.write.mint([1n], { value: PRICE });
+      expect(await token.read.balanceOf([alice.account.address])).to.equal(3n);
+    });
+
+    it("Should stop at the max supply", async function () {
+      const { token, alice, bob, carol, as } = await loadFixture(publicFixture);
+      await (await as(alice)).write.mint([3n], { value: PRICE * 3n });
+      await (await as(bob)).write.mint([3n], { value: PRICE * 3n });
+      // 只剩 2 个
+      await expect(
+        (await as(carol)).write.mint([3n], { value: PRICE * 3n })
+      ).to.be.rejectedWith("exceeds max supply");
+      await (await as(carol)).write.mint([2n], { value: PRICE * 2n });
+      expect(await token.read.totalSupply()).to.equal(MAX_SUPPLY);
+      await expect(
+        (await as(carol)).write.mint([1n], { value: PRICE })
+      ).to.be.rejectedWith("exceeds max supply");
+    });
+
+    it("Should charge the updated price", async function () {
+      const { token, carol, as } = await loadFixture(publicFixture);
+      const price = parseEther("0.02");
+      await expect(
+        (await as(carol)).write.setPrice([price])
+      ).to.be.rejectedWith("OwnableUnauthorizedAccount");
+      await token.write.setPrice([price]);
+      await expect(
+        (await as(carol)).write.mint([1n], { value: PRICE })
+      ).to.be.rejectedWith("incorrect payment");
+      await (await as(carol)).write.mint([2n], { value: price * 2n });
+      expect(await token.read.balanceOf([carol.account.address])).to.equal(2n);
+    });
+  });
+
+  describe("Reveal", function () {
+    it("Should return the unrevealed URI before reveal", async function () {
+      const { token } = await loadFixture(deployFixture);
+      await token.write.setPhase([PUBLIC]);
+      await token.write.mint([2n], { value: PRICE * 2n });
+      expect(await token.read.tokenURI([0n])).to.equal(UNREVEALED_URI);
+      expect(await token.read.tokenURI([1n])).to.equal(UNREVEALED_URI);
+      await expect(token.read.tokenURI([2n])).to.be.rejectedWith(
+        "ERC721NonexistentToken"
+      );
+    });
+
+    it("Should return baseURI + tokenId after reveal, only once", async function () {
+      const { token, alice, as } = await loadFixture(deployFixture);
+      await token.write.setPhase([PUBLIC]);
+      await token.write.mint([2n], { value: PRICE * 2n });
+      await expect(
+        (await as(alice)).write.reveal(["ipfs://fake/"])
+      ).to.be.rejectedWith("OwnableUnauthorizedAccount");
+
+      await token.write.reveal(["ipfs://collection/"]);
+      const events = await token.getEvents.Revealed();
+      expect(events[0].args.baseURI).to.equal("ipfs://collection/");
+      expect(await token.read.revealed()).to.be.true;
+      expect(await token.read.tokenURI([1n])).to.equal("ipfs://collection/1");
+      await expect(token.write.reveal(["ipfs://other/"])).to.be.rejectedWith(
+        "already revealed"
+      );
+    });
+  });
+
+  describe("Withdraw", function () {
+    it("Should send the sale proceeds to the recipient", async function () {
+      const { token, alice, bob, carol, publicClient, as } = await loadFixture(
+        deployFixture
+      );
+      await token.write.setPhase([PUBLIC]);
+      await (await as(alice)).write.mint([3n], { value: PRICE * 3n });
+      await (await as(bob)).write.mint([1n], { value: PRICE });
+
+      const balance = await publicClient.getBalance({
+        address: carol.account.address,
+      });
+      await token.write.withdraw([carol.account.address]);
+      expect(
+        await publicClient.getBalance({ address: carol.account.address })
+      ).to.equal(balance + PRICE * 4n);
+      expect(await publicClient.getBalance({ address: token.address })).to.equal(
+        0n
+      );
+      const events = await token.getEvents.Withdrawal();
+      expect(events[0].args.recipient).to.equal(
+        getAddress(carol.account.address)
+      );
+      expect(events[0].args.amount).to.equal(PRICE * 4n);
+    });
+
+    it("Should only let the owner withdraw", async function () {
+      const { alice, as } = await loadFixture(deployFixture);
+      await expect(
+        (await as(alice)).write.withdraw([alice.account.address])
+      ).to.be.rejectedWith("OwnableUnauthorizedAccount");
+    });
+
+    it("Should revert when the recipient rejects ETH", async function () {
+      const { token } = await loadFixture(deployFixture);
+      await token.write.setPhase([PUBLIC]);
+      await token.write.mint([1n], { value: PRICE });
+      // MyToken 自己没有 receive，转账会失败
+      await expect(token.write.withdraw([token.address])).to.be.rejectedWith(
+        "withdraw failed"
+      );
+    });
+  });
+});
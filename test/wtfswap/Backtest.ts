@@ -0,0 +1,129 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { TickMath, encodeSqrtRatioX96 } from '@uniswap/v3-sdk';
+import { parseEther } from "viem";
+import { parseSwapTrace, runBacktest, stringifyBacktestReport, summarizeBacktest } from '../../utils/wtfswap/backtest';
+
+describe("Backtest", function () {
+    const tickAt = (price: number) => TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(price, 1));
+
+    // 来回交易，最后两笔大额卖出 token0 把窄区间的价格打到下边界
+    const csv = [
+        'timestamp,direction,amount',
+        ...Array.from({ length: 8 }, (_, i) =>
+            `${1000 + i * 60},${i % 2 === 0 ? 'zeroForOne' : 'oneForZero'},${i % 2 === 0 ? parseEther('5') : parseEther('500')}`
+        ),
+        `1480,oneForZero,${-parseEther('1')}`,
+        `1600,zeroForOne,${parseEther('1000')}`,
+        `1900,zeroForOne,${parseEther('1')}`,
+        `2200,oneForZero,${parseEther('1')}`,
+    ].join('\n');
+
+    async function backtestFixture() {
+        const trace = parseSwapTrace(csv);
+        const report = await runBacktest(hre, {
+            sqrtPriceX96: BigInt(encodeSqrtRatioX96(100, 1).toString()),
+            positions: [
+                { name: 'wide', fee: 3000, tickLower: tickAt(1), tickUpper: tickAt(10000), amount0: parseEther('100'), amount1: parseEther('10000') },
+                { name: 'wide-half', fee: 3000, tickLower: tickAt(1), tickUpper: tickAt(10000), amount0: parseEther('50'), amount1: parseEther('5000') },
+                { name: 'narrow', fee: 500, tickLower: tickAt(90), tickUpper: tickAt(110), amount0: parseEther('100'), amount1: parseEther('10000') },
+            ],
+        }, trace);
+        return { trace, report };
+    }
+
+    it('parses CSV and JSON traces', async function() {
+        const json = JSON.stringify([
+            { timestamp: 1000, direction: 'zeroForOne', amount: '5' },
+            { timestamp: 1060, direction: 'oneForZero', amount: -7 },
+        ]);
+        const expected = [
+            { timestamp: 1000, zeroForOne: true, amount: 5n },
+            { timestamp: 1060, zeroForOne: false, amount: -7n },
+        ];
+        expect(parseSwapTrace(json)).to.deep.equal(expected);
+        // 列的顺序不影响结果，空行会被忽略
+        expect(parseSwapTrace('direction, amount, timestamp\r\nzeroForOne,5,1000\n\noneForZero,-7,1060\n')).to.deep.equal(expected);
+
+        expect(() => parseSwapTrace('timestamp,direction,amount\n1000,buy,5')).to.throw('invalid swap direction');
+        expect(() => parseSwapTrace('timestamp,direction,amount\n1000,zeroForOne,0')).to.throw('amount must not be 0');
+        expect(() => parseSwapTrace('timestamp,direction,amount\n1000,zeroForOne,1.5')).to.throw('invalid amount');
+        expect(() => parseSwapTrace('timestamp,direction\n1000,zeroForOne')).to.throw('missing column amount');
+        expect(() => parseSwapTrace('timestamp,direction,amount\n1060,zeroForOne,5\n1000,zeroForOne,5')).to.throw('sorted by timestamp');
+    });
+
+    it('replays the trace and reports every position', async function() {
+        const { trace, report } = await loadFixture(backtestFixture);
+        const [wide, wideHalf, narrow] = report.positions;
+
+        // 同样参数的 position 共用一个池子
+        expect(report.pools.length).to.equal(2);
+        expect(wide.pool).to.equal(wideHalf.pool);
+        expect(report.trades).to.equal(trace.length);
+        expect([report.startTimestamp, report.endTimestamp]).to.deep.equal([1000, 2200]);
+
+        // 宽区间的池子每一笔都能成交，价格一直在区间内
+        const [widePool, narrowPool] = report.pools;
+        expect(widePool.swaps).to.equal(trace.length);
+        expect(widePool.skipped).to.equal(0);
+        expect(wide.timeInRange).to.equal(1);
+
+        // 窄区间的价格被打到下边界之后，继续卖出 token0 的交易无法成交，直到最后一笔买入 token0
+        expect(narrowPool.skipped).to.equal(1);
+        expect(narrowPool.swaps).to.equal(trace.length - 1);
+        expect(narrow.timeInRange).to.equal((1600 - 1000) / (2200 - 1000));
+        expect(narrow.snapshots.map((snapshot) => snapshot.inRange).slice(-3)).to.deep.equal([false, false, true]);
+
+        // 池子中只有这两个 position，手续费按流动性分配，总和等于交易量中的手续费
+        for (const token of ['amount0', 'amount1'] as const) {
+            const volume = token === 'amount0' ? widePool.volume0 : widePool.volume1;
+            const totalFees = wide.fees[token] + wideHalf.fees[token];
+            const expectedFees = (volume * 3000n) / 1000000n;
+            expect(totalFees > 0n).to.be.true;
+            expect(totalFees <= expectedFees + 1n && expectedFees - totalFees <= expectedFees / 10n ** 6n).to.be.true;
+            expect(wide.fees[token] * wideHalf.liquidity / wide.liquidity - wideHalf.fees[token] <= 1n).to.be.true;
+        }
+
+        for (const position of report.positions) {
+            // 每一笔交易之后都记录一次，加上初始状态
+            expect(position.snapshots.length).to.equal(trace.length + 1);
+            const last = position.snapshots[position.snapshots.length - 1];
+            expect([last.amount0, last.amount1, last.fees0, last.fees1]).to.deep.equal([
+                position.final.amount0, position.final.amount1, position.fees.amount0, position.fees.amount1,
+            ]);
+            // 无常损失不会为正，盈亏等于本金加手续费减去持有的价值
+            expect(position.impermanentLoss <= 0).to.be.true;
+            expect(position.pnlVsHold1).to.equal(position.lpValue1 + position.feesValue1 - position.holdValue1);
+        }
+        // 价格偏离了初始价格，两个池子都有无常损失
+        expect(narrow.impermanentLoss < 0 && wide.impermanentLoss < 0).to.be.true;
+    });
+
+    it('summarizes the report', async function() {
+        const { report } = await loadFixture(backtestFixture);
+
+        const rows = summarizeBacktest(report);
+        expect(rows.map((row) => row.name)).to.deep.equal(['wide', 'wide-half', 'narrow']);
+        expect(rows[2]['in range %']).to.equal('50.00');
+        expect(rows[0].fees0).to.equal(report.positions[0].fees.amount0.toString());
+
+        // bigint 在 JSON 中转成字符串
+        const json = JSON.parse(stringifyBacktestReport(report));
+        expect(json.positions[0].liquidity).to.equal(report.positions[0].liquidity.toString());
+        expect(json.positions[2].snapshots.length).to.equal(report.positions[2].snapshots.length);
+    });
+
+    it('records snapshots at the given interval', async function() {
+        const trace = parseSwapTrace(csv);
+        const report = await runBacktest(hre, {
+            sqrtPriceX96: BigInt(encodeSqrtRatioX96(100, 1).toString()),
+            positions: [{ fee: 3000, tickLower: tickAt(1), tickUpper: tickAt(10000), amount0: parseEther('100'), amount1: parseEther('10000') }],
+            snapshotInterval: 5,
+        }, trace);
+        const [position] = report.positions;
+        expect(position.name).to.equal(`3000/${tickAt(1)}/${tickAt(10000)}`);
+        // 初始状态、第 5 笔、第 10 笔和最后一笔
+        expect(position.snapshots.map((snapshot) => snapshot.timestamp)).to.deep.equal([1000, 1240, 1600, 2200]);
+    });
+});
@@ -0,0 +1,103 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import fs from "fs";
+import path from "path";
+import hre from "hardhat";
+import { maxUint256, parseUnits } from "viem";
+import { parseDevnetConfig, setupDevnet, startTradingBot, type DevnetConfig, type DevnetSwap } from '../../utils/wtfswap/devnet';
+import { sqrtPriceX96ToPrice } from '../../utils/wtfswap/price';
+
+describe("Devnet", function () {
+    // decimals 不同的三个 token，WBTC/USDC 的价格需要按 decimals 换算，USDC/DAI 按地址排序后可能需要取倒数
+    const config: DevnetConfig = {
+        accounts: 3,
+        tokens: [
+            { name: "Wrapped BTC", symbol: "WBTC", decimals: 8, mint: "10" },
+            { name: "USD Coin", symbol: "USDC", decimals: 6, mint: "1000000" },
+            { name: "Dai Stablecoin", symbol: "DAI", decimals: 18, mint: "1000000" },
+        ],
+        pools: [
+            { tokenA: "WBTC", tokenB: "USDC", fee: 3000, price: "60000", priceLower: "40000", priceUpper: "90000", amountA: "10", amountB: "600000" },
+            { tokenA: "DAI", tokenB: "USDC", fee: 100, price: "1", priceLower: "0.98", priceUpper: "1.02", amountA: "100000", amountB: "100000" },
+        ],
+        bot: { intervalMs: 0, seed: 7, maxTradePercent: 5 },
+    };
+
+    async function deployFixture() {
+        return setupDevnet(hre, config);
+    }
+
+    it('parses and validates the config', async function () {
+        const file = path.join(hre.config.paths.root, 'tasks', 'devnet.json');
+        expect(parseDevnetConfig(fs.readFileSync(file, 'utf8')).tokens.length > 0).to.be.true;
+        expect(parseDevnetConfig(JSON.stringify(config))).to.deep.equal(config);
+
+        const parse = (override: object) => () => parseDevnetConfig(JSON.stringify({ ...config, ...override }));
+        expect(parse({ accounts: 0 })).to.throw('accounts must be a positive integer');
+        expect(parse({ tokens: [config.tokens[0], config.tokens[0]] })).to.throw('duplicate token symbol WBTC');
+        expect(parse({ tokens: [config.tokens[0], { ...config.tokens[1], decimals: 6.5 }] })).to.throw('invalid decimals of USDC');
+        expect(parse({ pools: [{ ...config.pools[0], tokenB: "ETH" }] })).to.throw('pools[0] references unknown token ETH');
+        expect(parse({ pools: [{ ...config.pools[0], price: "100000" }] })).to.throw('price must be within [priceLower, priceUpper]');
+        expect(parse({ pools: [{ ...config.pools[0], amountB: "0.0000001" }] })).to.throw('invalid amountA or amountB of pools[0]');
+        expect(parse({ bot: { ...config.bot, maxTradePercent: 0 } })).to.throw('bot.maxTradePercent must be in (0, 100]');
+    });
+
+    it('deploys tokens, funds accounts and seeds pools', async function () {
+        const devnet = await loadFixture(deployFixture);
+
+        for (const [i, token] of devnet.tokens.entries()) {
+            const contract = await hre.viem.getContractAt('TestToken', token.address);
+            expect([await contract.read.name(), await contract.read.symbol(), await contract.read.decimals()]).to.deep.equal(
+                [config.tokens[i].name, config.tokens[i].symbol, config.tokens[i].decimals]
+            );
+            expect(devnet.records[token.symbol].address).to.equal(token.address);
+            for (const account of devnet.accounts.slice(1)) {
+                expect(await contract.read.balanceOf([account])).to.equal(parseUnits(config.tokens[i].mint, token.decimals));
+                expect(await contract.read.allowance([account, devnet.contracts.swapRouter])).to.equal(maxUint256);
+            }
+        }
+        expect(devnet.accounts.length).to.equal(3);
+
+        // 池子的价格按 "1 个 tokenA 可以换多少个 tokenB" 设置，换算回来和配置一致
+        const decimals = new Map(devnet.tokens.map((token) => [token.address, token.decimals]));
+        const symbols = new Map(devnet.tokens.map((token) => [token.address, token.symbol]));
+        for (const [i, info] of devnet.pools.entries()) {
+            const pool = await hre.viem.getContractAt('Pool', info.pool);
+            expect(await pool.read.liquidity() > 0n).to.be.true;
+            const price = Number(sqrtPriceX96ToPrice(await pool.read.sqrtPriceX96(), decimals.get(info.token0)!, decimals.get(info.token1)!));
+            const expected = Number(config.pools[i].price);
+            expect(symbols.get(info.token0) === config.pools[i].tokenA ? price : 1 / price).to.be.closeTo(expected, expected * 1e-9);
+            expect(await pool.read.fee()).to.equal(config.pools[i].fee);
+        }
+        const manager = await hre.viem.getContractAt('PositionManager', devnet.contracts.positionManager);
+        expect(await manager.read.ownerOf([devnet.pools[1].positionId])).to.equal(devnet.accounts[0]);
+    });
+
+    it('trading bot moves prices and accrues fees', async function () {
+        const devnet = await loadFixture(deployFixture);
+        const pools = await Promise.all(devnet.pools.map((info) => hre.viem.getContractAt('Pool', info.pool)));
+        const prices = await Promise.all(pools.map((pool) => pool.read.sqrtPriceX96()));
+
+        const swaps: DevnetSwap[] = [];
+        const bot = startTradingBot(hre, devnet, { ...config.bot, maxSwaps: 5, onSwap: (swap) => swaps.push(swap) });
+        await bot.done;
+        expect(bot.swaps).to.equal(5);
+        expect(swaps.length).to.equal(5);
+        expect(swaps.every((swap) => swap.amountIn > 0n && swap.amountOut > 0n)).to.be.true;
+        expect(new Set(swaps.map((swap) => swap.trader)).size > 1).to.be.true;
+
+        // 被交易过的池子价格变化了，而且收到了手续费
+        for (const [i, pool] of pools.entries()) {
+            const traded = swaps.some((swap) => swap.pool === devnet.pools[i].pool);
+            expect((await pool.read.sqrtPriceX96()) !== prices[i]).to.equal(traded);
+            const fees = (await pool.read.feeGrowthGlobal0X128()) + (await pool.read.feeGrowthGlobal1X128());
+            expect(fees > 0n).to.equal(traded);
+        }
+
+        // stop 之后不会再发送交易
+        const idle = startTradingBot(hre, devnet, { ...config.bot, intervalMs: 60000 });
+        idle.stop();
+        await idle.done;
+        expect(idle.swaps).to.equal(0);
+    });
+});
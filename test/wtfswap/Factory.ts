@@ -0,0 +1,174 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { encodeSqrtRatioX96 } from '@uniswap/v3-sdk';
+import { getAddress } from "viem";
+import { TickMath } from '../../utils/wtfswap/math';
+import { computePoolAddress, getPoolInitCodeHash, getPoolKey } from '../../utils/wtfswap/poolAddress';
+
+describe("Factory", function () {
+    async function deployFixture() {
+        const factory = await hre.viem.deployContract('Factory');
+        const tokenA = await hre.viem.deployContract('TestToken', ['TestToken', 'TK', 18]);
+        const tokenB = await hre.viem.deployContract('TestToken', ['TestToken', 'TK', 18]);
+        const token0 = tokenA.address < tokenB.address ? tokenA : tokenB;
+        const token1 = tokenA.address < tokenB.address ? tokenB : tokenA;
+        const [owner, other, third] = await hre.viem.getWalletClients();
+        return { factory, token0, token1, owner, other, third };
+    }
+
+    it('enables the default fee tiers', async function () {
+        const { factory } = await loadFixture(deployFixture);
+        for (const fee of [100, 500, 3000, 10000]) {
+            expect(await factory.read.feeAmountTickSpacing([fee])).to.equal(1);
+        }
+        expect(await factory.read.feeAmountTickSpacing([2000])).to.equal(0);
+    });
+
+    it('enableFeeAmount & disableFeeAmount', async function () {
+        const { factory, other } = await loadFixture(deployFixture);
+
+        await factory.write.enableFeeAmount([2000, 60]);
+        expect(await factory.read.feeAmountTickSpacing([2000])).to.equal(60);
+        const enabled = await factory.getEvents.FeeAmountEnabled();
+        expect(enabled[0].args).to.deep.equal({ fee: 2000, tickSpacing: 60 });
+
+        // 只有 owner 可以管理 fee
+        await expect(factory.write.enableFeeAmount([2500, 10], { account: other.account })).to.be.rejectedWith('OwnableUnauthorizedAccount');
+        await expect(factory.write.disableFeeAmount([2000], { account: other.account })).to.be.rejectedWith('OwnableUnauthorizedAccount');
+
+        // fee 必须小于 100%，tickSpacing 必须在 [1, 32767] 之间
+        await expect(factory.write.enableFeeAmount([1000000, 1])).to.be.rejectedWith('InvalidFee(1000000)');
+        await expect(factory.write.enableFeeAmount([2500, 0])).to.be.rejectedWith('InvalidTickSpacing(0)');
+        await expect(factory.write.enableFeeAmount([2500, -1])).to.be.rejectedWith('InvalidTickSpacing(-1)');
+        await expect(factory.write.enableFeeAmount([2500, 32768])).to.be.rejectedWith('InvalidTickSpacing(32768)');
+
+        await factory.write.disableFeeAmount([2000]);
+        expect(await factory.read.feeAmountTickSpacing([2000])).to.equal(0);
+        const disabled = await factory.getEvents.FeeAmountDisabled();
+        expect(disabled[0].args).to.deep.equal({ fee: 2000 });
+        await expect(factory.write.disableFeeAmount([2000])).to.be.rejectedWith('FeeNotEnabled');
+    });
+
+    it('createPool validates fee and ticks', async function () {
+        const { factory, token0, token1 } = await loadFixture(deployFixture);
+        const createPool = (tickLower: number, tickUpper: number, fee: number) =>
+            factory.write.createPool([token0.address, token1.address, tickLower, tickUpper, fee]);
+
+        // fee 没有启用
+        await expect(createPool(0, 100, 2000)).to.be.rejectedWith('FeeNotEnabled(2000)');
+
+        // tickLower 必须小于 tickUpper，并且都在 TickMath 的范围内
+        await expect(createPool(100, 100, 3000)).to.be.rejectedWith('InvalidTickRange(100, 100)');
+        await expect(createPool(200, 100, 3000)).to.be.rejectedWith('InvalidTickRange(200, 100)');
+        await expect(createPool(TickMath.MIN_TICK - 1, 0, 3000)).to.be.rejectedWith('InvalidTickRange');
+        await expect(createPool(0, TickMath.MAX_TICK + 1, 3000)).to.be.rejectedWith('InvalidTickRange');
+        await createPool(TickMath.MIN_TICK, TickMath.MAX_TICK, 3000);
+
+        // tick 必须对齐 tickSpacing
+        await factory.write.enableFeeAmount([2000, 60]);
+        await expect(createPool(-100, 600, 2000)).to.be.rejectedWith('TickMisaligned(-100, 60)');
+        await expect(createPool(-120, 610, 2000)).to.be.rejectedWith('TickMisaligned(610, 60)');
+        await createPool(-120, 600, 2000);
+        expect(await factory.read.getPool([token0.address, token1.address, 1])).to.not.equal('0x0000000000000000000000000000000000000000');
+
+        // 停用 fee 之后不能再创建新的池子，但是已有的池子仍然可以查到
+        await factory.write.disableFeeAmount([2000]);
+        await expect(createPool(-60, 600, 2000)).to.be.rejectedWith('FeeNotEnabled');
+        const { result } = await factory.simulate.createPool([token0.address, token1.address, -120, 600, 2000]);
+        expect(result).to.equal(await factory.read.getPool([token0.address, token1.address, 1]));
+    });
+
+    it('only the factory can initialize a pool', async function () {
+        const { token0, token1, other } = await loadFixture(deployFixture);
+        const poolManager = await hre.viem.deployContract('PoolManager');
+        const params = {
+            token0: token0.address,
+            token1: token1.address,
+            fee: 3000,
+            tickLower: 0,
+            tickUpper: 46054,
+            sqrtPriceX96: BigInt(encodeSqrtRatioX96(10, 1).toString()),
+        };
+
+        // 任何人都可以创建池子，但是不能直接初始化
+        await poolManager.write.createPool([token0.address, token1.address, params.tickLower, params.tickUpper, params.fee], { account: other.account });
+        const pool = await hre.viem.getContractAt('Pool', await poolManager.read.getPool([token0.address, token1.address, 0]));
+        await expect(pool.write.initialize([params.sqrtPriceX96])).to.be.rejectedWith('NotFactory(');
+        await expect(pool.write.initialize([params.sqrtPriceX96], { account: other.account })).to.be.rejectedWith('NotFactory(');
+        // 直接通过 createPool 创建的池子也会登记交易对
+        expect(await poolManager.read.getPairs()).to.deep.equal([{ token0: getAddress(token0.address), token1: getAddress(token1.address) }]);
+
+        // 通过 PoolManager 初始化，交易对不会重复登记
+        await poolManager.write.createAndInitializePoolIfNecessary([params], { account: other.account });
+        expect(await pool.read.sqrtPriceX96()).to.equal(params.sqrtPriceX96);
+        expect((await poolManager.read.getPairs()).length).to.equal(1);
+        expect((await poolManager.read.getAllPools()).map((info) => info.pool)).to.deep.equal([pool.address]);
+    });
+
+    it('transfers ownership in two steps', async function () {
+        const { factory, token0, token1, owner, other, third } = await loadFixture(deployFixture);
+
+        await factory.write.transferOwnership([other.account.address]);
+        // 新的 owner 接受之前，owner 不变
+        expect(await factory.read.owner()).to.equal(getAddress(owner.account.address));
+        expect(await factory.read.pendingOwner()).to.equal(getAddress(other.account.address));
+        await expect(factory.write.enableFeeAmount([2000, 1], { account: other.account })).to.be.rejectedWith('OwnableUnauthorizedAccount');
+        await expect(factory.write.acceptOwnership({ account: third.account })).to.be.rejectedWith('OwnableUnauthorizedAccount');
+
+        await factory.write.acceptOwnership({ account: other.account });
+        expect(await factory.read.owner()).to.equal(getAddress(other.account.address));
+        expect(await factory.read.pendingOwner()).to.equal('0x0000000000000000000000000000000000000000');
+
+        // 原来的 owner 失去权限，新的 owner 可以管理 fee 和池子的协议费
+        await expect(factory.write.enableFeeAmount([2000, 1])).to.be.rejectedWith('OwnableUnauthorizedAccount');
+        await factory.write.enableFeeAmount([2000, 1], { account: other.account });
+        await factory.write.createPool([token0.address, token1.address, 0, 100, 2000]);
+        const pool = await hre.viem.getContractAt('Pool', await factory.read.getPool([token0.address, token1.address, 0]));
+        await expect(pool.write.setFeeProtocol([4, 4])).to.be.rejectedWith('Not factory owner');
+        await pool.write.setFeeProtocol([4, 4], { account: other.account });
+        expect(await pool.read.feeProtocol()).to.equal(4 + (4 << 4));
+    });
+
+    it('computes pool addresses with CREATE2', async function () {
+        const { factory, token0, token1 } = await loadFixture(deployFixture);
+        const deployer = await factory.read.poolDeployer();
+        const poolDeployer = await hre.viem.getContractAt('PoolDeployer', deployer);
+        expect(await poolDeployer.read.factory()).to.equal(getAddress(factory.address));
+
+        // initcode 哈希和编译产物中 Pool 的 bytecode 一致
+        const { bytecode } = await hre.artifacts.readArtifact('Pool');
+        const initCodeHash = await poolDeployer.read.poolInitCodeHash();
+        expect(initCodeHash).to.equal(getPoolInitCodeHash(bytecode));
+
+        // token 的顺序不影响结果，地址在创建前就可以算出来
+        const ranges = [[0, 100, 3000], [-600, 600, 3000], [0, 100, 500]] as const;
+        for (const [i, [tickLower, tickUpper, fee]] of ranges.entries()) {
+            const expected = computePoolAddress(deployer, initCodeHash, getPoolKey(token1.address, token0.address, tickLower, tickUpper, fee));
+            await factory.write.createPool([token1.address, token0.address, tickLower, tickUpper, fee]);
+            expect(await factory.read.getPool([token0.address, token1.address, i])).to.equal(expected);
+            const pool = await hre.viem.getContractAt('Pool', expected);
+            expect(await pool.read.token0()).to.equal(getAddress(token0.address));
+            expect(await pool.read.token1()).to.equal(getAddress(token1.address));
+        }
+        const created = await factory.getEvents.PoolCreated({ fromBlock: 0n });
+        expect(created.map((event) => event.args.pool)).to.deep.equal(
+            await Promise.all(ranges.map((_, i) => factory.read.getPool([token0.address, token1.address, i])))
+        );
+
+        expect(() => computePoolAddress(deployer, initCodeHash, { token0: token1.address, token1: token0.address, tickLower: 0, tickUpper: 100, fee: 3000 })).to.throw('Unsorted tokens');
+    });
+
+    it('periphery reads the pool deployer from the factory', async function () {
+        const poolManager = await hre.viem.deployContract('PoolManager');
+        const weth9 = await hre.viem.deployContract('WETH9');
+        const deployer = await poolManager.read.poolDeployer();
+        const initCodeHash = getPoolInitCodeHash((await hre.artifacts.readArtifact('Pool')).bytecode);
+        const manager = await hre.viem.deployContract('PositionManager', [poolManager.address, weth9.address]);
+        const router = await hre.viem.deployContract('SwapRouter', [poolManager.address, weth9.address]);
+        for (const periphery of [manager, router]) {
+            expect(await periphery.read.poolDeployer()).to.equal(deployer);
+            expect(await periphery.read.poolInitCodeHash()).to.equal(initCodeHash);
+        }
+    });
+});
@@ -0,0 +1,278 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import hre from "hardhat";
+import { getAddress, maxUint128 } from "viem";
+import { TickMath, encodeSqrtRatioX96 } from '@uniswap/v3-sdk'
+import { WtfswapIndexer } from "../../utils/wtfswap/indexer";
+import { JsonIndexerStore, MemoryIndexerStore } from "../../utils/wtfswap/indexerStore";
+
+describe("Indexer", function () {
+    async function deployFixture() {
+        // 创建一个价格为 10000 的池子，注入两个 position，然后双向交易
+        const poolManager = await hre.viem.deployContract('PoolManager');
+        const tokenA = await hre.viem.deployContract('TestToken', ['TestToken', 'TK', 18])
+        const tokenB = await hre.viem.deployContract('TestToken', ['TestToken', 'TK', 18])
+        const token0 = tokenA.address < tokenB.address ? tokenA : tokenB;
+        const token1 = tokenA.address < tokenB.address ? tokenB : tokenA;
+        await poolManager.write.createAndInitializePoolIfNecessary([{
+            token0: token0.address,
+            token1: token1.address,
+            fee: 3000,
+            tickLower: TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(1, 1)),
+            tickUpper: TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(40000, 1)),
+            sqrtPriceX96: BigInt(encodeSqrtRatioX96(10000, 1).toString()),
+        }])
+        const pool = await hre.viem.getContractAt('Pool', await poolManager.read.getPool([token0.address, token1.address, 0]))
+
+        const weth9 = await hre.viem.deployContract('WETH9')
+        const manager = await hre.viem.deployContract('PositionManager', [poolManager.address, weth9.address])
+        const router = await hre.viem.deployContract('SwapRouter', [poolManager.address, weth9.address])
+
+        const [owner, other] = await hre.viem.getWalletClients();
+        const [sender] = await owner.getAddresses()
+        const initBalanceValue = 100000000000n * 10n ** 18n
+        for (const token of [token0, token1]) {
+            await token.write.mint([sender, initBalanceValue])
+            await token.write.approve([manager.address, initBalanceValue])
+            await token.write.approve([router.address, initBalanceValue])
+        }
+
+        // position 1 属于 owner，position 2 属于 other
+        for (const recipient of [sender, other.account.address]) {
+            await manager.write.mint([{
+                token0: token0.address,
+                token1: token1.address,
+                index: 0,
+                recipient,
+                amount0Desired: 1000n * 10n ** 18n,
+                amount1Desired: 1000n * 10000n * 10n ** 18n,
+                amount0Min: 0n,
+                amount1Min: 0n,
+                deadline: BigInt(Date.now() + 3000)
+            }])
+        }
+
+        const swap = async (zeroForOne: boolean, amountIn: bigint) => {
+            await router.write.exactInput([{
+                tokenIn: zeroForOne ? token0.address : token1.address,
+                tokenOut: zeroForOne ? token1.address : token0.address,
+                indexPath: [0],
+                recipient: sender,
+                deadline: BigInt(Date.now() + 3000),
+                amountIn,
+                amountOutMinimum: 0n,
+                sqrtPriceLimitX96: 0n,
+            }])
+        }
+        await swap(true, 10n * 10n ** 18n)
+        await swap(false, 50000n * 10n ** 18n)
+        await swap(true, 3n * 10n ** 18n)
+
+        const publicClient = await hre.viem.getPublicClient();
+        return { poolManager, manager, router, pool, token0, token1, owner, other, sender, publicClient, swap };
+    }
+
+    it('indexes pools, volume and fees', async function() {
+        const { poolManager, manager, pool, token0, token1, publicClient } = await loadFixture(deployFixture)
+
+        const indexer = new WtfswapIndexer({
+            publicClient,
+            store: new MemoryIndexerStore(),
+            poolManager: poolManager.address,
+            positionManager: manager.address,
+        })
+        await indexer.sync()
+
+        const pools = indexer.getPools()
+        expect(pools.length).to.equal(1)
+        expect(pools[0].pool).to.equal(getAddress(pool.address))
+        expect(pools[0].token0).to.equal(getAddress(token0.address))
+        expect(pools[0].token1).to.equal(getAddress(token1.address))
+        expect(pools[0].fee).to.equal(3000)
+
+        const stats = indexer.getPoolStats(pool.address)!
+        expect(stats.swapCount).to.equal(3)
+        expect(stats.volume0 > 13n * 10n ** 18n).to.be.true
+        expect(stats.volume1 > 50000n * 10n ** 18n).to.be.true
+        expect(stats.sqrtPriceX96).to.equal(await pool.read.sqrtPriceX96())
+        expect(stats.tick).to.equal(await pool.read.tick())
+        expect(stats.liquidity).to.equal(await pool.read.liquidity())
+
+        // feeGrowthGlobal 是手续费除以流动性向下取整后的累加，每笔交易最多少算 1 wei
+        const liquidity = await pool.read.liquidity()
+        const fees0 = (await pool.read.feeGrowthGlobal0X128()) * liquidity / 2n ** 128n
+        const fees1 = (await pool.read.feeGrowthGlobal1X128()) * liquidity / 2n ** 128n
+        expect(stats.fees0 >= fees0 && stats.fees0 - fees0 <= 2n).to.be.true
+        expect(stats.fees1 >= fees1 && stats.fees1 - fees1 <= 1n).to.be.true
+        // 手续费约为输入金额的 0.3%
+        expect(stats.fees0 * 1000n / (13n * 10n ** 18n)).to.equal(3n)
+        expect(stats.fees1 * 1000n / (50000n * 10n ** 18n)).to.equal(3n)
+    })
+
+    it('price history', async function() {
+        const { poolManager, pool, publicClient } = await loadFixture(deployFixture)
+
+        const indexer = new WtfswapIndexer({ publicClient, store: new MemoryIndexerStore(), poolManager: poolManager.address })
+        await indexer.sync()
+
+        const history = indexer.getPriceHistory(pool.address)
+        expect(history.length).to.equal(4)
+        expect(history[0].sqrtPriceX96).to.equal(BigInt(encodeSqrtRatioX96(10000, 1).toString()))
+        // 卖出 token0 价格下降，买入 token0 价格上升
+        expect(history[1].sqrtPriceX96 < history[0].sqrtPriceX96).to.be.true
+        expect(history[2].sqrtPriceX96 > history[1].sqrtPriceX96).to.be.true
+        expect(history[3].sqrtPriceX96 < history[2].sqrtPriceX96).to.be.true
+        expect(history[3].sqrtPriceX96).to.equal(await pool.read.sqrtPriceX96())
+        for (let i = 1; i < history.length; i++) {
+            expect(history[i].blockNumber > history[i - 1].blockNumber).to.be.true
+            expect(history[i].timestamp >= history[i - 1].timestamp).to.be.true
+        }
+    })
+
+    it('position PnL', async function() {
+        const { poolManager, manager, token0, token1, sender, other, publicClient } = await loadFixture(deployFixture)
+
+        // 关闭 position 1：移除全部流动性，取回 token 之后销毁 NFT
+        const balance0Before = await token0.read.balanceOf([sender])
+        const balance1Before = await token1.read.balanceOf([sender])
+        const [info1] = (await manager.read.getAllPositions()).filter((position) => position.id === 1n)
+        await manager.write.decreaseLiquidity([{
+            tokenId: 1n,
+            liquidity: info1.liquidity,
+            amount0Min: 0n,
+            amount1Min: 0n,
+            deadline: BigInt(Date.now() + 3000)
+        }])
+        await manager.write.collect([{ tokenId: 1n, recipient: sender, amount0Max: maxUint128, amount1Max: maxUint128 }])
+        await manager.write.burn([1n])
+        const received0 = await token0.read.balanceOf([sender]) - balance0Before
+        const received1 = await token1.read.balanceOf([sender]) - balance1Before
+
+        const indexer = new WtfswapIndexer({
+            publicClient,
+            store: new MemoryIndexerStore(),
+            poolManager: poolManager.address,
+            positionManager: manager.address,
+        })
+        await indexer.sync()
+
+        const positions = indexer.getPositions()
+        expect(positions.length).to.equal(2)
+
+        const closed = indexer.getPosition(1n)!
+        expect(closed.owner).to.equal(getAddress(sender))
+        expect(closed.liquidity).to.equal(0n)
+        expect(closed.amount0).to.equal(0n)
+        expect(closed.amount1).to.equal(0n)
+        expect(closed.collected0).to.equal(received0)
+        expect(closed.collected1).to.equal(received1)
+        // 两个方向都有交易，两种 token 都收到了手续费
+        expect(closed.fees0 > 0n).to.be.true
+        expect(closed.fees1 > 0n).to.be.true
+        expect(closed.collected0 - closed.withdrawn0).to.equal(closed.fees0)
+
+        const open = indexer.getPosition(2n)!
+        expect(open.owner).to.equal(getAddress(other.account.address))
+        const [info] = (await manager.read.getAllPositions()).filter((position) => position.id === 2n)
+        expect(open.liquidity).to.equal(info.liquidity)
+        expect(open.fees0).to.equal(0n)
+        // 本金按当前价格计算，和注入时的数量相比 token0 多、token1 少（价格下降了）
+        expect(open.amount0 > open.deposited0).to.be.true
+        expect(open.amount1 < open.deposited1).to.be.true
+
+        expect(indexer.getPositions(other.account.address).map((position) => position.positionId)).to.deep.equal([2n])
+    })
+
+    it('resumes from the persisted cursor', async function() {
+        const { poolManager, manager, pool, publicClient, swap } = await loadFixture(deployFixture)
+
+        const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'wtfswap-indexer-')), 'state.json')
+        const options = { publicClient, store: new JsonIndexerStore(file), poolManager: poolManager.address, positionManager: manager.address, batchSize: 3 }
+
+        const first = new WtfswapIndexer(options)
+        const result = await first.sync()
+        expect(result.fromBlock).to.equal(0)
+        expect(result.toBlock).to.equal(Number(await publicClient.getBlockNumber()))
+
+        await swap(true, 1n * 10n ** 18n)
+
+        // 新的实例从文件中恢复游标，只处理新的区块
+        const second = new WtfswapIndexer({ ...options, store: new JsonIndexerStore(file) })
+        const resumed = await second.sync()
+        expect(resumed.fromBlock).to.equal(result.toBlock + 1)
+        expect(second.getPoolStats(pool.address)!.swapCount).to.equal(4)
+        expect(second.getPoolStats(pool.address)!.sqrtPriceX96).to.equal(await pool.read.sqrtPriceX96())
+        expect(second.getPositions().length).to.equal(2)
+    })
+
+    it('skips pools that are created but not initialized', async function() {
+        const { poolManager, manager, token0, token1, publicClient } = await loadFixture(deployFixture)
+
+        // 通过公开的 createPool 创建的池子在初始化之前价格为 0
+        const tickLower = TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(1, 1))
+        const tickUpper = TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(40000, 1))
+        await poolManager.write.createPool([token0.address, token1.address, tickLower, tickUpper, 500])
+        const created = await poolManager.read.getPool([token0.address, token1.address, 1])
+
+        const indexer = new WtfswapIndexer({
+            publicClient,
+            store: new MemoryIndexerStore(),
+            poolManager: poolManager.address,
+            positionManager: manager.address,
+        })
+        await indexer.sync()
+        expect(indexer.getPools().length).to.equal(2)
+        expect(indexer.getPoolStats(created)).to.be.undefined
+        expect(indexer.getPriceHistory(created)).to.deep.equal([])
+        expect(indexer.getPositions().length).to.equal(2)
+
+        // 初始化之后从初始化的价格开始统计
+        const sqrtPriceX96 = BigInt(encodeSqrtRatioX96(100, 1).toString())
+        await poolManager.write.createAndInitializePoolIfNecessary([{
+            token0: token0.address,
+            token1: token1.address,
+            fee: 500,
+            tickLower,
+            tickUpper,
+            sqrtPriceX96,
+        }])
+        await indexer.sync()
+        const history = indexer.getPriceHistory(created)
+        expect(history.length).to.equal(1)
+        expect(history[0].sqrtPriceX96).to.equal(sqrtPriceX96)
+        expect(history[0].blockNumber > indexer.getPools()[1].createdAtBlock).to.be.true
+        const stats = indexer.getPoolStats(created)!
+        expect(stats.sqrtPriceX96).to.equal(sqrtPriceX96)
+        expect(stats.tick).to.equal(TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(100, 1)))
+        expect(stats.swapCount).to.equal(0)
+    })
+
+    it('rolls back on reorg', async function() {
+        const { poolManager, pool, publicClient, swap } = await loadFixture(deployFixture)
+
+        const indexer = new WtfswapIndexer({ publicClient, store: new MemoryIndexerStore(), poolManager: poolManager.address })
+        await indexer.sync()
+        const head = Number(await publicClient.getBlockNumber())
+
+        // 用快照模拟分叉：索引了两笔交易之后回到快照，在同样的高度上打包另外的交易
+        const snapshot = await hre.network.provider.request({ method: 'evm_snapshot' })
+        await swap(true, 1n * 10n ** 18n)
+        await swap(true, 1n * 10n ** 18n)
+        await indexer.sync()
+        expect(indexer.getPoolStats(pool.address)!.swapCount).to.equal(5)
+
+        await hre.network.provider.request({ method: 'evm_revert', params: [snapshot] })
+        await swap(false, 20000n * 10n ** 18n)
+        await hre.network.provider.request({ method: 'hardhat_mine', params: ['0x2'] })
+
+        const result = await indexer.sync()
+        expect(result.rolledBackTo! <= head).to.be.true
+        const stats = indexer.getPoolStats(pool.address)!
+        expect(stats.swapCount).to.equal(4)
+        expect(stats.sqrtPriceX96).to.equal(await pool.read.sqrtPriceX96())
+        expect(indexer.getPriceHistory(pool.address).length).to.equal(5)
+    })
+});
@@ -0,0 +1,192 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { encodeFunctionData, getAddress, maxUint128, maxUint256, parseEther } from "viem";
+import { TickMath, encodeSqrtRatioX96 } from '@uniswap/v3-sdk'
+import { PERMIT_TYPES, getPermitDomain, signPermit } from "../../utils/wtfswap/permit";
+
+describe("Multicall", function () {
+    async function deployFixture() {
+        // 两个支持 permit 的 token，价格 1:1，价格区间 [0.01, 100]，用户不做任何 approve
+        const poolManager = await hre.viem.deployContract('PoolManager');
+        const tokenA = await hre.viem.deployContract('TestPermitToken')
+        const tokenB = await hre.viem.deployContract('TestPermitToken')
+        const token0 = tokenA.address < tokenB.address ? tokenA : tokenB;
+        const token1 = tokenA.address < tokenB.address ? tokenB : tokenA;
+
+        await poolManager.write.createAndInitializePoolIfNecessary([{
+            token0: token0.address,
+            token1: token1.address,
+            fee: 3000,
+            tickLower: TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(1, 100)),
+            tickUpper: TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(100, 1)),
+            sqrtPriceX96: BigInt(encodeSqrtRatioX96(1, 1).toString()),
+        }])
+
+        const weth9 = await hre.viem.deployContract('WETH9')
+        const manager = await hre.viem.deployContract('PositionManager', [poolManager.address, weth9.address])
+        const router = await hre.viem.deployContract('SwapRouter', [poolManager.address, weth9.address])
+
+        const [owner, other] = await hre.viem.getWalletClients();
+        const [sender] = await owner.getAddresses()
+        await token0.write.mint([sender, parseEther('1000')])
+        await token1.write.mint([sender, parseEther('1000')])
+
+        const publicClient = await hre.viem.getPublicClient();
+        const deadline = BigInt(Date.now() + 3000);
+        const mintParams = {
+            token0: token0.address,
+            token1: token1.address,
+            index: 0,
+            amount0Desired: parseEther('100'),
+            amount1Desired: parseEther('100'),
+            amount0Min: 0n,
+            amount1Min: 0n,
+            recipient: sender,
+            deadline,
+        };
+
+        return { poolManager, token0, token1, weth9, manager, router, owner, other, sender, publicClient, deadline, mintParams };
+    }
+
+    it('permit typed data', async function() {
+        const { token0, manager, owner, sender, publicClient, deadline } = await loadFixture(deployFixture)
+
+        // 签名和 token 合约中 permit 使用的 EIP-712 domain 一致
+        const domain = await getPermitDomain(publicClient, token0.address)
+        expect(domain).to.deep.equal({
+            name: 'TestPermitToken',
+            version: '1',
+            chainId: await publicClient.getChainId(),
+            verifyingContract: getAddress(token0.address),
+        })
+
+        const { v, r, s } = await signPermit(publicClient, owner, token0.address, manager.address, 123n, deadline)
+        await token0.write.permit([sender, manager.address, 123n, deadline, v, r, s])
+        expect(await token0.read.allowance([sender, manager.address])).to.equal(123n)
+        expect(await token0.read.nonces([sender])).to.equal(1n)
+
+        // 同一个签名不能使用两次
+        await expect(token0.write.permit([sender, manager.address, 123n, deadline, v, r, s])).to.be.rejected
+        expect(PERMIT_TYPES.Permit.map((field) => field.name)).to.deep.equal(['owner', 'spender', 'value', 'nonce', 'deadline'])
+    })
+
+    it('permit & mint & collect in one transaction', async function() {
+        const { token0, token1, manager, owner, sender, publicClient, deadline, mintParams } = await loadFixture(deployFixture)
+
+        const permit0 = await signPermit(publicClient, owner, token0.address, manager.address, parseEther('100'), deadline)
+        const permit1 = await signPermit(publicClient, owner, token1.address, manager.address, parseEther('100'), deadline)
+        const selfPermit = (permit: typeof permit0) => encodeFunctionData({
+            abi: manager.abi,
+            functionName: 'selfPermit',
+            args: [permit.token, permit.value, permit.deadline, permit.v, permit.r, permit.s],
+        })
+
+        // 第一笔交易：permit 两个 token 并 mint
+        const { result } = await manager.simulate.multicall([[
+            selfPermit(permit0),
+            selfPermit(permit1),
+            encodeFunctionData({ abi: manager.abi, functionName: 'mint', args: [mintParams] }),
+        ]])
+        expect(result.length).to.equal(3)
+        expect(result[0]).to.equal('0x')
+        await manager.write.multicall([[
+            selfPermit(permit0),
+            selfPermit(permit1),
+            encodeFunctionData({ abi: manager.abi, functionName: 'mint', args: [mintParams] }),
+        ]])
+        expect(await manager.read.ownerOf([1n])).to.equal(getAddress(sender))
+        expect(await token0.read.allowance([sender, manager.address]) < parseEther('100')).to.be.true
+
+        // 第二笔交易：移除全部流动性、取回 token 并销毁 NFT
+        const position = await manager.read.getPositionInfo([1n])
+        const balance0 = await token0.read.balanceOf([sender])
+        await manager.write.multicall([[
+            encodeFunctionData({
+                abi: manager.abi,
+                functionName: 'decreaseLiquidity',
+                args: [{ tokenId: 1n, liquidity: position.liquidity, amount0Min: 0n, amount1Min: 0n, deadline }],
+            }),
+            encodeFunctionData({
+                abi: manager.abi,
+                functionName: 'collect',
+                args: [{ tokenId: 1n, recipient: sender, amount0Max: maxUint128, amount1Max: maxUint128 }],
+            }),
+            encodeFunctionData({ abi: manager.abi, functionName: 'burn', args: [1n] }),
+        ]])
+        expect(await token0.read.balanceOf([sender]) > balance0).to.be.true
+        await expect(manager.read.ownerOf([1n])).to.be.rejected
+    })
+
+    it('permit & swap in one transaction', async function() {
+        const { token0, token1, manager, router, owner, sender, publicClient, deadline, mintParams } = await loadFixture(deployFixture)
+        await token0.write.approve([manager.address, maxUint256])
+        await token1.write.approve([manager.address, maxUint256])
+        await manager.write.mint([mintParams])
+
+        const permit = await signPermit(publicClient, owner, token0.address, router.address, parseEther('1'), deadline)
+        const balance1 = await token1.read.balanceOf([sender])
+        await router.write.multicall([[
+            encodeFunctionData({
+                abi: router.abi,
+                functionName: 'selfPermit',
+                args: [permit.token, permit.value, permit.deadline, permit.v, permit.r, permit.s],
+            }),
+            encodeFunctionData({
+                abi: router.abi,
+                functionName: 'exactInput',
+                args: [{
+                    tokenIn: token0.address,
+                    tokenOut: token1.address,
+                    indexPath: [0],
+                    recipient: sender,
+                    deadline,
+                    amountIn: parseEther('1'),
+                    amountOutMinimum: 0n,
+                    sqrtPriceLimitX96: 0n,
+                }],
+            }),
+        ]])
+        expect(await token1.read.balanceOf([sender]) > balance1).to.be.true
+        expect(await token0.read.allowance([sender, router.address])).to.equal(0n)
+    })
+
+    it('selfPermitIfNecessary', async function() {
+        const { token0, router, owner, sender, publicClient, deadline } = await loadFixture(deployFixture)
+        const zero = `0x${'00'.repeat(32)}` as const
+
+        // 已有足够的授权时不会校验签名
+        await token0.write.approve([router.address, parseEther('1')])
+        await router.write.selfPermitIfNecessary([token0.address, parseEther('1'), deadline, 27, zero, zero])
+        await expect(router.write.selfPermit([token0.address, parseEther('1'), deadline, 27, zero, zero])).to.be.rejected
+
+        // 授权不足时执行 permit
+        const permit = await signPermit(publicClient, owner, token0.address, router.address, parseEther('2'), deadline)
+        await router.write.selfPermitIfNecessary([permit.token, permit.value, permit.deadline, permit.v, permit.r, permit.s])
+        expect(await token0.read.allowance([sender, router.address])).to.equal(parseEther('2'))
+    })
+
+    it('reverts with the failing call reason', async function() {
+        const { token0, token1, manager, other, sender, deadline, mintParams } = await loadFixture(deployFixture)
+        await token0.write.approve([manager.address, maxUint256])
+        await token1.write.approve([manager.address, maxUint256])
+
+        // 后面的调用失败时，前面的 mint 也会一起回滚
+        await expect(manager.write.multicall([[
+            encodeFunctionData({ abi: manager.abi, functionName: 'mint', args: [mintParams] }),
+            encodeFunctionData({
+                abi: manager.abi,
+                functionName: 'decreaseLiquidity',
+                args: [{ tokenId: 1n, liquidity: maxUint128, amount0Min: 0n, amount1Min: 0n, deadline }],
+            }),
+        ]])).to.be.rejectedWith('Invalid liquidity')
+        expect(await manager.read.totalSupply()).to.equal(0n)
+
+        // multicall 使用 delegatecall，msg.sender 仍然是调用者，不能操作别人的 position
+        await manager.write.mint([mintParams])
+        await expect(manager.write.multicall([[
+            encodeFunctionData({ abi: manager.abi, functionName: 'burn', args: [1n] }),
+        ]], { account: other.account })).to.be.rejectedWith('Not approved')
+        expect(await manager.read.ownerOf([1n])).to.equal(getAddress(sender))
+    })
+})
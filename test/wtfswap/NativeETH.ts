@@ -0,0 +1,197 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { getAddress, maxUint128, parseEther } from "viem";
+import { TickMath, encodeSqrtRatioX96 } from '@uniswap/v3-sdk'
+
+describe("NativeETH", function () {
+    async function deployFixture() {
+        // 创建一个 WETH9/TestToken 的池子，价格 1:1，价格区间 [0.01, 100]，这样不需要关心两个 token 的大小顺序
+        const poolManager = await hre.viem.deployContract('PoolManager');
+        const weth9 = await hre.viem.deployContract('WETH9')
+        const token = await hre.viem.deployContract('TestToken', ['TestToken', 'TK', 18])
+        const [token0, token1] = weth9.address < token.address
+            ? [weth9.address, token.address]
+            : [token.address, weth9.address];
+        const wethIsToken0 = token0 === weth9.address;
+
+        await poolManager.write.createAndInitializePoolIfNecessary([{
+            token0,
+            token1,
+            fee: 3000,
+            tickLower: TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(1, 100)),
+            tickUpper: TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(100, 1)),
+            sqrtPriceX96: BigInt(encodeSqrtRatioX96(1, 1).toString()),
+        }])
+        const pool = await hre.viem.getContractAt('Pool', await poolManager.read.getPool([token0, token1, 0]))
+
+        const manager = await hre.viem.deployContract('PositionManager', [poolManager.address, weth9.address])
+        const router = await hre.viem.deployContract('SwapRouter', [poolManager.address, weth9.address])
+
+        const [owner, other] = await hre.viem.getWalletClients();
+        const [sender] = await owner.getAddresses()
+        await token.write.mint([sender, parseEther('1000000')])
+        await token.write.approve([manager.address, parseEther('1000000')])
+        await token.write.approve([router.address, parseEther('1000000')])
+
+        const publicClient = await hre.viem.getPublicClient();
+        const ethBalance = (address: `0x${string}`) => publicClient.getBalance({ address })
+        // 交易的 gas 费用，用于计算 ETH 余额的变化
+        const gasCost = async (hash: `0x${string}`) => {
+            const receipt = await publicClient.waitForTransactionReceipt({ hash })
+            return receipt.gasUsed * receipt.effectiveGasPrice
+        }
+        const mintParams = (amountWETH: bigint, amountToken: bigint) => ({
+            token0,
+            token1,
+            index: 0,
+            amount0Desired: wethIsToken0 ? amountWETH : amountToken,
+            amount1Desired: wethIsToken0 ? amountToken : amountWETH,
+            amount0Min: 0n,
+            amount1Min: 0n,
+            recipient: sender,
+            deadline: BigInt(Date.now() + 3000),
+        })
+
+        return { poolManager, weth9, token, pool, manager, router, owner, other, sender, wethIsToken0, publicClient, ethBalance, gasCost, mintParams };
+    }
+
+    it('mint with ETH & refundETH', async function() {
+        const { weth9, pool, manager, sender, wethIsToken0, ethBalance, gasCost, mintParams } = await loadFixture(deployFixture)
+
+        // 附带比实际需要更多的 ETH，多余的部分留在 PositionManager 中，通过 refundETH 取回
+        const balanceBefore = await ethBalance(sender)
+        const mintHash = await manager.write.mint([mintParams(parseEther('10'), parseEther('5'))], { value: parseEther('10') })
+        const [event] = await manager.getEvents.IncreaseLiquidity()
+        const wethPaid = wethIsToken0 ? event.args.amount0! : event.args.amount1!
+        expect(wethPaid > 0n && wethPaid < parseEther('10')).to.be.true
+        expect(await weth9.read.balanceOf([pool.address])).to.equal(wethPaid)
+        expect(await ethBalance(manager.address)).to.equal(parseEther('10') - wethPaid)
+
+        const refundHash = await manager.write.refundETH()
+        expect(await ethBalance(manager.address)).to.equal(0n)
+        expect(await ethBalance(sender)).to.equal(balanceBefore - wethPaid - await gasCost(mintHash) - await gasCost(refundHash))
+    })
+
+    it('collect as ETH through unwrapWETH9', async function() {
+        const { weth9, token, manager, sender, other, ethBalance, mintParams } = await loadFixture(deployFixture)
+
+        await manager.write.mint([mintParams(parseEther('5'), parseEther('5'))], { value: parseEther('5') })
+        const position = await manager.read.positions([1n])
+        await manager.write.decreaseLiquidity([{
+            tokenId: 1n,
+            liquidity: position[6],
+            amount0Min: 0n,
+            amount1Min: 0n,
+            deadline: BigInt(Date.now() + 3000),
+        }])
+
+        // 先把 WETH9 和 token 都 collect 到 PositionManager 自己，再分别换成 ETH 和转出 token
+        await manager.write.collect([{ tokenId: 1n, recipient: manager.address, amount0Max: maxUint128, amount1Max: maxUint128 }])
+        const owedWETH = await weth9.read.balanceOf([manager.address])
+        expect(owedWETH > parseEther('4.99')).to.be.true
+
+        await expect(manager.write.unwrapWETH9([owedWETH + 1n, other.account.address])).to.be.rejectedWith('Insufficient WETH9')
+        const otherBefore = await ethBalance(other.account.address)
+        await manager.write.unwrapWETH9([owedWETH, other.account.address])
+        expect(await ethBalance(other.account.address)).to.equal(otherBefore + owedWETH)
+        expect(await weth9.read.balanceOf([manager.address])).to.equal(0n)
+
+        const owedToken = await token.read.balanceOf([manager.address])
+        const tokenBefore = await token.read.balanceOf([sender])
+        await manager.write.sweepToken([token.address, owedToken, sender])
+        expect(await token.read.balanceOf([sender])).to.equal(tokenBefore + owedToken)
+    })
+
+    it('swap ETH in', async function() {
+        const { weth9, token, router, manager, sender, ethBalance, mintParams } = await loadFixture(deployFixture)
+        await manager.write.mint([mintParams(parseEther('100'), parseEther('100'))], { value: parseEther('100') })
+        await manager.write.refundETH()
+
+        // exactInput：附带的 ETH 正好等于 amountIn
+        const tokenBefore = await token.read.balanceOf([sender])
+        await router.write.exactInput([{
+            tokenIn: weth9.address,
+            tokenOut: token.address,
+            indexPath: [0],
+            recipient: sender,
+            deadline: BigInt(Date.now() + 3000),
+            amountIn: parseEther('1'),
+            amountOutMinimum: 0n,
+            sqrtPriceLimitX96: 0n,
+        }], { value: parseEther('1') })
+        expect(await token.read.balanceOf([sender]) > tokenBefore).to.be.true
+        expect(await ethBalance(router.address)).to.equal(0n)
+
+        // exactOutput：附带 amountInMaximum 的 ETH，多余的通过 refundETH 退回
+        const { result: amountIn } = await router.simulate.exactOutput([{
+            tokenIn: weth9.address,
+            tokenOut: token.address,
+            indexPath: [0],
+            recipient: sender,
+            deadline: BigInt(Date.now() + 3000),
+            amountOut: parseEther('1'),
+            amountInMaximum: parseEther('2'),
+            sqrtPriceLimitX96: 0n,
+        }], { value: parseEther('2') })
+        await router.write.exactOutput([{
+            tokenIn: weth9.address,
+            tokenOut: token.address,
+            indexPath: [0],
+            recipient: sender,
+            deadline: BigInt(Date.now() + 3000),
+            amountOut: parseEther('1'),
+            amountInMaximum: parseEther('2'),
+            sqrtPriceLimitX96: 0n,
+        }], { value: parseEther('2') })
+        expect(await ethBalance(router.address)).to.equal(parseEther('2') - amountIn)
+        await router.write.refundETH()
+        expect(await ethBalance(router.address)).to.equal(0n)
+        expect(await weth9.read.balanceOf([router.address])).to.equal(0n)
+    })
+
+    it('swap ETH out', async function() {
+        const { weth9, token, router, manager, other, ethBalance, mintParams } = await loadFixture(deployFixture)
+        await manager.write.mint([mintParams(parseEther('100'), parseEther('100'))], { value: parseEther('100') })
+
+        // 换出的 WETH9 先留在 SwapRouter 中，再通过 unwrapWETH9 换成 ETH
+        await router.write.exactInput([{
+            tokenIn: token.address,
+            tokenOut: weth9.address,
+            indexPath: [0],
+            recipient: router.address,
+            deadline: BigInt(Date.now() + 3000),
+            amountIn: parseEther('1'),
+            amountOutMinimum: 0n,
+            sqrtPriceLimitX96: 0n,
+        }])
+        const amountOut = await weth9.read.balanceOf([router.address])
+        expect(amountOut > parseEther('0.98')).to.be.true
+
+        const otherBefore = await ethBalance(other.account.address)
+        await router.write.unwrapWETH9([amountOut, other.account.address])
+        expect(await ethBalance(other.account.address)).to.equal(otherBefore + amountOut)
+    })
+
+    it('rejects stray ETH', async function() {
+        const { weth9, token, router, manager, owner, mintParams } = await loadFixture(deployFixture)
+        await manager.write.mint([mintParams(parseEther('100'), parseEther('100'))], { value: parseEther('100') })
+        await manager.write.refundETH()
+
+        // 只有 WETH9 可以直接给 PositionManager 和 SwapRouter 转 ETH
+        for (const address of [manager.address, router.address]) {
+            await expect(owner.sendTransaction({ to: address, value: 1n })).to.be.rejectedWith('Not WETH9')
+        }
+        // 没有附带 ETH 时，支付 WETH9 需要用户先 approve
+        await expect(router.write.exactInput([{
+            tokenIn: weth9.address,
+            tokenOut: token.address,
+            indexPath: [0],
+            recipient: getAddress(owner.account.address),
+            deadline: BigInt(Date.now() + 3000),
+            amountIn: parseEther('1'),
+            amountOutMinimum: 0n,
+            sqrtPriceLimitX96: 0n,
+        }])).to.be.rejected
+    })
+})
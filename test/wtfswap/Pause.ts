@@ -0,0 +1,197 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { getAddress, maxUint128, zeroAddress } from "viem";
+import { TickMath, encodeSqrtRatioX96 } from '@uniswap/v3-sdk'
+
+describe("Pause", function () {
+    async function deployFixture() {
+        // 同一个交易对的两个池子，价格都是 100，都注入了流动性
+        const poolManager = await hre.viem.deployContract('PoolManager');
+        const tokenA = await hre.viem.deployContract('TestToken', ['TestToken', 'TK', 18])
+        const tokenB = await hre.viem.deployContract('TestToken', ['TestToken', 'TK', 18])
+        const token0 = tokenA.address < tokenB.address ? tokenA : tokenB;
+        const token1 = tokenA.address < tokenB.address ? tokenB : tokenA;
+        const sqrtPriceX96 = BigInt(encodeSqrtRatioX96(100, 1).toString());
+        for (const fee of [3000, 500]) {
+            await poolManager.write.createAndInitializePoolIfNecessary([{
+                token0: token0.address,
+                token1: token1.address,
+                fee,
+                tickLower: TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(1, 1)),
+                tickUpper: TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(10000, 1)),
+                sqrtPriceX96,
+            }])
+        }
+        const pool0 = await hre.viem.getContractAt('Pool', await poolManager.read.getPool([token0.address, token1.address, 0]))
+        const pool1 = await hre.viem.getContractAt('Pool', await poolManager.read.getPool([token0.address, token1.address, 1]))
+
+        const weth9 = await hre.viem.deployContract('WETH9')
+        const manager = await hre.viem.deployContract('PositionManager', [poolManager.address, weth9.address])
+        const router = await hre.viem.deployContract('SwapRouter', [poolManager.address, weth9.address])
+
+        const [owner, guardian, other] = await hre.viem.getWalletClients();
+        const [sender] = await owner.getAddresses()
+        const initBalanceValue = 1000000n * 10n ** 18n
+        for (const token of [token0, token1]) {
+            await token.write.mint([sender, initBalanceValue])
+            await token.write.approve([manager.address, initBalanceValue])
+            await token.write.approve([router.address, initBalanceValue])
+        }
+
+        const mintParams = (index: number) => ({
+            token0: token0.address,
+            token1: token1.address,
+            index,
+            amount0Desired: 100n * 10n ** 18n,
+            amount1Desired: 10000n * 10n ** 18n,
+            amount0Min: 0n,
+            amount1Min: 0n,
+            recipient: sender,
+            deadline: BigInt(Date.now() + 3000),
+        })
+        // positionId 1 在 pool0 中，positionId 2 在 pool1 中
+        await manager.write.mint([mintParams(0)])
+        await manager.write.mint([mintParams(1)])
+
+        const swapParams = (index: number) => ({
+            tokenIn: token0.address,
+            tokenOut: token1.address,
+            indexPath: [index],
+            recipient: sender,
+            deadline: BigInt(Date.now() + 3000),
+            amountIn: 10n ** 18n,
+            amountOutMinimum: 0n,
+            sqrtPriceLimitX96: 0n,
+        })
+
+        return { poolManager, pool0, pool1, manager, router, token0, token1, owner, guardian, other, sender, mintParams, swapParams };
+    }
+
+    it('owner manages the guardian', async function() {
+        const { poolManager, pool0, owner, guardian, other } = await loadFixture(deployFixture)
+
+        // 默认 guardian 是部署者
+        expect(await poolManager.read.guardian()).to.equal(getAddress(owner.account.address))
+
+        await expect(poolManager.write.setGuardian([other.account.address], { account: guardian.account })).to.be.rejectedWith('OwnableUnauthorizedAccount')
+        await poolManager.write.setGuardian([guardian.account.address])
+        expect(await poolManager.read.guardian()).to.equal(getAddress(guardian.account.address))
+        const [event] = await poolManager.getEvents.GuardianChanged()
+        expect(event.args).to.deep.equal({
+            oldGuardian: getAddress(owner.account.address),
+            newGuardian: getAddress(guardian.account.address),
+        })
+
+        // 只有 guardian 和 owner 可以暂停和恢复
+        await expect(poolManager.write.pause([pool0.address], { account: other.account })).to.be.rejectedWith(`NotGuardian("${getAddress(other.account.address)}")`)
+        await expect(poolManager.write.unpause([zeroAddress], { account: other.account })).to.be.rejectedWith('NotGuardian')
+
+        await poolManager.write.pause([pool0.address], { account: guardian.account })
+        expect(await poolManager.read.poolPaused([pool0.address])).to.be.true
+        expect((await poolManager.getEvents.Paused())[0].args).to.deep.equal({ pool: getAddress(pool0.address) })
+        await poolManager.write.unpause([pool0.address])
+        expect(await poolManager.read.poolPaused([pool0.address])).to.be.false
+        expect((await poolManager.getEvents.Unpaused())[0].args).to.deep.equal({ pool: getAddress(pool0.address) })
+    })
+
+    it('pausing a pool blocks mint, swap & flash but not withdrawals', async function() {
+        const { poolManager, pool0, pool1, manager, router, token0, token1, sender, mintParams, swapParams } = await loadFixture(deployFixture)
+
+        await poolManager.write.pause([pool0.address])
+        const [info0, info1] = await poolManager.read.getAllPools()
+        expect(info0.paused).to.be.true
+        expect(info1.paused).to.be.false
+        expect(await poolManager.read.isPaused([pool0.address])).to.be.true
+
+        // 新的 mint、increaseLiquidity、swap 和 flash 都会失败
+        await expect(manager.write.mint([mintParams(0)])).to.be.rejectedWith('Paused')
+        await expect(manager.write.increaseLiquidity([{
+            tokenId: 1n,
+            amount0Desired: 10n ** 18n,
+            amount1Desired: 100n * 10n ** 18n,
+            amount0Min: 0n,
+            amount1Min: 0n,
+            deadline: BigInt(Date.now() + 3000),
+        }])).to.be.rejectedWith('Paused')
+        await expect(pool0.write.swap([sender, true, 10n ** 18n, 0n, '0x'])).to.be.rejectedWith('Paused')
+        const testFlash = await hre.viem.deployContract('TestFlash')
+        await expect(testFlash.write.testFlash([pool0.address, 0n, 0n, 0n, 0n, false])).to.be.rejectedWith('Paused')
+
+        // SwapRouter 和跳过没有流动性的池子一样跳过暂停的池子，报价也一样
+        const sqrtPriceX96 = await pool0.read.sqrtPriceX96()
+        await expect(router.write.exactInput([{ ...swapParams(0), amountOutMinimum: 1n }])).to.be.rejectedWith('Slippage exceeded')
+        const quoteParams = (indexPath: number[]) => ({
+            tokenIn: token0.address,
+            tokenOut: token1.address,
+            indexPath,
+            amountIn: 10n ** 18n,
+            sqrtPriceLimitX96: 0n,
+        })
+        expect((await router.simulate.quoteExactInput([quoteParams([0])])).result).to.equal(0n)
+        const { result: quote } = await router.simulate.quoteExactInput([quoteParams([1])])
+        expect((await router.simulate.quoteExactInput([quoteParams([0, 1])])).result).to.equal(quote)
+
+        // 另一个池子不受影响，路由中包含暂停的池子时只在另一个池子中成交
+        const balance1 = await token1.read.balanceOf([sender])
+        await router.write.exactInput([{ ...swapParams(0), indexPath: [0, 1] }])
+        expect(await token1.read.balanceOf([sender])).to.equal(balance1 + quote)
+        expect(await pool0.read.sqrtPriceX96()).to.equal(sqrtPriceX96)
+        await manager.write.mint([mintParams(1)])
+
+        // LP 仍然可以移除全部流动性并取回 token
+        const [, , , , , , liquidity] = await manager.read.positions([1n])
+        const balance0Before = await token0.read.balanceOf([sender])
+        const balance1Before = await token1.read.balanceOf([sender])
+        await manager.write.decreaseLiquidity([{
+            tokenId: 1n,
+            liquidity,
+            amount0Min: 0n,
+            amount1Min: 0n,
+            deadline: BigInt(Date.now() + 3000),
+        }])
+        await manager.write.collect([{ tokenId: 1n, recipient: sender, amount0Max: maxUint128, amount1Max: maxUint128 }])
+        await manager.write.burn([1n])
+        expect(await token0.read.balanceOf([sender]) > balance0Before).to.be.true
+        expect(await token1.read.balanceOf([sender]) > balance1Before).to.be.true
+        expect(await pool0.read.liquidity()).to.equal(0n)
+
+        // 恢复之后可以重新 mint 和 swap
+        await poolManager.write.unpause([pool0.address])
+        await manager.write.mint([mintParams(0)])
+        await router.write.exactInput([swapParams(0)])
+        expect((await poolManager.read.getAllPools())[0].paused).to.be.false
+        expect(await pool1.read.liquidity() > 0n).to.be.true
+    })
+
+    it('global pause', async function() {
+        const { poolManager, pool0, pool1, manager, router, mintParams, swapParams } = await loadFixture(deployFixture)
+
+        await poolManager.write.pause([pool1.address])
+        await poolManager.write.pause([zeroAddress])
+        expect(await poolManager.read.globalPaused()).to.be.true
+        expect((await poolManager.getEvents.Paused())[0].args).to.deep.equal({ pool: zeroAddress })
+        expect((await poolManager.read.getAllPools()).map((info) => info.paused)).to.deep.equal([true, true])
+        // 单独暂停的状态不包含全局暂停
+        expect(await poolManager.read.poolPaused([pool0.address])).to.be.false
+
+        await expect(manager.write.mint([mintParams(0)])).to.be.rejectedWith('Paused')
+        await expect(router.write.exactInput([{ ...swapParams(0), indexPath: [0, 1], amountOutMinimum: 1n }])).to.be.rejectedWith('Slippage exceeded')
+
+        // 全局暂停时仍然可以提取流动性
+        await manager.write.decreaseLiquidity([{
+            tokenId: 2n,
+            liquidity: 1000n,
+            amount0Min: 0n,
+            amount1Min: 0n,
+            deadline: BigInt(Date.now() + 3000),
+        }])
+        await manager.write.collect([{ tokenId: 2n, recipient: manager.address, amount0Max: maxUint128, amount1Max: maxUint128 }])
+
+        // 解除全局暂停后，单独暂停的池子仍然暂停
+        await poolManager.write.unpause([zeroAddress])
+        expect((await poolManager.read.getAllPools()).map((info) => info.paused)).to.deep.equal([false, true])
+        await router.write.exactInput([swapParams(0)])
+        await expect(router.write.exactInput([{ ...swapParams(1), amountOutMinimum: 1n }])).to.be.rejectedWith('Slippage exceeded')
+    })
+})
@@ -1,37 +1,39 @@
-import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
 import { assert, expect } from "chai";
 import hre from  'hardhat';
 import { TickMath, encodeSqrtRatioX96} from '@uniswap/v3-sdk';
+import { getAddress } from 'viem';
+import { consult, getArithmeticMeanTick } from '../../utils/wtfswap/oracle';
 
 describe("Pool", function () {
     // 部署合约的 fixture
     async function deployFixture() {
-        const factory = await hre.viem.deployContract('Factory');
-        const tokenA = await hre.viem.deployContract('TestToken');
-        const tokenB = await hre.viem.deployContract('TestToken');
+        // Pool 只能由 factory 初始化，PoolManager 继承了 Factory，通过 createAndInitializePoolIfNecessary 创建并初始化池子
+        const factory = await hre.viem.deployContract('PoolManager');
+        const tokenA = await hre.viem.deployContract('TestToken', ['TestToken', 'TK', 18]);
+        const tokenB = await hre.viem.deployContract('TestToken', ['TestToken', 'TK', 18]);
         const token0 = tokenA.address < tokenB.address ? tokenA : tokenB;
         const token1 = tokenA.address < tokenB.address ? tokenB : tokenA;
         const tickLower = TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(1, 1));
         const tickUpper = TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(40000, 1));
          // 以 1,000,000 为基底的手续费费率，Uniswap v3 前端界面支持四种手续费费率（0.01%，0.05%、0.30%、1.00%），对于一般的交易对推荐 0.30%，fee 取值即 3000；
         const fee = 3000;
-        await factory.write.createPool([ 
-            token0.address,
-            token1.address,
+        // 计算一个初始化的价格，按照 1 个 token0 换 10000 个 token1 来算，其实就是 10000
+        const sqrtPriceX96 = encodeSqrtRatioX96(10000, 1);
+        await factory.write.createAndInitializePoolIfNecessary([{
+            token0: token0.address,
+            token1: token1.address,
+            fee,
             tickLower,
             tickUpper,
-            fee
-        ])
+            sqrtPriceX96: BigInt(sqrtPriceX96.toString()),
+        }])
 
         const createEvents = await factory.getEvents.PoolCreated();
         assert(createEvents.length === 1, "PoolCreated event not emitted");
         const poolAddress: `0x${string}` = createEvents[0].args.pool || '0x';
         const pool = await hre.viem.getContractAt('Pool' as string, poolAddress);
 
-        // 计算一个初始化的价格，按照 1 个 token0 换 10000 个 token1 来算，其实就是 10000
-        const sqrtPriceX96 = encodeSqrtRatioX96(10000, 1);
-        await pool.write.initialize([sqrtPriceX96]);
-
         const publicClient = await hre.viem.getPublicClient();
 
         return { 
@@ -59,6 +61,8 @@ describe("Pool", function () {
         expect(await pool.read.tickUpper()).to.equal(tickUpper);
         expect(await pool.read.sqrtPriceX96()).to.equal(BigInt(sqrtPriceX96.toString()));
         expect(await pool.read.tick()).to.equal(TickMath.getTickAtSqrtRatio(sqrtPriceX96));
+        // Pool 由 PoolDeployer 创建，但是 factory 仍然是 Factory 合约
+        expect(await pool.read.factory()).to.equal(getAddress(factory.address));
     })
 
     // 测试 mint、burn 和 collect 方法
@@ -245,4 +249,240 @@ describe("Pool", function () {
 
     }) 
 
-})
\ No newline at end of file
+    // 测试协议费的设置和提取
+    it('protocol fee', async function() {
+        const { factory, token0, token1, pool: untypedPool } = await loadFixture(deployFixture);
+        const pool = await hre.viem.getContractAt('Pool', untypedPool.address);
+        const [owner, other] = await hre.viem.getWalletClients();
+
+        // 只有 Factory 的 owner 可以设置协议费
+        expect((await factory.read.owner()).toLowerCase()).to.equal(owner.account.address.toLowerCase());
+        await expect(pool.write.setFeeProtocol([4, 4], { account: other.account })).to.be.rejectedWith('Not factory owner');
+        // 比例只能是 0 或者 4 到 10
+        await expect(pool.write.setFeeProtocol([3, 0])).to.be.rejectedWith('Invalid fee protocol');
+        await expect(pool.write.setFeeProtocol([0, 11])).to.be.rejectedWith('Invalid fee protocol');
+
+        // token0 收取 1/4 的手续费，token1 收取 1/10
+        await pool.write.setFeeProtocol([4, 10]);
+        expect(await pool.read.feeProtocol()).to.equal(4 + (10 << 4));
+        const setEvents = await pool.getEvents.SetFeeProtocol();
+        expect(setEvents.length).to.equal(1);
+        expect(setEvents[0].args).to.deep.equal({ feeProtocol0Old: 0, feeProtocol1Old: 0, feeProtocol0New: 4, feeProtocol1New: 10 });
+
+        // 和 swap 测试一样，注入流动性后用 100 个 token0 交易，手续费是 0.3 个 token0
+        const testLP = await hre.viem.deployContract('TestLP');
+        await token0.write.mint([testLP.address, 100000000000n * 10n ** 18n]);
+        await token1.write.mint([testLP.address, 100000000000n * 10n ** 18n]);
+        const liquidity = 1000000000000000000000000000n;
+        await testLP.write.mint([testLP.address, liquidity, pool.address, token0.address, token1.address]);
+
+        const testSwap = await hre.viem.deployContract('TestSwap');
+        await token0.write.mint([testSwap.address, 300n * 10n ** 18n]);
+        const minSqrtPriceX96 = BigInt(encodeSqrtRatioX96(1000, 1).toString());
+        await testSwap.write.testSwap([testSwap.address, 100n * 10n ** 18n, minSqrtPriceX96, pool.address, token0.address, token1.address]);
+
+        // 协议费不影响交易结果，用户收到的 token1 和没有协议费时一样
+        expect(await token1.read.balanceOf([testSwap.address])).to.equal(996990060009101709255958n);
+        // 0.3 个 token0 的手续费中 1/4 分给协议，剩下的分给 LP
+        const protocolFee = 300000000000000000n / 4n;
+        expect(await pool.read.protocolFees()).to.deep.equal([protocolFee, 0n]);
+        expect(await pool.read.feeGrowthGlobal0X128()).to.equal((300000000000000000n - protocolFee) * 2n ** 128n / liquidity);
+
+        // 只有 owner 可以提取，提取数量不超过累计的协议费
+        await expect(pool.write.collectProtocol([other.account.address, protocolFee, 0n], { account: other.account })).to.be.rejectedWith('Not factory owner');
+        await pool.write.collectProtocol([other.account.address, protocolFee + 1n, 10n ** 18n]);
+        expect(await token0.read.balanceOf([other.account.address])).to.equal(protocolFee);
+        expect(await token1.read.balanceOf([other.account.address])).to.equal(0n);
+        expect(await pool.read.protocolFees()).to.deep.equal([0n, 0n]);
+
+        const collectEvents = await pool.getEvents.CollectProtocol();
+        expect(collectEvents.length).to.equal(1);
+        expect(collectEvents[0].args.amount0).to.equal(protocolFee);
+        expect(collectEvents[0].args.amount1).to.equal(0n);
+
+        // LP 取回的 token0 不包含协议费
+        await testLP.write.burn([liquidity, pool.address]);
+        await testLP.write.collect([testLP.address, pool.address]);
+        expect(await token0.read.balanceOf([testLP.address])).to.equal(100000000099999999999999999998n - protocolFee);
+    })
+
+    // 测试 TWAP 预言机，通过 time 修改区块时间
+    it('oracle observations', async function() {
+        const { token0, token1, pool: untypedPool } = await loadFixture(deployFixture);
+        const pool = await hre.viem.getContractAt('Pool', untypedPool.address);
+        const initTime = await time.latest();
+
+        // 初始化时写入第一个 observation
+        expect(await pool.read.observationCardinality()).to.equal(1);
+        expect(await pool.read.observations([0n])).to.deep.equal([initTime, 0n, 0n, true]);
+
+        // 扩容后要等当前的 observation 写满才会生效
+        await pool.write.increaseObservationCardinalityNext([10]);
+        expect(await pool.read.observationCardinality()).to.equal(1);
+        expect(await pool.read.observationCardinalityNext()).to.equal(10);
+        const growEvents = await pool.getEvents.IncreaseObservationCardinalityNext();
+        expect(growEvents[0].args).to.deep.equal({ observationCardinalityNextOld: 1, observationCardinalityNextNew: 10 });
+
+        // mint 时用之前的流动性 0 写入 observation
+        const testLP = await hre.viem.deployContract('TestLP');
+        await token0.write.mint([testLP.address, 100000000000n * 10n ** 18n]);
+        await token1.write.mint([testLP.address, 100000000000n * 10n ** 18n]);
+        const liquidity = 1000000000000000000000000000n;
+        await testLP.write.mint([testLP.address, liquidity, pool.address, token0.address, token1.address]);
+        const mintTime = await time.latest();
+        expect(await pool.read.observationCardinality()).to.equal(10);
+        expect(await pool.read.observationIndex()).to.equal(1);
+        const tick0 = await pool.read.tick();
+
+        // 100 秒后交易，交易前用旧的 tick 写入 observation
+        await time.increase(100);
+        const testSwap = await hre.viem.deployContract('TestSwap');
+        await token0.write.mint([testSwap.address, 300n * 10n ** 18n]);
+        const minSqrtPriceX96 = BigInt(encodeSqrtRatioX96(1000, 1).toString());
+        await testSwap.write.testSwap([testSwap.address, 100n * 10n ** 18n, minSqrtPriceX96, pool.address, token0.address, token1.address]);
+        const swapTime = await time.latest();
+        const tick1 = await pool.read.tick();
+        expect(tick1 < tick0).to.be.true;
+
+        // 再过 200 秒，最新的 tick 按当前区块时间推算
+        await time.increase(200);
+        const now = await time.latest();
+        const [tickCumulatives, secondsPerLiquidityCumulativeX128s] = await pool.read.observe([[now - mintTime, now - swapTime, 0]]);
+        expect(tickCumulatives[1] - tickCumulatives[0]).to.equal(BigInt(tick0) * BigInt(swapTime - mintTime));
+        expect(tickCumulatives[2] - tickCumulatives[1]).to.equal(BigInt(tick1) * BigInt(now - swapTime));
+        expect(secondsPerLiquidityCumulativeX128s[2] - secondsPerLiquidityCumulativeX128s[1]).to.equal((BigInt(now - swapTime) << 128n) / liquidity);
+
+        // 交易之后的 TWAP 就是交易后的 tick，跨过交易的 TWAP 是两个 tick 的时间加权平均
+        const twap = await consult(pool, now - swapTime);
+        expect(twap.arithmeticMeanTick).to.equal(tick1);
+        expect(twap.sqrtPriceX96).to.equal(BigInt(TickMath.getSqrtRatioAtTick(tick1).toString()));
+        const liquidityError = twap.harmonicMeanLiquidity - liquidity;
+        expect(liquidityError >= 0n && liquidityError < liquidity / 10n ** 6n).to.be.true;
+        const mixed = await consult(pool, now - mintTime);
+        expect(mixed.arithmeticMeanTick).to.equal(getArithmeticMeanTick(tickCumulatives[0], tickCumulatives[2], now - mintTime));
+        expect(mixed.arithmeticMeanTick).to.equal(Math.floor((tick0 * (swapTime - mintTime) + tick1 * (now - swapTime)) / (now - mintTime)));
+
+        // 两个 observation 之间的时间点按线性插值计算
+        const [[middle]] = await pool.read.observe([[now - mintTime - 50]]);
+        expect(middle - tickCumulatives[0]).to.equal(BigInt(tick0) * 50n);
+
+        // 早于最老的 observation 时 revert
+        await expect(pool.read.observe([[now - initTime + 1]])).to.be.rejectedWith('OLD');
+    })
+
+    // observations 写满后会覆盖最老的记录
+    it('oracle ring buffer', async function() {
+        const { token0, token1, pool: untypedPool } = await loadFixture(deployFixture);
+        const pool = await hre.viem.getContractAt('Pool', untypedPool.address);
+        await expect(pool.read.observe([[1]])).to.be.rejectedWith('OLD');
+
+        const testLP = await hre.viem.deployContract('TestLP');
+        await token0.write.mint([testLP.address, 100000000000n * 10n ** 18n]);
+        await token1.write.mint([testLP.address, 100000000000n * 10n ** 18n]);
+        for (let i = 0; i < 3; i++) {
+            await time.increase(60);
+            await testLP.write.mint([testLP.address, 10n ** 20n, pool.address, token0.address, token1.address]);
+        }
+
+        // 长度为 1 时只保留最近一次的 observation
+        const lastWrite = await time.latest();
+        expect(await pool.read.observationIndex()).to.equal(0);
+        expect((await pool.read.observations([0n]))[0]).to.equal(lastWrite);
+        await time.increase(10);
+        await expect(pool.read.observe([[11]])).to.be.rejectedWith('OLD');
+        const [tickCumulatives] = await pool.read.observe([[10, 0]]);
+        expect(tickCumulatives[1] - tickCumulatives[0]).to.equal(BigInt(await pool.read.tick()) * 10n);
+    })
+
+    // 测试闪电贷，借出的 token 加上手续费需要在回调中还给 Pool
+    it('flash', async function() {
+        const { token0, token1, fee, pool: untypedPool } = await loadFixture(deployFixture);
+        const pool = await hre.viem.getContractAt('Pool', untypedPool.address);
+        const testFlash = await hre.viem.deployContract('TestFlash');
+        await token0.write.mint([testFlash.address, 1000n * 10n ** 18n]);
+        await token1.write.mint([testFlash.address, 1000n * 10n ** 18n]);
+
+        // 没有流动性时不能借
+        await expect(testFlash.write.testFlash([pool.address, 1n, 0n, 1n, 0n, false])).to.be.rejectedWith("reason string 'L'");
+
+        const testLP = await hre.viem.deployContract('TestLP');
+        await token0.write.mint([testLP.address, 100000000000n * 10n ** 18n]);
+        await token1.write.mint([testLP.address, 100000000000n * 10n ** 18n]);
+        const liquidity = 1000000000000000000000000000n;
+        await testLP.write.mint([testLP.address, liquidity, pool.address, token0.address, token1.address]);
+
+        // 手续费按 fee 向上取整
+        const amount0 = 10n * 10n ** 18n;
+        const amount1 = 10n ** 18n;
+        const fee0 = (amount0 * BigInt(fee) + 999999n) / 1000000n;
+        const fee1 = (amount1 * BigInt(fee) + 999999n) / 1000000n;
+
+        // 少还一点都不行
+        await expect(testFlash.write.testFlash([pool.address, amount0, amount1, amount0 + fee0 - 1n, amount1 + fee1, false])).to.be.rejectedWith('F0');
+        await expect(testFlash.write.testFlash([pool.address, amount0, amount1, amount0 + fee0, amount1 + fee1 - 1n, false])).to.be.rejectedWith('F1');
+        // 回调中不能重入 Pool
+        await expect(testFlash.write.testFlash([pool.address, amount0, amount1, amount0 + fee0, amount1 + fee1, true])).to.be.rejectedWith('LOK');
+
+        // 还清借款和手续费，多付的 token1 也算作手续费
+        const balance0Before = await token0.read.balanceOf([pool.address]);
+        const balance1Before = await token1.read.balanceOf([pool.address]);
+        await testFlash.write.testFlash([pool.address, amount0, amount1, amount0 + fee0, amount1 + fee1 + 100n, false]);
+        expect(await token0.read.balanceOf([pool.address])).to.equal(balance0Before + fee0);
+        expect(await token1.read.balanceOf([pool.address])).to.equal(balance1Before + fee1 + 100n);
+
+        const callbackEvents = await testFlash.getEvents.FlashCallback();
+        expect(callbackEvents[0].args).to.deep.equal({ fee0, fee1 });
+        const flashEvents = await pool.getEvents.Flash();
+        expect(flashEvents.length).to.equal(1);
+        expect(flashEvents[0].args).to.deep.equal({
+            sender: getAddress(testFlash.address),
+            recipient: getAddress(testFlash.address),
+            amount0,
+            amount1,
+            paid0: fee0,
+            paid1: fee1 + 100n,
+        });
+
+        // 手续费按流动性分给 LP
+        expect(await pool.read.feeGrowthGlobal0X128()).to.equal(fee0 * 2n ** 128n / liquidity);
+        expect(await pool.read.feeGrowthGlobal1X128()).to.equal((fee1 + 100n) * 2n ** 128n / liquidity);
+        const lpBalance0 = await token0.read.balanceOf([testLP.address]);
+        const lpBalance1 = await token1.read.balanceOf([testLP.address]);
+        await testLP.write.burn([liquidity, pool.address]);
+        const [, , , tokensOwed0, tokensOwed1] = await pool.read.getPosition([testLP.address]);
+        await testLP.write.collect([testLP.address, pool.address]);
+        expect(await token0.read.balanceOf([testLP.address])).to.equal(lpBalance0 + tokensOwed0);
+        expect(await token1.read.balanceOf([testLP.address])).to.equal(lpBalance1 + tokensOwed1);
+        // 除了取整误差，Pool 中只剩下借款人付的手续费中没有分完的部分
+        expect(await token0.read.balanceOf([pool.address]) <= 2n).to.be.true;
+        expect(await token1.read.balanceOf([pool.address]) <= 2n).to.be.true;
+    })
+
+    // 开启协议费后，闪电贷的手续费也要分一部分给协议
+    it('flash protocol fee', async function() {
+        const { token0, token1, pool: untypedPool } = await loadFixture(deployFixture);
+        const pool = await hre.viem.getContractAt('Pool', untypedPool.address);
+        const testFlash = await hre.viem.deployContract('TestFlash');
+        await token0.write.mint([testFlash.address, 1000n * 10n ** 18n]);
+
+        const testLP = await hre.viem.deployContract('TestLP');
+        await token0.write.mint([testLP.address, 100000000000n * 10n ** 18n]);
+        await token1.write.mint([testLP.address, 100000000000n * 10n ** 18n]);
+        const liquidity = 1000000000000000000000000000n;
+        await testLP.write.mint([testLP.address, liquidity, pool.address, token0.address, token1.address]);
+
+        await pool.write.setFeeProtocol([4, 10]);
+        const amount0 = 10n * 10n ** 18n;
+        const fee0 = amount0 * 3000n / 1000000n;
+        await testFlash.write.testFlash([pool.address, amount0, 0n, amount0 + fee0, 0n, false]);
+
+        expect(await pool.read.protocolFees()).to.deep.equal([fee0 / 4n, 0n]);
+        expect(await pool.read.feeGrowthGlobal0X128()).to.equal((fee0 - fee0 / 4n) * 2n ** 128n / liquidity);
+        expect(await pool.read.feeGrowthGlobal1X128()).to.equal(0n);
+
+        // 回调中余额还没有结算，不能提取协议费
+        await expect(testFlash.write.testFlashCollectProtocol([pool.address])).to.be.rejectedWith('LOK');
+        await pool.write.collectProtocol([testFlash.address, fee0, 0n]);
+        expect(await pool.read.protocolFees()).to.deep.equal([0n, 0n]);
+    })
+})
@@ -0,0 +1,307 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { TickMath as SdkTickMath, encodeSqrtRatioX96 } from '@uniswap/v3-sdk';
+import { MAX_UINT128, MathError, TickMath } from '../../utils/wtfswap/math';
+import { PoolModel } from '../../utils/wtfswap/poolModel';
+import { FuzzFailure, Random, runStatefulFuzz } from '../../utils/wtfswap/fuzz';
+
+// 随机的 mint、burn、collect 和 swap 序列，每一步都和 PoolModel 对比，并检查 Pool 的不变量
+// 失败时错误信息中会打印种子，用 POOL_FUZZ_SEED=<seed> 可以复现
+type PoolAction =
+    | { type: 'mint'; lp: number; amount: bigint }
+    // fraction 是移除当前流动性的万分比，为 0 时只结算手续费
+    | { type: 'burn'; lp: number; fraction: number }
+    | { type: 'collect'; lp: number }
+    | { type: 'swap'; swapper: number; zeroForOne: boolean; amountSpecified: bigint };
+
+describe("PoolFuzz", function () {
+    async function deployFixture() {
+        const poolManager = await hre.viem.deployContract('PoolManager');
+        const tokenA = await hre.viem.deployContract('TestToken', ['TestToken', 'TK', 18]);
+        const tokenB = await hre.viem.deployContract('TestToken', ['TestToken', 'TK', 18]);
+        const token0 = tokenA.address < tokenB.address ? tokenA : tokenB;
+        const token1 = tokenA.address < tokenB.address ? tokenB : tokenA;
+
+        await poolManager.write.createAndInitializePoolIfNecessary([{
+            token0: token0.address,
+            token1: token1.address,
+            fee: 3000,
+            tickLower: SdkTickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(1, 1)),
+            tickUpper: SdkTickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(40000, 1)),
+            sqrtPriceX96: BigInt(encodeSqrtRatioX96(10000, 1).toString()),
+        }]);
+        const events = await poolManager.getEvents.PoolCreated();
+        const pool = await hre.viem.getContractAt('Pool', events[0].args.pool!);
+        // 开启协议费，token0 收取 1/4，token1 收取 1/6
+        await pool.write.setFeeProtocol([4, 6]);
+
+        // 多个 LP 和交易者，余额足够大，不会因为余额不足而失败
+        const balance = 2n ** 120n;
+        const lps = [];
+        const swappers = [];
+        for (let i = 0; i < 3; i++) {
+            lps.push(await hre.viem.deployContract('TestLP'));
+        }
+        for (let i = 0; i < 2; i++) {
+            swappers.push(await hre.viem.deployContract('TestSwap'));
+        }
+        for (const actor of [...lps, ...swappers]) {
+            await token0.write.mint([actor.address, balance]);
+            await token1.write.mint([actor.address, balance]);
+        }
+
+        return { token0, token1, pool, lps, swappers };
+    }
+
+    type Fixture = Awaited<ReturnType<typeof deployFixture>>;
+
+    interface FuzzContext extends Fixture {
+        model: PoolModel;
+        // 上一步的手续费累计值，用来检查手续费不会减少
+        feeGrowthGlobal0X128: bigint;
+        feeGrowthGlobal1X128: bigint;
+        protocolFees0: bigint;
+        protocolFees1: bigint;
+    }
+
+    async function setup(): Promise<FuzzContext> {
+        const fixture = await loadFixture(deployFixture);
+        const { pool } = fixture;
+        const model = new PoolModel({
+            fee: await pool.read.fee(),
+            tickLower: await pool.read.tickLower(),
+            tickUpper: await pool.read.tickUpper(),
+            tick: await pool.read.tick(),
+            sqrtPriceX96: await pool.read.sqrtPriceX96(),
+            liquidity: await pool.read.liquidity(),
+            feeProtocol: await pool.read.feeProtocol(),
+        });
+        return {
+            ...fixture,
+            model,
+            feeGrowthGlobal0X128: 0n,
+            feeGrowthGlobal1X128: 0n,
+            protocolFees0: 0n,
+            protocolFees1: 0n,
+        };
+    }
+
+    function generate(random: Random): PoolAction {
+        const roll = random.next();
+        if (roll < 0.3) {
+            return { type: 'mint', lp: random.int(0, 2), amount: random.bigint(64) };
+        }
+        if (roll < 0.5) {
+            // 有一定概率移除全部流动性
+            const fraction = random.next() < 0.2 ? 10000 : random.int(0, 10000);
+            return { type: 'burn', lp: random.int(0, 2), fraction };
+        }
+        if (roll < 0.65) {
+            return { type: 'collect', lp: random.int(0, 2) };
+        }
+        const amount = random.bigint(72);
+        return {
+            type: 'swap',
+            swapper: random.int(0, 1),
+            zeroForOne: random.bool(),
+            amountSpecified: random.bool() ? amount : -amount,
+        };
+    }
+
+    // 数量减半，更小的数字更容易看出问题
+    function shrinkAction(action: PoolAction): PoolAction[] {
+        if (action.type === 'mint' && action.amount > 1n) {
+            return [{ ...action, amount: action.amount / 2n }];
+        }
+        if (action.type === 'swap' && (action.amountSpecified > 1n || action.amountSpecified < -1n)) {
+            return [{ ...action, amountSpecified: action.amountSpecified / 2n }];
+        }
+        return [];
+    }
+
+    // 先用参考模型计算结果，模型认为会 revert 时合约也必须 revert，否则合约的返回值必须和模型一致
+    async function execute(context: FuzzContext, action: PoolAction) {
+        const { pool, token0, token1, lps, swappers, model } = context;
+
+        const expectRevert = async (call: () => Promise<unknown>, error: unknown) => {
+            if (!(error instanceof MathError)) {
+                throw error;
+            }
+            await expect(call(), `expected revert: ${error.message}`).to.be.rejected;
+        };
+
+        if (action.type === 'mint') {
+            const lp = lps[action.lp];
+            const args: [`0x${string}`, bigint, `0x${string}`, `0x${string}`, `0x${string}`] = [
+                lp.address, action.amount, pool.address, token0.address, token1.address,
+            ];
+            let expected;
+            try {
+                expected = model.mint(lp.address, action.amount);
+            } catch (error) {
+                return expectRevert(() => lp.simulate.mint(args), error);
+            }
+            const { result } = await lp.simulate.mint(args);
+            expect(result).to.deep.equal([expected.amount0, expected.amount1], 'mint amounts');
+            await lp.write.mint(args);
+        } else if (action.type === 'burn') {
+            const lp = lps[action.lp];
+            const amount = (model.getPosition(lp.address).liquidity * BigInt(action.fraction)) / 10000n;
+            let expected;
+            try {
+                expected = model.burn(lp.address, amount);
+            } catch (error) {
+                return expectRevert(() => lp.simulate.burn([amount, pool.address]), error);
+            }
+            const { result } = await lp.simulate.burn([amount, pool.address]);
+            expect(result).to.deep.equal([expected.amount0, expected.amount1], 'burn amounts');
+            await lp.write.burn([amount, pool.address]);
+        } else if (action.type === 'collect') {
+            const lp = lps[action.lp];
+            const expected = model.collect(lp.address, MAX_UINT128, MAX_UINT128);
+            const balance0Before = await token0.read.balanceOf([lp.address]);
+            const balance1Before = await token1.read.balanceOf([lp.address]);
+            await lp.write.collect([lp.address, pool.address]);
+            const received0 = (await token0.read.balanceOf([lp.address])) - balance0Before;
+            const received1 = (await token1.read.balanceOf([lp.address])) - balance1Before;
+            expect(received0).to.equal(expected.amount0, 'collect token0');
+            expect(received1).to.equal(expected.amount1, 'collect token1');
+        } else {
+            const swapper = swappers[action.swapper];
+            // 不限制价格，由 Pool 的价格区间限制
+            const sqrtPriceLimitX96 = action.zeroForOne ? TickMath.MIN_SQRT_PRICE + 1n : TickMath.MAX_SQRT_PRICE - 1n;
+            const { zeroForOne, amountSpecified } = action;
+            const args: [`0x${string}`, boolean, bigint, bigint, `0x${string}`, `0x${string}`, `0x${string}`] = [
+                swapper.address, zeroForOne, amountSpecified, sqrtPriceLimitX96, pool.address, token0.address, token1.address,
+            ];
+            let expected;
+            try {
+                expected = model.swap({ zeroForOne, amountSpecified, sqrtPriceLimitX96 });
+            } catch (error) {
+                return expectRevert(() => swapper.simulate.testSwapWithDirection(args), error);
+            }
+            const { result } = await swapper.simulate.testSwapWithDirection(args);
+            expect(result).to.deep.equal([expected.amount0, expected.amount1], 'swap amounts');
+            await swapper.write.testSwapWithDirection(args);
+        }
+    }
+
+    async function check(context: FuzzContext) {
+        const { pool, token0, token1, lps, model } = context;
+
+        // 链上状态和参考模型一致
+        const sqrtPriceX96 = await pool.read.sqrtPriceX96();
+        const tick = await pool.read.tick();
+        const liquidity = await pool.read.liquidity();
+        const feeGrowthGlobal0X128 = await pool.read.feeGrowthGlobal0X128();
+        const feeGrowthGlobal1X128 = await pool.read.feeGrowthGlobal1X128();
+        const [protocolFees0, protocolFees1] = await pool.read.protocolFees();
+        expect(sqrtPriceX96).to.equal(model.state.sqrtPriceX96, 'sqrtPriceX96');
+        expect(tick).to.equal(model.state.tick, 'tick');
+        expect(liquidity).to.equal(model.state.liquidity, 'liquidity');
+        expect(feeGrowthGlobal0X128).to.equal(model.state.feeGrowthGlobal0X128, 'feeGrowthGlobal0X128');
+        expect(feeGrowthGlobal1X128).to.equal(model.state.feeGrowthGlobal1X128, 'feeGrowthGlobal1X128');
+        expect(protocolFees0).to.equal(model.protocolFees.amount0, 'protocolFees0');
+        expect(protocolFees1).to.equal(model.protocolFees.amount1, 'protocolFees1');
+
+        // Pool 的余额要能覆盖：全部 tokensOwed、还没结算的手续费、移除全部流动性能拿到的 token，以及协议费
+        let totalLiquidity = 0n;
+        let owed0 = protocolFees0;
+        let owed1 = protocolFees1;
+        for (const lp of lps) {
+            const position = await pool.read.positions([lp.address]);
+            const expected = model.getPosition(lp.address);
+            expect(position).to.deep.equal(
+                [
+                    expected.liquidity,
+                    expected.tokensOwed0,
+                    expected.tokensOwed1,
+                    expected.feeGrowthInside0LastX128,
+                    expected.feeGrowthInside1LastX128,
+                ],
+                `position of ${lp.address}`
+            );
+            const amounts = model.getPositionAmounts(lp.address);
+            const fees = model.getPendingFees(lp.address);
+            totalLiquidity += position[0];
+            owed0 += position[1] + fees.amount0 + amounts.amount0;
+            owed1 += position[2] + fees.amount1 + amounts.amount1;
+        }
+        expect(liquidity).to.equal(totalLiquidity, 'liquidity equals the sum of positions');
+        const balance0 = await token0.read.balanceOf([pool.address]);
+        const balance1 = await token1.read.balanceOf([pool.address]);
+        expect(balance0 >= owed0, `token0 insolvent: balance ${balance0}, owed ${owed0}`).to.be.true;
+        expect(balance1 >= owed1, `token1 insolvent: balance ${balance1}, owed ${owed1}`).to.be.true;
+
+        // 价格始终在 Pool 的价格区间内
+        const tickLower = model.state.tickLower;
+        const tickUpper = model.state.tickUpper;
+        expect(tick).to.be.within(tickLower, tickUpper, 'tick in range');
+        expect(sqrtPriceX96 >= TickMath.getSqrtPriceAtTick(tickLower), 'sqrtPriceX96 above lower').to.be.true;
+        expect(sqrtPriceX96 <= TickMath.getSqrtPriceAtTick(tickUpper), 'sqrtPriceX96 below upper').to.be.true;
+
+        // 手续费只会增加
+        expect(feeGrowthGlobal0X128 >= context.feeGrowthGlobal0X128, 'feeGrowthGlobal0X128 decreased').to.be.true;
+        expect(feeGrowthGlobal1X128 >= context.feeGrowthGlobal1X128, 'feeGrowthGlobal1X128 decreased').to.be.true;
+        expect(protocolFees0 >= context.protocolFees0, 'protocolFees0 decreased').to.be.true;
+        expect(protocolFees1 >= context.protocolFees1, 'protocolFees1 decreased').to.be.true;
+        Object.assign(context, { feeGrowthGlobal0X128, feeGrowthGlobal1X128, protocolFees0, protocolFees1 });
+    }
+
+    it('keeps invariants over random mint/burn/collect/swap sequences', async function () {
+        const runs = Number(process.env.POOL_FUZZ_RUNS ?? 5);
+        const steps = Number(process.env.POOL_FUZZ_STEPS ?? 40);
+        this.timeout(Math.max(60000, runs * steps * 1000));
+
+        await runStatefulFuzz({
+            seed: Number(process.env.POOL_FUZZ_SEED ?? 20240901),
+            runs,
+            steps,
+            seedEnv: 'POOL_FUZZ_SEED',
+            generate,
+            setup,
+            execute,
+            check,
+            shrinkAction,
+        });
+    });
+
+    it('shrinks a failing sequence and reports the seed', async function () {
+        // 简单的计数器：累加超过 100 时失败，最短的失败序列是一个大于 100 的数
+        const options = {
+            seed: 42,
+            runs: 10,
+            steps: 20,
+            seedEnv: 'FUZZ_SEED',
+            generate: (random: Random) => random.int(0, 60),
+            setup: async () => ({ total: 0 }),
+            execute: async (context: { total: number }, action: number) => {
+                context.total += action;
+            },
+            check: async (context: { total: number }) => {
+                if (context.total > 100) {
+                    throw new Error(`total ${context.total} exceeds 100`);
+                }
+            },
+            shrinkAction: (action: number) => (action > 0 ? [action - 1] : []),
+        };
+
+        const failure = await runStatefulFuzz(options).then(
+            () => undefined,
+            (error) => error
+        );
+        expect(failure).to.be.instanceOf(FuzzFailure);
+        expect(failure.seed).to.equal(42);
+        expect(failure.actions.reduce((a: number, b: number) => a + b, 0)).to.equal(101);
+        expect(failure.message).to.include('reproduce with FUZZ_SEED=42');
+        expect(failure.message).to.include('total 101 exceeds 100');
+
+        // 同样的种子得到同样的结果
+        const again = await runStatefulFuzz({ ...options, runs: 1 }).then(
+            () => undefined,
+            (error) => error
+        );
+        expect(again.actions).to.deep.equal(failure.actions);
+    });
+});
@@ -2,6 +2,7 @@ import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpe
 import { assert, expect } from "chai";
 import hre from "hardhat";
 import { TickMath, encodeSqrtRatioX96} from '@uniswap/v3-sdk'
+import { iteratePools, toArray } from "../../utils/wtfswap/pagination";
 
 describe("PoolManager", function () {
     async function deployFixture() {
@@ -38,7 +39,8 @@ describe("PoolManager", function () {
             sqrtPriceX96: BigInt(encodeSqrtRatioX96(100, 1).toString()),
         }]);
 
-        // 创建 C/D 池
+        // 创建 C/D 池，0.2% 不是默认启用的费率，需要 owner 先启用
+        await manager.write.enableFeeAmount([2000, 1]);
         await manager.write.createAndInitializePoolIfNecessary([
             {
                 token0: tokenC,
@@ -87,4 +89,76 @@ describe("PoolManager", function () {
         }])).to.be.rejected;
     })
 
+    it("getAllPools reports feeProtocol", async function() {
+        const { manager } = await loadFixture(deployFixture);
+
+        const tokenA: `0x${string}` = "0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984";
+        const tokenB: `0x${string}` = "0xEcd0D12E21805803f70de03B72B1C162dB0898d9";
+
+        await manager.write.createAndInitializePoolIfNecessary([{
+            token0: tokenA,
+            token1: tokenB,
+            fee: 3000,
+            tickLower: TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(1, 1)),
+            tickUpper: TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(1000, 1)),
+            sqrtPriceX96: BigInt(encodeSqrtRatioX96(100, 1).toString()),
+        }]);
+        expect((await manager.read.getAllPools())[0].feeProtocol).to.equal(0);
+
+        // PoolManager 的部署者是 owner，可以直接在池子上开启协议费
+        const pool = await hre.viem.getContractAt('Pool', await manager.read.getPool([tokenA, tokenB, 0]));
+        await pool.write.setFeeProtocol([5, 8]);
+        expect((await manager.read.getAllPools())[0].feeProtocol).to.equal(5 + (8 << 4));
+    })
+
+    it("getPools pagination & getPoolsForPair", async function() {
+        const { manager } = await loadFixture(deployFixture);
+
+        const tokenA: `0x${string}` = "0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984";
+        const tokenB: `0x${string}` = "0xEcd0D12E21805803f70de03B72B1C162dB0898d9";
+        const tokenC: `0x${string}` = "0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599";
+        const tokenD: `0x${string}` = "0x6B175474E89094C44Da98b954EedeAC495271d0F";
+
+        // A/B 三个池子，C/D 两个池子
+        const create = async (token0: `0x${string}`, token1: `0x${string}`, fee: number) => {
+            await manager.write.createAndInitializePoolIfNecessary([{
+                token0,
+                token1,
+                fee,
+                tickLower: TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(1, 1)),
+                tickUpper: TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(1000, 1)),
+                sqrtPriceX96: BigInt(encodeSqrtRatioX96(100, 1).toString()),
+            }]);
+        }
+        await create(tokenA, tokenB, 500);
+        await create(tokenC, tokenD, 500);
+        await create(tokenA, tokenB, 3000);
+        await create(tokenC, tokenD, 3000);
+        await create(tokenA, tokenB, 10000);
+
+        // 按池子的创建顺序排列，不同交易对的池子交错
+        const all = await manager.read.getAllPools();
+        expect(all.map((pool) => pool.fee)).to.deep.equal([500, 500, 3000, 3000, 10000]);
+        expect(all.map((pool) => pool.index)).to.deep.equal([0, 0, 1, 1, 2]);
+
+        // 每页两个，和 getAllPools 的顺序一致
+        const pages = [];
+        for (let offset = 0n; offset < 6n; offset += 2n) {
+            pages.push(await manager.read.getPools([offset, 2n]));
+        }
+        expect(pages.map((page) => page.length)).to.deep.equal([2, 2, 1]);
+        expect(pages.flat()).to.deep.equal(all);
+        expect(await manager.read.getPools([5n, 10n])).to.deep.equal([]);
+        expect((await manager.read.getPools([3n, 0n])).length).to.equal(0);
+
+        // 通过异步迭代器遍历
+        const iterated = await toArray(iteratePools(manager, { pageSize: 2 }));
+        expect(iterated).to.deep.equal(all);
+
+        // 按交易对查询，token 不需要排序
+        const pairPools = await manager.read.getPoolsForPair([tokenD, tokenC]);
+        expect(pairPools).to.deep.equal([all[1], all[3]]);
+        expect(pairPools.map((pool) => pool.index)).to.deep.equal([0, 1]);
+        expect(await manager.read.getPoolsForPair([tokenA, tokenC])).to.deep.equal([]);
+    })
 })
@@ -1,14 +1,18 @@
 import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
 import { assert, expect } from 'chai';
 import hre from "hardhat";
+import type { ContractTypesMap } from "hardhat/types/artifacts";
 import { TickMath, encodeSqrtRatioX96 } from '@uniswap/v3-sdk'
+import { getAddress, maxUint128, maxUint256 } from "viem";
+import { getMintAmounts, getMintAmountsWithSlippage } from "../../utils/wtfswap/liquidity";
+import { iteratePositionsByOwner, toArray } from "../../utils/wtfswap/pagination";
 
 describe("PositionManager", function () {
     async function deployFixture() {
         // 初始化一个池子，价格上限 40000， 价格下限 1， 初始价格 10000， 费率 0.3%
         const poolManager = await hre.viem.deployContract('PoolManager');
-        const tokenA = await hre.viem.deployContract('TestToken')
-        const tokenB = await hre.viem.deployContract('TestToken')
+        const tokenA = await hre.viem.deployContract('TestToken', ['TestToken', 'TK', 18])
+        const tokenB = await hre.viem.deployContract('TestToken', ['TestToken', 'TK', 18])
         const token0 = tokenA.address < tokenB.address ? tokenA : tokenB;
         const token1 = tokenA.address < tokenB.address ? tokenB : tokenA;
         const tickLower = TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(1, 1));
@@ -31,15 +35,37 @@ describe("PositionManager", function () {
         const poolAddress: `0x${string}` = createEvents[0].args.pool || '0x';
         const pool = await hre.viem.getContractAt('Pool' as string, poolAddress)
 
-        const manager = await hre.viem.deployContract('PositionManager', [poolManager.address])
+        const weth9 = await hre.viem.deployContract('WETH9')
+        const manager = await hre.viem.deployContract('PositionManager', [poolManager.address, weth9.address])
 
         const publicClient = await hre.viem.getPublicClient();
         return { manager, poolManager, pool, token0, token1, fee, tickLower, tickUpper, owner, sender, publicClient };   
 
     }
 
+    // 移除 position 的全部流动性
+    async function decreaseAll(manager: ContractTypesMap['PositionManager'], positionId: bigint) {
+        const position = await manager.read.positions([positionId])
+        await manager.write.decreaseLiquidity([{
+            tokenId: positionId,
+            liquidity: position[6],
+            amount0Min: 0n,
+            amount1Min: 0n,
+            deadline: BigInt(Date.now() + 3000)
+        }])
+    }
 
-    it('mint & burn & collect', async function() {
+    async function collectAll(manager: ContractTypesMap['PositionManager'], positionId: bigint, recipient: `0x${string}`) {
+        await manager.write.collect([{
+            tokenId: positionId,
+            recipient,
+            amount0Max: maxUint128,
+            amount1Max: maxUint128
+        }])
+    }
+
+
+    it('mint & decrease & collect & burn', async function() {
         const { manager, poolManager, pool, token0, token1, fee, tickLower, tickUpper, owner, sender, publicClient } = await loadFixture(deployFixture);
 
         // 先给 sender 打钱
@@ -59,6 +85,8 @@ describe("PositionManager", function () {
                 index: 0,
                 amount0Desired: 1000n * 10n ** 18n,
                 amount1Desired: 1000n * 10n ** 18n,
+                amount0Min: 0n,
+                amount1Min: 0n,
                 recipient: sender,
                 deadline: BigInt(Date.now() + 3000)
 
@@ -72,14 +100,18 @@ describe("PositionManager", function () {
         // sender 收到了 NFT
         expect(await manager.read.ownerOf([1n])).to.equal(sender)
 
-        // burn
-        await manager.write.burn([1n])
+        // 移除全部流动性
+        await decreaseAll(manager, 1n)
 
         // collect
-        await manager.write.collect([1n, sender])
+        await collectAll(manager, 1n, sender)
 
         // 检查余额，因为取整问题，可能会有一点损耗
         expect(await token0.read.balanceOf([sender])).to.equal(999999999999999999999n)
+
+        // 流动性和 tokensOwed 都取完后才能销毁 NFT
+        await manager.write.burn([1n])
+        await expect(manager.read.ownerOf([1n])).to.be.rejected
     })
 
 
@@ -103,6 +135,8 @@ describe("PositionManager", function () {
             recipient: sender,
             amount0Desired: initBalanceValue - 1000n * 10n ** 18n,
             amount1Desired: initBalanceValue - 1000n * 10n ** 18n,
+            amount0Min: 0n,
+            amount1Min: 0n,
             deadline: BigInt(Date.now() + 3000)
         }])
 
@@ -114,6 +148,8 @@ describe("PositionManager", function () {
             recipient: sender,
             amount0Desired: 1000n * 10n ** 18n,
             amount1Desired: 1000n * 10n ** 18n,
+            amount0Min: 0n,
+            amount1Min: 0n,
             deadline: BigInt(Date.now() + 3000)
         }])
 
@@ -136,21 +172,387 @@ describe("PositionManager", function () {
             token1.address
         ])
 
-        // 删除流动性， 调用 burn
-        await manager.write.burn([1n])
-        await manager.write.burn([2n])
+        // 删除流动性， 调用 decreaseLiquidity
+        await decreaseAll(manager, 1n)
+        await decreaseAll(manager, 2n)
         
         // 查看当前 token 余额
         expect(await token0.read.balanceOf([sender])).to.equal(99500001227993278268746590572n)
 
         // 提取 token
-        await manager.write.collect([1n, sender])
+        await collectAll(manager, 1n, sender)
         // 判断 token 是否返回给 testLP，并且大于原来的数量，因为收到了手续费，并且有交易换入了 token0
         // 初始的 token0 是 const initBalanceValue = 100000000000n * 10n ** 18n;
         expect(await token0.read.balanceOf([sender])).to.equal(100000000095000011279932782685n)
         
 
-        await manager.write.collect([2n, sender])
+        await collectAll(manager, 2n, sender)
         expect(await token0.read.balanceOf([sender])).to.equal(100000000099999999999999999996n)
     })
+
+    it('increase & partial decrease', async function() {
+        const { manager, pool, token0, token1, sender } = await loadFixture(deployFixture)
+        const [, other] = await hre.viem.getWalletClients();
+
+        const initBalanceValue = 1000n * 10n ** 18n
+        for (const token of [token0, token1]) {
+            await token.write.mint([sender, initBalanceValue])
+            await token.write.approve([manager.address, initBalanceValue])
+        }
+
+        await manager.write.mint([{
+            token0: token0.address,
+            token1: token1.address,
+            index: 0,
+            recipient: sender,
+            amount0Desired: 1n * 10n ** 18n,
+            amount1Desired: 1000n * 10n ** 18n,
+            amount0Min: 0n,
+            amount1Min: 0n,
+            deadline: BigInt(Date.now() + 3000)
+        }])
+        const liquidity = (await manager.read.positions([1n]))[6]
+
+        // 给已有的 position 再注入同样多的 token，流动性翻倍
+        await manager.write.increaseLiquidity([{
+            tokenId: 1n,
+            amount0Desired: 1n * 10n ** 18n,
+            amount1Desired: 1000n * 10n ** 18n,
+            amount0Min: 0n,
+            amount1Min: 0n,
+            deadline: BigInt(Date.now() + 3000)
+        }])
+        expect((await manager.read.positions([1n]))[6]).to.equal(liquidity * 2n)
+        expect(await pool.read.liquidity()).to.equal(liquidity * 2n)
+        const increaseEvents = await manager.getEvents.IncreaseLiquidity()
+        expect(increaseEvents[0].args.liquidity).to.equal(liquidity)
+
+        // 滑点保护
+        await expect(manager.write.increaseLiquidity([{
+            tokenId: 1n,
+            amount0Desired: 1n * 10n ** 18n,
+            amount1Desired: 1000n * 10n ** 18n,
+            amount0Min: 2n * 10n ** 18n,
+            amount1Min: 0n,
+            deadline: BigInt(Date.now() + 3000)
+        }])).to.be.rejectedWith('Price slippage check')
+
+        // 只有 NFT 的持有者或者被授权的地址可以移除流动性
+        await expect(manager.write.decreaseLiquidity([{
+            tokenId: 1n,
+            liquidity,
+            amount0Min: 0n,
+            amount1Min: 0n,
+            deadline: BigInt(Date.now() + 3000)
+        }], { account: other.account })).to.be.rejectedWith('Not approved')
+
+        // 移除一半流动性，token 计入 tokensOwed，还留在 Pool 中
+        const balance0Before = await token0.read.balanceOf([sender])
+        await manager.write.decreaseLiquidity([{
+            tokenId: 1n,
+            liquidity,
+            amount0Min: 0n,
+            amount1Min: 0n,
+            deadline: BigInt(Date.now() + 3000)
+        }])
+        const position = await manager.read.positions([1n])
+        expect(position[6]).to.equal(liquidity)
+        expect(position[9] > 0n).to.be.true
+        expect(position[10] > 0n).to.be.true
+        expect(await token0.read.balanceOf([sender])).to.equal(balance0Before)
+
+        // 超过剩余的流动性
+        await expect(manager.write.decreaseLiquidity([{
+            tokenId: 1n,
+            liquidity: liquidity + 1n,
+            amount0Min: 0n,
+            amount1Min: 0n,
+            deadline: BigInt(Date.now() + 3000)
+        }])).to.be.rejectedWith('Invalid liquidity')
+
+        // 还有流动性时不能销毁 NFT
+        await expect(manager.write.burn([1n])).to.be.rejectedWith('Not cleared')
+
+        // collect 只取回 tokensOwed，NFT 和剩余的流动性不受影响
+        await collectAll(manager, 1n, sender)
+        expect(await token0.read.balanceOf([sender])).to.equal(balance0Before + position[9])
+        expect(await manager.read.ownerOf([1n])).to.equal(getAddress(sender))
+        expect((await manager.read.positions([1n]))[6]).to.equal(liquidity)
+    })
+
+    it('collect fees without removing liquidity', async function() {
+        const { token0, token1, pool, sender, manager } = await loadFixture(deployFixture)
+
+        const initBalanceValue = 100000000000n * 10n ** 18n
+        for (const token of [token0, token1]) {
+            await token.write.mint([sender, initBalanceValue])
+            await token.write.approve([manager.address, initBalanceValue])
+        }
+        await manager.write.mint([{
+            token0: token0.address,
+            token1: token1.address,
+            index: 0,
+            recipient: sender,
+            amount0Desired: 1000n * 10n ** 18n,
+            amount1Desired: 1000n * 200n * 10n ** 18n,
+            amount0Min: 0n,
+            amount1Min: 0n,
+            deadline: BigInt(Date.now() + 3000)
+        }])
+        const liquidity = await pool.read.liquidity()
+
+        const testSwap = await hre.viem.deployContract('TestSwap')
+        await token0.write.mint([testSwap.address, 10n * 10n ** 18n])
+        await testSwap.write.testSwap([
+            testSwap.address,
+            10n * 10n ** 18n,
+            BigInt(encodeSqrtRatioX96(180, 1).toString()),
+            pool.address,
+            token0.address,
+            token1.address
+        ])
+
+        // 手续费是输入 token0 的 0.3%，取整可能少 1 wei
+        const balance0Before = await token0.read.balanceOf([sender])
+        const balance1Before = await token1.read.balanceOf([sender])
+        await collectAll(manager, 1n, sender)
+        const fee0 = await token0.read.balanceOf([sender]) - balance0Before
+        expect(fee0 <= 3n * 10n ** 16n && 3n * 10n ** 16n - fee0 <= 1n).to.be.true
+        expect(await token1.read.balanceOf([sender])).to.equal(balance1Before)
+        expect(await pool.read.liquidity()).to.equal(liquidity)
+
+        const [collectEvent] = await manager.getEvents.Collect()
+        expect(collectEvent.args.tokenId).to.equal(1n)
+        expect(collectEvent.args.amount0).to.equal(fee0)
+
+        // 再次 collect 不会重复取回手续费
+        await collectAll(manager, 1n, sender)
+        expect(await token0.read.balanceOf([sender])).to.equal(balance0Before + fee0)
+    })
+
+    it('mint slippage protection', async function() {
+        const { token0, token1, pool, sender, manager } = await loadFixture(deployFixture)
+
+        const initBalanceValue = 100000000000n * 10n ** 18n
+        for (const token of [token0, token1]) {
+            await token.write.mint([sender, initBalanceValue])
+            await token.write.approve([manager.address, initBalanceValue])
+        }
+        const mintParams = (amount0Min: bigint, amount1Min: bigint) => ({
+            token0: token0.address,
+            token1: token1.address,
+            index: 0,
+            recipient: sender,
+            amount0Desired: 10n * 10n ** 18n,
+            amount1Desired: 2000n * 10n ** 18n,
+            amount0Min,
+            amount1Min,
+            deadline: BigInt(Date.now() + 3000)
+        })
+        // 先注入一些流动性，保证交易可以进行
+        await manager.write.mint([{ ...mintParams(0n, 0n), amount0Desired: 1000n * 10n ** 18n, amount1Desired: 200000n * 10n ** 18n }])
+
+        const poolState = async () => ({
+            sqrtPriceX96: await pool.read.sqrtPriceX96() as bigint,
+            tickLower: await pool.read.tickLower() as number,
+            tickUpper: await pool.read.tickUpper() as number,
+        })
+
+        // 链下计算的数量和合约一致
+        const quote = getMintAmountsWithSlippage(await poolState(), 10n * 10n ** 18n, 2000n * 10n ** 18n, 50n)
+        const { result } = await manager.simulate.mint([mintParams(quote.amount0Min, quote.amount1Min)])
+        expect(result[1]).to.equal(quote.liquidity)
+        expect(result[2]).to.equal(quote.amount0)
+        expect(result[3]).to.equal(quote.amount1)
+        expect(quote.amount0Min < quote.amount0 || quote.amount1Min < quote.amount1).to.be.true
+
+        // 在 mint 之前有一笔交易把价格从 200 压到 196，超出了 0.5% 的滑点
+        const testSwap = await hre.viem.deployContract('TestSwap')
+        await token0.write.mint([testSwap.address, 100n * 10n ** 18n])
+        await testSwap.write.testSwap([
+            testSwap.address,
+            100n * 10n ** 18n,
+            BigInt(encodeSqrtRatioX96(196, 1).toString()),
+            pool.address,
+            token0.address,
+            token1.address
+        ])
+        await expect(manager.write.mint([mintParams(quote.amount0Min, quote.amount1Min)])).to.be.rejectedWith('Price slippage check')
+
+        // 允许 5% 的滑点时可以成功
+        const loose = getMintAmountsWithSlippage(await poolState(), 10n * 10n ** 18n, 2000n * 10n ** 18n, 500n)
+        await manager.write.mint([mintParams(loose.amount0Min, loose.amount1Min)])
+        expect((await manager.read.positions([2n]))[6]).to.equal(getMintAmounts(await poolState(), 10n * 10n ** 18n, 2000n * 10n ** 18n).liquidity)
+    })
+
+    it('getPositionInfo & getPositionsByOwner', async function() {
+        const { token0, token1, sender, manager } = await loadFixture(deployFixture)
+        const [, other] = await hre.viem.getWalletClients();
+
+        const initBalanceValue = 1000n * 10n ** 18n
+        for (const token of [token0, token1]) {
+            await token.write.mint([sender, initBalanceValue])
+            await token.write.approve([manager.address, initBalanceValue])
+        }
+        // position 1、3、5 属于 sender，2、4 属于 other
+        for (let i = 0; i < 5; i++) {
+            await manager.write.mint([{
+                token0: token0.address,
+                token1: token1.address,
+                index: 0,
+                recipient: i % 2 === 0 ? sender : other.account.address,
+                amount0Desired: 1n * 10n ** 18n,
+                amount1Desired: 200n * 10n ** 18n,
+                amount0Min: 0n,
+                amount1Min: 0n,
+                deadline: BigInt(Date.now() + 3000)
+            }])
+        }
+
+        const info = await manager.read.getPositionInfo([3n])
+        expect(info.id).to.equal(3n)
+        expect(info.owner).to.equal(getAddress(sender))
+        await expect(manager.read.getPositionInfo([6n])).to.be.rejectedWith('Invalid position')
+
+        const ids = async (owner: `0x${string}`, offset: bigint, limit: bigint) =>
+            (await manager.read.getPositionsByOwner([owner, offset, limit])).map((position) => position.id)
+        expect(await ids(sender, 0n, 10n)).to.deep.equal([1n, 3n, 5n])
+        expect(await ids(sender, 1n, 1n)).to.deep.equal([3n])
+        expect(await ids(sender, 3n, 10n)).to.deep.equal([])
+        expect(await ids(other.account.address, 0n, 10n)).to.deep.equal([2n, 4n])
+
+        // NFT 转移之后，owner 和枚举都会更新
+        await manager.write.transferFrom([sender, other.account.address, 3n])
+        expect((await manager.read.getPositionInfo([3n])).owner).to.equal(getAddress(other.account.address))
+        expect(await ids(sender, 0n, 10n)).to.deep.equal([1n, 5n])
+        const otherPositions = await toArray(iteratePositionsByOwner(manager, other.account.address, { pageSize: 2 }))
+        expect(otherPositions.map((position) => position.id)).to.deep.equal([2n, 4n, 3n])
+        expect(otherPositions.every((position) => position.owner === getAddress(other.account.address))).to.be.true
+    })
+
+    it('tokenURI', async function() {
+        const { token0, token1, sender, manager, pool } = await loadFixture(deployFixture)
+
+        const initBalanceValue = 1000n * 10n ** 18n
+        for (const token of [token0, token1]) {
+            await token.write.mint([sender, initBalanceValue])
+            await token.write.approve([manager.address, initBalanceValue])
+        }
+        await manager.write.mint([{
+            token0: token0.address,
+            token1: token1.address,
+            index: 0,
+            recipient: sender,
+            amount0Desired: 1n * 10n ** 18n,
+            amount1Desired: 200n * 10n ** 18n,
+            amount0Min: 0n,
+            amount1Min: 0n,
+            deadline: BigInt(Date.now() + 3000)
+        }])
+
+        // tokenURI 是 base64 编码的 JSON，image 是 base64 编码的 SVG
+        const decode = (uri: string, prefix: string) => {
+            expect(uri.startsWith(prefix)).to.be.true
+            return Buffer.from(uri.slice(prefix.length), 'base64').toString('utf8')
+        }
+        const metadata = async (tokenId: bigint) => {
+            const json = JSON.parse(decode(await manager.read.tokenURI([tokenId]), 'data:application/json;base64,'))
+            const attributes: Record<string, any> = {}
+            for (const { trait_type, value } of json.attributes) {
+                attributes[trait_type] = value
+            }
+            return { json, attributes }
+        }
+
+        const { json, attributes } = await metadata(1n)
+        const position = await manager.read.getPositionInfo([1n])
+        expect(json.name).to.match(/^WTFSwap - 0\.3% - TK\/TK - 1<>\d+\.\d+$/)
+        expect(json.description).to.include('Token ID: 1')
+        expect(attributes['Token0']).to.equal('TK')
+        expect(attributes['Token1']).to.equal('TK')
+        expect(attributes['Fee Tier']).to.equal('0.3%')
+        expect(attributes['Tick Lower']).to.equal(position.tickLower)
+        expect(attributes['Tick Upper']).to.equal(position.tickUpper)
+        expect(attributes['Price Lower']).to.equal('1')
+        // tickUpper 向下取整，价格略小于 40000
+        expect(Number(attributes['Price Upper'])).to.be.closeTo(40000, 4)
+        expect(BigInt(attributes['Liquidity'])).to.equal(position.liquidity)
+        expect(attributes['Tokens Owed0']).to.equal('0')
+        expect(attributes['Tokens Owed1']).to.equal('0')
+        // 当前价格 200 在 [1, 40000] 区间内
+        expect(await pool.read.tick()).to.be.within(position.tickLower, position.tickUpper - 1)
+        expect(attributes['In Range']).to.equal('Yes')
+
+        const svg = decode(json.image, 'data:image/svg+xml;base64,')
+        expect(svg.startsWith('<svg')).to.be.true
+        expect(svg).to.include('TK/TK')
+        expect(svg).to.include(`Liquidity: ${position.liquidity}`)
+
+        // 移除流动性后，liquidity 变为 0，tokensOwed 记录待提取的 token
+        await decreaseAll(manager, 1n)
+        const afterDecrease = await manager.read.getPositionInfo([1n])
+        const { attributes: decreased } = await metadata(1n)
+        expect(decreased['Liquidity']).to.equal('0')
+        expect(afterDecrease.tokensOwed0 > 0n && afterDecrease.tokensOwed1 > 0n).to.be.true
+        expect(BigInt(decreased['Tokens Owed0'])).to.equal(afterDecrease.tokensOwed0)
+        expect(BigInt(decreased['Tokens Owed1'])).to.equal(afterDecrease.tokensOwed1)
+
+        // 不存在的 NFT 没有 tokenURI
+        await expect(manager.read.tokenURI([2n])).to.be.rejectedWith('ERC721NonexistentToken')
+    })
+
+    it('tokenURI escapes symbols and handles extreme decimals', async function() {
+        const { poolManager, manager, sender } = await loadFixture(deployFixture)
+
+        // decimals 相差 77，价格放大或缩小 10^77 倍，symbol 中包含 JSON 和 XML 的特殊字符
+        const tokenA = await hre.viem.deployContract('TestToken', ['TestToken', 'A<"&>', 0])
+        const tokenB = await hre.viem.deployContract('TestToken', ['TestToken', 'B', 77])
+        const [token0, token1] = tokenA.address < tokenB.address ? [tokenA, tokenB] : [tokenB, tokenA]
+        await poolManager.write.createAndInitializePoolIfNecessary([{
+            token0: token0.address,
+            token1: token1.address,
+            fee: 3000,
+            tickLower: TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(1, 4)),
+            tickUpper: TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(4, 1)),
+            sqrtPriceX96: BigInt(encodeSqrtRatioX96(1, 1).toString()),
+        }])
+        for (const token of [token0, token1]) {
+            await token.write.mint([sender, 10n ** 18n])
+            await token.write.approve([manager.address, 10n ** 18n])
+        }
+        await manager.write.mint([{
+            token0: token0.address,
+            token1: token1.address,
+            index: 0,
+            recipient: sender,
+            amount0Desired: 10n ** 18n,
+            amount1Desired: 10n ** 18n,
+            amount0Min: 0n,
+            amount1Min: 0n,
+            deadline: BigInt(Date.now() + 3000)
+        }])
+
+        const uri = await manager.read.tokenURI([1n])
+        const json = JSON.parse(Buffer.from(uri.slice('data:application/json;base64,'.length), 'base64').toString('utf8'))
+        const attributes: Record<string, any> = {}
+        for (const { trait_type, value } of json.attributes) {
+            attributes[trait_type] = value
+        }
+        const symbols = token0 === tokenA ? ['A<"&>', 'B'] : ['B', 'A<"&>']
+        expect(json.name.startsWith(`WTFSwap - 0.3% - ${symbols[0]}/${symbols[1]} - `)).to.be.true
+        expect([attributes['Token0'], attributes['Token1']]).to.deep.equal(symbols)
+
+        // 以 token1/token0 计价，token0 的 decimals 小时价格不足 10^-18 显示为 0，大时超过 uint256 按最大值显示
+        if (token0 === tokenA) {
+            expect([attributes['Price Lower'], attributes['Price Upper']]).to.deep.equal(['0', '0'])
+        } else {
+            expect(attributes['Price Lower'].startsWith(`${maxUint256 / 10n ** 18n}.`)).to.be.true
+            expect(attributes['Price Upper']).to.equal(attributes['Price Lower'])
+        }
+
+        // SVG 中的 symbol 只做 XML 转义，不带 JSON 转义的反斜杠
+        const svg = Buffer.from(json.image.slice('data:image/svg+xml;base64,'.length), 'base64').toString('utf8')
+        expect(svg).to.include('A&lt;"&amp;&gt;')
+        expect(svg).to.not.include('\\')
+    })
 })
\ No newline at end of file
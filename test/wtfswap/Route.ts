@@ -0,0 +1,150 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import type { ContractTypesMap } from "hardhat/types/artifacts";
+import { TickMath, encodeSqrtRatioX96 } from '@uniswap/v3-sdk';
+import { getAddress, maxUint256, parseEther } from "viem";
+import { findBestHop, findBestRoute, loadPoolGraph, simulateExactInput, toExactInputParams, type Route } from '../../utils/wtfswap/route';
+
+describe("Route", function () {
+    async function deployFixture() {
+        // 三个 token 的价格都是 1:1，价格区间都是 [0.25, 4]
+        // A/B 有三个池子：index 0 流动性很少，index 1 和 index 2 流动性一般；A/C 和 C/B 的流动性很多，费率也更低
+        const poolManager = await hre.viem.deployContract('PoolManager');
+        const weth9 = await hre.viem.deployContract('WETH9');
+        const manager = await hre.viem.deployContract('PositionManager', [poolManager.address, weth9.address]);
+        const router = await hre.viem.deployContract('SwapRouter', [poolManager.address, weth9.address]);
+        const [owner] = await hre.viem.getWalletClients();
+        const sender = owner.account.address;
+
+        const tokens = [];
+        for (let i = 0; i < 3; i++) {
+            const token = await hre.viem.deployContract('TestToken', ['TestToken', 'TK', 18]);
+            await token.write.mint([sender, parseEther('1000000')]);
+            await token.write.approve([manager.address, maxUint256]);
+            await token.write.approve([router.address, maxUint256]);
+            tokens.push(token);
+        }
+        const [tokenA, tokenB, tokenC] = tokens;
+
+        const addPool = async (tokenX: typeof tokenA, tokenY: typeof tokenA, fee: number, amount: bigint) => {
+            const [token0, token1] = BigInt(tokenX.address) < BigInt(tokenY.address) ? [tokenX, tokenY] : [tokenY, tokenX];
+            const params = {
+                token0: token0.address,
+                token1: token1.address,
+                fee,
+                tickLower: TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(1, 4)),
+                tickUpper: TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(4, 1)),
+                sqrtPriceX96: BigInt(encodeSqrtRatioX96(1, 1).toString()),
+            };
+            await poolManager.write.createAndInitializePoolIfNecessary([params]);
+            const pools = await poolManager.read.getPoolsForPair([token0.address, token1.address]);
+            await manager.write.mint([{
+                token0: token0.address,
+                token1: token1.address,
+                index: pools.length - 1,
+                amount0Desired: amount,
+                amount1Desired: amount,
+                amount0Min: 0n,
+                amount1Min: 0n,
+                recipient: sender,
+                deadline: maxUint256,
+            }]);
+        };
+        await addPool(tokenA, tokenB, 10000, parseEther('1'));
+        await addPool(tokenA, tokenB, 3000, parseEther('100'));
+        // 第三个池子的参数和第二个不同，否则会返回已有的池子
+        await poolManager.write.enableFeeAmount([2500, 1]);
+        await addPool(tokenA, tokenB, 2500, parseEther('100'));
+        await addPool(tokenA, tokenC, 500, parseEther('10000'));
+        await addPool(tokenC, tokenB, 500, parseEther('10000'));
+
+        return { poolManager, router, tokenA, tokenB, tokenC, sender };
+    }
+
+    // 按顺序逐跳执行，后一跳的输入是前一跳实际收到的数量，返回每一跳的输出
+    async function execute(router: ContractTypesMap['SwapRouter'], route: Route, recipient: `0x${string}`) {
+        const outputs: bigint[] = [];
+        let amountIn = route.amountIn;
+        for (const params of toExactInputParams(route, { recipient, deadline: maxUint256 })) {
+            const token = await hre.viem.getContractAt('TestToken', params.tokenOut);
+            const before = await token.read.balanceOf([recipient]);
+            await router.write.exactInput([{ ...params, amountIn }]);
+            amountIn = (await token.read.balanceOf([recipient])) - before;
+            outputs.push(amountIn);
+        }
+        return outputs;
+    }
+
+    it('finds a multi-hop route that beats the naive pool', async function() {
+        const { poolManager, router, tokenA, tokenB, tokenC, sender } = await loadFixture(deployFixture);
+        const [a, b, c] = [tokenA, tokenB, tokenC].map((token) => getAddress(token.address));
+        const graph = await loadPoolGraph(poolManager);
+        const amountIn = parseEther('10');
+
+        const route = findBestRoute(graph, tokenA.address, tokenB.address, amountIn)!;
+        expect(route.path).to.deep.equal([a, c, b]);
+        expect(route.hops.map((hop) => hop.indexPath)).to.deep.equal([[0], [0]]);
+        expect(route.amountIn).to.equal(amountIn);
+        expect(route.priceImpact > 0 && route.priceImpact < 0.002).to.be.true;
+
+        // 客户端原来固定使用 index 0，流动性不够，只能成交一部分
+        const { result: naive } = await router.simulate.quoteExactInput([{
+            tokenIn: tokenA.address,
+            tokenOut: tokenB.address,
+            indexPath: [0],
+            amountIn,
+            sqrtPriceLimitX96: 0n,
+        }]);
+        expect(route.amountOut > naive * 5n).to.be.true;
+
+        // 链上执行的结果和链下模拟的结果一致
+        const outputs = await execute(router, route, sender);
+        expect(outputs).to.deep.equal(route.hops.map((hop) => hop.amountOut));
+    });
+
+    it('splits an order across same-pair pools', async function() {
+        const { poolManager, router, tokenA, tokenB, sender } = await loadFixture(deployFixture);
+        const graph = await loadPoolGraph(poolManager);
+        const amountIn = parseEther('10');
+
+        // 只允许一跳时，在 A/B 的池子中按边际价格拆分
+        const route = findBestRoute(graph, tokenA.address, tokenB.address, amountIn, { maxHops: 1 })!;
+        const [hop] = route.hops;
+        expect(route.path).to.deep.equal([getAddress(tokenA.address), getAddress(tokenB.address)]);
+        expect([...hop.indexPath].sort()).to.deep.equal([0, 1, 2]);
+        expect(hop.sqrtPriceLimitX96 > 0n).to.be.true;
+
+        // 比只用一个池子或者依次吃完每个池子都要好
+        const pools = graph.pairs.values().next().value!;
+        const zeroForOne = BigInt(tokenA.address) < BigInt(tokenB.address);
+        for (const indexPath of [[1], [2], [1, 2], [2, 1], [1, 2, 0]]) {
+            const result = simulateExactInput(pools, zeroForOne, indexPath, amountIn);
+            expect(route.amountOut > result.amountOut).to.be.true;
+        }
+        expect(findBestHop(graph, tokenA.address, tokenB.address, amountIn)).to.deep.equal(hop);
+
+        const outputs = await execute(router, route, sender);
+        expect(outputs).to.deep.equal([route.amountOut]);
+    });
+
+    it('skips paused pools and unknown pairs', async function() {
+        const { poolManager, tokenA, tokenB, tokenC } = await loadFixture(deployFixture);
+
+        // 暂停 A/C 之后只能在 A/B 中直接交易
+        const acPool = await poolManager.read.getPool([tokenA.address, tokenC.address, 0]);
+        await poolManager.write.pause([acPool]);
+        const graph = await loadPoolGraph(poolManager, { pageSize: 2 });
+        expect([...graph.neighbors.get(tokenA.address.toLowerCase())!]).to.deep.equal([getAddress(tokenB.address)]);
+        const route = findBestRoute(graph, tokenA.address, tokenB.address, parseEther('1'))!;
+        expect(route.path).to.deep.equal([getAddress(tokenA.address), getAddress(tokenB.address)]);
+
+        // C 只能通过 B 到达 A，限制一跳时找不到路径
+        expect(findBestRoute(graph, tokenC.address, tokenA.address, parseEther('1'))!.path).to.deep.equal(
+            [tokenC, tokenB, tokenA].map((token) => getAddress(token.address))
+        );
+        expect(findBestRoute(graph, tokenC.address, tokenA.address, parseEther('1'), { maxHops: 1 })).to.be.undefined;
+        // 所有池子都不能用完输入时没有可行的路径
+        expect(findBestRoute(graph, tokenA.address, tokenB.address, parseEther('100000'))).to.be.undefined;
+    });
+});
@@ -0,0 +1,167 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { TickMath, encodeSqrtRatioX96 } from '@uniswap/v3-sdk';
+import { getAddress, maxUint128, maxUint256, parseEther } from "viem";
+import { diffSnapshots, exportSnapshot, parseSnapshot, restoreSnapshot, verifySnapshot } from '../../utils/wtfswap/snapshot';
+
+describe("Snapshot", function () {
+    async function deployFixture() {
+        // 三个 token，A/B 有两个池子，B/C 一个池子；position 有转让、销毁和未领取的手续费，还有协议费和暂停
+        const poolManager = await hre.viem.deployContract('PoolManager');
+        const weth9 = await hre.viem.deployContract('WETH9');
+        const manager = await hre.viem.deployContract('PositionManager', [poolManager.address, weth9.address]);
+        const router = await hre.viem.deployContract('SwapRouter', [poolManager.address, weth9.address]);
+        const [owner, other, guardian] = await hre.viem.getWalletClients();
+        const sender = owner.account.address;
+
+        const tokens = [];
+        for (let i = 0; i < 3; i++) {
+            const token = await hre.viem.deployContract('TestToken', ['TestToken', 'TK', 18]);
+            await token.write.mint([sender, parseEther('1000000')]);
+            await token.write.approve([manager.address, maxUint256]);
+            await token.write.approve([router.address, maxUint256]);
+            tokens.push(token);
+        }
+        const sorted = (a: `0x${string}`, b: `0x${string}`) => (BigInt(a) < BigInt(b) ? [a, b] : [b, a]) as [`0x${string}`, `0x${string}`];
+        const [a, b, c] = tokens.map((token) => token.address);
+
+        const pools: [`0x${string}`, `0x${string}`, number, number, number][] = [
+            [a, b, 3000, 1, 4],
+            [a, b, 500, 1, 2],
+            [b, c, 10000, 1, 8],
+        ];
+        for (const [tokenX, tokenY, fee, lower, upper] of pools) {
+            const [token0, token1] = sorted(tokenX, tokenY);
+            await poolManager.write.createAndInitializePoolIfNecessary([{
+                token0,
+                token1,
+                fee,
+                tickLower: TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(lower, 1)),
+                tickUpper: TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(upper, 1)),
+                sqrtPriceX96: BigInt(encodeSqrtRatioX96(3, 2).toString()),
+            }]);
+        }
+        const mint = (tokenX: `0x${string}`, tokenY: `0x${string}`, index: number) => {
+            const [token0, token1] = sorted(tokenX, tokenY);
+            return manager.write.mint([{
+                token0,
+                token1,
+                index,
+                amount0Desired: parseEther('100'),
+                amount1Desired: parseEther('100'),
+                amount0Min: 0n,
+                amount1Min: 0n,
+                recipient: sender,
+                deadline: maxUint256,
+            }]);
+        };
+        const swap = (tokenIn: `0x${string}`, tokenOut: `0x${string}`, index: number, amountIn: bigint, swapRouter = router) =>
+            swapRouter.write.exactInput([{
+                tokenIn,
+                tokenOut,
+                indexPath: [index],
+                recipient: sender,
+                deadline: maxUint256,
+                amountIn,
+                amountOutMinimum: 0n,
+                sqrtPriceLimitX96: 0n,
+            }]);
+
+        await mint(a, b, 0);
+        await mint(a, b, 0);
+        await mint(a, b, 1);
+        await mint(b, c, 0);
+        await mint(b, c, 0);
+        const pool0 = await hre.viem.getContractAt('Pool', await poolManager.read.getPool([...sorted(a, b), 0]));
+        await pool0.write.setFeeProtocol([4, 5]);
+        await swap(a, b, 0, parseEther('10'));
+        await swap(b, a, 0, parseEther('3'));
+        await swap(a, b, 1, parseEther('5'));
+        await swap(c, b, 0, parseEther('20'));
+
+        // position 2 转给 other，position 3 全部取出后销毁，position 4 只取出一部分
+        await manager.write.transferFrom([sender, other.account.address, 2n]);
+        const [, , , , , , liquidity3] = await manager.read.positions([3n]);
+        await manager.write.decreaseLiquidity([{ tokenId: 3n, liquidity: liquidity3, amount0Min: 0n, amount1Min: 0n, deadline: maxUint256 }]);
+        await manager.write.collect([{ tokenId: 3n, recipient: sender, amount0Max: maxUint128, amount1Max: maxUint128 }]);
+        await manager.write.burn([3n]);
+        await manager.write.decreaseLiquidity([{ tokenId: 4n, liquidity: 10n ** 18n, amount0Min: 0n, amount1Min: 0n, deadline: maxUint256 }]);
+        await manager.write.collect([{ tokenId: 4n, recipient: sender, amount0Max: parseEther('0.1'), amount1Max: 0n }]);
+
+        await poolManager.write.pause([await poolManager.read.getPool([...sorted(b, c), 0])]);
+        await poolManager.write.setGuardian([guardian.account.address]);
+
+        const snapshot = await exportSnapshot(hre, { poolManager: poolManager.address, positionManager: manager.address }, {
+            holders: [sender],
+        });
+        return { poolManager, manager, router, tokens, sender, other, snapshot, swap };
+    }
+
+    it('exports pools, positions and balances', async function () {
+        const { poolManager, manager, tokens, sender, other, snapshot } = await loadFixture(deployFixture);
+
+        expect(snapshot.version).to.equal(1);
+        expect(snapshot.pools.map((pool) => [pool.fee, pool.index, pool.paused])).to.deep.equal([
+            [3000, 0, false],
+            [500, 1, false],
+            [10000, 0, true],
+        ]);
+        expect(snapshot.pools[0].feeProtocol).to.equal(4 + (5 << 4));
+        expect(BigInt(snapshot.pools[0].protocolFees0) > 0n).to.be.true;
+        expect(BigInt(snapshot.pools[0].feeGrowthGlobal1X128) > 0n).to.be.true;
+        // Pool.positions 中只有 PositionManager 的记录
+        expect(snapshot.pools.map((pool) => pool.positions.map((position) => position.owner))).to.deep.equal([
+            [getAddress(manager.address)], [getAddress(manager.address)], [getAddress(manager.address)],
+        ]);
+        expect(snapshot.factory.guardian).to.not.equal(snapshot.factory.owner);
+
+        expect(snapshot.positions.map((position) => [position.id, position.burned])).to.deep.equal([
+            ['1', false], ['2', false], ['3', true], ['4', false], ['5', false],
+        ]);
+        expect(snapshot.positions[1].owner).to.equal(getAddress(other.account.address));
+        expect(snapshot.positions[3].tokensOwed1 !== '0').to.be.true;
+
+        const balances = snapshot.tokens.find((token) => token.address === getAddress(tokens[0].address))!.balances;
+        expect(balances[getAddress(sender)]).to.equal((await tokens[0].read.balanceOf([sender])).toString());
+        const pool = snapshot.pools[0].pool;
+        expect(balances[pool]).to.equal((await tokens[0].read.balanceOf([pool])).toString());
+
+        // JSON 可以原样读回，版本不对时报错
+        const json = JSON.stringify(snapshot);
+        expect(parseSnapshot(json)).to.deep.equal(snapshot);
+        expect(() => parseSnapshot(JSON.stringify({ ...snapshot, version: 2 }))).to.throw('unsupported snapshot version 2');
+        expect(await poolManager.read.guardian()).to.equal(snapshot.factory.guardian);
+    });
+
+    it('restores an equivalent state', async function () {
+        const { poolManager, router, snapshot, swap } = await loadFixture(deployFixture);
+        const [pool] = snapshot.pools;
+        const quote = async (swapRouter: typeof router, tokenIn: `0x${string}`, tokenOut: `0x${string}`) => (await swapRouter.simulate.quoteExactInput([{
+            tokenIn,
+            tokenOut,
+            indexPath: [0],
+            amountIn: parseEther('7'),
+            sqrtPriceLimitX96: 0n,
+        }])).result;
+        const expectedOut = await quote(router, pool.token0, pool.token1);
+
+        const restored = await restoreSnapshot(hre, snapshot);
+        expect(restored.contracts.poolManager).to.not.equal(poolManager.address);
+        expect(await verifySnapshot(hre, snapshot, restored)).to.deep.equal([]);
+
+        // 恢复后的池子和原来的池子交易结果一样
+        const restoredRouter = await hre.viem.getContractAt('SwapRouter', restored.contracts.swapRouter);
+        const map = (address: `0x${string}`) => restored.addresses[address.toLowerCase()];
+        expect(await quote(restoredRouter, map(pool.token0), map(pool.token1))).to.equal(expectedOut);
+
+        // 恢复之后状态变化时可以找出不一致的字段
+        const token0 = await hre.viem.getContractAt('TestToken', map(pool.token0));
+        await token0.write.approve([restoredRouter.address, maxUint256]);
+        await swap(map(pool.token0), map(pool.token1), 0, parseEther('1'), restoredRouter);
+        const differences = await verifySnapshot(hre, snapshot, restored);
+        expect(differences.some((difference) => difference.startsWith('pools[0].sqrtPriceX96'))).to.be.true;
+        expect(differences.some((difference) => difference.startsWith('tokens['))).to.be.true;
+        expect(diffSnapshots(snapshot, snapshot)).to.deep.equal([]);
+    });
+});
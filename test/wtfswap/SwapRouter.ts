@@ -0,0 +1,359 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { encodeAbiParameters, parseAbiParameters } from "viem";
+import { TickMath, encodeSqrtRatioX96 } from '@uniswap/v3-sdk'
+
+describe("SwapRouter", function () {
+    async function deployFixture() {
+        // 创建两个相同交易对的池子，初始价格都是 10000， 费率 0.3%
+        // 池子 0 的价格区间是 [1, 40000]，池子 1 的价格区间是 [100, 20000]
+        const poolManager = await hre.viem.deployContract('PoolManager');
+        const tokenA = await hre.viem.deployContract('TestToken', ['TestToken', 'TK', 18])
+        const tokenB = await hre.viem.deployContract('TestToken', ['TestToken', 'TK', 18])
+        const token0 = tokenA.address < tokenB.address ? tokenA : tokenB;
+        const token1 = tokenA.address < tokenB.address ? tokenB : tokenA;
+        const fee = 3000;
+        const sqrtPriceX96 = BigInt(encodeSqrtRatioX96(10000, 1).toString());
+
+        await poolManager.write.createAndInitializePoolIfNecessary([{
+            token0: token0.address,
+            token1: token1.address,
+            fee,
+            tickLower: TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(1, 1)),
+            tickUpper: TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(40000, 1)),
+            sqrtPriceX96,
+        }])
+        await poolManager.write.createAndInitializePoolIfNecessary([{
+            token0: token0.address,
+            token1: token1.address,
+            fee,
+            tickLower: TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(100, 1)),
+            tickUpper: TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(20000, 1)),
+            sqrtPriceX96,
+        }])
+
+        const pool0 = await hre.viem.getContractAt('Pool', await poolManager.read.getPool([token0.address, token1.address, 0]))
+        const pool1 = await hre.viem.getContractAt('Pool', await poolManager.read.getPool([token0.address, token1.address, 1]))
+
+        const weth9 = await hre.viem.deployContract('WETH9')
+        const manager = await hre.viem.deployContract('PositionManager', [poolManager.address, weth9.address])
+        const router = await hre.viem.deployContract('SwapRouter', [poolManager.address, weth9.address])
+
+        const [owner, other] = await hre.viem.getWalletClients();
+        const [sender] = await owner.getAddresses()
+
+        // 给两个池子都注入流动性
+        const initBalanceValue = 100000000000n * 10n ** 18n
+        await token0.write.mint([sender, initBalanceValue])
+        await token1.write.mint([sender, initBalanceValue])
+        await token0.write.approve([manager.address, initBalanceValue])
+        await token1.write.approve([manager.address, initBalanceValue])
+        for (const index of [0, 1]) {
+            await manager.write.mint([{
+                token0: token0.address,
+                token1: token1.address,
+                index,
+                recipient: sender,
+                amount0Desired: 1000n * 10n ** 18n,
+                amount1Desired: 1000n * 10000n * 10n ** 18n,
+                amount0Min: 0n,
+                amount1Min: 0n,
+                deadline: BigInt(Date.now() + 3000)
+            }])
+        }
+
+        // sender 授权 SwapRouter
+        await token0.write.approve([router.address, initBalanceValue])
+        await token1.write.approve([router.address, initBalanceValue])
+
+        const publicClient = await hre.viem.getPublicClient();
+        return { poolManager, manager, router, pool0, pool1, token0, token1, sqrtPriceX96, owner, other, sender, publicClient };
+    }
+
+    it('exactInput zeroForOne', async function() {
+        const { router, pool0, token0, token1, sender } = await loadFixture(deployFixture)
+
+        const amountIn = 10n * 10n ** 18n
+        const quote = await router.simulate.quoteExactInput([{
+            tokenIn: token0.address,
+            tokenOut: token1.address,
+            indexPath: [0],
+            amountIn,
+            sqrtPriceLimitX96: BigInt(encodeSqrtRatioX96(100, 1).toString()),
+        }])
+
+        const token0Before = await token0.read.balanceOf([sender])
+        const token1Before = await token1.read.balanceOf([sender])
+        const priceBefore = await pool0.read.sqrtPriceX96()
+
+        await router.write.exactInput([{
+            tokenIn: token0.address,
+            tokenOut: token1.address,
+            indexPath: [0],
+            recipient: sender,
+            deadline: BigInt(Date.now() + 3000),
+            amountIn,
+            amountOutMinimum: quote.result,
+            sqrtPriceLimitX96: BigInt(encodeSqrtRatioX96(100, 1).toString()),
+        }])
+
+        // 输入的 token0 全部被消耗，获得的 token1 和报价一致，扣除手续费和价格影响后略少于 10 * 10000 个
+        expect(token0Before - await token0.read.balanceOf([sender])).to.equal(amountIn)
+        expect(await token1.read.balanceOf([sender]) - token1Before).to.equal(quote.result)
+        expect(quote.result > 98000n * 10n ** 18n && quote.result < 100000n * 10n ** 18n).to.be.true
+        // 卖出 token0 后价格下降
+        expect(await pool0.read.sqrtPriceX96() < priceBefore).to.be.true
+
+        const events = await router.getEvents.Swap()
+        expect(events.length).to.equal(1)
+        expect(events[0].args.zeroForOne).to.equal(true)
+        expect(events[0].args.amountIn).to.equal(amountIn)
+        expect(events[0].args.amountOut).to.equal(quote.result)
+        expect(events[0].args.amountInRemaining).to.equal(0n)
+    })
+
+    it('exactInput oneForZero', async function() {
+        const { router, pool0, token0, token1, sender } = await loadFixture(deployFixture)
+
+        const amountIn = 10000n * 10n ** 18n
+        const quote = await router.simulate.quoteExactInput([{
+            tokenIn: token1.address,
+            tokenOut: token0.address,
+            indexPath: [0],
+            amountIn,
+            sqrtPriceLimitX96: 0n,
+        }])
+
+        const token0Before = await token0.read.balanceOf([sender])
+        const token1Before = await token1.read.balanceOf([sender])
+        const priceBefore = await pool0.read.sqrtPriceX96()
+
+        await router.write.exactInput([{
+            tokenIn: token1.address,
+            tokenOut: token0.address,
+            indexPath: [0],
+            recipient: sender,
+            deadline: BigInt(Date.now() + 3000),
+            amountIn,
+            amountOutMinimum: 0n,
+            sqrtPriceLimitX96: 0n,
+        }])
+
+        // 10000 个 token1 大约换到 1 个 token0
+        expect(token1Before - await token1.read.balanceOf([sender])).to.equal(amountIn)
+        expect(await token0.read.balanceOf([sender]) - token0Before).to.equal(quote.result)
+        expect(quote.result > 99n * 10n ** 16n && quote.result < 10n ** 18n).to.be.true
+        // 买入 token0 后价格上升
+        expect(await pool0.read.sqrtPriceX96() > priceBefore).to.be.true
+    })
+
+    it('exactOutput', async function() {
+        const { router, token0, token1, sender } = await loadFixture(deployFixture)
+
+        const amountOut = 50000n * 10n ** 18n
+        const quote = await router.simulate.quoteExactOutput([{
+            tokenIn: token0.address,
+            tokenOut: token1.address,
+            indexPath: [0],
+            amountOut,
+            sqrtPriceLimitX96: 0n,
+        }])
+
+        const token0Before = await token0.read.balanceOf([sender])
+        const token1Before = await token1.read.balanceOf([sender])
+
+        await router.write.exactOutput([{
+            tokenIn: token0.address,
+            tokenOut: token1.address,
+            indexPath: [0],
+            recipient: sender,
+            deadline: BigInt(Date.now() + 3000),
+            amountOut,
+            amountInMaximum: quote.result,
+            sqrtPriceLimitX96: 0n,
+        }])
+
+        // 正好换出指定数量的 token1，支付的 token0 和报价一致，大约是 5 个
+        expect(await token1.read.balanceOf([sender]) - token1Before).to.equal(amountOut)
+        expect(token0Before - await token0.read.balanceOf([sender])).to.equal(quote.result)
+        expect(quote.result > 5n * 10n ** 18n && quote.result < 51n * 10n ** 17n).to.be.true
+
+        // exactOutput 没有剩余的输入，amountInRemaining 和 exactInput 的含义一致
+        const events = await router.getEvents.Swap()
+        expect(events[0].args.amountIn).to.equal(quote.result)
+        expect(events[0].args.amountOut).to.equal(amountOut)
+        expect(events[0].args.amountInRemaining).to.equal(0n)
+    })
+
+    it('real swaps bubble up pool reverts instead of decoding them as a quote', async function() {
+        const { router, token0, token1, sender } = await loadFixture(deployFixture)
+
+        // 取消授权后 Pool 回调中转账失败，错误原样抛出
+        await token0.write.approve([router.address, 0n])
+        await expect(router.write.exactInput([{
+            tokenIn: token0.address,
+            tokenOut: token1.address,
+            indexPath: [0],
+            recipient: sender,
+            deadline: BigInt(Date.now() + 3000),
+            amountIn: 10n ** 18n,
+            amountOutMinimum: 0n,
+            sqrtPriceLimitX96: 0n,
+        }])).to.be.rejectedWith('STF')
+        // 报价不需要授权
+        const quote = await router.simulate.quoteExactInput([{
+            tokenIn: token0.address,
+            tokenOut: token1.address,
+            indexPath: [0],
+            amountIn: 10n ** 18n,
+            sqrtPriceLimitX96: 0n,
+        }])
+        expect(quote.result > 0n).to.be.true
+    })
+
+    it('walk indexPath across pools', async function() {
+        const { router, pool0, pool1, token0, token1, sender } = await loadFixture(deployFixture)
+
+        // 价格限制在 9000，单个池子无法吃下全部的输入，剩余部分会在下一个池子中成交
+        const sqrtPriceLimitX96 = BigInt(encodeSqrtRatioX96(9000, 1).toString())
+        const amountIn = 200n * 10n ** 18n
+
+        const pool0Token0Before = await token0.read.balanceOf([pool0.address])
+        const pool1Token0Before = await token0.read.balanceOf([pool1.address])
+
+        const single = await router.simulate.quoteExactInput([{
+            tokenIn: token0.address,
+            tokenOut: token1.address,
+            indexPath: [1],
+            amountIn,
+            sqrtPriceLimitX96,
+        }])
+        const multi = await router.simulate.quoteExactInput([{
+            tokenIn: token0.address,
+            tokenOut: token1.address,
+            indexPath: [1, 0],
+            amountIn,
+            sqrtPriceLimitX96,
+        }])
+        expect(multi.result > single.result).to.be.true
+
+        await router.write.exactInput([{
+            tokenIn: token0.address,
+            tokenOut: token1.address,
+            indexPath: [1, 0],
+            recipient: sender,
+            deadline: BigInt(Date.now() + 3000),
+            amountIn,
+            amountOutMinimum: multi.result,
+            sqrtPriceLimitX96,
+        }])
+
+        // 两个池子都收到了 token0，并且都停在了价格限制上
+        const pool0In = await token0.read.balanceOf([pool0.address]) - pool0Token0Before
+        const pool1In = await token0.read.balanceOf([pool1.address]) - pool1Token0Before
+        expect(pool0In > 0n).to.be.true
+        expect(pool1In > 0n).to.be.true
+        expect(await pool1.read.sqrtPriceX96()).to.equal(sqrtPriceLimitX96)
+
+        // 没有用完的 token0 不会被扣除
+        const events = await router.getEvents.Swap()
+        expect(events[0].args.amountIn).to.equal(pool0In + pool1In)
+        expect(events[0].args.amountInRemaining).to.equal(amountIn - pool0In - pool1In)
+    })
+
+    it('skip pools beyond the price limit', async function() {
+        const { router, pool0, pool1, token0, token1, sender, sqrtPriceX96 } = await loadFixture(deployFixture)
+
+        // 先把池子 1 的价格压低到 9000
+        const sqrtPriceLimitX96 = BigInt(encodeSqrtRatioX96(9000, 1).toString())
+        await router.write.exactInput([{
+            tokenIn: token0.address,
+            tokenOut: token1.address,
+            indexPath: [1],
+            recipient: sender,
+            deadline: BigInt(Date.now() + 3000),
+            amountIn: 1000n * 10n ** 18n,
+            amountOutMinimum: 0n,
+            sqrtPriceLimitX96,
+        }])
+        expect(await pool1.read.sqrtPriceX96()).to.equal(sqrtPriceLimitX96)
+
+        // 再以 9500 为限制交易，池子 1 已经越过限制会被跳过，只在池子 0 中成交
+        await router.write.exactInput([{
+            tokenIn: token0.address,
+            tokenOut: token1.address,
+            indexPath: [1, 0],
+            recipient: sender,
+            deadline: BigInt(Date.now() + 3000),
+            amountIn: 1n * 10n ** 18n,
+            amountOutMinimum: 0n,
+            sqrtPriceLimitX96: BigInt(encodeSqrtRatioX96(9500, 1).toString()),
+        }])
+        expect(await pool1.read.sqrtPriceX96()).to.equal(sqrtPriceLimitX96)
+        expect(await pool0.read.sqrtPriceX96() < sqrtPriceX96).to.be.true
+    })
+
+    it('deadline & slippage', async function() {
+        const { router, token0, token1, sender } = await loadFixture(deployFixture)
+
+        await expect(router.write.exactInput([{
+            tokenIn: token0.address,
+            tokenOut: token1.address,
+            indexPath: [0],
+            recipient: sender,
+            deadline: 1n,
+            amountIn: 10n ** 18n,
+            amountOutMinimum: 0n,
+            sqrtPriceLimitX96: 0n,
+        }])).to.be.rejectedWith("Transaction too old")
+
+        // 1 个 token0 换不到 10001 个 token1
+        await expect(router.write.exactInput([{
+            tokenIn: token0.address,
+            tokenOut: token1.address,
+            indexPath: [0],
+            recipient: sender,
+            deadline: BigInt(Date.now() + 3000),
+            amountIn: 10n ** 18n,
+            amountOutMinimum: 10001n * 10n ** 18n,
+            sqrtPriceLimitX96: 0n,
+        }])).to.be.rejectedWith("Slippage exceeded")
+
+        // 10000 个 token1 需要超过 1 个 token0
+        await expect(router.write.exactOutput([{
+            tokenIn: token0.address,
+            tokenOut: token1.address,
+            indexPath: [0],
+            recipient: sender,
+            deadline: BigInt(Date.now() + 3000),
+            amountOut: 10000n * 10n ** 18n,
+            amountInMaximum: 10n ** 18n,
+            sqrtPriceLimitX96: 0n,
+        }])).to.be.rejectedWith("Slippage exceeded")
+
+        // 价格限制太近，换不出足够的 token1
+        await expect(router.write.exactOutput([{
+            tokenIn: token0.address,
+            tokenOut: token1.address,
+            indexPath: [0],
+            recipient: sender,
+            deadline: BigInt(Date.now() + 3000),
+            amountOut: 10000000n * 10n ** 18n,
+            amountInMaximum: 10000n * 10n ** 18n,
+            sqrtPriceLimitX96: BigInt(encodeSqrtRatioX96(9999, 1).toString()),
+        }])).to.be.rejectedWith("Insufficient liquidity")
+    })
+
+    it('only pools can call swapCallback', async function() {
+        const { router, pool0, token0, token1, sender } = await loadFixture(deployFixture)
+
+        // 伪造 Pool 回调，试图让 router 从 sender 账户转走 token0，data 中的参数对应真实存在的 pool0
+        const data = encodeAbiParameters(
+            parseAbiParameters('(address, address, int24, int24, uint24, address)'),
+            [[token0.address, token1.address, await pool0.read.tickLower(), await pool0.read.tickUpper(), await pool0.read.fee(), sender]]
+        )
+        await expect(router.write.swapCallback([10n ** 18n, 0n, data])).to.be.rejectedWith("Invalid callback caller")
+    })
+})
+
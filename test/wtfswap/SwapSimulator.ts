@@ -0,0 +1,191 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { TickMath as SdkTickMath, encodeSqrtRatioX96 } from '@uniswap/v3-sdk';
+import { TickMath } from '../../utils/wtfswap/math';
+import { simulateSwap, PoolState } from '../../utils/wtfswap/swapSimulator';
+import { createRandom } from '../../utils/wtfswap/fuzz';
+
+describe("SwapSimulator", function () {
+    async function deployFixture() {
+        const factory = await hre.viem.deployContract('PoolManager');
+        const tokenA = await hre.viem.deployContract('TestToken', ['TestToken', 'TK', 18]);
+        const tokenB = await hre.viem.deployContract('TestToken', ['TestToken', 'TK', 18]);
+        const token0 = tokenA.address < tokenB.address ? tokenA : tokenB;
+        const token1 = tokenA.address < tokenB.address ? tokenB : tokenA;
+
+        // 不同价格区间、费率和流动性的池子
+        const configs = [
+            { lower: 1, upper: 40000, price: 10000, fee: 3000, liquidity: 10n ** 27n },
+            { lower: 1, upper: 100, price: 2, fee: 500, liquidity: 10n ** 22n },
+            { lower: 5000, upper: 6000, price: 5500, fee: 10000, liquidity: 10n ** 20n },
+        ];
+
+        const testLP = await hre.viem.deployContract('TestLP');
+        const testSwap = await hre.viem.deployContract('TestSwap');
+        const balance = 2n ** 120n;
+        await token0.write.mint([testLP.address, balance]);
+        await token1.write.mint([testLP.address, balance]);
+        await token0.write.mint([testSwap.address, balance]);
+        await token1.write.mint([testSwap.address, balance]);
+
+        const pools = [];
+        for (const config of configs) {
+            await factory.write.createAndInitializePoolIfNecessary([{
+                token0: token0.address,
+                token1: token1.address,
+                fee: config.fee,
+                tickLower: SdkTickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(config.lower, 1)),
+                tickUpper: SdkTickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(config.upper, 1)),
+                sqrtPriceX96: BigInt(encodeSqrtRatioX96(config.price, 1).toString()),
+            }]);
+            const events = await factory.getEvents.PoolCreated();
+            const pool = await hre.viem.getContractAt('Pool', events[0].args.pool!);
+            await testLP.write.mint([testLP.address, config.liquidity, pool.address, token0.address, token1.address]);
+            pools.push(pool);
+        }
+        // 最后一个池子开启协议费，token0 收取 1/4，token1 收取 1/6
+        await pools[2].write.setFeeProtocol([4, 6]);
+
+        return { factory, token0, token1, pools, testSwap };
+    }
+
+    async function readPoolState(pool: Awaited<ReturnType<typeof deployFixture>>['pools'][number]): Promise<PoolState> {
+        return {
+            fee: await pool.read.fee(),
+            tickLower: await pool.read.tickLower(),
+            tickUpper: await pool.read.tickUpper(),
+            tick: await pool.read.tick(),
+            sqrtPriceX96: await pool.read.sqrtPriceX96(),
+            liquidity: await pool.read.liquidity(),
+            feeProtocol: await pool.read.feeProtocol(),
+            feeGrowthGlobal0X128: await pool.read.feeGrowthGlobal0X128(),
+            feeGrowthGlobal1X128: await pool.read.feeGrowthGlobal1X128(),
+        };
+    }
+
+    it('TickMath matches the reference implementation', async function () {
+        const random = createRandom(20240601);
+        for (let i = 0; i < 500; i++) {
+            const tick = random.int(TickMath.MIN_TICK, TickMath.MAX_TICK);
+            const sqrtPriceX96 = TickMath.getSqrtPriceAtTick(tick);
+            expect(sqrtPriceX96).to.equal(BigInt(SdkTickMath.getSqrtRatioAtTick(tick).toString()), `tick ${tick}`);
+            expect(TickMath.getTickAtSqrtPrice(sqrtPriceX96)).to.equal(tick, `tick ${tick}`);
+            if (tick < TickMath.MAX_TICK - 1) {
+                // 两个 tick 之间的价格应该落在较小的 tick 上
+                const next = TickMath.getSqrtPriceAtTick(tick + 1);
+                expect(TickMath.getTickAtSqrtPrice(next - 1n)).to.equal(tick, `tick ${tick}`);
+            }
+        }
+    });
+
+    it('matches Pool.swap over randomized inputs', async function () {
+        const { token0, token1, pools, testSwap } = await loadFixture(deployFixture);
+
+        const seed = Number(process.env.SWAP_SIMULATOR_SEED ?? 7);
+        const random = createRandom(seed);
+        let reverted = 0;
+
+        for (let i = 0; i < 60; i++) {
+            const pool = pools[random.int(0, pools.length - 1)];
+            const state = await readPoolState(pool);
+
+            const zeroForOne = random.next() < 0.5;
+            const exactInput = random.next() < 0.5;
+            const amount = random.bigint(90);
+            const amountSpecified = exactInput ? amount : -amount;
+
+            // 价格限制：一半不限制，一半在当前价格和池子边界之间随机取
+            let sqrtPriceLimitX96 = zeroForOne ? TickMath.MIN_SQRT_PRICE + 1n : TickMath.MAX_SQRT_PRICE - 1n;
+            if (random.next() < 0.5) {
+                const bound = TickMath.getSqrtPriceAtTick(zeroForOne ? state.tickLower : state.tickUpper);
+                const distance = bound > state.sqrtPriceX96 ? bound - state.sqrtPriceX96 : state.sqrtPriceX96 - bound;
+                const offset = (distance * BigInt(random.int(1, 1000))) / 1000n;
+                sqrtPriceLimitX96 = zeroForOne ? state.sqrtPriceX96 - offset : state.sqrtPriceX96 + offset;
+            }
+
+            const context = `seed ${seed}, step ${i}`;
+            const args: [`0x${string}`, boolean, bigint, bigint, `0x${string}`, `0x${string}`, `0x${string}`] = [
+                testSwap.address, zeroForOne, amountSpecified, sqrtPriceLimitX96, pool.address, token0.address, token1.address,
+            ];
+
+            let expected;
+            try {
+                expected = simulateSwap(state, { zeroForOne, amountSpecified, sqrtPriceLimitX96 });
+            } catch (e) {
+                // 模拟器认为会 revert，合约也必须 revert
+                await expect(testSwap.simulate.testSwapWithDirection(args), context).to.be.rejected;
+                reverted++;
+                continue;
+            }
+
+            const { result } = await testSwap.simulate.testSwapWithDirection(args);
+            expect(result[0]).to.equal(expected.amount0, context);
+            expect(result[1]).to.equal(expected.amount1, context);
+
+            const [protocolFees0Before, protocolFees1Before] = await pool.read.protocolFees();
+            await testSwap.write.testSwapWithDirection(args);
+
+            expect(await pool.read.sqrtPriceX96()).to.equal(expected.sqrtPriceX96, context);
+            expect(await pool.read.tick()).to.equal(expected.tick, context);
+            expect(await pool.read.feeGrowthGlobal0X128()).to.equal(expected.feeGrowthGlobal0X128, context);
+            expect(await pool.read.feeGrowthGlobal1X128()).to.equal(expected.feeGrowthGlobal1X128, context);
+            const [protocolFees0, protocolFees1] = await pool.read.protocolFees();
+            expect(protocolFees0 - protocolFees0Before).to.equal(zeroForOne ? expected.protocolFee : 0n, context);
+            expect(protocolFees1 - protocolFees1Before).to.equal(zeroForOne ? 0n : expected.protocolFee, context);
+        }
+
+        // 大部分随机交易应该能成交
+        expect(reverted).to.lessThan(30);
+    });
+
+    it('reverts like Pool.swap', async function () {
+        const { pools } = await loadFixture(deployFixture);
+        const state = await readPoolState(pools[0]);
+
+        expect(() => simulateSwap(state, { zeroForOne: true, amountSpecified: 0n, sqrtPriceLimitX96: 0n })).to.throw('AS');
+        // zeroForOne 时价格限制必须低于当前价格
+        expect(() => simulateSwap(state, {
+            zeroForOne: true,
+            amountSpecified: 10n ** 18n,
+            sqrtPriceLimitX96: state.sqrtPriceX96 + 1n,
+        })).to.throw('SPL');
+        expect(() => simulateSwap(state, {
+            zeroForOne: false,
+            amountSpecified: 10n ** 18n,
+            sqrtPriceLimitX96: TickMath.MAX_SQRT_PRICE,
+        })).to.throw('SPL');
+    });
+
+    it('reproduces the Pool swap test without a transaction', async function () {
+        // Pool.ts 中 swap 测试的场景：价格 10000，流动性 1e27，用 100 个 token0 交易
+        const state: PoolState = {
+            fee: 3000,
+            tickLower: SdkTickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(1, 1)),
+            tickUpper: SdkTickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(40000, 1)),
+            tick: SdkTickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(10000, 1)),
+            sqrtPriceX96: BigInt(encodeSqrtRatioX96(10000, 1).toString()),
+            liquidity: 1000000000000000000000000000n,
+        };
+        const result = simulateSwap(state, {
+            zeroForOne: true,
+            amountSpecified: 100n * 10n ** 18n,
+            sqrtPriceLimitX96: BigInt(encodeSqrtRatioX96(1000, 1).toString()),
+        });
+        expect(result.amount0).to.equal(100000000000000000000n);
+        expect(result.amount1).to.equal(-996990060009101709255958n);
+        expect(state.sqrtPriceX96 - result.sqrtPriceX96).to.equal(78989690499507264493336319n);
+        expect(result.feeAmount).to.equal(300000000000000000n);
+        expect(result.protocolFee).to.equal(0n);
+
+        // 开启 1/5 的协议费后，交易结果不变，只是手续费有一部分分给协议
+        const withProtocolFee = simulateSwap({ ...state, feeProtocol: 5 }, {
+            zeroForOne: true,
+            amountSpecified: 100n * 10n ** 18n,
+            sqrtPriceLimitX96: BigInt(encodeSqrtRatioX96(1000, 1).toString()),
+        });
+        expect(withProtocolFee.amount1).to.equal(result.amount1);
+        expect(withProtocolFee.protocolFee).to.equal(60000000000000000n);
+        expect(withProtocolFee.feeGrowthDeltaX128 < result.feeGrowthDeltaX128).to.be.true;
+    });
+});
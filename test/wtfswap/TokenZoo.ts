@@ -0,0 +1,213 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { TickMath, encodeSqrtRatioX96 } from '@uniswap/v3-sdk'
+import { maxUint128, maxUint256, parseEther } from "viem";
+
+// 非标准 token 和普通的 TestToken 组成交易对，分别测试 mint、swap、burn 和 collect
+describe("TokenZoo", function () {
+    async function deployFixture() {
+        const poolManager = await hre.viem.deployContract('PoolManager');
+        const weth9 = await hre.viem.deployContract('WETH9')
+        const manager = await hre.viem.deployContract('PositionManager', [poolManager.address, weth9.address])
+        const router = await hre.viem.deployContract('SwapRouter', [poolManager.address, weth9.address])
+        const [owner] = await hre.viem.getWalletClients();
+        const sender = owner.account.address
+
+        const base = await hre.viem.deployContract('TestToken', ['TestToken', 'TK', 18])
+        const zoo = {
+            noReturn: await hre.viem.deployContract('TestNoReturnToken'),
+            revertOnZero: await hre.viem.deployContract('TestRevertOnZeroToken'),
+            feeOnTransfer: await hre.viem.deployContract('TestFeeOnTransferToken'),
+            rebasing: await hre.viem.deployContract('TestRebasingToken'),
+        }
+
+        // mint 和 approve 的参数都一样，统一按 TestToken 的 ABI 调用
+        for (const { address } of [base, ...Object.values(zoo)]) {
+            const token = await hre.viem.getContractAt('TestToken', address)
+            await token.write.mint([sender, parseEther('1000000')])
+            await token.write.approve([manager.address, maxUint256])
+            await token.write.approve([router.address, maxUint256])
+        }
+
+        // 每个非标准 token 和 base 一个池子，价格 1:1，区间 [0.25, 4]，positionId 按 zoo 的顺序从 1 开始
+        const sqrtPriceX96 = BigInt(encodeSqrtRatioX96(1, 1).toString())
+        for (const token of Object.values(zoo)) {
+            const [token0, token1] = BigInt(token.address) < BigInt(base.address) ? [token.address, base.address] : [base.address, token.address]
+            await poolManager.write.createAndInitializePoolIfNecessary([{
+                token0,
+                token1,
+                fee: 3000,
+                tickLower: TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(1, 4)),
+                tickUpper: TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(4, 1)),
+                sqrtPriceX96,
+            }])
+            await manager.write.mint([{
+                token0,
+                token1,
+                index: 0,
+                amount0Desired: parseEther('100'),
+                amount1Desired: parseEther('100'),
+                amount0Min: 0n,
+                amount1Min: 0n,
+                recipient: sender,
+                deadline: maxUint256,
+            }])
+        }
+
+        const swap = (tokenIn: `0x${string}`, tokenOut: `0x${string}`, amountIn: bigint) => router.write.exactInput([{
+            tokenIn,
+            tokenOut,
+            indexPath: [0],
+            recipient: sender,
+            deadline: maxUint256,
+            amountIn,
+            amountOutMinimum: 0n,
+            sqrtPriceLimitX96: 0n,
+        }])
+        const quote = async (tokenIn: `0x${string}`, tokenOut: `0x${string}`, amountIn: bigint) => (await router.simulate.quoteExactInput([{
+            tokenIn,
+            tokenOut,
+            indexPath: [0],
+            amountIn,
+            sqrtPriceLimitX96: 0n,
+        }])).result
+        // 移除 position 的全部流动性
+        const withdraw = async (tokenId: bigint) => {
+            const [, , , , , , liquidity] = await manager.read.positions([tokenId])
+            await manager.write.decreaseLiquidity([{ tokenId, liquidity, amount0Min: 0n, amount1Min: 0n, deadline: maxUint256 }])
+        }
+        const collect = (tokenId: bigint, amount0Max = maxUint128, amount1Max = maxUint128) =>
+            manager.write.collect([{ tokenId, recipient: sender, amount0Max, amount1Max }])
+        // 按 token 的顺序返回 position 的 tokensOwed
+        const owed = async (tokenId: bigint, token: `0x${string}`) => {
+            const position = await manager.read.positions([tokenId])
+            return BigInt(token) < BigInt(base.address) ? [position[9], position[10]] : [position[10], position[9]]
+        }
+
+        return { poolManager, manager, router, base, zoo, sender, swap, quote, withdraw, collect, owed };
+    }
+
+    it('token without return values', async function() {
+        const { manager, base, zoo, sender, swap, withdraw, collect } = await loadFixture(deployFixture)
+        const token = zoo.noReturn
+
+        // mint 时已经通过 transferFrom 支付，两个方向都可以交易
+        const balance = await token.read.balanceOf([sender])
+        await swap(token.address, base.address, parseEther('1'))
+        expect(await token.read.balanceOf([sender])).to.equal(balance - parseEther('1'))
+        await swap(base.address, token.address, parseEther('2'))
+        expect(await token.read.balanceOf([sender]) > balance).to.be.true
+
+        // 移除流动性后可以取回
+        await withdraw(1n)
+        await collect(1n)
+        expect(await token.read.balanceOf([manager.address])).to.equal(0n)
+        expect(await token.read.balanceOf([sender]) > parseEther('1000000') - 10n).to.be.true
+
+        // 没有 approve 时 transferFrom 失败
+        await token.write.approve([manager.address, 0n])
+        await expect(manager.write.increaseLiquidity([{
+            tokenId: 1n,
+            amount0Desired: parseEther('1'),
+            amount1Desired: parseEther('1'),
+            amount0Min: 0n,
+            amount1Min: 0n,
+            deadline: maxUint256,
+        }])).to.be.rejectedWith('STF')
+    })
+
+    it('token reverting on zero transfers', async function() {
+        const { base, zoo, sender, swap, withdraw, collect, owed } = await loadFixture(deployFixture)
+        const token = zoo.revertOnZero
+
+        await swap(token.address, base.address, parseEther('1'))
+        await swap(base.address, token.address, parseEther('1'))
+
+        // 只取 base，这个 token 的数量为 0 时不会转账
+        await withdraw(2n)
+        const zeroForToken = BigInt(token.address) < BigInt(base.address)
+        await collect(2n, zeroForToken ? 0n : maxUint128, zeroForToken ? maxUint128 : 0n)
+        const [owedToken, owedBase] = await owed(2n, token.address)
+        expect(owedBase).to.equal(0n)
+        expect(owedToken > 0n).to.be.true
+
+        // 再取剩下的这个 token，base 的数量为 0
+        const balance = await token.read.balanceOf([sender])
+        await collect(2n)
+        expect(await token.read.balanceOf([sender])).to.equal(balance + owedToken)
+    })
+
+    it('fee-on-transfer token', async function() {
+        const { manager, base, zoo, sender, swap, quote, withdraw, collect, owed } = await loadFixture(deployFixture)
+        const token = zoo.feeOnTransfer
+        await token.write.setFee([100n])
+
+        // Pool 收到的少于应收的数量，mint 和卖出这个 token 的 swap 都会失败
+        const [token0, token1] = BigInt(token.address) < BigInt(base.address) ? [token.address, base.address] : [base.address, token.address]
+        await expect(manager.write.mint([{
+            token0,
+            token1,
+            index: 0,
+            amount0Desired: parseEther('1'),
+            amount1Desired: parseEther('1'),
+            amount0Min: 0n,
+            amount1Min: 0n,
+            recipient: sender,
+            deadline: maxUint256,
+        }])).to.be.rejectedWith(BigInt(token.address) < BigInt(base.address) ? 'M0' : 'M1')
+        await expect(swap(token.address, base.address, parseEther('1'))).to.be.rejectedWith('IIA')
+
+        // 买入这个 token 时由接收方承担手续费，实际收到 99%
+        const amountOut = await quote(base.address, token.address, parseEther('1'))
+        const balance = await token.read.balanceOf([sender])
+        await swap(base.address, token.address, parseEther('1'))
+        expect(await token.read.balanceOf([sender])).to.equal(balance + amountOut - amountOut / 100n)
+
+        // collect 同样按 tokensOwed 转出，接收方承担手续费
+        await withdraw(3n)
+        const [owedToken] = await owed(3n, token.address)
+        const balanceBefore = await token.read.balanceOf([sender])
+        await collect(3n)
+        expect(await token.read.balanceOf([sender])).to.equal(balanceBefore + owedToken - owedToken / 100n)
+    })
+
+    it('rebasing token', async function() {
+        const { poolManager, base, zoo, sender, swap, withdraw, collect, owed } = await loadFixture(deployFixture)
+        const token = zoo.rebasing
+        const pool = await poolManager.read.getPool([token.address, base.address, 0])
+
+        // 余额翻倍，多出来的部分留在 Pool 中，不影响交易，也不会分给 LP
+        const poolBalance = await token.read.balanceOf([pool])
+        await token.write.rebase([2n, 1n])
+        expect(await token.read.balanceOf([pool])).to.equal(poolBalance * 2n)
+        await swap(token.address, base.address, parseEther('1'))
+        await swap(base.address, token.address, parseEther('1'))
+
+        await withdraw(4n)
+        const [owedToken] = await owed(4n, token.address)
+        const balance = await token.read.balanceOf([sender])
+        await collect(4n)
+        expect(await token.read.balanceOf([sender])).to.equal(balance + owedToken)
+        expect(await token.read.balanceOf([pool]) >= poolBalance).to.be.true
+    })
+
+    it('rebasing token with a negative rebase', async function() {
+        const { poolManager, base, zoo, withdraw, collect, owed } = await loadFixture(deployFixture)
+        const token = zoo.rebasing
+        const pool = await poolManager.read.getPool([token.address, base.address, 0])
+
+        // 余额减半之后 Pool 不够支付全部的 tokensOwed
+        await token.write.rebase([1n, 2n])
+        await withdraw(4n)
+        const [owedToken] = await owed(4n, token.address)
+        expect(owedToken > await token.read.balanceOf([pool])).to.be.true
+        await expect(collect(4n)).to.be.rejectedWith('TF')
+
+        // 只能取回 Pool 中剩下的部分
+        const zeroForToken = BigInt(token.address) < BigInt(base.address)
+        const available = await token.read.balanceOf([pool])
+        await collect(4n, zeroForToken ? available : maxUint128, zeroForToken ? maxUint128 : available)
+        expect(await token.read.balanceOf([pool])).to.equal(0n)
+    })
+})
@@ -0,0 +1,125 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import fs from "fs";
+import path from "path";
+import hre from "hardhat";
+import { getAddress } from "viem";
+import WtfswapModule from "../../ignition/modules/Wtfswap";
+import WtfswapLocalModule from "../../ignition/modules/WtfswapLocal";
+import WtfswapSepoliaModule from "../../ignition/modules/WtfswapSepolia";
+import { priceToSqrtPriceX96, sqrtPriceX96ToPrice } from "../../utils/wtfswap/price";
+
+describe("WtfswapModule", function () {
+    async function deployFixture() {
+        // 使用 ignition/parameters/hardhat.json 中的 testTokens 和 pools，bigint 保存成以 n 结尾的字符串
+        const file = path.join(hre.config.paths.ignition, "parameters", "hardhat.json");
+        const parameters = JSON.parse(fs.readFileSync(file, "utf8"), (_, value) =>
+            typeof value === "string" && /^\d+n$/.test(value) ? BigInt(value.slice(0, -1)) : value
+        );
+        // 本地网络的模块会部署 WETH9、测试 token 和池子
+        const deployed = await hre.ignition.deploy(WtfswapLocalModule, {
+            parameters: {
+                Wtfswap: {
+                    ...parameters.Wtfswap,
+                    testTokenMintAmount: 5n * 10n ** 24n,
+                },
+            },
+        });
+        // 测试 token 按参数中的顺序部署
+        const [TokenA, TokenB, TokenC] = await Promise.all(
+            (await deployed.testTokens.read.getTokens()).map((address) => hre.viem.getContractAt("TestToken", address))
+        );
+        const [owner] = await hre.viem.getWalletClients();
+        return { ...deployed, TokenA, TokenB, TokenC, owner };
+    }
+
+    it("wires PositionManager and SwapRouter to PoolManager and WETH9", async function () {
+        const { poolManager, positionManager, swapRouter, weth9 } = await loadFixture(deployFixture);
+
+        expect(await positionManager.read.poolManager()).to.equal(getAddress(poolManager.address));
+        expect(await swapRouter.read.poolManager()).to.equal(getAddress(poolManager.address));
+        expect(await positionManager.read.WETH9()).to.equal(getAddress(weth9.address));
+        expect(await swapRouter.read.WETH9()).to.equal(getAddress(weth9.address));
+    });
+
+    it("deploys only the core contracts with an existing WETH9", async function () {
+        const weth9 = await hre.viem.deployContract("WETH9");
+        const { poolManager, positionManager, swapRouter, weth9: deployedWeth9 } = await hre.ignition.deploy(WtfswapModule, {
+            parameters: {
+                Wtfswap: {
+                    weth9: weth9.address,
+                },
+            },
+        });
+
+        expect(deployedWeth9.address).to.equal(weth9.address);
+        expect(await positionManager.read.WETH9()).to.equal(getAddress(weth9.address));
+        expect(await swapRouter.read.poolManager()).to.equal(getAddress(poolManager.address));
+        expect(await poolManager.read.getAllPools()).to.deep.equal([]);
+    });
+
+    it("deploys and mints test tokens", async function () {
+        const { TokenA, TokenB, TokenC, owner } = await loadFixture(deployFixture);
+
+        for (const [i, token] of [TokenA, TokenB, TokenC].entries()) {
+            expect(await token.read.symbol()).to.equal(["TokenA", "TokenB", "TokenC"][i]);
+            expect(await token.read.balanceOf([owner.account.address])).to.equal(5n * 10n ** 24n);
+        }
+    });
+
+    it("creates pools of existing tokens from parameters", async function () {
+        // 和 ignition/parameters/sepolia.json 一样的参数格式，token 是已有的合约地址
+        const weth9 = await hre.viem.deployContract("WETH9");
+        const usdc = await hre.viem.deployContract("TestToken", ["USD Coin", "USDC", 6]);
+        const { poolManager } = await hre.ignition.deploy(WtfswapSepoliaModule, {
+            parameters: {
+                Wtfswap: {
+                    weth9: weth9.address,
+                    tokens: [weth9.address, usdc.address],
+                    pools: [{ tokenA: 0, tokenB: 1, fee: 3000, tickLower: -207244, tickUpper: -193380, sqrtPriceX96: priceToSqrtPriceX96("2000", 18, 6) }],
+                },
+            },
+        });
+
+        const [pool] = await poolManager.read.getAllPools();
+        const sorted = weth9.address.toLowerCase() < usdc.address.toLowerCase();
+        expect(pool.token0).to.equal(getAddress(sorted ? weth9.address : usdc.address));
+        expect(pool.fee).to.equal(3000);
+        const price = Number(sqrtPriceX96ToPrice(pool.sqrtPriceX96, sorted ? 18 : 6, sorted ? 6 : 18));
+        expect(sorted ? price : 1 / price).to.be.closeTo(2000, 2000 * 1e-9);
+    });
+
+    it("creates and initializes pools", async function () {
+        const { poolManager, TokenA, TokenB, TokenC } = await loadFixture(deployFixture);
+
+        const pools = await poolManager.read.getAllPools();
+        expect(pools.length).to.equal(3);
+
+        // 配置中的价格和 tick 区间都以 tokenB/tokenA 计价，token 地址逆序时池子中保存的是倒数
+        const expectPool = (
+            pool: (typeof pools)[number],
+            tokenA: `0x${string}`,
+            tokenB: `0x${string}`,
+            fee: number,
+            tickLower: number,
+            tickUpper: number,
+            price: number
+        ) => {
+            const sorted = tokenA.toLowerCase() < tokenB.toLowerCase();
+            expect(pool.token0).to.equal(getAddress(sorted ? tokenA : tokenB));
+            expect(pool.token1).to.equal(getAddress(sorted ? tokenB : tokenA));
+            expect(pool.fee).to.equal(fee);
+            expect(pool.tickLower).to.equal(sorted ? tickLower : -tickUpper);
+            expect(pool.tickUpper).to.equal(sorted ? tickUpper : -tickLower);
+            expect(Number(sqrtPriceX96ToPrice(pool.sqrtPriceX96, 18, 18))).to.be.closeTo(
+                sorted ? price : 1 / price,
+                (sorted ? price : 1 / price) * 1e-9
+            );
+            expect(pool.liquidity).to.equal(0n);
+        };
+
+        expectPool(pools[0], TokenA.address, TokenB.address, 3000, 0, 105971, 10000);
+        expectPool(pools[1], TokenA.address, TokenB.address, 500, 46054, 99039, 10000);
+        expectPool(pools[2], TokenB.address, TokenC.address, 3000, -6932, 6931, 1);
+    });
+});
@@ -0,0 +1,64 @@
+import { encodeAbiParameters, getAddress, keccak256 } from 'viem';
+
+// MyToken 白名单的 Merkle 树，和 contracts/MyToken.sol 的 allowlistMint 配合使用
+// 叶子节点和 OpenZeppelin StandardMerkleTree 的格式一致：keccak256(keccak256(abi.encode(account)))
+// 父节点是两个子节点排序后拼接的哈希，和 OpenZeppelin MerkleProof 的验证方式一致
+
+type Hex = `0x${string}`;
+
+export interface AllowlistTree {
+    root: Hex;
+    // 去重并转成校验和格式之后的地址
+    accounts: `0x${string}`[];
+    // 不在白名单中时抛出异常
+    getProof(account: string): Hex[];
+}
+
+export function allowlistLeaf(account: string): Hex {
+    return keccak256(keccak256(encodeAbiParameters([{ type: 'address' }], [getAddress(account)])));
+}
+
+function hashPair(a: Hex, b: Hex): Hex {
+    const [left, right] = BigInt(a) < BigInt(b) ? [a, b] : [b, a];
+    return keccak256(`0x${left.slice(2)}${right.slice(2)}`);
+}
+
+/**
+ * 用白名单地址构建 Merkle 树，叶子节点按哈希排序，同样的地址集合总是得到同样的 root
+ */
+export function buildAllowlistTree(accounts: string[]): AllowlistTree {
+    const unique = [...new Set(accounts.map((account) => getAddress(account)))];
+    if (unique.length === 0) {
+        throw new Error('allowlist must not be empty');
+    }
+    const leaves = unique.map((account) => allowlistLeaf(account)).sort((a, b) => (BigInt(a) < BigInt(b) ? -1 : 1));
+
+    // layers[0] 是叶子节点，最后一层只有 root；节点数为奇数时最后一个节点直接进入上一层
+    const layers: Hex[][] = [leaves];
+    while (layers[layers.length - 1].length > 1) {
+        const layer = layers[layers.length - 1];
+        const next: Hex[] = [];
+        for (let i = 0; i < layer.length; i += 2) {
+            next.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]);
+        }
+        layers.push(next);
+    }
+
+    const getProof = (account: string) => {
+        let index = leaves.indexOf(allowlistLeaf(account));
+        if (index === -1) {
+            throw new Error(`${account} is not in the allowlist`);
+        }
+        const proof: Hex[] = [];
+        for (const layer of layers.slice(0, -1)) {
+            const sibling = index ^ 1;
+            if (sibling < layer.length) {
+                proof.push(layer[sibling]);
+            }
+            index >>= 1;
+        }
+        return proof;
+    };
+
+    return { root: layers[layers.length - 1][0], accounts: unique, getProof };
+}
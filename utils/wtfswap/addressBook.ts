@@ -0,0 +1,54 @@
+import fs from 'fs';
+import path from 'path';
+import type { HardhatRuntimeEnvironment } from 'hardhat/types';
+
+// 地址簿文件格式的版本，格式有不兼容的修改时加 1
+export const ADDRESS_BOOK_VERSION = 1;
+
+export interface DeploymentRecord {
+    address: `0x${string}`;
+    transactionHash: `0x${string}`;
+    blockNumber: number;
+    constructorArgs: unknown[];
+    // 是否已经在区块浏览器上验证过源码
+    verified: boolean;
+}
+
+export interface AddressBook {
+    version: number;
+    network: string;
+    chainId: number;
+    contracts: Record<string, DeploymentRecord>;
+}
+
+/**
+ * scripts/deploy.ts 写入的地址簿路径：deployments/<network>.json
+ */
+export function getAddressBookPath(hre: HardhatRuntimeEnvironment, network = hre.network.name): string {
+    return path.join(hre.config.paths.root, 'deployments', `${network}.json`);
+}
+
+/**
+ * 读取地址簿，文件不存在时返回 undefined
+ */
+export function readAddressBook(hre: HardhatRuntimeEnvironment, network = hre.network.name): AddressBook | undefined {
+    const file = getAddressBookPath(hre, network);
+    if (!fs.existsSync(file)) {
+        return undefined;
+    }
+    const book: AddressBook = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (book.version !== ADDRESS_BOOK_VERSION) {
+        throw new Error(`Unsupported address book version ${book.version} in ${file}, expected ${ADDRESS_BOOK_VERSION}`);
+    }
+    return book;
+}
+
+export function writeAddressBook(hre: HardhatRuntimeEnvironment, book: AddressBook): void {
+    const file = getAddressBookPath(hre, book.network);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    // bigint 类型的构造参数保存成字符串
+    fs.writeFileSync(
+        file,
+        JSON.stringify(book, (_, value) => (typeof value === 'bigint' ? value.toString() : value), 4) + '\n'
+    );
+}
@@ -0,0 +1,406 @@
+import type { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { FullMath, MAX_UINT128, Q128, Q96, SqrtPriceMath, TickMath } from './math';
+
+// LP 回测：在进程内的 hardhat 网络上部署一套全新的合约，按候选的价格区间和费率创建池子并注入流动性，
+// 然后把一段交易记录逐笔通过 Pool.swap 重放，统计每个 position 的手续费、token 构成、无常损失和在区间内的时间
+// 同样参数的 position 共用一个池子，不同的池子互相独立，每个池子都会重放完整的交易记录
+
+export interface SwapTraceEntry {
+    // unix 时间戳（秒），只用于按时间加权统计，不会修改链上的区块时间
+    timestamp: number;
+    zeroForOne: boolean;
+    // 和 Pool.swap 的 amountSpecified 一致：大于 0 表示精确输入，小于 0 表示精确输出
+    amount: bigint;
+}
+
+export interface BacktestPositionConfig {
+    // 报告中显示的名字，默认是 fee/tickLower/tickUpper
+    name?: string;
+    fee: number;
+    tickLower: number;
+    tickUpper: number;
+    // 最多注入的 token 数量，实际数量按初始价格计算
+    amount0: bigint;
+    amount1: bigint;
+}
+
+export interface BacktestConfig {
+    // 所有池子的初始价格
+    sqrtPriceX96: bigint;
+    positions: BacktestPositionConfig[];
+    // 每隔多少笔交易记录一次 token 构成，默认每笔都记录，最后一笔总是会记录
+    snapshotInterval?: number;
+}
+
+export interface TokenAmounts {
+    amount0: bigint;
+    amount1: bigint;
+}
+
+export interface PositionSnapshot {
+    timestamp: number;
+    sqrtPriceX96: bigint;
+    inRange: boolean;
+    // 按当前价格计算的本金
+    amount0: bigint;
+    amount1: bigint;
+    // 累计的手续费
+    fees0: bigint;
+    fees1: bigint;
+}
+
+export interface PositionReport {
+    name: string;
+    pool: `0x${string}`;
+    positionId: bigint;
+    fee: number;
+    tickLower: number;
+    tickUpper: number;
+    liquidity: bigint;
+    deposited: TokenAmounts;
+    // 回测结束时的本金，不包含手续费
+    final: TokenAmounts;
+    fees: TokenAmounts;
+    // 以下价值都按回测结束时的价格换算成 token1
+    holdValue1: bigint;
+    lpValue1: bigint;
+    feesValue1: bigint;
+    // 本金相对于一直持有初始 token 的损失比例，不计手续费，为 0 或者负数
+    impermanentLoss: number;
+    // 本金加手续费相对于一直持有的盈亏
+    pnlVsHold1: bigint;
+    // 价格在 (tickLower, tickUpper) 之内的时间占比
+    timeInRange: number;
+    snapshots: PositionSnapshot[];
+}
+
+export interface PoolReport {
+    pool: `0x${string}`;
+    fee: number;
+    tickLower: number;
+    tickUpper: number;
+    // 成交的交易数量，价格已经到达区间边界等无法成交的交易会被跳过
+    swaps: number;
+    skipped: number;
+    // 池子收到的 token 数量，即交易量
+    volume0: bigint;
+    volume1: bigint;
+    sqrtPriceX96: bigint;
+}
+
+export interface BacktestReport {
+    startTimestamp: number;
+    endTimestamp: number;
+    trades: number;
+    pools: PoolReport[];
+    positions: PositionReport[];
+}
+
+function parseDirection(value: string): boolean {
+    switch (value.trim()) {
+        case 'zeroForOne':
+            return true;
+        case 'oneForZero':
+            return false;
+        default:
+            throw new Error(`invalid swap direction: ${value}, expected zeroForOne or oneForZero`);
+    }
+}
+
+function parseEntry(timestamp: unknown, direction: unknown, amount: unknown, line: number): SwapTraceEntry {
+    const time = Number(timestamp);
+    if (!Number.isInteger(time) || time < 0) {
+        throw new Error(`invalid timestamp at entry ${line}: ${timestamp}`);
+    }
+    let value: bigint;
+    try {
+        value = BigInt(String(amount).trim());
+    } catch {
+        throw new Error(`invalid amount at entry ${line}: ${amount}`);
+    }
+    if (value === 0n) {
+        throw new Error(`amount must not be 0 at entry ${line}`);
+    }
+    return { timestamp: time, zeroForOne: parseDirection(String(direction)), amount: value };
+}
+
+/**
+ * 解析交易记录，按内容自动识别 JSON 和 CSV
+ * JSON 是 { timestamp, direction, amount } 的数组；CSV 的第一行是包含 timestamp,direction,amount 的表头
+ * direction 为 zeroForOne 或 oneForZero，amount 是 token 的最小单位，和 Pool.swap 的 amountSpecified 含义一致
+ */
+export function parseSwapTrace(content: string): SwapTraceEntry[] {
+    const text = content.trim();
+    let entries: SwapTraceEntry[];
+    if (text.startsWith('[')) {
+        const rows = JSON.parse(text) as { timestamp: unknown; direction: unknown; amount: unknown }[];
+        entries = rows.map((row, i) => parseEntry(row.timestamp, row.direction, row.amount, i + 1));
+    } else {
+        const [header, ...lines] = text.split(/\r?\n/).filter((line) => line.trim() !== '');
+        const columns = (header ?? '').split(',').map((column) => column.trim());
+        const index = (name: string) => {
+            const i = columns.indexOf(name);
+            if (i < 0) {
+                throw new Error(`missing column ${name} in CSV header`);
+            }
+            return i;
+        };
+        const [timestamp, direction, amount] = [index('timestamp'), index('direction'), index('amount')];
+        entries = lines.map((line, i) => {
+            const cells = line.split(',');
+            return parseEntry(cells[timestamp], cells[direction], cells[amount], i + 2);
+        });
+    }
+    for (let i = 1; i < entries.length; i++) {
+        if (entries[i].timestamp < entries[i - 1].timestamp) {
+            throw new Error(`swap trace must be sorted by timestamp, entry ${i + 1} is out of order`);
+        }
+    }
+    return entries;
+}
+
+// token0 数量按价格换算成 token1
+function toToken1(amounts: TokenAmounts, sqrtPriceX96: bigint): bigint {
+    return FullMath.mulDiv(FullMath.mulDiv(amounts.amount0, sqrtPriceX96, Q96), sqrtPriceX96, Q96) + amounts.amount1;
+}
+
+// 和 Pool 一样，feeGrowth 允许溢出
+function feesEarned(feeGrowthGlobalX128: bigint, feeGrowthLastX128: bigint, liquidity: bigint): bigint {
+    const delta = (feeGrowthGlobalX128 - feeGrowthLastX128 + 2n ** 256n) % 2n ** 256n;
+    return FullMath.mulDiv(delta, liquidity, Q128);
+}
+
+function ratio(numerator: bigint, denominator: bigint): number {
+    return denominator === 0n ? 0 : Number((numerator * 10n ** 18n) / denominator) / 1e18;
+}
+
+function poolKey(position: { fee: number; tickLower: number; tickUpper: number }): string {
+    return `${position.fee}/${position.tickLower}/${position.tickUpper}`;
+}
+
+/**
+ * 运行回测，会在当前网络上部署新的合约，只应该在进程内的 hardhat 网络上运行
+ * 两个 token 都是 18 位小数的 TestToken，交易由 TestSwap 直接调用 Pool.swap
+ */
+export async function runBacktest(
+    hre: HardhatRuntimeEnvironment,
+    config: BacktestConfig,
+    trace: SwapTraceEntry[]
+): Promise<BacktestReport> {
+    if (config.positions.length === 0) {
+        throw new Error('at least one position is required');
+    }
+    const snapshotInterval = config.snapshotInterval ?? 1;
+    const [walletClient] = await hre.viem.getWalletClients();
+    const lp = walletClient.account.address;
+
+    const poolManager = await hre.viem.deployContract('PoolManager');
+    const tokenA = await hre.viem.deployContract('TestToken', ['TestToken', 'TK', 18]);
+    const tokenB = await hre.viem.deployContract('TestToken', ['TestToken', 'TK', 18]);
+    const [token0, token1] = BigInt(tokenA.address) < BigInt(tokenB.address) ? [tokenA, tokenB] : [tokenB, tokenA];
+    const weth9 = await hre.viem.deployContract('WETH9');
+    const positionManager = await hre.viem.deployContract('PositionManager', [poolManager.address, weth9.address]);
+    const swapper = await hre.viem.deployContract('TestSwap');
+
+    // 交易方的余额足够大，不会因为余额不足失败
+    for (const token of [token0, token1]) {
+        await token.write.mint([swapper.address, MAX_UINT128]);
+        await token.write.mint([lp, MAX_UINT128]);
+        await token.write.approve([positionManager.address, MAX_UINT128]);
+    }
+
+    // 同样参数的 position 共用一个池子
+    const pools = new Map<string, PoolReport>();
+    for (const position of config.positions) {
+        const key = poolKey(position);
+        if (pools.has(key)) {
+            continue;
+        }
+        const params = {
+            token0: token0.address,
+            token1: token1.address,
+            fee: position.fee,
+            tickLower: position.tickLower,
+            tickUpper: position.tickUpper,
+            sqrtPriceX96: config.sqrtPriceX96,
+        };
+        await poolManager.write.createAndInitializePoolIfNecessary([params]);
+        const created = (await poolManager.read.getPoolsForPair([token0.address, token1.address])).find(
+            (pool) => pool.fee === params.fee && pool.tickLower === params.tickLower && pool.tickUpper === params.tickUpper
+        )!;
+        pools.set(key, {
+            pool: created.pool,
+            fee: position.fee,
+            tickLower: position.tickLower,
+            tickUpper: position.tickUpper,
+            swaps: 0,
+            skipped: 0,
+            volume0: 0n,
+            volume1: 0n,
+            sqrtPriceX96: config.sqrtPriceX96,
+        });
+    }
+
+    const positions: PositionReport[] = [];
+    for (const position of config.positions) {
+        const pool = pools.get(poolKey(position))!;
+        const mintParams = {
+            token0: token0.address,
+            token1: token1.address,
+            index: (await poolManager.read.getPoolsForPair([token0.address, token1.address])).findIndex(
+                (info) => info.pool === pool.pool
+            ),
+            amount0Desired: position.amount0,
+            amount1Desired: position.amount1,
+            amount0Min: 0n,
+            amount1Min: 0n,
+            recipient: lp,
+            deadline: 2n ** 64n,
+        };
+        const {
+            result: [positionId, liquidity, amount0, amount1],
+        } = await positionManager.simulate.mint([mintParams]);
+        await positionManager.write.mint([mintParams]);
+        positions.push({
+            name: position.name ?? poolKey(position),
+            pool: pool.pool,
+            positionId,
+            fee: position.fee,
+            tickLower: position.tickLower,
+            tickUpper: position.tickUpper,
+            liquidity,
+            deposited: { amount0, amount1 },
+            final: { amount0, amount1 },
+            fees: { amount0: 0n, amount1: 0n },
+            holdValue1: 0n,
+            lpValue1: 0n,
+            feesValue1: 0n,
+            impermanentLoss: 0,
+            pnlVsHold1: 0n,
+            timeInRange: 0,
+            snapshots: [],
+        });
+    }
+
+    // 记录每个 position 在某一时刻的状态，PositionManager 中的 feeGrowthInside0LastX128 是 mint 时池子的 feeGrowthGlobal
+    const snapshot = async (pool: PoolReport, timestamp: number, record: boolean) => {
+        const contract = await hre.viem.getContractAt('Pool', pool.pool);
+        const [sqrtPriceX96, feeGrowthGlobal0X128, feeGrowthGlobal1X128] = await Promise.all([
+            contract.read.sqrtPriceX96(),
+            contract.read.feeGrowthGlobal0X128(),
+            contract.read.feeGrowthGlobal1X128(),
+        ]);
+        pool.sqrtPriceX96 = sqrtPriceX96;
+        const sqrtPriceLowerX96 = TickMath.getSqrtPriceAtTick(pool.tickLower);
+        const sqrtPriceUpperX96 = TickMath.getSqrtPriceAtTick(pool.tickUpper);
+        const inRange = sqrtPriceX96 > sqrtPriceLowerX96 && sqrtPriceX96 < sqrtPriceUpperX96;
+        for (const position of positions.filter((p) => p.pool === pool.pool)) {
+            const info = await positionManager.read.positions([position.positionId]);
+            position.final = {
+                amount0: SqrtPriceMath.getAmount0Delta(sqrtPriceX96, sqrtPriceUpperX96, position.liquidity, false),
+                amount1: SqrtPriceMath.getAmount1Delta(sqrtPriceLowerX96, sqrtPriceX96, position.liquidity, false),
+            };
+            position.fees = {
+                amount0: info[9] + feesEarned(feeGrowthGlobal0X128, info[11], position.liquidity),
+                amount1: info[10] + feesEarned(feeGrowthGlobal1X128, info[12], position.liquidity),
+            };
+            if (record) {
+                position.snapshots.push({
+                    timestamp,
+                    sqrtPriceX96,
+                    inRange,
+                    ...position.final,
+                    fees0: position.fees.amount0,
+                    fees1: position.fees.amount1,
+                });
+            }
+        }
+        return inRange;
+    };
+
+    const startTimestamp = trace[0]?.timestamp ?? 0;
+    const endTimestamp = trace[trace.length - 1]?.timestamp ?? 0;
+    // 每个池子在区间内的累计时间，价格在两笔交易之间保持不变
+    const timeInRange = new Map<string, number>();
+    const inRange = new Map<string, boolean>();
+    for (const pool of pools.values()) {
+        inRange.set(pool.pool, await snapshot(pool, startTimestamp, true));
+        timeInRange.set(pool.pool, 0);
+    }
+
+    for (let i = 0; i < trace.length; i++) {
+        const entry = trace[i];
+        const record = (i + 1) % snapshotInterval === 0 || i === trace.length - 1;
+        for (const pool of pools.values()) {
+            if (i > 0 && inRange.get(pool.pool)) {
+                timeInRange.set(pool.pool, timeInRange.get(pool.pool)! + entry.timestamp - trace[i - 1].timestamp);
+            }
+            const args = [
+                swapper.address,
+                entry.zeroForOne,
+                entry.amount,
+                entry.zeroForOne ? TickMath.MIN_SQRT_PRICE + 1n : TickMath.MAX_SQRT_PRICE - 1n,
+                pool.pool,
+                token0.address,
+                token1.address,
+            ] as const;
+            try {
+                const {
+                    result: [amount0, amount1],
+                } = await swapper.simulate.testSwapWithDirection([...args]);
+                // 价格已经在区间边界时交易不会 revert，但是什么都不会成交
+                if (amount0 === 0n && amount1 === 0n) {
+                    pool.skipped++;
+                } else {
+                    await swapper.write.testSwapWithDirection([...args]);
+                    pool.swaps++;
+                    pool.volume0 += amount0 > 0n ? amount0 : 0n;
+                    pool.volume1 += amount1 > 0n ? amount1 : 0n;
+                }
+            } catch {
+                pool.skipped++;
+            }
+            inRange.set(pool.pool, await snapshot(pool, entry.timestamp, record));
+        }
+    }
+
+    const duration = endTimestamp - startTimestamp;
+    for (const position of positions) {
+        const { sqrtPriceX96 } = pools.get(poolKey(position))!;
+        position.holdValue1 = toToken1(position.deposited, sqrtPriceX96);
+        position.lpValue1 = toToken1(position.final, sqrtPriceX96);
+        position.feesValue1 = toToken1(position.fees, sqrtPriceX96);
+        position.impermanentLoss = ratio(position.lpValue1 - position.holdValue1, position.holdValue1);
+        position.pnlVsHold1 = position.lpValue1 + position.feesValue1 - position.holdValue1;
+        // 交易记录只有一个时间点时，按最后的价格是否在区间内计算
+        position.timeInRange =
+            duration > 0 ? timeInRange.get(position.pool)! / duration : inRange.get(position.pool) ? 1 : 0;
+    }
+
+    return { startTimestamp, endTimestamp, trades: trace.length, pools: [...pools.values()], positions };
+}
+
+/**
+ * 把报告转换成 JSON，bigint 转成十进制字符串
+ */
+export function stringifyBacktestReport(report: BacktestReport): string {
+    return JSON.stringify(report, (_, value) => (typeof value === 'bigint' ? value.toString() : value), 2);
+}
+
+/**
+ * 汇总表格，可以直接传给 console.table，format 用来把 token 的最小单位转换成可读的数量
+ */
+export function summarizeBacktest(report: BacktestReport, format: (amount: bigint) => string = String) {
+    return report.positions.map((position) => ({
+        name: position.name,
+        fee: `${position.fee / 10000}%`,
+        range: `[${position.tickLower}, ${position.tickUpper}]`,
+        fees0: format(position.fees.amount0),
+        fees1: format(position.fees.amount1),
+        final0: format(position.final.amount0),
+        final1: format(position.final.amount1),
+        'IL %': (position.impermanentLoss * 100).toFixed(4),
+        'pnl vs hold (token1)': format(position.pnlVsHold1),
+        'in range %': (position.timeInRange * 100).toFixed(2),
+    }));
+}
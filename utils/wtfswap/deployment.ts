@@ -0,0 +1,71 @@
+import fs from 'fs';
+import path from 'path';
+import type { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { getAddressBookPath, readAddressBook } from './addressBook';
+
+export interface WtfswapAddresses {
+    poolManager: `0x${string}`;
+    positionManager: `0x${string}`;
+    swapRouter: `0x${string}`;
+}
+
+// ignition/modules/Wtfswap*.ts 中各个网络的模块共用的 id
+const MODULE_ID = 'Wtfswap';
+
+/**
+ * 读取 Ignition 部署 ignition/modules/Wtfswap*.ts 后记录的合约地址
+ * 默认的 deploymentId 是 chain-<chainId>，和 `hardhat ignition deploy` 的默认值一致
+ * 没有指定 deploymentId 且没有 Ignition 部署记录时，读取 scripts/deploy.ts 写入的 deployments/<network>.json
+ */
+export async function getWtfswapAddresses(
+    hre: HardhatRuntimeEnvironment,
+    deploymentId?: string
+): Promise<WtfswapAddresses> {
+    const publicClient = await hre.viem.getPublicClient();
+    const id = deploymentId ?? `chain-${await publicClient.getChainId()}`;
+    const file = path.join(hre.config.paths.ignition, 'deployments', id, 'deployed_addresses.json');
+
+    if (!fs.existsSync(file)) {
+        const book = deploymentId === undefined ? readAddressBook(hre) : undefined;
+        if (book) {
+            return readAddressBookAddresses(book.contracts, getAddressBookPath(hre));
+        }
+        throw new Error(
+            `Wtfswap deployment not found at ${file}, run \`npx hardhat ignition deploy ./ignition/modules/Wtfswap*.ts --network ${hre.network.name}\` or \`npx hardhat run scripts/deploy.ts --network ${hre.network.name}\` first`
+        );
+    }
+
+    const deployed: Record<string, `0x${string}`> = JSON.parse(fs.readFileSync(file, 'utf8'));
+    const read = (name: string) => {
+        const address = deployed[`${MODULE_ID}#${name}`];
+        if (!address) {
+            throw new Error(`${MODULE_ID}#${name} is missing in ${file}`);
+        }
+        return address;
+    };
+
+    return {
+        poolManager: read('PoolManager'),
+        positionManager: read('PositionManager'),
+        swapRouter: read('SwapRouter'),
+    };
+}
+
+function readAddressBookAddresses(
+    contracts: Record<string, { address: `0x${string}` }>,
+    file: string
+): WtfswapAddresses {
+    const read = (name: string) => {
+        const record = contracts[name];
+        if (!record) {
+            throw new Error(`${name} is missing in ${file}`);
+        }
+        return record.address;
+    };
+
+    return {
+        poolManager: read('PoolManager'),
+        positionManager: read('PositionManager'),
+        swapRouter: read('SwapRouter'),
+    };
+}
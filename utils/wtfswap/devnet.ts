@@ -0,0 +1,418 @@
+import type { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { getAddress, maxUint256, parseEventLogs, parseUnits } from 'viem';
+import type { DeploymentRecord } from './addressBook';
+import { createRandom } from './fuzz';
+import { Q96 } from './math';
+import { invertPrice, priceToSqrtPriceX96, priceToTick } from './price';
+
+// 本地开发链：部署整套合约和若干个 TestToken，按配置创建池子并注入流动性，
+// 然后用一个交易机器人定时发送随机的 swap，让价格和手续费一直在变化，方便前端调试
+// 所有内容都从一个 JSON 配置文件读取，格式见 tasks/devnet.json
+
+type Address = `0x${string}`;
+
+export interface DevnetTokenConfig {
+    name: string;
+    symbol: string;
+    decimals: number;
+    // 给每个账户 mint 的数量，人类可读，例如 "1000000"
+    mint: string;
+}
+
+export interface DevnetPoolConfig {
+    // token 的 symbol，不需要按地址排序
+    tokenA: string;
+    tokenB: string;
+    // 默认 3000
+    fee?: number;
+    // 以下价格都是 "1 个 tokenA 可以换多少个 tokenB"
+    price: string;
+    priceLower: string;
+    priceUpper: string;
+    // 注入流动性时最多使用的数量，人类可读，由第一个账户提供
+    amountA: string;
+    amountB: string;
+}
+
+export interface DevnetBotConfig {
+    // 两笔交易之间的间隔
+    intervalMs: number;
+    seed: number;
+    // 单笔交易最多使用池子储备（按 tokenIn 计）的百分比
+    maxTradePercent: number;
+}
+
+export interface DevnetConfig {
+    // 给前几个账户 mint token 并授权，交易机器人也从这些账户中随机挑选交易方
+    accounts: number;
+    tokens: DevnetTokenConfig[];
+    pools: DevnetPoolConfig[];
+    bot: DevnetBotConfig;
+}
+
+export interface DevnetToken {
+    name: string;
+    symbol: string;
+    decimals: number;
+    address: Address;
+}
+
+export interface DevnetPool {
+    pair: string;
+    pool: Address;
+    token0: Address;
+    token1: Address;
+    index: number;
+    fee: number;
+    // 初始价格，交易机器人会倾向于把价格拉回这里
+    sqrtPriceX96: bigint;
+    positionId: bigint;
+}
+
+export interface Devnet {
+    contracts: {
+        weth9: Address;
+        poolManager: Address;
+        positionManager: Address;
+        swapRouter: Address;
+    };
+    tokens: DevnetToken[];
+    pools: DevnetPool[];
+    accounts: Address[];
+    // 按地址簿的格式记录部署信息，核心合约用合约名，token 用 symbol
+    records: Record<string, DeploymentRecord>;
+}
+
+// 地址簿中核心合约使用的名字，token 的 symbol 不能和它们重复
+const CORE_CONTRACTS = ['WETH9', 'PoolManager', 'PositionManager', 'SwapRouter'];
+// 价格偏离初始价格时，有这么大的概率朝着初始价格的方向交易，避免价格一直漂移到区间之外
+const REVERT_PROBABILITY = 0.6;
+
+function isAmount(value: unknown, decimals = 18): boolean {
+    if (typeof value !== 'string') {
+        return false;
+    }
+    try {
+        return parseUnits(value, decimals) > 0n;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * 解析并检查 devnet 的 JSON 配置
+ */
+export function parseDevnetConfig(content: string): DevnetConfig {
+    const config = JSON.parse(content) as DevnetConfig;
+
+    if (!Number.isInteger(config.accounts) || config.accounts < 1) {
+        throw new Error(`accounts must be a positive integer, got ${config.accounts}`);
+    }
+    if (!Array.isArray(config.tokens) || config.tokens.length < 2) {
+        throw new Error('at least two tokens are required');
+    }
+    const decimals = new Map<string, number>();
+    for (const token of config.tokens) {
+        if (typeof token.symbol !== 'string' || token.symbol === '' || typeof token.name !== 'string') {
+            throw new Error(`token ${JSON.stringify(token)} must have a name and a symbol`);
+        }
+        if (decimals.has(token.symbol) || CORE_CONTRACTS.includes(token.symbol)) {
+            throw new Error(`duplicate token symbol ${token.symbol}`);
+        }
+        if (!Number.isInteger(token.decimals) || token.decimals < 0 || token.decimals > 36) {
+            throw new Error(`invalid decimals of ${token.symbol}: ${token.decimals}`);
+        }
+        if (!isAmount(token.mint, token.decimals)) {
+            throw new Error(`invalid mint amount of ${token.symbol}: ${token.mint}`);
+        }
+        decimals.set(token.symbol, token.decimals);
+    }
+
+    for (const [i, pool] of (config.pools ?? []).entries()) {
+        for (const symbol of [pool.tokenA, pool.tokenB]) {
+            if (!decimals.has(symbol)) {
+                throw new Error(`pools[${i}] references unknown token ${symbol}`);
+            }
+        }
+        if (pool.tokenA === pool.tokenB) {
+            throw new Error(`pools[${i}] tokenA and tokenB must be different`);
+        }
+        for (const field of ['price', 'priceLower', 'priceUpper'] as const) {
+            if (!isAmount(pool[field])) {
+                throw new Error(`invalid ${field} of pools[${i}]: ${pool[field]}`);
+            }
+        }
+        const [price, priceLower, priceUpper] = [pool.price, pool.priceLower, pool.priceUpper].map((value) =>
+            parseUnits(value, 18)
+        );
+        if (priceLower >= priceUpper || price < priceLower || price > priceUpper) {
+            throw new Error(`pools[${i}] price must be within [priceLower, priceUpper]`);
+        }
+        if (!isAmount(pool.amountA, decimals.get(pool.tokenA)) || !isAmount(pool.amountB, decimals.get(pool.tokenB))) {
+            throw new Error(`invalid amountA or amountB of pools[${i}]`);
+        }
+    }
+
+    const { bot } = config;
+    if (!bot || !Number.isInteger(bot.intervalMs) || bot.intervalMs < 0 || !Number.isInteger(bot.seed)) {
+        throw new Error('bot must have a non-negative integer intervalMs and an integer seed');
+    }
+    if (!(bot.maxTradePercent > 0 && bot.maxTradePercent <= 100)) {
+        throw new Error(`bot.maxTradePercent must be in (0, 100], got ${bot.maxTradePercent}`);
+    }
+    return { ...config, pools: config.pools ?? [] };
+}
+
+/**
+ * 部署整套合约和 TestToken，给账户 mint 并授权，按配置创建池子并注入流动性
+ * 只应该在 hardhat 网络或者 hardhat node 上执行，所有交易都由本地账户发送
+ */
+export async function setupDevnet(hre: HardhatRuntimeEnvironment, config: DevnetConfig): Promise<Devnet> {
+    const publicClient = await hre.viem.getPublicClient();
+    const walletClients = await hre.viem.getWalletClients();
+    if (walletClients.length < config.accounts) {
+        throw new Error(`${config.accounts} accounts are required, but the network only has ${walletClients.length}`);
+    }
+    const funded = walletClients.slice(0, config.accounts);
+    const deployer = funded[0].account.address;
+    const records: Record<string, DeploymentRecord> = {};
+
+    const deploy = async (key: string, name: string, args: unknown[]) => {
+        const { contract, deploymentTransaction } = await hre.viem.sendDeploymentTransaction(name, args);
+        const receipt = await publicClient.waitForTransactionReceipt({ hash: deploymentTransaction.hash });
+        if (receipt.status !== 'success') {
+            throw new Error(`${name} deployment ${deploymentTransaction.hash} reverted`);
+        }
+        records[key] = {
+            address: contract.address,
+            transactionHash: receipt.transactionHash,
+            blockNumber: Number(receipt.blockNumber),
+            constructorArgs: args,
+            verified: false,
+        };
+        return getAddress(contract.address);
+    };
+
+    const weth9 = await deploy('WETH9', 'WETH9', []);
+    const poolManager = await hre.viem.getContractAt('PoolManager', await deploy('PoolManager', 'PoolManager', []));
+    const positionManager = await deploy('PositionManager', 'PositionManager', [poolManager.address, weth9]);
+    const swapRouter = await deploy('SwapRouter', 'SwapRouter', [poolManager.address, weth9]);
+
+    const tokens: DevnetToken[] = [];
+    for (const tokenConfig of config.tokens) {
+        const address = await deploy(tokenConfig.symbol, 'TestToken', [
+            tokenConfig.name,
+            tokenConfig.symbol,
+            tokenConfig.decimals,
+        ]);
+        const amount = parseUnits(tokenConfig.mint, tokenConfig.decimals);
+        for (const walletClient of funded) {
+            const token = await hre.viem.getContractAt('TestToken', address, { client: { wallet: walletClient } });
+            await token.write.mint([walletClient.account.address, amount]);
+            await token.write.approve([positionManager, maxUint256]);
+            await token.write.approve([swapRouter, maxUint256]);
+        }
+        tokens.push({ name: tokenConfig.name, symbol: tokenConfig.symbol, decimals: tokenConfig.decimals, address });
+    }
+
+    const bySymbol = new Map(tokens.map((token) => [token.symbol, token]));
+    const manager = await hre.viem.getContractAt('PositionManager', positionManager);
+    const pools: DevnetPool[] = [];
+    for (const pool of config.pools) {
+        const tokenA = bySymbol.get(pool.tokenA)!;
+        const tokenB = bySymbol.get(pool.tokenB)!;
+        const reversed = BigInt(tokenA.address) > BigInt(tokenB.address);
+        const [token0, token1] = reversed ? [tokenB, tokenA] : [tokenA, tokenB];
+
+        // 价格统一换算成 "1 个 token0 可以换多少个 token1"
+        const price = reversed ? invertPrice(pool.price) : pool.price;
+        const priceLower = reversed ? invertPrice(pool.priceUpper) : pool.priceLower;
+        const priceUpper = reversed ? invertPrice(pool.priceLower) : pool.priceUpper;
+        const params = {
+            token0: token0.address,
+            token1: token1.address,
+            fee: pool.fee ?? 3000,
+            tickLower: priceToTick(priceLower, token0.decimals, token1.decimals),
+            tickUpper: priceToTick(priceUpper, token0.decimals, token1.decimals),
+            sqrtPriceX96: priceToSqrtPriceX96(price, token0.decimals, token1.decimals),
+        };
+        await poolManager.write.createAndInitializePoolIfNecessary([params]);
+        const created = (await poolManager.read.getPoolsForPair([token0.address, token1.address])).find(
+            (info) => info.fee === params.fee && info.tickLower === params.tickLower && info.tickUpper === params.tickUpper
+        )!;
+
+        // 流动性由第一个账户提供，额外 mint 需要的数量，不占用给账户 mint 的余额
+        const amountA = parseUnits(pool.amountA, tokenA.decimals);
+        const amountB = parseUnits(pool.amountB, tokenB.decimals);
+        const [amount0Desired, amount1Desired] = reversed ? [amountB, amountA] : [amountA, amountB];
+        await (await hre.viem.getContractAt('TestToken', token0.address)).write.mint([deployer, amount0Desired]);
+        await (await hre.viem.getContractAt('TestToken', token1.address)).write.mint([deployer, amount1Desired]);
+        const receipt = await publicClient.waitForTransactionReceipt({
+            hash: await manager.write.mint([
+                {
+                    token0: token0.address,
+                    token1: token1.address,
+                    index: created.index,
+                    amount0Desired,
+                    amount1Desired,
+                    amount0Min: 0n,
+                    amount1Min: 0n,
+                    recipient: deployer,
+                    deadline: maxUint256,
+                },
+            ]),
+        });
+        const [minted] = parseEventLogs({ abi: manager.abi, eventName: 'Transfer', logs: receipt.logs });
+
+        pools.push({
+            pair: `${token0.symbol}/${token1.symbol}`,
+            pool: created.pool,
+            token0: token0.address,
+            token1: token1.address,
+            index: created.index,
+            fee: params.fee,
+            sqrtPriceX96: params.sqrtPriceX96,
+            positionId: minted.args.tokenId,
+        });
+    }
+
+    return {
+        contracts: { weth9, poolManager: poolManager.address, positionManager, swapRouter },
+        tokens,
+        pools,
+        accounts: funded.map((walletClient) => getAddress(walletClient.account.address)),
+        records,
+    };
+}
+
+export interface DevnetSwap {
+    pair: string;
+    pool: Address;
+    trader: Address;
+    zeroForOne: boolean;
+    amountIn: bigint;
+    amountOut: bigint;
+    hash: `0x${string}`;
+}
+
+export interface TradingBotOptions extends DevnetBotConfig {
+    // 发送这么多笔成功的交易后自动停止，默认一直运行到 stop
+    maxSwaps?: number;
+    onSwap?(swap: DevnetSwap): void;
+    // 单笔交易失败不会停止机器人，默认打印到 stderr
+    onError?(error: unknown): void;
+}
+
+export interface TradingBot {
+    // 已经成功的交易数量
+    readonly swaps: number;
+    stop(): void;
+    // 停止之后 resolve
+    done: Promise<void>;
+}
+
+/**
+ * 启动交易机器人：每隔 intervalMs 随机挑一个池子和一个账户，通过 SwapRouter.exactInput 发送一笔随机数量的交易
+ * 同样的种子在同样的链状态下生成同样的交易序列
+ */
+export function startTradingBot(hre: HardhatRuntimeEnvironment, devnet: Devnet, options: TradingBotOptions): TradingBot {
+    const random = createRandom(options.seed);
+    const onError = options.onError ?? ((error: unknown) => console.error('devnet bot swap failed:', error));
+    let swaps = 0;
+    let stopped = false;
+    let timer: NodeJS.Timeout | undefined;
+    let resolve: () => void;
+    const done = new Promise<void>((r) => (resolve = r));
+
+    const stop = () => {
+        if (!stopped) {
+            stopped = true;
+            clearTimeout(timer);
+            resolve();
+        }
+    };
+
+    const trade = async () => {
+        const pool = random.pick(devnet.pools);
+        const trader = random.pick(devnet.accounts);
+        const publicClient = await hre.viem.getPublicClient();
+        const contract = await hre.viem.getContractAt('Pool', pool.pool);
+        const [sqrtPriceX96, balance0, balance1] = await Promise.all([
+            contract.read.sqrtPriceX96(),
+            (await hre.viem.getContractAt('TestToken', pool.token0)).read.balanceOf([pool.pool]),
+            (await hre.viem.getContractAt('TestToken', pool.token1)).read.balanceOf([pool.pool]),
+        ]);
+
+        // 价格高于初始价格时更可能卖出 token0，低于时更可能卖出 token1
+        const sellToken0 = sqrtPriceX96 >= pool.sqrtPriceX96;
+        const zeroForOne = random.next() < REVERT_PROBABILITY ? sellToken0 : !sellToken0;
+        // 池子的全部储备按当前价格折算成 tokenIn，价格到了区间边界时仍然能算出交易数量
+        const reserveIn = zeroForOne
+            ? balance0 + (((balance1 * Q96) / sqrtPriceX96) * Q96) / sqrtPriceX96
+            : balance1 + (((balance0 * sqrtPriceX96) / Q96) * sqrtPriceX96) / Q96;
+        const amountIn = (reserveIn * BigInt(Math.floor(random.next() * options.maxTradePercent * 100))) / 10000n;
+        if (amountIn === 0n) {
+            return;
+        }
+
+        const walletClient = await hre.viem.getWalletClient(trader);
+        const swapRouter = await hre.viem.getContractAt('SwapRouter', devnet.contracts.swapRouter, {
+            client: { wallet: walletClient },
+        });
+        const [tokenIn, tokenOut] = zeroForOne ? [pool.token0, pool.token1] : [pool.token1, pool.token0];
+        const hash = await swapRouter.write.exactInput([
+            {
+                tokenIn,
+                tokenOut,
+                indexPath: [pool.index],
+                recipient: trader,
+                deadline: maxUint256,
+                amountIn,
+                amountOutMinimum: 0n,
+                sqrtPriceLimitX96: 0n,
+            },
+        ]);
+        const receipt = await publicClient.waitForTransactionReceipt({ hash });
+        if (receipt.status !== 'success') {
+            throw new Error(`swap ${hash} reverted`);
+        }
+        const [event] = parseEventLogs({ abi: swapRouter.abi, eventName: 'Swap', logs: receipt.logs });
+        swaps++;
+        options.onSwap?.({
+            pair: pool.pair,
+            pool: pool.pool,
+            trader,
+            zeroForOne,
+            amountIn: event.args.amountIn,
+            amountOut: event.args.amountOut,
+            hash,
+        });
+    };
+
+    // 上一笔交易结束之后再安排下一笔，交易慢的时候不会堆积
+    const tick = async () => {
+        try {
+            await trade();
+        } catch (error) {
+            onError(error);
+        }
+        if (options.maxSwaps !== undefined && swaps >= options.maxSwaps) {
+            stop();
+        } else if (!stopped) {
+            timer = setTimeout(tick, options.intervalMs);
+        }
+    };
+
+    if (devnet.pools.length === 0) {
+        stop();
+    } else {
+        timer = setTimeout(tick, options.intervalMs);
+    }
+    return {
+        get swaps() {
+            return swaps;
+        },
+        stop,
+        done,
+    };
+}
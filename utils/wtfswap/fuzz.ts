@@ -0,0 +1,172 @@
+// 带种子的有状态模糊测试：随机生成一串操作依次执行，每一步之后检查不变量
+// 失败时自动缩减操作序列，找到仍然能复现问题的最短序列，并在错误信息中给出种子
+
+export interface Random {
+    // [0, 1) 之间的随机数
+    next(): number;
+    // [min, max] 之间的随机整数
+    int(min: number, max: number): number;
+    // 位数在 [1, maxBits] 之间的随机正整数，让大小数量级都能覆盖到
+    bigint(maxBits: number): bigint;
+    bool(): boolean;
+    pick<T>(items: readonly T[]): T;
+}
+
+/**
+ * 固定种子的伪随机数生成器（mulberry32），同样的种子生成同样的序列
+ */
+export function createRandom(seed: number): Random {
+    let state = seed >>> 0;
+    const next = () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+    const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+    const bigint = (maxBits: number) => {
+        const bits = int(1, maxBits);
+        let value = 0n;
+        for (let i = 0; i < bits; i += 16) {
+            value = (value << 16n) | BigInt(int(0, 0xffff));
+        }
+        return (value % (1n << BigInt(bits))) + 1n;
+    };
+    const bool = () => next() < 0.5;
+    const pick = <T>(items: readonly T[]) => items[int(0, items.length - 1)];
+    return { next, int, bigint, bool, pick };
+}
+
+export interface StatefulFuzzOptions<Action, Context> {
+    // 第 i 轮使用 seed + i 作为种子
+    seed: number;
+    runs: number;
+    // 每一轮生成的操作数量
+    steps: number;
+    // 复现失败时需要设置的环境变量，只用于拼接错误信息
+    seedEnv?: string;
+    // 最多尝试多少次缩减，每次尝试都要从头重放一遍
+    maxShrinks?: number;
+    // 生成的操作不能依赖当前状态，缩减时删掉前面的操作，后面的操作仍然可以执行
+    generate(random: Random): Action;
+    // 每次重放前调用，返回一个全新的初始状态，例如 loadFixture
+    setup(): Promise<Context>;
+    execute(context: Context, action: Action): Promise<void>;
+    // 检查不变量，不满足时抛出异常
+    check(context: Context): Promise<void>;
+    // 把一个操作缩减成更简单的候选，例如把数量减半
+    shrinkAction?(action: Action): Action[];
+    format?(action: Action): string;
+}
+
+export class FuzzFailure<Action> extends Error {
+    constructor(
+        message: string,
+        public readonly seed: number,
+        // 缩减后仍然失败的操作序列
+        public readonly actions: Action[],
+        public readonly cause: unknown
+    ) {
+        super(message);
+        this.name = 'FuzzFailure';
+    }
+}
+
+/**
+ * 按顺序执行 actions，返回第一个失败的位置和异常，全部通过时返回 undefined
+ */
+async function replay<Action, Context>(
+    options: StatefulFuzzOptions<Action, Context>,
+    actions: Action[]
+): Promise<{ index: number; error: unknown } | undefined> {
+    const context = await options.setup();
+    for (let i = 0; i < actions.length; i++) {
+        try {
+            await options.execute(context, actions[i]);
+            await options.check(context);
+        } catch (error) {
+            return { index: i, error };
+        }
+    }
+    return undefined;
+}
+
+/**
+ * 缩减失败的操作序列：先尝试删掉一段连续的操作，再尝试把单个操作换成更简单的候选，直到不能再缩减
+ */
+async function shrink<Action, Context>(
+    options: StatefulFuzzOptions<Action, Context>,
+    actions: Action[],
+    error: unknown
+): Promise<{ actions: Action[]; error: unknown }> {
+    let budget = options.maxShrinks ?? 200;
+    const attempt = async (candidate: Action[]) => {
+        budget--;
+        const failure = await replay(options, candidate);
+        if (failure) {
+            actions = candidate.slice(0, failure.index + 1);
+            error = failure.error;
+            return true;
+        }
+        return false;
+    };
+
+    let progress = true;
+    while (progress && budget > 0) {
+        progress = false;
+        for (let size = Math.floor(actions.length / 2) || 1; size >= 1 && budget > 0; size = Math.floor(size / 2)) {
+            for (let start = 0; start + size <= actions.length && budget > 0; ) {
+                if (await attempt([...actions.slice(0, start), ...actions.slice(start + size)])) {
+                    progress = true;
+                } else {
+                    start += size;
+                }
+            }
+        }
+        for (let i = 0; i < actions.length && budget > 0 && options.shrinkAction; i++) {
+            for (const simpler of options.shrinkAction(actions[i])) {
+                if (budget <= 0) break;
+                if (await attempt([...actions.slice(0, i), simpler, ...actions.slice(i + 1)])) {
+                    progress = true;
+                    break;
+                }
+            }
+        }
+    }
+    return { actions, error };
+}
+
+function stringifyBigint(_: string, value: unknown) {
+    return typeof value === 'bigint' ? value.toString() : value;
+}
+
+/**
+ * 运行有状态模糊测试，失败时抛出 FuzzFailure，错误信息中包含复现用的种子和缩减后的操作序列
+ */
+export async function runStatefulFuzz<Action, Context>(options: StatefulFuzzOptions<Action, Context>): Promise<void> {
+    const format = options.format ?? ((action: Action) => JSON.stringify(action, stringifyBigint));
+
+    for (let run = 0; run < options.runs; run++) {
+        const seed = options.seed + run;
+        const random = createRandom(seed);
+        const actions = Array.from({ length: options.steps }, () => options.generate(random));
+
+        const failure = await replay(options, actions);
+        if (!failure) {
+            continue;
+        }
+
+        const shrunk = await shrink(options, actions.slice(0, failure.index + 1), failure.error);
+        const reason = shrunk.error instanceof Error ? shrunk.error.message : String(shrunk.error);
+        const lines = [
+            `fuzz failed with seed ${seed} after ${failure.index + 1} steps, shrunk to ${shrunk.actions.length}:`,
+            ...shrunk.actions.map((action, i) => `  ${i}: ${format(action)}`),
+            reason,
+        ];
+        if (options.seedEnv) {
+            lines.push(`reproduce with ${options.seedEnv}=${seed}`);
+        }
+        throw new FuzzFailure(lines.join('\n'), seed, shrunk.actions, shrunk.error);
+    }
+}
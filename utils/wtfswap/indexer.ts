@@ -0,0 +1,620 @@
+import { getAddress, parseAbi, zeroAddress, type PublicClient } from 'viem';
+import { Q96, SqrtPriceMath, TickMath } from './math';
+import {
+    INDEXER_STATE_VERSION,
+    IndexedEvent,
+    IndexerState,
+    IndexerStore,
+    InitializeEvent,
+    MintEvent,
+    PoolCreatedEvent,
+    SwapEvent,
+} from './indexerStore';
+
+// 只依赖 viem 的事件索引器，按区块顺序拉取并保存：
+// PoolManager（Factory）的 PoolCreated，每个 Pool 的 Initialize/Mint/Burn/Collect/Swap，
+// 以及 PositionManager 的 IncreaseLiquidity/DecreaseLiquidity/Collect 和 NFT Transfer
+// 所有的统计都由保存的事件推导出来，回滚时只需要删除分叉区块之后的事件
+
+const factoryEvents = parseAbi([
+    'event PoolCreated(address token0, address token1, int24 tickLower, int24 tickUpper, uint24 fee, address pool, uint32 index)',
+]);
+
+const poolEvents = parseAbi([
+    'event Initialize(uint160 sqrtPriceX96, int24 tick)',
+    'event Mint(address sender, address indexed owner, uint128 amount, uint256 amount0, uint256 amount1)',
+    'event Burn(address indexed owner, uint128 amount, uint256 amount0, uint256 amount1)',
+    'event Collect(address indexed owner, address recipient, uint128 amount0, uint128 amount1)',
+    'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)',
+]);
+
+const positionManagerEvents = parseAbi([
+    'event IncreaseLiquidity(uint256 indexed tokenId, uint128 liquidity, uint256 amount0, uint256 amount1)',
+    'event DecreaseLiquidity(uint256 indexed tokenId, uint128 liquidity, uint256 amount0, uint256 amount1)',
+    'event Collect(uint256 indexed tokenId, address recipient, uint256 amount0, uint256 amount1)',
+    'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
+]);
+
+export interface IndexerOptions {
+    publicClient: PublicClient;
+    store: IndexerStore;
+    // PoolManager 继承了 Factory，PoolCreated 由它发出
+    poolManager: `0x${string}`;
+    // 不传时不索引 PositionManager 的事件，也无法按 position 统计
+    positionManager?: `0x${string}`;
+    // 从哪个区块开始索引，通常是 PoolManager 的部署区块
+    fromBlock?: number;
+    // 每次 getLogs 的区块数
+    batchSize?: number;
+    // 只索引 latest - confirmations 之前的区块，确认数足够时基本不会遇到回滚
+    confirmations?: number;
+}
+
+export interface SyncResult {
+    fromBlock: number;
+    toBlock: number;
+    // 检测到分叉时回滚到的区块，没有回滚时为 undefined；
+    // 已索引的事件区块全部不在链上时为 null，游标被清空，这次从 fromBlock 重新开始索引
+    rolledBackTo?: number | null;
+}
+
+export interface IndexedPool {
+    pool: `0x${string}`;
+    token0: `0x${string}`;
+    token1: `0x${string}`;
+    index: number;
+    fee: number;
+    tickLower: number;
+    tickUpper: number;
+    createdAtBlock: number;
+}
+
+export interface PoolStats {
+    swapCount: number;
+    // 两个方向的成交量，都是 token 的最小单位
+    volume0: bigint;
+    volume1: bigint;
+    // 交易者支付的手续费，包含分给协议的部分
+    fees0: bigint;
+    fees1: bigint;
+    sqrtPriceX96: bigint;
+    tick: number;
+    liquidity: bigint;
+}
+
+export interface PricePoint {
+    blockNumber: number;
+    timestamp: number;
+    sqrtPriceX96: bigint;
+    tick: number;
+}
+
+export interface PositionPnL {
+    positionId: bigint;
+    pool: `0x${string}`;
+    owner: `0x${string}`;
+    liquidity: bigint;
+    // 注入的 token
+    deposited0: bigint;
+    deposited1: bigint;
+    // decreaseLiquidity 时从流动性中退出的本金
+    withdrawn0: bigint;
+    withdrawn1: bigint;
+    // collect 取回的 token，包含本金和手续费
+    collected0: bigint;
+    collected1: bigint;
+    // 已经取回的手续费
+    fees0: bigint;
+    fees1: bigint;
+    // 按当前价格计算的还在流动性中的本金
+    amount0: bigint;
+    amount1: bigint;
+    // 按当前价格换算成 token1 的盈亏：(当前本金 + 已退出的本金 + 已取回的手续费) - 注入的 token
+    // 还没有 decreaseLiquidity 或 collect 结算的手续费没有事件，不计入
+    pnl1: bigint;
+}
+
+function compareEvents(a: { blockNumber: number; logIndex: number }, b: { blockNumber: number; logIndex: number }) {
+    return a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+}
+
+// token0 数量按价格换算成 token1
+function toToken1(amount0: bigint, sqrtPriceX96: bigint): bigint {
+    return (amount0 * sqrtPriceX96 * sqrtPriceX96) / (Q96 * Q96);
+}
+
+export class WtfswapIndexer {
+    private readonly publicClient: PublicClient;
+    private readonly store: IndexerStore;
+    private readonly poolManager: `0x${string}`;
+    private readonly positionManager?: `0x${string}`;
+    private readonly fromBlock: number;
+    private readonly batchSize: number;
+    private readonly confirmations: number;
+    private state?: IndexerState;
+
+    constructor(options: IndexerOptions) {
+        this.publicClient = options.publicClient;
+        this.store = options.store;
+        this.poolManager = getAddress(options.poolManager);
+        this.positionManager = options.positionManager && getAddress(options.positionManager);
+        this.fromBlock = options.fromBlock ?? 0;
+        this.batchSize = options.batchSize ?? 2000;
+        this.confirmations = options.confirmations ?? 0;
+    }
+
+    /**
+     * 从上次的游标继续索引到最新区块，检测到分叉时先回滚
+     */
+    async sync(): Promise<SyncResult> {
+        const state = await this.loadState();
+        const rolledBackTo = await this.handleReorg(state);
+
+        const head = Number(await this.publicClient.getBlockNumber()) - this.confirmations;
+        const fromBlock = state.cursor === null ? this.fromBlock : state.cursor + 1;
+
+        for (let from = fromBlock; from <= head; from += this.batchSize) {
+            const to = Math.min(from + this.batchSize - 1, head);
+            const events = await this.fetchEvents(state, from, to);
+            const block = await this.publicClient.getBlock({ blockNumber: BigInt(to) });
+            state.events.push(...events);
+            state.cursor = to;
+            state.cursorHash = block.hash;
+            // 每个批次保存一次，中途退出后可以从游标继续
+            this.store.save(state);
+        }
+
+        return { fromBlock, toBlock: Math.max(head, fromBlock - 1), rolledBackTo };
+    }
+
+    private async loadState(): Promise<IndexerState> {
+        if (this.state) {
+            return this.state;
+        }
+        const chainId = await this.publicClient.getChainId();
+        const state = this.store.load();
+        if (state && (state.chainId !== chainId || getAddress(state.poolManager) !== this.poolManager)) {
+            throw new Error(`Indexer store belongs to PoolManager ${state.poolManager} on chain ${state.chainId}`);
+        }
+        this.state = state ?? {
+            version: INDEXER_STATE_VERSION,
+            chainId,
+            poolManager: this.poolManager,
+            positionManager: this.positionManager,
+            cursor: null,
+            cursorHash: null,
+            events: [],
+        };
+        return this.state;
+    }
+
+    private async getBlockHash(blockNumber: number): Promise<`0x${string}` | undefined> {
+        try {
+            return (await this.publicClient.getBlock({ blockNumber: BigInt(blockNumber) })).hash;
+        } catch {
+            // 分叉后的链可能比游标短
+            return undefined;
+        }
+    }
+
+    /**
+     * 游标区块的 hash 和链上不一致时，找到最近的一个仍在链上的事件区块，删除它之后的事件
+     * 区块 hash 包含了所有祖先区块，所以只需要检查保存了事件的区块
+     */
+    private async handleReorg(state: IndexerState): Promise<number | null | undefined> {
+        if (state.cursor === null || (await this.getBlockHash(state.cursor)) === state.cursorHash) {
+            return undefined;
+        }
+
+        let ancestor: { number: number; hash: `0x${string}` } | null = null;
+        const checked = new Set<number>();
+        for (let i = state.events.length - 1; i >= 0; i--) {
+            const { blockNumber, blockHash } = state.events[i];
+            if (checked.has(blockNumber)) {
+                continue;
+            }
+            checked.add(blockNumber);
+            if ((await this.getBlockHash(blockNumber)) === blockHash) {
+                ancestor = { number: blockNumber, hash: blockHash };
+                break;
+            }
+        }
+
+        state.events = state.events.filter((event) => ancestor !== null && event.blockNumber <= ancestor.number);
+        state.cursor = ancestor?.number ?? null;
+        state.cursorHash = ancestor?.hash ?? null;
+        this.store.save(state);
+        return state.cursor;
+    }
+
+    private async fetchEvents(state: IndexerState, fromBlock: number, toBlock: number): Promise<IndexedEvent[]> {
+        const range = { fromBlock: BigInt(fromBlock), toBlock: BigInt(toBlock) };
+
+        // 先拉取 PoolCreated，这个区间中新创建的池子的事件也要一起拉取
+        const createdLogs = await this.publicClient.getLogs({
+            address: this.poolManager,
+            events: factoryEvents,
+            ...range,
+        });
+        const pools = [
+            ...state.events.flatMap((event) => (event.type === 'PoolCreated' ? [event.pool] : [])),
+            ...createdLogs.map((log) => log.args.pool!),
+        ];
+        const poolLogs = pools.length
+            ? await this.publicClient.getLogs({ address: pools, events: poolEvents, ...range })
+            : [];
+        const positionLogs = this.positionManager
+            ? await this.publicClient.getLogs({ address: this.positionManager, events: positionManagerEvents, ...range })
+            : [];
+
+        const timestamps = new Map<bigint, number>();
+        const getMeta = async (log: (typeof createdLogs)[number] | (typeof poolLogs)[number] | (typeof positionLogs)[number]) => {
+            if (!timestamps.has(log.blockNumber)) {
+                const block = await this.publicClient.getBlock({ blockNumber: log.blockNumber });
+                timestamps.set(log.blockNumber, Number(block.timestamp));
+            }
+            return {
+                blockNumber: Number(log.blockNumber),
+                blockHash: log.blockHash,
+                transactionHash: log.transactionHash,
+                logIndex: log.logIndex,
+                timestamp: timestamps.get(log.blockNumber)!,
+                address: getAddress(log.address),
+            };
+        };
+
+        const events: IndexedEvent[] = [];
+        for (const log of [...createdLogs, ...poolLogs]) {
+            const meta = await getMeta(log);
+            switch (log.eventName) {
+                case 'PoolCreated': {
+                    const { token0, token1, tickLower, tickUpper, fee, pool, index } = log.args;
+                    events.push({
+                        ...meta,
+                        type: 'PoolCreated',
+                        pool: getAddress(pool!),
+                        token0: getAddress(token0!),
+                        token1: getAddress(token1!),
+                        index: index!,
+                        fee: fee!,
+                        tickLower: tickLower!,
+                        tickUpper: tickUpper!,
+                    });
+                    break;
+                }
+                case 'Initialize':
+                    events.push({
+                        ...meta,
+                        type: 'Initialize',
+                        sqrtPriceX96: log.args.sqrtPriceX96!,
+                        tick: log.args.tick!,
+                    });
+                    break;
+                case 'Mint':
+                    events.push({
+                        ...meta,
+                        type: 'Mint',
+                        owner: getAddress(log.args.owner!),
+                        liquidity: log.args.amount!,
+                        amount0: log.args.amount0!,
+                        amount1: log.args.amount1!,
+                    });
+                    break;
+                case 'Burn':
+                    events.push({
+                        ...meta,
+                        type: 'Burn',
+                        owner: getAddress(log.args.owner!),
+                        liquidity: log.args.amount!,
+                        amount0: log.args.amount0!,
+                        amount1: log.args.amount1!,
+                    });
+                    break;
+                case 'Collect':
+                    events.push({
+                        ...meta,
+                        type: 'Collect',
+                        owner: getAddress(log.args.owner!),
+                        recipient: getAddress(log.args.recipient!),
+                        amount0: log.args.amount0!,
+                        amount1: log.args.amount1!,
+                    });
+                    break;
+                case 'Swap':
+                    events.push({
+                        ...meta,
+                        type: 'Swap',
+                        sender: getAddress(log.args.sender!),
+                        recipient: getAddress(log.args.recipient!),
+                        amount0: log.args.amount0!,
+                        amount1: log.args.amount1!,
+                        sqrtPriceX96: log.args.sqrtPriceX96!,
+                        liquidity: log.args.liquidity!,
+                        tick: log.args.tick!,
+                    });
+                    break;
+            }
+        }
+
+        // PositionManager 的 Collect 和 Pool 的 Collect 同名，单独处理
+        for (const log of positionLogs) {
+            const meta = await getMeta(log);
+            switch (log.eventName) {
+                case 'IncreaseLiquidity':
+                case 'DecreaseLiquidity':
+                    events.push({
+                        ...meta,
+                        type: log.eventName,
+                        tokenId: log.args.tokenId!,
+                        liquidity: log.args.liquidity!,
+                        amount0: log.args.amount0!,
+                        amount1: log.args.amount1!,
+                    });
+                    break;
+                case 'Collect':
+                    events.push({
+                        ...meta,
+                        type: 'PositionCollect',
+                        tokenId: log.args.tokenId!,
+                        recipient: getAddress(log.args.recipient!),
+                        amount0: log.args.amount0!,
+                        amount1: log.args.amount1!,
+                    });
+                    break;
+                case 'Transfer':
+                    events.push({
+                        ...meta,
+                        type: 'Transfer',
+                        from: getAddress(log.args.from!),
+                        to: getAddress(log.args.to!),
+                        tokenId: log.args.tokenId!,
+                    });
+                    break;
+            }
+        }
+        return events.sort(compareEvents);
+    }
+
+    private get events(): IndexedEvent[] {
+        if (!this.state) {
+            throw new Error('Indexer is not synced, call sync() first');
+        }
+        return this.state.events;
+    }
+
+    private getPoolCreated(pool: `0x${string}`): PoolCreatedEvent {
+        const address = getAddress(pool);
+        const created = this.events.find(
+            (event): event is PoolCreatedEvent => event.type === 'PoolCreated' && event.pool === address
+        );
+        if (!created) {
+            throw new Error(`Pool ${pool} is not indexed`);
+        }
+        return created;
+    }
+
+    private getInitialize(pool: `0x${string}`): InitializeEvent | undefined {
+        const address = getAddress(pool);
+        return this.events.find(
+            (event): event is InitializeEvent => event.type === 'Initialize' && event.address === address
+        );
+    }
+
+    private getSwaps(pool: `0x${string}`): SwapEvent[] {
+        const address = getAddress(pool);
+        return this.events.filter((event): event is SwapEvent => event.type === 'Swap' && event.address === address);
+    }
+
+    getPools(): IndexedPool[] {
+        return this.events.flatMap((event) =>
+            event.type === 'PoolCreated'
+                ? [
+                      {
+                          pool: event.pool,
+                          token0: event.token0,
+                          token1: event.token1,
+                          index: event.index,
+                          fee: event.fee,
+                          tickLower: event.tickLower,
+                          tickUpper: event.tickUpper,
+                          createdAtBlock: event.blockNumber,
+                      },
+                  ]
+                : []
+        );
+    }
+
+    /**
+     * 池子的价格变化，从初始化的价格开始，还没有初始化的池子没有价格，返回空数组
+     */
+    getPriceHistory(pool: `0x${string}`): PricePoint[] {
+        this.getPoolCreated(pool);
+        const initialize = this.getInitialize(pool);
+        if (!initialize) {
+            return [];
+        }
+        return [
+            {
+                blockNumber: initialize.blockNumber,
+                timestamp: initialize.timestamp,
+                sqrtPriceX96: initialize.sqrtPriceX96,
+                tick: initialize.tick,
+            },
+            ...this.getSwaps(pool).map((swap) => ({
+                blockNumber: swap.blockNumber,
+                timestamp: swap.timestamp,
+                sqrtPriceX96: swap.sqrtPriceX96,
+                tick: swap.tick,
+            })),
+        ];
+    }
+
+    /**
+     * 池子的成交量、手续费和当前状态，还没有初始化的池子没有价格，返回 undefined
+     */
+    getPoolStats(pool: `0x${string}`): PoolStats | undefined {
+        const address = getAddress(pool);
+        this.getPoolCreated(pool);
+        const initialize = this.getInitialize(pool);
+        if (!initialize) {
+            return undefined;
+        }
+        const stats: PoolStats = {
+            swapCount: 0,
+            volume0: 0n,
+            volume1: 0n,
+            fees0: 0n,
+            fees1: 0n,
+            sqrtPriceX96: initialize.sqrtPriceX96,
+            tick: initialize.tick,
+            liquidity: 0n,
+        };
+
+        for (const event of this.events) {
+            if (event.address !== address) {
+                continue;
+            }
+            if (event.type === 'Mint') {
+                stats.liquidity += event.liquidity;
+            } else if (event.type === 'Burn') {
+                stats.liquidity -= event.liquidity;
+            } else if (event.type === 'Swap') {
+                const zeroForOne = event.amount0 > 0n;
+                // 交易者支付的 token 减去价格从 sqrtPriceX96 移动到新价格所需的 token 就是手续费
+                // 和 SwapMath.computeSwapStep 中 amountIn 向上取整的计算方式一致
+                if (zeroForOne) {
+                    const amountIn = SqrtPriceMath.getAmount0Delta(event.sqrtPriceX96, stats.sqrtPriceX96, event.liquidity, true);
+                    stats.fees0 += event.amount0 - amountIn;
+                } else if (event.amount1 > 0n) {
+                    const amountIn = SqrtPriceMath.getAmount1Delta(stats.sqrtPriceX96, event.sqrtPriceX96, event.liquidity, true);
+                    stats.fees1 += event.amount1 - amountIn;
+                }
+                stats.swapCount++;
+                stats.volume0 += event.amount0 < 0n ? -event.amount0 : event.amount0;
+                stats.volume1 += event.amount1 < 0n ? -event.amount1 : event.amount1;
+                stats.sqrtPriceX96 = event.sqrtPriceX96;
+                stats.tick = event.tick;
+            }
+        }
+        return stats;
+    }
+
+    /**
+     * 统计 PositionManager 的 position，需要在构造时传入 positionManager
+     * Pool 中的 position 都属于 PositionManager，新 position 通过同一笔交易中 PositionManager 在 Pool 中的 Mint 对应到池子
+     */
+    getPositions(owner?: `0x${string}`): PositionPnL[] {
+        if (!this.positionManager) {
+            throw new Error('positionManager is required to index positions');
+        }
+        const positions = new Map<bigint, PositionPnL>();
+        const owners = new Map<bigint, `0x${string}`>();
+
+        // 同一笔交易中紧挨着的 Pool Mint，mint 时 Pool 的事件在 PositionManager 的事件之前
+        const findPoolMint = (transactionHash: `0x${string}`, logIndex: number) =>
+            this.events
+                .filter(
+                    (event): event is MintEvent =>
+                        event.type === 'Mint' &&
+                        event.transactionHash === transactionHash &&
+                        event.logIndex < logIndex &&
+                        event.owner === this.positionManager
+                )
+                .pop();
+
+        for (const event of this.events) {
+            if (event.type === 'Transfer') {
+                // burn 时 NFT 被销毁，保留销毁前的持有者
+                if (event.to !== zeroAddress) {
+                    owners.set(event.tokenId, event.to);
+                }
+                continue;
+            }
+            if (event.type !== 'IncreaseLiquidity' && event.type !== 'DecreaseLiquidity' && event.type !== 'PositionCollect') {
+                continue;
+            }
+
+            const position = positions.get(event.tokenId);
+            if (event.type === 'IncreaseLiquidity') {
+                if (position) {
+                    position.liquidity += event.liquidity;
+                    position.deposited0 += event.amount0;
+                    position.deposited1 += event.amount1;
+                    continue;
+                }
+                const mint = findPoolMint(event.transactionHash, event.logIndex);
+                if (!mint) {
+                    continue;
+                }
+                positions.set(event.tokenId, {
+                    positionId: event.tokenId,
+                    pool: mint.address,
+                    owner: zeroAddress,
+                    liquidity: event.liquidity,
+                    deposited0: event.amount0,
+                    deposited1: event.amount1,
+                    withdrawn0: 0n,
+                    withdrawn1: 0n,
+                    collected0: 0n,
+                    collected1: 0n,
+                    fees0: 0n,
+                    fees1: 0n,
+                    amount0: 0n,
+                    amount1: 0n,
+                    pnl1: 0n,
+                });
+                continue;
+            }
+
+            if (!position) {
+                continue;
+            }
+            if (event.type === 'DecreaseLiquidity') {
+                position.liquidity -= event.liquidity;
+                position.withdrawn0 += event.amount0;
+                position.withdrawn1 += event.amount1;
+            } else {
+                position.collected0 += event.amount0;
+                position.collected1 += event.amount1;
+            }
+        }
+
+        const result: PositionPnL[] = [];
+        for (const position of positions.values()) {
+            position.owner = owners.get(position.positionId) ?? zeroAddress;
+            if (owner && position.owner !== getAddress(owner)) {
+                continue;
+            }
+
+            const created = this.getPoolCreated(position.pool);
+            const stats = this.getPoolStats(position.pool);
+            // mint 之前池子一定已经初始化，这里只是防御
+            if (!stats) {
+                continue;
+            }
+            const { sqrtPriceX96 } = stats;
+            const sqrtLower = TickMath.getSqrtPriceAtTick(created.tickLower);
+            const sqrtUpper = TickMath.getSqrtPriceAtTick(created.tickUpper);
+            // 当前价格在区间内时两种 token 都有，在区间外时只有一种
+            const sqrtCurrent = sqrtPriceX96 < sqrtLower ? sqrtLower : sqrtPriceX96 > sqrtUpper ? sqrtUpper : sqrtPriceX96;
+            position.amount0 = SqrtPriceMath.getAmount0Delta(sqrtCurrent, sqrtUpper, position.liquidity, false);
+            position.amount1 = SqrtPriceMath.getAmount1Delta(sqrtLower, sqrtCurrent, position.liquidity, false);
+
+            // collect 取回的是 decreaseLiquidity 退出的本金加上手续费，还没有 collect 时本金仍然欠着 LP
+            const collectedOrOwed0 = position.collected0 > position.withdrawn0 ? position.collected0 : position.withdrawn0;
+            const collectedOrOwed1 = position.collected1 > position.withdrawn1 ? position.collected1 : position.withdrawn1;
+            position.fees0 = collectedOrOwed0 - position.withdrawn0;
+            position.fees1 = collectedOrOwed1 - position.withdrawn1;
+
+            const value0 = position.amount0 + collectedOrOwed0 - position.deposited0;
+            const value1 = position.amount1 + collectedOrOwed1 - position.deposited1;
+            position.pnl1 = value1 + (value0 < 0n ? -toToken1(-value0, sqrtPriceX96) : toToken1(value0, sqrtPriceX96));
+            result.push(position);
+        }
+        return result;
+    }
+
+    getPosition(positionId: bigint): PositionPnL | undefined {
+        return this.getPositions().find((position) => position.positionId === positionId);
+    }
+}
@@ -0,0 +1,165 @@
+import fs from 'fs';
+import path from 'path';
+
+// 索引器保存的状态格式的版本，格式有不兼容的修改时加 1
+export const INDEXER_STATE_VERSION = 3;
+
+interface EventMeta {
+    blockNumber: number;
+    blockHash: `0x${string}`;
+    transactionHash: `0x${string}`;
+    logIndex: number;
+    timestamp: number;
+    // 发出事件的合约地址
+    address: `0x${string}`;
+}
+
+export interface PoolCreatedEvent extends EventMeta {
+    type: 'PoolCreated';
+    pool: `0x${string}`;
+    token0: `0x${string}`;
+    token1: `0x${string}`;
+    index: number;
+    fee: number;
+    tickLower: number;
+    tickUpper: number;
+}
+
+// Pool 的 Initialize，通过 Factory.createPool 创建的池子可能在之后的区块才初始化，在此之前池子没有价格
+export interface InitializeEvent extends EventMeta {
+    type: 'Initialize';
+    sqrtPriceX96: bigint;
+    tick: number;
+}
+
+export interface MintEvent extends EventMeta {
+    type: 'Mint';
+    owner: `0x${string}`;
+    liquidity: bigint;
+    amount0: bigint;
+    amount1: bigint;
+}
+
+export interface BurnEvent extends EventMeta {
+    type: 'Burn';
+    owner: `0x${string}`;
+    liquidity: bigint;
+    amount0: bigint;
+    amount1: bigint;
+}
+
+export interface CollectEvent extends EventMeta {
+    type: 'Collect';
+    owner: `0x${string}`;
+    recipient: `0x${string}`;
+    amount0: bigint;
+    amount1: bigint;
+}
+
+export interface SwapEvent extends EventMeta {
+    type: 'Swap';
+    sender: `0x${string}`;
+    recipient: `0x${string}`;
+    amount0: bigint;
+    amount1: bigint;
+    sqrtPriceX96: bigint;
+    liquidity: bigint;
+    tick: number;
+}
+
+// PositionManager 的 IncreaseLiquidity 和 DecreaseLiquidity，mint 新的 position 时也会触发 IncreaseLiquidity
+export interface LiquidityEvent extends EventMeta {
+    type: 'IncreaseLiquidity' | 'DecreaseLiquidity';
+    tokenId: bigint;
+    liquidity: bigint;
+    amount0: bigint;
+    amount1: bigint;
+}
+
+// PositionManager 的 Collect，和 Pool 的 Collect 区分开
+export interface PositionCollectEvent extends EventMeta {
+    type: 'PositionCollect';
+    tokenId: bigint;
+    recipient: `0x${string}`;
+    amount0: bigint;
+    amount1: bigint;
+}
+
+// PositionManager 的 NFT 转账
+export interface TransferEvent extends EventMeta {
+    type: 'Transfer';
+    from: `0x${string}`;
+    to: `0x${string}`;
+    tokenId: bigint;
+}
+
+export type IndexedEvent =
+    | PoolCreatedEvent
+    | InitializeEvent
+    | MintEvent
+    | BurnEvent
+    | CollectEvent
+    | SwapEvent
+    | LiquidityEvent
+    | PositionCollectEvent
+    | TransferEvent;
+
+export interface IndexerState {
+    version: number;
+    chainId: number;
+    poolManager: `0x${string}`;
+    positionManager?: `0x${string}`;
+    // 已经处理完的最后一个区块，null 表示还没有开始
+    cursor: number | null;
+    cursorHash: `0x${string}` | null;
+    // 按 (blockNumber, logIndex) 排序
+    events: IndexedEvent[];
+}
+
+export interface IndexerStore {
+    load(): IndexerState | undefined;
+    save(state: IndexerState): void;
+}
+
+/**
+ * 保存在内存中，进程退出后就没有了，用于测试或者一次性的统计
+ */
+export class MemoryIndexerStore implements IndexerStore {
+    private state?: IndexerState;
+
+    load(): IndexerState | undefined {
+        return this.state && structuredClone(this.state);
+    }
+
+    save(state: IndexerState): void {
+        this.state = structuredClone(state);
+    }
+}
+
+/**
+ * 保存到 JSON 文件，bigint 保存成以 n 结尾的字符串
+ */
+export class JsonIndexerStore implements IndexerStore {
+    constructor(readonly file: string) {}
+
+    load(): IndexerState | undefined {
+        if (!fs.existsSync(this.file)) {
+            return undefined;
+        }
+        const state: IndexerState = JSON.parse(fs.readFileSync(this.file, 'utf8'), (_, value) =>
+            typeof value === 'string' && /^-?\d+n$/.test(value) ? BigInt(value.slice(0, -1)) : value
+        );
+        if (state.version !== INDEXER_STATE_VERSION) {
+            throw new Error(`Unsupported indexer state version ${state.version} in ${this.file}`);
+        }
+        return state;
+    }
+
+    save(state: IndexerState): void {
+        fs.mkdirSync(path.dirname(this.file), { recursive: true });
+        // 先写临时文件再重命名，避免写到一半时进程退出导致文件损坏
+        const tmp = `${this.file}.tmp`;
+        fs.writeFileSync(tmp, JSON.stringify(state, (_, value) => (typeof value === 'bigint' ? `${value}n` : value)));
+        fs.renameSync(tmp, this.file);
+    }
+}
@@ -0,0 +1,83 @@
+import { LiquidityAmounts, SqrtPriceMath, TickMath } from './math';
+import { sqrt } from './price';
+
+// 计算 PositionManager.mint 需要的数量，Pool 的字段可以直接传入 getAllPools 的返回值
+export interface PoolRange {
+    sqrtPriceX96: bigint;
+    tickLower: number;
+    tickUpper: number;
+}
+
+export interface MintAmounts {
+    liquidity: bigint;
+    // 实际会转入 Pool 的 token 数量
+    amount0: bigint;
+    amount1: bigint;
+}
+
+export interface MintAmountsWithSlippage extends MintAmounts {
+    // 作为 MintParams 的 amount0Min 和 amount1Min 传入
+    amount0Min: bigint;
+    amount1Min: bigint;
+}
+
+/**
+ * 按给定价格模拟 PositionManager.mint，计算结果和合约一致
+ */
+export function getMintAmounts(pool: PoolRange, amount0Desired: bigint, amount1Desired: bigint): MintAmounts {
+    const sqrtRatioAX96 = TickMath.getSqrtPriceAtTick(pool.tickLower);
+    const sqrtRatioBX96 = TickMath.getSqrtPriceAtTick(pool.tickUpper);
+    const liquidity = LiquidityAmounts.getLiquidityForAmounts(
+        pool.sqrtPriceX96,
+        sqrtRatioAX96,
+        sqrtRatioBX96,
+        amount0Desired,
+        amount1Desired
+    );
+    // 和 Pool.mint 一样向上取整
+    return {
+        liquidity,
+        amount0: SqrtPriceMath.getAmount0Delta(pool.sqrtPriceX96, sqrtRatioBX96, liquidity, true),
+        amount1: SqrtPriceMath.getAmount1Delta(sqrtRatioAX96, pool.sqrtPriceX96, liquidity, true),
+    };
+}
+
+/**
+ * 根据滑点计算 mint 的 amount0Min 和 amount1Min
+ * 交易只能让价格在 [tickLower, tickUpper] 中移动，价格越高存入的 token0 越少、token1 越多，
+ * 所以分别在价格上涨和下跌 slippageBips 时模拟 mint，取两种 token 各自的最小值
+ * @param slippageBips 允许的价格变动，单位是万分之一，例如 50 代表 0.5%
+ */
+export function getMintAmountsWithSlippage(
+    pool: PoolRange,
+    amount0Desired: bigint,
+    amount1Desired: bigint,
+    slippageBips: bigint
+): MintAmountsWithSlippage {
+    if (slippageBips < 0n || slippageBips >= 10000n) {
+        throw new Error(`invalid slippage: ${slippageBips}`);
+    }
+    const sqrtRatioAX96 = TickMath.getSqrtPriceAtTick(pool.tickLower);
+    const sqrtRatioBX96 = TickMath.getSqrtPriceAtTick(pool.tickUpper);
+    // 价格是 sqrtPriceX96 的平方，价格变动 slippage 对应 sqrtPriceX96 变动 sqrt(1 ± slippage)
+    const priceX192 = pool.sqrtPriceX96 * pool.sqrtPriceX96;
+    const sqrtPriceLowerX96 = sqrt((priceX192 * (10000n - slippageBips)) / 10000n);
+    const sqrtPriceUpperX96 = sqrt((priceX192 * (10000n + slippageBips)) / 10000n);
+
+    const lower = getMintAmounts(
+        { ...pool, sqrtPriceX96: sqrtPriceLowerX96 > sqrtRatioAX96 ? sqrtPriceLowerX96 : sqrtRatioAX96 },
+        amount0Desired,
+        amount1Desired
+    );
+    const upper = getMintAmounts(
+        { ...pool, sqrtPriceX96: sqrtPriceUpperX96 < sqrtRatioBX96 ? sqrtPriceUpperX96 : sqrtRatioBX96 },
+        amount0Desired,
+        amount1Desired
+    );
+
+    return {
+        ...getMintAmounts(pool, amount0Desired, amount1Desired),
+        amount0Min: lower.amount0 < upper.amount0 ? lower.amount0 : upper.amount0,
+        amount1Min: lower.amount1 < upper.amount1 ? lower.amount1 : upper.amount1,
+    };
+}
@@ -0,0 +1,405 @@
+// contracts/wtfswap/libraries 中数学库的 bigint 移植版本
+// 计算结果和合约逐位一致，合约中会 revert 的情况在这里会抛出 MathError
+
+export const Q96 = 2n ** 96n;
+export const Q128 = 2n ** 128n;
+export const MAX_UINT128 = 2n ** 128n - 1n;
+export const MAX_UINT160 = 2n ** 160n - 1n;
+export const MAX_UINT256 = 2n ** 256n - 1n;
+
+export class MathError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MathError';
+    }
+}
+
+function check(condition: boolean, message: string): void {
+    if (!condition) {
+        throw new MathError(message);
+    }
+}
+
+// Solidity 0.8 的 checked 运算，溢出时 revert
+function checkedUint256(value: bigint, message: string): bigint {
+    check(value >= 0n && value <= MAX_UINT256, message);
+    return value;
+}
+
+export function toUint128(value: bigint): bigint {
+    check(value >= 0n && value <= MAX_UINT128, 'toUint128');
+    return value;
+}
+
+export function toUint160(value: bigint): bigint {
+    check(value >= 0n && value <= MAX_UINT160, 'toUint160');
+    return value;
+}
+
+export function toInt256(value: bigint): bigint {
+    check(value >= 0n && value < 2n ** 255n, 'toInt256');
+    return value;
+}
+
+export const UnsafeMath = {
+    // 与合约一致，除数为 0 时返回 0（EVM 的 div 语义）
+    divRoundingUp(x: bigint, y: bigint): bigint {
+        if (y === 0n) {
+            return 0n;
+        }
+        return x / y + (x % y > 0n ? 1n : 0n);
+    },
+};
+
+export const FullMath = {
+    mulDiv(a: bigint, b: bigint, denominator: bigint): bigint {
+        check(denominator > 0n, 'mulDiv: denominator');
+        const result = (a * b) / denominator;
+        check(result <= MAX_UINT256, 'mulDiv: overflow');
+        return result;
+    },
+
+    mulDivRoundingUp(a: bigint, b: bigint, denominator: bigint): bigint {
+        let result = FullMath.mulDiv(a, b, denominator);
+        if ((a * b) % denominator !== 0n) {
+            result += 1n;
+            check(result <= MAX_UINT256, 'mulDivRoundingUp: overflow');
+        }
+        return result;
+    },
+};
+
+export const BitMath = {
+    mostSignificantBit(x: bigint): number {
+        check(x > 0n, 'mostSignificantBit');
+        return x.toString(2).length - 1;
+    },
+};
+
+export const TickMath = {
+    MIN_TICK: -887272,
+    MAX_TICK: 887272,
+    MIN_SQRT_PRICE: 4295128739n,
+    MAX_SQRT_PRICE: 1461446703485210103287273052203988822378723970342n,
+
+    getSqrtPriceAtTick(tick: number): bigint {
+        const absTick = BigInt(Math.abs(tick));
+        check(absTick <= BigInt(TickMath.MAX_TICK), `InvalidTick(${tick})`);
+
+        let price =
+            (absTick & 0x1n) !== 0n
+                ? 0xfffcb933bd6fad37aa2d162d1a594001n
+                : 0x100000000000000000000000000000000n;
+        const factors: [bigint, bigint][] = [
+            [0x2n, 0xfff97272373d413259a46990580e213an],
+            [0x4n, 0xfff2e50f5f656932ef12357cf3c7fdccn],
+            [0x8n, 0xffe5caca7e10e4e61c3624eaa0941cd0n],
+            [0x10n, 0xffcb9843d60f6159c9db58835c926644n],
+            [0x20n, 0xff973b41fa98c081472e6896dfb254c0n],
+            [0x40n, 0xff2ea16466c96a3843ec78b326b52861n],
+            [0x80n, 0xfe5dee046a99a2a811c461f1969c3053n],
+            [0x100n, 0xfcbe86c7900a88aedcffc83b479aa3a4n],
+            [0x200n, 0xf987a7253ac413176f2b074cf7815e54n],
+            [0x400n, 0xf3392b0822b70005940c7a398e4b70f3n],
+            [0x800n, 0xe7159475a2c29b7443b29c7fa6e889d9n],
+            [0x1000n, 0xd097f3bdfd2022b8845ad8f792aa5825n],
+            [0x2000n, 0xa9f746462d870fdf8a65dc1f90e061e5n],
+            [0x4000n, 0x70d869a156d2a1b890bb3df62baf32f7n],
+            [0x8000n, 0x31be135f97d08fd981231505542fcfa6n],
+            [0x10000n, 0x9aa508b5b7a84e1c677de54f3e99bc9n],
+            [0x20000n, 0x5d6af8dedb81196699c329225ee604n],
+            [0x40000n, 0x2216e584f5fa1ea926041bedfe98n],
+            [0x80000n, 0x48a170391f7dc42444e8fa2n],
+        ];
+        for (const [mask, factor] of factors) {
+            if ((absTick & mask) !== 0n) {
+                price = (price * factor) >> 128n;
+            }
+        }
+
+        if (tick > 0) {
+            price = MAX_UINT256 / price;
+        }
+
+        // Q128.128 转换成 Q64.96，向上取整
+        return (price + (2n ** 32n - 1n)) >> 32n;
+    },
+
+    getTickAtSqrtPrice(sqrtPriceX96: bigint): number {
+        check(
+            sqrtPriceX96 >= TickMath.MIN_SQRT_PRICE &&
+                sqrtPriceX96 < TickMath.MAX_SQRT_PRICE,
+            `InvalidSqrtPrice(${sqrtPriceX96})`
+        );
+
+        const price = sqrtPriceX96 << 32n;
+        const msb = BitMath.mostSignificantBit(price);
+
+        let r = msb >= 128 ? price >> BigInt(msb - 127) : price << BigInt(127 - msb);
+        let log2 = (BigInt(msb) - 128n) << 64n;
+
+        for (let shift = 63n; shift >= 50n; shift--) {
+            r = (r * r) >> 127n;
+            const f = r >> 128n;
+            log2 = log2 | (f << shift);
+            r = r >> f;
+        }
+
+        const logSqrt10001 = log2 * 255738958999603826347141n;
+
+        const tickLow = Number(
+            (logSqrt10001 - 3402992956809132418596140100660247210n) >> 128n
+        );
+        const tickHi = Number(
+            (logSqrt10001 + 291339464771989622907027621153398088495n) >> 128n
+        );
+
+        return tickLow === tickHi
+            ? tickLow
+            : TickMath.getSqrtPriceAtTick(tickHi) <= sqrtPriceX96
+              ? tickHi
+              : tickLow;
+    },
+};
+
+export const SqrtPriceMath = {
+    getNextSqrtPriceFromAmount0RoundingUp(
+        sqrtPX96: bigint,
+        liquidity: bigint,
+        amount: bigint,
+        add: boolean
+    ): bigint {
+        if (amount === 0n) {
+            return sqrtPX96;
+        }
+        const numerator1 = liquidity << 96n;
+        const product = checkedUint256(amount * sqrtPX96, 'getNextSqrtPriceFromAmount0RoundingUp');
+
+        if (add) {
+            const denominator = checkedUint256(numerator1 + product, 'getNextSqrtPriceFromAmount0RoundingUp');
+            return FullMath.mulDivRoundingUp(numerator1, sqrtPX96, denominator) & MAX_UINT160;
+        }
+
+        check(numerator1 > product, 'getNextSqrtPriceFromAmount0RoundingUp');
+        const denominator = numerator1 - product;
+        return toUint160(FullMath.mulDivRoundingUp(numerator1, sqrtPX96, denominator));
+    },
+
+    getNextSqrtPriceFromAmount1RoundingDown(
+        sqrtPX96: bigint,
+        liquidity: bigint,
+        amount: bigint,
+        add: boolean
+    ): bigint {
+        if (add) {
+            const quotient =
+                amount <= MAX_UINT160
+                    ? (amount << 96n) / liquidity
+                    : FullMath.mulDiv(amount, Q96, liquidity);
+            return toUint160(checkedUint256(sqrtPX96 + quotient, 'getNextSqrtPriceFromAmount1RoundingDown'));
+        }
+
+        const quotient =
+            amount <= MAX_UINT160
+                ? UnsafeMath.divRoundingUp(amount << 96n, liquidity)
+                : FullMath.mulDivRoundingUp(amount, Q96, liquidity);
+        check(sqrtPX96 > quotient, 'getNextSqrtPriceFromAmount1RoundingDown');
+        return sqrtPX96 - quotient;
+    },
+
+    getNextSqrtPriceFromInput(
+        sqrtPX96: bigint,
+        liquidity: bigint,
+        amountIn: bigint,
+        zeroForOne: boolean
+    ): bigint {
+        check(sqrtPX96 > 0n, 'getNextSqrtPriceFromInput: sqrtPX96');
+        check(liquidity > 0n, 'getNextSqrtPriceFromInput: liquidity');
+
+        return zeroForOne
+            ? SqrtPriceMath.getNextSqrtPriceFromAmount0RoundingUp(sqrtPX96, liquidity, amountIn, true)
+            : SqrtPriceMath.getNextSqrtPriceFromAmount1RoundingDown(sqrtPX96, liquidity, amountIn, true);
+    },
+
+    getNextSqrtPriceFromOutput(
+        sqrtPX96: bigint,
+        liquidity: bigint,
+        amountOut: bigint,
+        zeroForOne: boolean
+    ): bigint {
+        check(sqrtPX96 > 0n, 'getNextSqrtPriceFromOutput: sqrtPX96');
+        check(liquidity > 0n, 'getNextSqrtPriceFromOutput: liquidity');
+
+        return zeroForOne
+            ? SqrtPriceMath.getNextSqrtPriceFromAmount1RoundingDown(sqrtPX96, liquidity, amountOut, false)
+            : SqrtPriceMath.getNextSqrtPriceFromAmount0RoundingUp(sqrtPX96, liquidity, amountOut, false);
+    },
+
+    getAmount0Delta(
+        sqrtRatioAX96: bigint,
+        sqrtRatioBX96: bigint,
+        liquidity: bigint,
+        roundUp: boolean
+    ): bigint {
+        if (sqrtRatioAX96 > sqrtRatioBX96) {
+            [sqrtRatioAX96, sqrtRatioBX96] = [sqrtRatioBX96, sqrtRatioAX96];
+        }
+
+        const numerator1 = liquidity << 96n;
+        const numerator2 = sqrtRatioBX96 - sqrtRatioAX96;
+
+        check(sqrtRatioAX96 > 0n, 'getAmount0Delta');
+
+        return roundUp
+            ? UnsafeMath.divRoundingUp(
+                  FullMath.mulDivRoundingUp(numerator1, numerator2, sqrtRatioBX96),
+                  sqrtRatioAX96
+              )
+            : FullMath.mulDiv(numerator1, numerator2, sqrtRatioBX96) / sqrtRatioAX96;
+    },
+
+    getAmount1Delta(
+        sqrtRatioAX96: bigint,
+        sqrtRatioBX96: bigint,
+        liquidity: bigint,
+        roundUp: boolean
+    ): bigint {
+        if (sqrtRatioAX96 > sqrtRatioBX96) {
+            [sqrtRatioAX96, sqrtRatioBX96] = [sqrtRatioBX96, sqrtRatioAX96];
+        }
+
+        return roundUp
+            ? FullMath.mulDivRoundingUp(liquidity, sqrtRatioBX96 - sqrtRatioAX96, Q96)
+            : FullMath.mulDiv(liquidity, sqrtRatioBX96 - sqrtRatioAX96, Q96);
+    },
+};
+
+export interface SwapStep {
+    sqrtRatioNextX96: bigint;
+    amountIn: bigint;
+    amountOut: bigint;
+    feeAmount: bigint;
+}
+
+export const SwapMath = {
+    computeSwapStep(
+        sqrtRatioCurrentX96: bigint,
+        sqrtRatioTargetX96: bigint,
+        liquidity: bigint,
+        amountRemaining: bigint,
+        feePips: number
+    ): SwapStep {
+        const fee = BigInt(feePips);
+        const zeroForOne = sqrtRatioCurrentX96 >= sqrtRatioTargetX96;
+        const exactIn = amountRemaining >= 0n;
+
+        let sqrtRatioNextX96: bigint;
+        let amountIn = 0n;
+        let amountOut = 0n;
+        let feeAmount: bigint;
+
+        if (exactIn) {
+            const amountRemainingLessFee = FullMath.mulDiv(amountRemaining, 1000000n - fee, 1000000n);
+            amountIn = zeroForOne
+                ? SqrtPriceMath.getAmount0Delta(sqrtRatioTargetX96, sqrtRatioCurrentX96, liquidity, true)
+                : SqrtPriceMath.getAmount1Delta(sqrtRatioCurrentX96, sqrtRatioTargetX96, liquidity, true);
+            sqrtRatioNextX96 =
+                amountRemainingLessFee >= amountIn
+                    ? sqrtRatioTargetX96
+                    : SqrtPriceMath.getNextSqrtPriceFromInput(
+                          sqrtRatioCurrentX96,
+                          liquidity,
+                          amountRemainingLessFee,
+                          zeroForOne
+                      );
+        } else {
+            amountOut = zeroForOne
+                ? SqrtPriceMath.getAmount1Delta(sqrtRatioTargetX96, sqrtRatioCurrentX96, liquidity, false)
+                : SqrtPriceMath.getAmount0Delta(sqrtRatioCurrentX96, sqrtRatioTargetX96, liquidity, false);
+            sqrtRatioNextX96 =
+                -amountRemaining >= amountOut
+                    ? sqrtRatioTargetX96
+                    : SqrtPriceMath.getNextSqrtPriceFromOutput(
+                          sqrtRatioCurrentX96,
+                          liquidity,
+                          -amountRemaining,
+                          zeroForOne
+                      );
+        }
+
+        const max = sqrtRatioTargetX96 === sqrtRatioNextX96;
+
+        if (zeroForOne) {
+            amountIn =
+                max && exactIn
+                    ? amountIn
+                    : SqrtPriceMath.getAmount0Delta(sqrtRatioNextX96, sqrtRatioCurrentX96, liquidity, true);
+            amountOut =
+                max && !exactIn
+                    ? amountOut
+                    : SqrtPriceMath.getAmount1Delta(sqrtRatioNextX96, sqrtRatioCurrentX96, liquidity, false);
+        } else {
+            amountIn =
+                max && exactIn
+                    ? amountIn
+                    : SqrtPriceMath.getAmount1Delta(sqrtRatioCurrentX96, sqrtRatioNextX96, liquidity, true);
+            amountOut =
+                max && !exactIn
+                    ? amountOut
+                    : SqrtPriceMath.getAmount0Delta(sqrtRatioCurrentX96, sqrtRatioNextX96, liquidity, false);
+        }
+
+        // 输出数量不能超过剩余需要输出的数量
+        if (!exactIn && amountOut > -amountRemaining) {
+            amountOut = -amountRemaining;
+        }
+
+        if (exactIn && sqrtRatioNextX96 !== sqrtRatioTargetX96) {
+            // 没有到达目标价格，剩余的输入全部作为手续费
+            feeAmount = checkedUint256(amountRemaining - amountIn, 'computeSwapStep: feeAmount');
+        } else {
+            feeAmount = FullMath.mulDivRoundingUp(amountIn, fee, 1000000n - fee);
+        }
+
+        return { sqrtRatioNextX96, amountIn, amountOut, feeAmount };
+    },
+};
+
+export const LiquidityAmounts = {
+    getLiquidityForAmount0(sqrtRatioAX96: bigint, sqrtRatioBX96: bigint, amount0: bigint): bigint {
+        if (sqrtRatioAX96 > sqrtRatioBX96) {
+            [sqrtRatioAX96, sqrtRatioBX96] = [sqrtRatioBX96, sqrtRatioAX96];
+        }
+        const intermediate = FullMath.mulDiv(sqrtRatioAX96, sqrtRatioBX96, Q96);
+        return toUint128(FullMath.mulDiv(amount0, intermediate, sqrtRatioBX96 - sqrtRatioAX96));
+    },
+
+    getLiquidityForAmount1(sqrtRatioAX96: bigint, sqrtRatioBX96: bigint, amount1: bigint): bigint {
+        if (sqrtRatioAX96 > sqrtRatioBX96) {
+            [sqrtRatioAX96, sqrtRatioBX96] = [sqrtRatioBX96, sqrtRatioAX96];
+        }
+        return toUint128(FullMath.mulDiv(amount1, Q96, sqrtRatioBX96 - sqrtRatioAX96));
+    },
+
+    getLiquidityForAmounts(
+        sqrtRatioX96: bigint,
+        sqrtRatioAX96: bigint,
+        sqrtRatioBX96: bigint,
+        amount0: bigint,
+        amount1: bigint
+    ): bigint {
+        if (sqrtRatioAX96 > sqrtRatioBX96) {
+            [sqrtRatioAX96, sqrtRatioBX96] = [sqrtRatioBX96, sqrtRatioAX96];
+        }
+
+        if (sqrtRatioX96 <= sqrtRatioAX96) {
+            return LiquidityAmounts.getLiquidityForAmount0(sqrtRatioAX96, sqrtRatioBX96, amount0);
+        }
+        if (sqrtRatioX96 < sqrtRatioBX96) {
+            const liquidity0 = LiquidityAmounts.getLiquidityForAmount0(sqrtRatioX96, sqrtRatioBX96, amount0);
+            const liquidity1 = LiquidityAmounts.getLiquidityForAmount1(sqrtRatioAX96, sqrtRatioX96, amount1);
+            return liquidity0 < liquidity1 ? liquidity0 : liquidity1;
+        }
+        return LiquidityAmounts.getLiquidityForAmount1(sqrtRatioAX96, sqrtRatioBX96, amount1);
+    },
+};
@@ -0,0 +1,97 @@
+import { TickMath } from './math';
+import { tickToPrice } from './price';
+
+// Pool.observe 返回的是累计值，两个时间点的累计值相减再除以时间间隔，就是这段时间的平均值（TWAP）
+// 对应 Uniswap V3 periphery 中的 OracleLibrary.consult
+
+// 只依赖 observe 方法，可以传入 hre.viem.getContractAt 或者 viem getContract 返回的 Pool 实例
+interface PoolOracleReader {
+    read: {
+        observe(
+            args: readonly [readonly number[]],
+            options?: { blockNumber?: bigint }
+        ): Promise<readonly [readonly bigint[], readonly bigint[]]>;
+    };
+}
+
+export interface TwapResult {
+    // 时间加权的算术平均 tick，向负无穷取整
+    arithmeticMeanTick: number;
+    // 时间加权的调和平均流动性
+    harmonicMeanLiquidity: bigint;
+    // arithmeticMeanTick 对应的价格
+    sqrtPriceX96: bigint;
+}
+
+export interface ConsultOptions {
+    // 在这个区块高度上查询，不传时使用最新区块
+    blockNumber?: bigint;
+}
+
+/**
+ * 根据两个时间点的 tickCumulative 计算平均 tick，和 OracleLibrary.consult 一样向负无穷取整
+ */
+export function getArithmeticMeanTick(tickCumulativeStart: bigint, tickCumulativeEnd: bigint, seconds: number): number {
+    if (seconds <= 0) {
+        throw new Error(`invalid period: ${seconds}`);
+    }
+    const delta = tickCumulativeEnd - tickCumulativeStart;
+    const period = BigInt(seconds);
+    let tick = delta / period;
+    if (delta < 0n && delta % period !== 0n) {
+        tick--;
+    }
+    return Number(tick);
+}
+
+/**
+ * 根据两个时间点的 secondsPerLiquidityCumulativeX128 计算调和平均流动性
+ */
+export function getHarmonicMeanLiquidity(
+    secondsPerLiquidityCumulativeStartX128: bigint,
+    secondsPerLiquidityCumulativeEndX128: bigint,
+    seconds: number
+): bigint {
+    // 累计值是 uint160，允许溢出
+    const delta = (secondsPerLiquidityCumulativeEndX128 - secondsPerLiquidityCumulativeStartX128) & (2n ** 160n - 1n);
+    if (delta === 0n) {
+        return 0n;
+    }
+    return (BigInt(seconds) << 128n) / delta;
+}
+
+/**
+ * 查询 Pool 过去 secondsAgo 秒的 TWAP，secondsAgo 超过最老的 observation 时合约会 revert "OLD"
+ */
+export async function consult(pool: PoolOracleReader, secondsAgo: number, options: ConsultOptions = {}): Promise<TwapResult> {
+    if (secondsAgo <= 0) {
+        throw new Error(`invalid period: ${secondsAgo}`);
+    }
+    const [tickCumulatives, secondsPerLiquidityCumulativeX128s] = await pool.read.observe([[secondsAgo, 0]], {
+        blockNumber: options.blockNumber,
+    });
+    const arithmeticMeanTick = getArithmeticMeanTick(tickCumulatives[0], tickCumulatives[1], secondsAgo);
+    return {
+        arithmeticMeanTick,
+        harmonicMeanLiquidity: getHarmonicMeanLiquidity(
+            secondsPerLiquidityCumulativeX128s[0],
+            secondsPerLiquidityCumulativeX128s[1],
+            secondsAgo
+        ),
+        sqrtPriceX96: TickMath.getSqrtPriceAtTick(arithmeticMeanTick),
+    };
+}
+
+/**
+ * 查询 Pool 过去 secondsAgo 秒的平均价格，返回人类可读的 token1/token0 价格
+ */
+export async function getTwapPrice(
+    pool: PoolOracleReader,
+    secondsAgo: number,
+    decimals0: number,
+    decimals1: number,
+    options: ConsultOptions = {}
+): Promise<string> {
+    const { arithmeticMeanTick } = await consult(pool, secondsAgo, options);
+    return tickToPrice(arithmeticMeanTick, decimals0, decimals1);
+}
@@ -0,0 +1,80 @@
+// 合约的分页查询接口都是 (offset, limit)，返回的数量少于 limit 时说明已经到了最后一页
+
+export const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * 逐页调用 fetchPage，按顺序返回每一条结果
+ * 翻页期间有新的数据写入时，结果可能会有重复或者遗漏，需要一致性的话在同一个区块高度上查询
+ */
+export async function* paginate<T>(
+    fetchPage: (offset: bigint, limit: bigint) => Promise<readonly T[]>,
+    pageSize = DEFAULT_PAGE_SIZE
+): AsyncGenerator<T> {
+    if (pageSize <= 0) {
+        throw new Error(`invalid page size: ${pageSize}`);
+    }
+    const limit = BigInt(pageSize);
+    for (let offset = 0n; ; offset += limit) {
+        const page = await fetchPage(offset, limit);
+        yield* page;
+        if (page.length < pageSize) {
+            return;
+        }
+    }
+}
+
+// 只依赖需要的方法，可以传入 hre.viem.getContractAt 或者 viem getContract 返回的合约实例
+interface PoolManagerReader<T> {
+    read: {
+        getPools(args: readonly [bigint, bigint], options?: { blockNumber?: bigint }): Promise<readonly T[]>;
+    };
+}
+
+interface PositionManagerReader<T> {
+    read: {
+        getPositionsByOwner(
+            args: readonly [`0x${string}`, bigint, bigint],
+            options?: { blockNumber?: bigint }
+        ): Promise<readonly T[]>;
+    };
+}
+
+export interface PageOptions {
+    pageSize?: number;
+    // 所有的页都在这个区块高度上查询，不传时使用最新区块
+    blockNumber?: bigint;
+}
+
+/**
+ * 遍历 PoolManager.getPools 的全部池子
+ */
+export function iteratePools<T>(poolManager: PoolManagerReader<T>, options: PageOptions = {}): AsyncGenerator<T> {
+    const { pageSize, blockNumber } = options;
+    return paginate((offset, limit) => poolManager.read.getPools([offset, limit], { blockNumber }), pageSize);
+}
+
+/**
+ * 遍历 PositionManager.getPositionsByOwner 中 owner 持有的全部 position
+ */
+export function iteratePositionsByOwner<T>(
+    positionManager: PositionManagerReader<T>,
+    owner: `0x${string}`,
+    options: PageOptions = {}
+): AsyncGenerator<T> {
+    const { pageSize, blockNumber } = options;
+    return paginate(
+        (offset, limit) => positionManager.read.getPositionsByOwner([owner, offset, limit], { blockNumber }),
+        pageSize
+    );
+}
+
+/**
+ * 把异步迭代器的结果收集成数组
+ */
+export async function toArray<T>(iterator: AsyncIterable<T>): Promise<T[]> {
+    const result: T[] = [];
+    for await (const item of iterator) {
+        result.push(item);
+    }
+    return result;
+}
@@ -0,0 +1,97 @@
+import {
+    parseAbi,
+    parseSignature,
+    type Account,
+    type Chain,
+    type Hex,
+    type PublicClient,
+    type Transport,
+    type TypedDataDomain,
+    type WalletClient,
+} from 'viem';
+
+// EIP-2612 permit 的签名，配合 PositionManager 和 SwapRouter 的 selfPermit 使用，
+// 把 selfPermit 和 mint 或者交易放在同一个 multicall 中，就不需要单独的 approve 交易
+
+const permitTokenAbi = parseAbi([
+    'function nonces(address owner) view returns (uint256)',
+    'function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)',
+]);
+
+export const PERMIT_TYPES = {
+    Permit: [
+        { name: 'owner', type: 'address' },
+        { name: 'spender', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' },
+    ],
+} as const;
+
+export interface PermitMessage {
+    owner: `0x${string}`;
+    spender: `0x${string}`;
+    value: bigint;
+    nonce: bigint;
+    deadline: bigint;
+}
+
+export interface PermitSignature {
+    token: `0x${string}`;
+    value: bigint;
+    deadline: bigint;
+    v: number;
+    r: Hex;
+    s: Hex;
+}
+
+/**
+ * 构造 permit 的 EIP-712 typed data，可以直接传给 walletClient.signTypedData
+ */
+export function getPermitTypedData(domain: TypedDataDomain, message: PermitMessage) {
+    return {
+        domain,
+        types: PERMIT_TYPES,
+        primaryType: 'Permit' as const,
+        message,
+    };
+}
+
+/**
+ * 通过 ERC-5267 的 eip712Domain 读取 token 的 EIP-712 domain，OpenZeppelin 的 ERC20Permit 都实现了这个方法
+ */
+export async function getPermitDomain(publicClient: PublicClient, token: `0x${string}`): Promise<TypedDataDomain> {
+    const [, name, version, chainId, verifyingContract] = await publicClient.readContract({
+        address: token,
+        abi: permitTokenAbi,
+        functionName: 'eip712Domain',
+    });
+    return { name, version, chainId: Number(chainId), verifyingContract };
+}
+
+/**
+ * 用 walletClient 的账户签名，授权 spender 使用 value 数量的 token，nonce 从链上读取
+ * 返回值按 selfPermit(token, value, deadline, v, r, s) 的参数组织
+ */
+export async function signPermit(
+    publicClient: PublicClient,
+    walletClient: WalletClient<Transport, Chain, Account>,
+    token: `0x${string}`,
+    spender: `0x${string}`,
+    value: bigint,
+    deadline: bigint
+): Promise<PermitSignature> {
+    const owner = walletClient.account.address;
+    const [domain, nonce] = await Promise.all([
+        getPermitDomain(publicClient, token),
+        publicClient.readContract({ address: token, abi: permitTokenAbi, functionName: 'nonces', args: [owner] }),
+    ]);
+
+    const signature = await walletClient.signTypedData({
+        account: walletClient.account,
+        ...getPermitTypedData(domain, { owner, spender, value, nonce, deadline }),
+    });
+    const { r, s, v, yParity } = parseSignature(signature);
+    // 新的签名格式只返回 yParity，合约需要的 v 是 27 或 28
+    return { token, value, deadline, v: v !== undefined ? Number(v) : yParity + 27, r, s };
+}
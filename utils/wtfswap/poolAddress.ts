@@ -0,0 +1,59 @@
+import { encodeAbiParameters, getContractAddress, keccak256, parseAbiParameters, type Address, type Hex } from 'viem';
+
+// 对应合约中的 libraries/PoolAddress.sol：Pool 由 PoolDeployer 通过 CREATE2 创建，
+// 只要知道 PoolDeployer 的地址和 Pool 的 initcode 哈希，不需要查询链上就可以算出 Pool 的地址
+
+export interface PoolKey {
+    // token0 必须小于 token1，可以用 getPoolKey 排序
+    token0: Address;
+    token1: Address;
+    tickLower: number;
+    tickUpper: number;
+    fee: number;
+}
+
+/**
+ * 对 token 排序后返回 PoolKey
+ */
+export function getPoolKey(tokenA: Address, tokenB: Address, tickLower: number, tickUpper: number, fee: number): PoolKey {
+    const [token0, token1] = BigInt(tokenA) < BigInt(tokenB) ? [tokenA, tokenB] : [tokenB, tokenA];
+    return { token0, token1, tickLower, tickUpper, fee };
+}
+
+/**
+ * Factory 创建 Pool 时使用的 CREATE2 salt
+ */
+export function getPoolSalt(key: PoolKey): Hex {
+    return keccak256(
+        encodeAbiParameters(parseAbiParameters('address, address, int24, int24, uint24'), [
+            key.token0,
+            key.token1,
+            key.tickLower,
+            key.tickUpper,
+            key.fee,
+        ])
+    );
+}
+
+/**
+ * Pool 的 initcode 哈希，bytecode 是编译产物中 Pool 的 bytecode，链上可以通过 PoolDeployer.poolInitCodeHash 读取
+ */
+export function getPoolInitCodeHash(bytecode: Hex): Hex {
+    return keccak256(bytecode);
+}
+
+/**
+ * 计算 Pool 的地址，不检查 Pool 是否已经创建
+ * @param deployer PoolDeployer 的地址，可以通过 Factory.poolDeployer 读取
+ */
+export function computePoolAddress(deployer: Address, initCodeHash: Hex, key: PoolKey): Address {
+    if (BigInt(key.token0) >= BigInt(key.token1)) {
+        throw new Error('Unsorted tokens');
+    }
+    return getContractAddress({
+        opcode: 'CREATE2',
+        from: deployer,
+        salt: getPoolSalt(key),
+        bytecodeHash: initCodeHash,
+    });
+}
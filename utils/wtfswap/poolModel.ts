@@ -0,0 +1,165 @@
+import { FullMath, MAX_UINT128, MAX_UINT256, MathError, Q128, SqrtPriceMath, TickMath, toUint128 } from './math';
+import { PoolState, SwapParams, SwapResult, applySwap, simulateSwap } from './swapSimulator';
+
+// Pool 合约的链下参考模型，mint、burn、collect 和 swap 的计算结果和合约逐位一致
+// 合约中会 revert 的情况会抛出 MathError，可以用来和链上的结果互相校验
+
+// 字段顺序和 Pool.positions 的返回值一致
+export interface PositionState {
+    liquidity: bigint;
+    tokensOwed0: bigint;
+    tokensOwed1: bigint;
+    feeGrowthInside0LastX128: bigint;
+    feeGrowthInside1LastX128: bigint;
+}
+
+export interface TokenAmounts {
+    amount0: bigint;
+    amount1: bigint;
+}
+
+function emptyPosition(): PositionState {
+    return {
+        liquidity: 0n,
+        tokensOwed0: 0n,
+        tokensOwed1: 0n,
+        feeGrowthInside0LastX128: 0n,
+        feeGrowthInside1LastX128: 0n,
+    };
+}
+
+// feeGrowthGlobal 允许溢出，合约中转换成 uint128 时直接截断
+function feesEarned(feeGrowthGlobalX128: bigint, feeGrowthInsideLastX128: bigint, liquidity: bigint): bigint {
+    const delta = (feeGrowthGlobalX128 - feeGrowthInsideLastX128) & MAX_UINT256;
+    return FullMath.mulDiv(delta, liquidity, Q128) & MAX_UINT128;
+}
+
+export class PoolModel {
+    public state: PoolState;
+    public readonly positions = new Map<string, PositionState>();
+    public protocolFees: TokenAmounts = { amount0: 0n, amount1: 0n };
+
+    constructor(state: PoolState) {
+        this.state = {
+            ...state,
+            feeGrowthGlobal0X128: state.feeGrowthGlobal0X128 ?? 0n,
+            feeGrowthGlobal1X128: state.feeGrowthGlobal1X128 ?? 0n,
+        };
+    }
+
+    getPosition(owner: string): PositionState {
+        return this.positions.get(owner.toLowerCase()) ?? emptyPosition();
+    }
+
+    // 把 position 的流动性全部移除时能拿到的 token 数量，和 burn 一样向下取整
+    getPositionAmounts(owner: string): TokenAmounts {
+        const { liquidity } = this.getPosition(owner);
+        return {
+            amount0: SqrtPriceMath.getAmount0Delta(
+                this.state.sqrtPriceX96,
+                TickMath.getSqrtPriceAtTick(this.state.tickUpper),
+                liquidity,
+                false
+            ),
+            amount1: SqrtPriceMath.getAmount1Delta(
+                TickMath.getSqrtPriceAtTick(this.state.tickLower),
+                this.state.sqrtPriceX96,
+                liquidity,
+                false
+            ),
+        };
+    }
+
+    // position 已经产生但还没有记到 tokensOwed 中的手续费
+    getPendingFees(owner: string): TokenAmounts {
+        const position = this.getPosition(owner);
+        const { feeGrowthGlobal0X128 = 0n, feeGrowthGlobal1X128 = 0n } = this.state;
+        return {
+            amount0: feesEarned(feeGrowthGlobal0X128, position.feeGrowthInside0LastX128, position.liquidity),
+            amount1: feesEarned(feeGrowthGlobal1X128, position.feeGrowthInside1LastX128, position.liquidity),
+        };
+    }
+
+    mint(owner: string, amount: bigint): TokenAmounts {
+        if (amount <= 0n) {
+            throw new MathError('Mint amount must be greater than 0');
+        }
+        return this.modifyPosition(owner, amount);
+    }
+
+    burn(owner: string, amount: bigint): TokenAmounts {
+        const { liquidity } = this.getPosition(owner);
+        if (amount === 0n && liquidity === 0n) {
+            throw new MathError('Burn amount must be greater than 0');
+        }
+        if (amount > liquidity) {
+            throw new MathError('Burn amount exceeds liquidity');
+        }
+        // modifyPosition 返回的是转入 Pool 的数量，移除流动性时为负数
+        const delta = this.modifyPosition(owner, -amount);
+        const amount0 = -delta.amount0;
+        const amount1 = -delta.amount1;
+        const position = this.getPosition(owner);
+        if (amount0 > 0n || amount1 > 0n) {
+            position.tokensOwed0 = toUint128(position.tokensOwed0 + amount0);
+            position.tokensOwed1 = toUint128(position.tokensOwed1 + amount1);
+        }
+        return { amount0, amount1 };
+    }
+
+    collect(owner: string, amount0Requested: bigint, amount1Requested: bigint): TokenAmounts {
+        const position = this.getPosition(owner);
+        const amount0 = amount0Requested > position.tokensOwed0 ? position.tokensOwed0 : amount0Requested;
+        const amount1 = amount1Requested > position.tokensOwed1 ? position.tokensOwed1 : amount1Requested;
+        position.tokensOwed0 -= amount0;
+        position.tokensOwed1 -= amount1;
+        this.positions.set(owner.toLowerCase(), position);
+        return { amount0, amount1 };
+    }
+
+    swap(params: SwapParams): SwapResult {
+        const result = simulateSwap(this.state, params);
+        this.state = applySwap(this.state, result);
+        if (params.zeroForOne) {
+            this.protocolFees.amount0 += result.protocolFee;
+        } else {
+            this.protocolFees.amount1 += result.protocolFee;
+        }
+        return result;
+    }
+
+    // 对应 Pool._modifyPosition，返回需要转入 Pool 的数量
+    // liquidityDelta 为正时向上取整，为负时返回负数，转出的数量向下取整
+    private modifyPosition(owner: string, liquidityDelta: bigint): TokenAmounts {
+        const sqrtPriceLowerX96 = TickMath.getSqrtPriceAtTick(this.state.tickLower);
+        const sqrtPriceUpperX96 = TickMath.getSqrtPriceAtTick(this.state.tickUpper);
+        const roundUp = liquidityDelta > 0n;
+        const liquidity = roundUp ? liquidityDelta : -liquidityDelta;
+        const amount0 = SqrtPriceMath.getAmount0Delta(this.state.sqrtPriceX96, sqrtPriceUpperX96, liquidity, roundUp);
+        const amount1 = SqrtPriceMath.getAmount1Delta(sqrtPriceLowerX96, this.state.sqrtPriceX96, liquidity, roundUp);
+
+        const position = this.getPosition(owner);
+        const nextPoolLiquidity = this.state.liquidity + liquidityDelta;
+        const nextLiquidity = position.liquidity + liquidityDelta;
+        if (nextPoolLiquidity < 0n || nextLiquidity < 0n) {
+            throw new MathError('LS');
+        }
+        if (nextPoolLiquidity > MAX_UINT128) {
+            throw new MathError('LA');
+        }
+
+        const { amount0: fees0, amount1: fees1 } = this.getPendingFees(owner);
+        const { feeGrowthGlobal0X128 = 0n, feeGrowthGlobal1X128 = 0n } = this.state;
+        const updated: PositionState = {
+            liquidity: nextLiquidity,
+            tokensOwed0: toUint128(position.tokensOwed0 + fees0),
+            tokensOwed1: toUint128(position.tokensOwed1 + fees1),
+            feeGrowthInside0LastX128: feeGrowthGlobal0X128,
+            feeGrowthInside1LastX128: feeGrowthGlobal1X128,
+        };
+        this.positions.set(owner.toLowerCase(), updated);
+        this.state = { ...this.state, liquidity: nextPoolLiquidity };
+
+        return roundUp ? { amount0, amount1 } : { amount0: -amount0, amount1: -amount1 };
+    }
+}
@@ -0,0 +1,63 @@
+import { formatUnits, parseUnits } from 'viem';
+import { Q96, TickMath } from './math';
+
+// 人类可读的价格都是 "1 个 token0 可以换多少个 token1"，换算时需要考虑两个 token 的 decimals
+// 价格字符串先按 PRICE_DECIMALS 位精度转成整数，再参与计算
+const PRICE_DECIMALS = 18;
+
+export function sqrt(value: bigint): bigint {
+    if (value < 0n) {
+        throw new Error('square root of negative numbers is not supported');
+    }
+    if (value < 2n) {
+        return value;
+    }
+    // 牛顿迭代法求整数平方根
+    let x0 = value;
+    let x1 = (value >> 1n) + 1n;
+    while (x1 < x0) {
+        x0 = x1;
+        x1 = (x1 + value / x1) >> 1n;
+    }
+    return x0;
+}
+
+/**
+ * 把人类可读的价格转换成 sqrtPriceX96
+ * @param price 1 个 token0 可以换多少个 token1，例如 "2000.5"
+ */
+export function priceToSqrtPriceX96(price: string, decimals0: number, decimals1: number): bigint {
+    const numerator = parseUnits(price, PRICE_DECIMALS) * 10n ** BigInt(decimals1);
+    const denominator = 10n ** BigInt(PRICE_DECIMALS + decimals0);
+    if (numerator === 0n) {
+        throw new Error(`invalid price: ${price}`);
+    }
+    return sqrt((numerator << 192n) / denominator);
+}
+
+/**
+ * 把 sqrtPriceX96 转换成人类可读的价格（1 个 token0 可以换多少个 token1）
+ */
+export function sqrtPriceX96ToPrice(sqrtPriceX96: bigint, decimals0: number, decimals1: number): string {
+    const numerator = sqrtPriceX96 * sqrtPriceX96 * 10n ** BigInt(PRICE_DECIMALS + decimals0);
+    const denominator = Q96 * Q96 * 10n ** BigInt(decimals1);
+    return formatUnits(numerator / denominator, PRICE_DECIMALS);
+}
+
+/**
+ * 计算价格对应的 tick，价格落在两个 tick 之间时取较小的 tick
+ */
+export function priceToTick(price: string, decimals0: number, decimals1: number): number {
+    return TickMath.getTickAtSqrtPrice(priceToSqrtPriceX96(price, decimals0, decimals1));
+}
+
+export function tickToPrice(tick: number, decimals0: number, decimals1: number): string {
+    return sqrtPriceX96ToPrice(TickMath.getSqrtPriceAtTick(tick), decimals0, decimals1);
+}
+
+/**
+ * 价格取倒数，用于 tokenA 不是 token0 的情况
+ */
+export function invertPrice(price: string): string {
+    return formatUnits(10n ** 36n / parseUnits(price, PRICE_DECIMALS), PRICE_DECIMALS);
+}
@@ -0,0 +1,310 @@
+import { getAddress } from 'viem';
+import { FullMath, Q96, TickMath } from './math';
+import { iteratePools, toArray, type PageOptions } from './pagination';
+import { PoolState, applySwap, simulateSwap } from './swapSimulator';
+
+// 链下寻找最优的交易路径：同一个交易对可以有多个池子（index 不同，费率和价格区间也不同），
+// 路径可以经过多个交易对，每一跳对应一次 SwapRouter.exactInput，indexPath 决定在这个交易对的哪些池子中依次成交
+// SwapRouter 不支持在一次调用中跨交易对，多跳的路径需要按顺序逐跳执行，后一跳的输入是前一跳实际收到的数量
+
+type Address = `0x${string}`;
+
+// 字段和 IPoolManager.PoolInfo 一致，可以直接传入 getAllPools 的返回值
+export interface RoutePool extends PoolState {
+    pool: Address;
+    token0: Address;
+    token1: Address;
+    index: number;
+    paused?: boolean;
+}
+
+export interface PoolGraph {
+    // 排序后的 token0/token1（小写）=> 按 index 排列的池子
+    pairs: Map<string, RoutePool[]>;
+    // token（小写）=> 可以直接交易的 token
+    neighbors: Map<string, Set<Address>>;
+}
+
+export interface RouteHop {
+    tokenIn: Address;
+    tokenOut: Address;
+    // 作为 ExactInputParams 的 indexPath 和 sqrtPriceLimitX96 传入，sqrtPriceLimitX96 为 0 时不限制价格
+    indexPath: number[];
+    sqrtPriceLimitX96: bigint;
+    amountIn: bigint;
+    amountOut: bigint;
+}
+
+export interface Route {
+    // tokenIn → … → tokenOut
+    path: Address[];
+    hops: RouteHop[];
+    amountIn: bigint;
+    amountOut: bigint;
+    // 相对于按交易前的价格（不含手续费）成交少换到的比例，包含手续费
+    priceImpact: number;
+}
+
+export interface RouteOptions {
+    // 最多经过几个交易对，默认 3
+    maxHops?: number;
+    // 同一个交易对最多拆分到几个池子，按价格从优到劣选取，默认 4
+    maxSplitPools?: number;
+}
+
+export interface ExactInputOptions {
+    recipient: Address;
+    deadline: bigint;
+    // 滑点，单位是万分之一
+    slippageBips?: bigint;
+}
+
+function pairKey(tokenA: Address, tokenB: Address): string {
+    const [a, b] = [tokenA.toLowerCase(), tokenB.toLowerCase()];
+    return BigInt(a) < BigInt(b) ? `${a}/${b}` : `${b}/${a}`;
+}
+
+/**
+ * 根据池子列表建立交易图，暂停的池子和没有流动性的池子不能成交，不会加入图中
+ */
+export function buildPoolGraph(pools: readonly RoutePool[]): PoolGraph {
+    const pairs = new Map<string, RoutePool[]>();
+    const neighbors = new Map<string, Set<Address>>();
+    for (const pool of pools) {
+        if (pool.paused || pool.liquidity === 0n) {
+            continue;
+        }
+        const key = pairKey(pool.token0, pool.token1);
+        pairs.set(key, [...(pairs.get(key) ?? []), pool].sort((a, b) => a.index - b.index));
+        for (const [from, to] of [
+            [pool.token0, pool.token1],
+            [pool.token1, pool.token0],
+        ]) {
+            const set = neighbors.get(from.toLowerCase()) ?? new Set<Address>();
+            set.add(to);
+            neighbors.set(from.toLowerCase(), set);
+        }
+    }
+    return { pairs, neighbors };
+}
+
+// 只依赖 getPools 方法，可以传入 hre.viem.getContractAt 或者 viem getContract 返回的 PoolManager 实例
+interface PoolManagerReader {
+    read: {
+        getPools(
+            args: readonly [bigint, bigint],
+            options?: { blockNumber?: bigint }
+        ): Promise<readonly RoutePool[]>;
+    };
+}
+
+/**
+ * 分页读取 PoolManager 中的全部池子并建立交易图
+ */
+export async function loadPoolGraph(poolManager: PoolManagerReader, options: PageOptions = {}): Promise<PoolGraph> {
+    return buildPoolGraph(await toArray(iteratePools(poolManager, options)));
+}
+
+function isZeroForOne(tokenIn: Address, tokenOut: Address): boolean {
+    return BigInt(tokenIn) < BigInt(tokenOut);
+}
+
+// 和 SwapRouter._priceLimit 一致
+function priceLimit(zeroForOne: boolean, sqrtPriceLimitX96: bigint): bigint {
+    if (sqrtPriceLimitX96 !== 0n) {
+        return sqrtPriceLimitX96;
+    }
+    return zeroForOne ? TickMath.MIN_SQRT_PRICE + 1n : TickMath.MAX_SQRT_PRICE - 1n;
+}
+
+// 按交易前的价格（不含手续费）能换到的数量
+function quoteAtSpot(amountIn: bigint, sqrtPriceX96: bigint, zeroForOne: boolean): bigint {
+    return zeroForOne
+        ? FullMath.mulDiv(FullMath.mulDiv(amountIn, sqrtPriceX96, Q96), sqrtPriceX96, Q96)
+        : FullMath.mulDiv(FullMath.mulDiv(amountIn, Q96, sqrtPriceX96), Q96, sqrtPriceX96);
+}
+
+/**
+ * 在链下模拟 SwapRouter.exactInput 的一跳：按 indexPath 依次在池子中成交，直到 amountIn 用完
+ * 没有流动性或者价格已经越过 sqrtPriceLimitX96 的池子会被跳过，所有池子都用完之后剩余的输入不会成交
+ */
+export function simulateExactInput(
+    pools: readonly RoutePool[],
+    zeroForOne: boolean,
+    indexPath: readonly number[],
+    amountIn: bigint,
+    sqrtPriceLimitX96 = 0n
+): { amountIn: bigint; amountOut: bigint; indexPath: number[] } {
+    const limit = priceLimit(zeroForOne, sqrtPriceLimitX96);
+    const states = new Map<number, PoolState>();
+    let remaining = amountIn;
+    let amountOut = 0n;
+    // 实际成交的池子
+    const used: number[] = [];
+    for (const index of indexPath) {
+        const pool = pools.find((p) => p.index === index);
+        if (!pool) {
+            throw new Error(`pool index ${index} not found`);
+        }
+        const state = states.get(index) ?? pool;
+        const canSwap =
+            state.liquidity > 0n && (zeroForOne ? state.sqrtPriceX96 > limit : state.sqrtPriceX96 < limit);
+        if (!canSwap) {
+            continue;
+        }
+        const result = simulateSwap(state, { zeroForOne, amountSpecified: remaining, sqrtPriceLimitX96: limit });
+        states.set(index, applySwap(state, result));
+        if (result.amount0 !== 0n || result.amount1 !== 0n) {
+            used.push(index);
+        }
+        remaining -= zeroForOne ? result.amount0 : result.amount1;
+        amountOut -= zeroForOne ? result.amount1 : result.amount0;
+        if (remaining === 0n) {
+            break;
+        }
+    }
+    return { amountIn: amountIn - remaining, amountOut, indexPath: used };
+}
+
+/**
+ * 同一个交易对的一跳中最优的成交方式，候选有：
+ * 只在一个池子中成交；按价格从优到劣依次吃完每个池子；以及用二分查找出一个共同的价格限制，
+ * 每个池子都只成交到这个价格，相当于按边际价格把订单拆分到多个池子中
+ * 无法用完 amountIn 的候选会被忽略，没有可行的候选时返回 undefined
+ */
+export function findBestHop(
+    graph: PoolGraph,
+    tokenIn: Address,
+    tokenOut: Address,
+    amountIn: bigint,
+    options: RouteOptions = {}
+): RouteHop | undefined {
+    const zeroForOne = isZeroForOne(tokenIn, tokenOut);
+    // 价格越高，卖出 token0 能换到的 token1 越多；买入 token0 时则相反
+    const pools = [...(graph.pairs.get(pairKey(tokenIn, tokenOut)) ?? [])]
+        .sort((a, b) => {
+            const diff = a.sqrtPriceX96 - b.sqrtPriceX96;
+            return diff === 0n ? a.index - b.index : (diff > 0n) === zeroForOne ? -1 : 1;
+        })
+        .slice(0, options.maxSplitPools ?? 4);
+    if (pools.length === 0 || amountIn <= 0n) {
+        return undefined;
+    }
+
+    const candidates: { indexPath: number[]; sqrtPriceLimitX96: bigint }[] = pools.map((pool) => ({
+        indexPath: [pool.index],
+        sqrtPriceLimitX96: 0n,
+    }));
+    const indexPath = pools.map((pool) => pool.index);
+    if (pools.length > 1) {
+        candidates.push({ indexPath, sqrtPriceLimitX96: 0n });
+
+        // 价格限制越宽，能成交的数量越多，找到刚好能用完 amountIn 的最紧的限制
+        const filled = (limit: bigint) =>
+            simulateExactInput(pools, zeroForOne, indexPath, amountIn, limit).amountIn === amountIn;
+        let tight = pools[0].sqrtPriceX96;
+        let loose = priceLimit(zeroForOne, 0n);
+        if (filled(loose)) {
+            while (tight - loose > 1n || loose - tight > 1n) {
+                const middle = (tight + loose) / 2n;
+                if (filled(middle)) {
+                    loose = middle;
+                } else {
+                    tight = middle;
+                }
+            }
+            candidates.push({ indexPath, sqrtPriceLimitX96: loose });
+        }
+    }
+
+    let best: RouteHop | undefined;
+    for (const candidate of candidates) {
+        const result = simulateExactInput(pools, zeroForOne, candidate.indexPath, amountIn, candidate.sqrtPriceLimitX96);
+        if (result.amountIn !== amountIn) {
+            continue;
+        }
+        if (!best || result.amountOut > best.amountOut) {
+            // 只保留实际成交的池子，跳过的池子不影响结果，去掉可以减少 SwapRouter 的调用
+            best = {
+                tokenIn: getAddress(tokenIn),
+                tokenOut: getAddress(tokenOut),
+                indexPath: result.indexPath,
+                sqrtPriceLimitX96: candidate.sqrtPriceLimitX96,
+                amountIn,
+                amountOut: result.amountOut,
+            };
+        }
+    }
+    return best;
+}
+
+/**
+ * 搜索 tokenIn 到 tokenOut 之间最多 maxHops 跳、不重复经过同一个 token 的全部路径，返回输出最多的一条
+ * 每一跳的输出随输入单调增加，所以逐跳取最优就是这条路径的最优
+ */
+export function findBestRoute(
+    graph: PoolGraph,
+    tokenIn: Address,
+    tokenOut: Address,
+    amountIn: bigint,
+    options: RouteOptions = {}
+): Route | undefined {
+    const maxHops = options.maxHops ?? 3;
+    const target = tokenOut.toLowerCase();
+    let best: Route | undefined;
+
+    const search = (path: Address[], hops: RouteHop[], amount: bigint) => {
+        const current = path[path.length - 1];
+        if (current.toLowerCase() === target) {
+            if (!best || amount > best.amountOut) {
+                best = { path, hops, amountIn, amountOut: amount, priceImpact: 0 };
+            }
+            return;
+        }
+        if (hops.length >= maxHops) {
+            return;
+        }
+        for (const next of graph.neighbors.get(current.toLowerCase()) ?? []) {
+            if (path.some((token) => token.toLowerCase() === next.toLowerCase())) {
+                continue;
+            }
+            const hop = findBestHop(graph, current, next, amount, options);
+            if (hop) {
+                search([...path, next], [...hops, hop], hop.amountOut);
+            }
+        }
+    };
+    // 图中的地址来自链上，是 checksum 格式，路径中的地址也统一成这个格式
+    search([getAddress(tokenIn)], [], amountIn);
+
+    if (best) {
+        // 按每一跳中最优的池子价格换算，得到不考虑手续费和价格变化时的输出
+        let spot = amountIn;
+        for (const hop of best.hops) {
+            const zeroForOne = isZeroForOne(hop.tokenIn, hop.tokenOut);
+            const prices = graph.pairs.get(pairKey(hop.tokenIn, hop.tokenOut))!.map((pool) => pool.sqrtPriceX96);
+            const bestPrice = prices.reduce((a, b) => ((a > b) === zeroForOne ? a : b));
+            spot = quoteAtSpot(spot, bestPrice, zeroForOne);
+        }
+        best.priceImpact = spot === 0n ? 0 : Number(((spot - best.amountOut) * 10n ** 18n) / spot) / 1e18;
+    }
+    return best;
+}
+
+/**
+ * 把路径转换成每一跳的 ExactInputParams，按顺序调用 SwapRouter.exactInput
+ * 后面的跳使用前一跳预期的输出作为 amountIn，实际执行时应该换成前一跳实际收到的数量
+ */
+export function toExactInputParams(route: Route, options: ExactInputOptions) {
+    const slippageBips = options.slippageBips ?? 50n;
+    return route.hops.map((hop) => ({
+        tokenIn: hop.tokenIn,
+        tokenOut: hop.tokenOut,
+        indexPath: hop.indexPath,
+        recipient: options.recipient,
+        deadline: options.deadline,
+        amountIn: hop.amountIn,
+        amountOutMinimum: (hop.amountOut * (10000n - slippageBips)) / 10000n,
+        sqrtPriceLimitX96: hop.sqrtPriceLimitX96,
+    }));
+}
@@ -0,0 +1,607 @@
+import type { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { concat, erc20Abi, getAddress, getContractAddress, hexToBigInt, isAddress, keccak256, pad, toHex, zeroAddress } from 'viem';
+import { TickMath } from './math';
+
+// 导出和恢复 wtfswap 的完整状态，用于在本地复现测试网上的问题：
+// 导出时读取所有池子、position、Pool.positions、token 余额和手续费增长值，写成带版本号的 JSON；
+// 恢复时在 hardhat 节点上部署一套新的合约，按顺序创建池子并 mint/burn 出同样编号的 position，
+// 再按合约的存储布局用 hardhat_setStorageAt 写入流动性、手续费和余额等精确的数值，最后重新导出并和快照比较
+// 恢复出来的 token 都是 symbol 和 decimals 相同的 TestToken，按地址大小的顺序和原来的 token 一一对应，这样每个池子的 token0 和 token1 不变
+// Factory 的 owner 保持为恢复时的账户，方便在本地继续操作；Oracle 的 observation 不在快照中
+
+type Address = `0x${string}`;
+
+export const SNAPSHOT_VERSION = 1;
+
+// 数值都用十进制字符串表示，JSON 可以原样读写
+export interface SnapshotPoolPosition {
+    owner: Address;
+    liquidity: string;
+    feeGrowthInside0LastX128: string;
+    feeGrowthInside1LastX128: string;
+    tokensOwed0: string;
+    tokensOwed1: string;
+}
+
+export interface SnapshotPool {
+    pool: Address;
+    token0: Address;
+    token1: Address;
+    index: number;
+    fee: number;
+    // 快照时这个费率的 tickSpacing，费率已经被禁用时为 0
+    tickSpacing: number;
+    tickLower: number;
+    tickUpper: number;
+    tick: number;
+    sqrtPriceX96: string;
+    liquidity: string;
+    feeProtocol: number;
+    // 单独暂停的状态，不包含全局暂停
+    paused: boolean;
+    feeGrowthGlobal0X128: string;
+    feeGrowthGlobal1X128: string;
+    protocolFees0: string;
+    protocolFees1: string;
+    // Pool.positions 中不全为 0 的记录
+    positions: SnapshotPoolPosition[];
+}
+
+export interface SnapshotPosition {
+    id: string;
+    // 已经销毁的 position 是最后的持有者
+    owner: Address;
+    burned: boolean;
+    token0: Address;
+    token1: Address;
+    index: number;
+    fee: number;
+    liquidity: string;
+    tickLower: number;
+    tickUpper: number;
+    tokensOwed0: string;
+    tokensOwed1: string;
+    feeGrowthInside0LastX128: string;
+    feeGrowthInside1LastX128: string;
+}
+
+export interface SnapshotToken {
+    address: Address;
+    symbol: string;
+    decimals: number;
+    totalSupply: string;
+    // 持有者 => 余额
+    balances: Record<Address, string>;
+}
+
+export interface WtfswapSnapshot {
+    version: number;
+    chainId: number;
+    blockNumber: string;
+    timestamp: number;
+    contracts: {
+        poolManager: Address;
+        positionManager: Address;
+    };
+    factory: {
+        owner: Address;
+        guardian: Address;
+        globalPaused: boolean;
+    };
+    tokens: SnapshotToken[];
+    pools: SnapshotPool[];
+    positions: SnapshotPosition[];
+}
+
+export interface ExportSnapshotOptions {
+    // 默认是最新区块，所有数据都在这个区块高度上读取
+    blockNumber?: bigint;
+    // 除了池子、PositionManager 和 position 的持有者以外，还需要记录 token 余额的地址
+    holders?: Address[];
+    // 除了 PositionManager 以外，直接调用 Pool.mint 的地址，会记录它们在每个池子中的 Pool.positions
+    poolOwners?: Address[];
+}
+
+function uniqueAddresses(addresses: Address[]): Address[] {
+    return [...new Set(addresses.map((address) => getAddress(address)))];
+}
+
+/**
+ * 读取 PoolManager 和 PositionManager 的完整状态，生成快照
+ */
+export async function exportSnapshot(
+    hre: HardhatRuntimeEnvironment,
+    contracts: { poolManager: Address; positionManager: Address },
+    options: ExportSnapshotOptions = {}
+): Promise<WtfswapSnapshot> {
+    const publicClient = await hre.viem.getPublicClient();
+    const blockNumber = options.blockNumber ?? (await publicClient.getBlockNumber());
+    const block = await publicClient.getBlock({ blockNumber });
+    const at = { blockNumber };
+
+    const poolManager = await hre.viem.getContractAt('PoolManager', contracts.poolManager);
+    const positionManager = await hre.viem.getContractAt('PositionManager', contracts.positionManager);
+    const poolOwners = uniqueAddresses([contracts.positionManager, ...(options.poolOwners ?? [])]);
+
+    const pools: SnapshotPool[] = [];
+    for (const info of await poolManager.read.getAllPools(at)) {
+        const pool = await hre.viem.getContractAt('Pool', info.pool);
+        const [tickSpacing, paused, feeGrowthGlobal0X128, feeGrowthGlobal1X128, [protocolFees0, protocolFees1]] =
+            await Promise.all([
+                poolManager.read.feeAmountTickSpacing([info.fee], at),
+                poolManager.read.poolPaused([info.pool], at),
+                pool.read.feeGrowthGlobal0X128(at),
+                pool.read.feeGrowthGlobal1X128(at),
+                pool.read.protocolFees(at),
+            ]);
+        const positions: SnapshotPoolPosition[] = [];
+        for (const owner of poolOwners) {
+            const [liquidity, feeGrowthInside0LastX128, feeGrowthInside1LastX128, tokensOwed0, tokensOwed1] =
+                await pool.read.getPosition([owner], at);
+            if (
+                [liquidity, feeGrowthInside0LastX128, feeGrowthInside1LastX128, tokensOwed0, tokensOwed1].some(
+                    (value) => value !== 0n
+                )
+            ) {
+                positions.push({
+                    owner,
+                    liquidity: liquidity.toString(),
+                    feeGrowthInside0LastX128: feeGrowthInside0LastX128.toString(),
+                    feeGrowthInside1LastX128: feeGrowthInside1LastX128.toString(),
+                    tokensOwed0: tokensOwed0.toString(),
+                    tokensOwed1: tokensOwed1.toString(),
+                });
+            }
+        }
+        pools.push({
+            pool: getAddress(info.pool),
+            token0: getAddress(info.token0),
+            token1: getAddress(info.token1),
+            index: info.index,
+            fee: info.fee,
+            tickSpacing,
+            tickLower: info.tickLower,
+            tickUpper: info.tickUpper,
+            tick: info.tick,
+            sqrtPriceX96: info.sqrtPriceX96.toString(),
+            liquidity: info.liquidity.toString(),
+            feeProtocol: info.feeProtocol,
+            paused,
+            feeGrowthGlobal0X128: feeGrowthGlobal0X128.toString(),
+            feeGrowthGlobal1X128: feeGrowthGlobal1X128.toString(),
+            protocolFees0: protocolFees0.toString(),
+            protocolFees1: protocolFees1.toString(),
+            positions,
+        });
+    }
+
+    const positions: SnapshotPosition[] = [];
+    for (const info of await positionManager.read.getAllPositions(at)) {
+        // 销毁之后 ownerOf 会 revert，PositionInfo 仍然保留
+        const burned = await positionManager.read.ownerOf([info.id], at).then(
+            () => false,
+            () => true
+        );
+        positions.push({
+            id: info.id.toString(),
+            owner: getAddress(info.owner),
+            burned,
+            token0: getAddress(info.token0),
+            token1: getAddress(info.token1),
+            index: info.index,
+            fee: info.fee,
+            liquidity: info.liquidity.toString(),
+            tickLower: info.tickLower,
+            tickUpper: info.tickUpper,
+            tokensOwed0: info.tokensOwed0.toString(),
+            tokensOwed1: info.tokensOwed1.toString(),
+            feeGrowthInside0LastX128: info.feeGrowthInside0LastX128.toString(),
+            feeGrowthInside1LastX128: info.feeGrowthInside1LastX128.toString(),
+        });
+    }
+
+    const holders = uniqueAddresses([
+        ...pools.map((pool) => pool.pool),
+        contracts.positionManager,
+        ...positions.map((position) => position.owner),
+        ...(options.holders ?? []),
+    ]);
+    const tokens: SnapshotToken[] = [];
+    for (const address of uniqueAddresses(pools.flatMap((pool) => [pool.token0, pool.token1]))) {
+        const read = <T>(functionName: 'symbol' | 'decimals' | 'totalSupply', fallback: T) =>
+            publicClient.readContract({ address, abi: erc20Abi, functionName, blockNumber }).catch(() => fallback);
+        const balances: Record<Address, string> = {};
+        for (const holder of holders) {
+            const balance = await publicClient.readContract({
+                address,
+                abi: erc20Abi,
+                functionName: 'balanceOf',
+                args: [holder],
+                blockNumber,
+            });
+            if (balance !== 0n) {
+                balances[holder] = balance.toString();
+            }
+        }
+        tokens.push({
+            address,
+            symbol: String(await read('symbol', '')),
+            decimals: Number(await read('decimals', 18)),
+            totalSupply: String(await read('totalSupply', 0n)),
+            balances,
+        });
+    }
+
+    const [owner, guardian, globalPaused] = await Promise.all([
+        poolManager.read.owner(at),
+        poolManager.read.guardian(at),
+        poolManager.read.globalPaused(at),
+    ]);
+    return {
+        version: SNAPSHOT_VERSION,
+        chainId: await publicClient.getChainId(),
+        blockNumber: blockNumber.toString(),
+        timestamp: Number(block.timestamp),
+        contracts: {
+            poolManager: getAddress(contracts.poolManager),
+            positionManager: getAddress(contracts.positionManager),
+        },
+        factory: { owner: getAddress(owner), guardian: getAddress(guardian), globalPaused },
+        tokens,
+        pools,
+        positions,
+    };
+}
+
+/**
+ * 解析快照文件，检查版本号
+ */
+export function parseSnapshot(content: string): WtfswapSnapshot {
+    const snapshot = JSON.parse(content) as WtfswapSnapshot;
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+        throw new Error(`unsupported snapshot version ${snapshot.version}, expected ${SNAPSHOT_VERSION}`);
+    }
+    return snapshot;
+}
+
+interface StorageLayout {
+    storage: { label: string; slot: string; offset: number; type: string }[];
+    types: Record<
+        string,
+        {
+            numberOfBytes: string;
+            value?: string;
+            members?: { label: string; slot: string; offset: number; type: string }[];
+        }
+    >;
+}
+
+interface StorageLocation {
+    slot: bigint;
+    offset: number;
+    size: number;
+}
+
+// 存储布局来自编译输出，hardhat.config.ts 的 outputSelection 中需要包含 storageLayout
+async function getStorageLayout(hre: HardhatRuntimeEnvironment, name: string): Promise<StorageLayout> {
+    const artifact = await hre.artifacts.readArtifact(name);
+    const buildInfo = await hre.artifacts.getBuildInfo(`${artifact.sourceName}:${artifact.contractName}`);
+    const output = buildInfo?.output.contracts[artifact.sourceName][artifact.contractName] as
+        | { storageLayout?: StorageLayout }
+        | undefined;
+    if (!output?.storageLayout) {
+        throw new Error(`storage layout of ${name} not found, make sure storageLayout is in outputSelection and recompile`);
+    }
+    return output.storageLayout;
+}
+
+// 计算状态变量的存储位置，keys 是依次访问的 mapping 的 key，member 是最后访问的结构体字段
+function locate(layout: StorageLayout, label: string, keys: (bigint | Address)[] = [], member?: string): StorageLocation {
+    const variable = layout.storage.find((item) => item.label === label);
+    if (!variable) {
+        throw new Error(`state variable ${label} not found in storage layout`);
+    }
+    let slot = BigInt(variable.slot);
+    let offset = variable.offset;
+    let type = layout.types[variable.type];
+    for (const key of keys) {
+        // mapping 的值存放在 keccak256(key . slot)
+        const encodedKey = typeof key === 'bigint' ? toHex(key, { size: 32 }) : pad(key);
+        slot = hexToBigInt(keccak256(concat([encodedKey, toHex(slot, { size: 32 })])));
+        offset = 0;
+        type = layout.types[type.value!];
+    }
+    if (member !== undefined) {
+        const field = type.members?.find((item) => item.label === member);
+        if (!field) {
+            throw new Error(`member ${member} not found in ${label}`);
+        }
+        slot += BigInt(field.slot);
+        offset = field.offset;
+        type = layout.types[field.type];
+    }
+    return { slot, offset, size: Number(type.numberOfBytes) };
+}
+
+// 只修改这个变量占用的字节，同一个 slot 中的其他变量保持不变，负数按补码写入
+async function writeStorage(hre: HardhatRuntimeEnvironment, address: Address, location: StorageLocation, value: bigint) {
+    const publicClient = await hre.viem.getPublicClient();
+    const testClient = await hre.viem.getTestClient();
+    const index = toHex(location.slot, { size: 32 });
+    const current = hexToBigInt((await publicClient.getStorageAt({ address, slot: index })) ?? '0x0');
+    const shift = BigInt(location.offset * 8);
+    const mask = ((1n << BigInt(location.size * 8)) - 1n) << shift;
+    const next = (current & ~mask) | (BigInt.asUintN(location.size * 8, value) << shift);
+    await testClient.setStorageAt({ address, index, value: toHex(next, { size: 32 }) });
+}
+
+export interface RestoredSnapshot {
+    contracts: {
+        poolManager: Address;
+        positionManager: Address;
+        swapRouter: Address;
+    };
+    // 快照中的地址（小写）=> 恢复后的地址，包括合约、token 和池子，不在其中的地址（例如 EOA）保持不变
+    addresses: Record<string, Address>;
+}
+
+/**
+ * 把快照中所有的地址替换成恢复后的地址，包括 balances 的 key
+ */
+export function mapSnapshotAddresses<T>(value: T, addresses: Record<string, Address>): T {
+    const map = (item: unknown): unknown => {
+        if (typeof item === 'string') {
+            return isAddress(item, { strict: false }) ? addresses[item.toLowerCase()] ?? item : item;
+        }
+        if (Array.isArray(item)) {
+            return item.map(map);
+        }
+        if (item && typeof item === 'object') {
+            return Object.fromEntries(Object.entries(item).map(([key, entry]) => [map(key), map(entry)]));
+        }
+        return item;
+    };
+    return map(value) as T;
+}
+
+/**
+ * 在当前的 hardhat 网络上部署新的合约并恢复快照，需要 hardhat_setStorageAt，只能在 hardhat 网络或者 hardhat node 上运行
+ */
+export async function restoreSnapshot(
+    hre: HardhatRuntimeEnvironment,
+    snapshot: WtfswapSnapshot
+): Promise<RestoredSnapshot> {
+    const [walletClient] = await hre.viem.getWalletClients();
+    const signer = walletClient.account.address;
+    const addresses: Record<string, Address> = {};
+    const mapped = (address: Address) => addresses[address.toLowerCase()] ?? getAddress(address);
+
+    const poolManager = await hre.viem.deployContract('PoolManager');
+    const weth9 = await hre.viem.deployContract('WETH9');
+    const positionManager = await hre.viem.deployContract('PositionManager', [poolManager.address, weth9.address]);
+    const swapRouter = await hre.viem.deployContract('SwapRouter', [poolManager.address, weth9.address]);
+    addresses[snapshot.contracts.poolManager.toLowerCase()] = getAddress(poolManager.address);
+    addresses[snapshot.contracts.positionManager.toLowerCase()] = getAddress(positionManager.address);
+
+    // 新 token 按地址排序后和原来的 token 一一对应，保持 token0 和 token1 的顺序
+    // 部署前按 nonce 算出新 token 的地址，这样每个 token 部署时就可以带上对应的 symbol 和 decimals
+    const byAddress = (a: Address, b: Address) => (BigInt(a) < BigInt(b) ? -1 : 1);
+    const publicClient = await hre.viem.getPublicClient();
+    const nonce = await publicClient.getTransactionCount({ address: signer });
+    const predicted = snapshot.tokens.map((_, i) => getContractAddress({ from: signer, nonce: BigInt(nonce + i) }));
+    const oldTokens = [...snapshot.tokens].sort((a, b) => byAddress(a.address, b.address));
+    [...predicted].sort(byAddress).forEach((address, i) => (addresses[oldTokens[i].address.toLowerCase()] = address));
+    const deployed = [];
+    for (const address of predicted) {
+        const token = oldTokens.find((item) => addresses[item.address.toLowerCase()] === address)!;
+        const contract = await hre.viem.deployContract('TestToken', [token.symbol, token.symbol, token.decimals]);
+        if (getAddress(contract.address) !== address) {
+            throw new Error(`TestToken deployed at ${contract.address}, expected ${address}`);
+        }
+        deployed.push(contract);
+    }
+    // 搭建结构时使用的 token，最后会按快照覆盖余额
+    for (const token of deployed) {
+        await token.write.mint([signer, 2n ** 128n]);
+        await token.write.approve([positionManager.address, 2n ** 256n - 1n]);
+    }
+
+    // 按快照中的顺序创建池子，同一个交易对的 index 也保持一致
+    // 先用 tickLower 的价格初始化，快照中的价格可能刚好在区间的上边界，不能用来初始化，之后再写入存储
+    for (const pool of snapshot.pools) {
+        const [token0, token1] = [mapped(pool.token0), mapped(pool.token1)];
+        const tickSpacing = await poolManager.read.feeAmountTickSpacing([pool.fee]);
+        const expectedSpacing = pool.tickSpacing === 0 ? 1 : pool.tickSpacing;
+        if (tickSpacing !== expectedSpacing) {
+            if (tickSpacing !== 0) {
+                await poolManager.write.disableFeeAmount([pool.fee]);
+            }
+            await poolManager.write.enableFeeAmount([pool.fee, expectedSpacing]);
+        }
+        await poolManager.write.createAndInitializePoolIfNecessary([
+            {
+                token0,
+                token1,
+                fee: pool.fee,
+                tickLower: pool.tickLower,
+                tickUpper: pool.tickUpper,
+                sqrtPriceX96: TickMath.getSqrtPriceAtTick(pool.tickLower),
+            },
+        ]);
+        const created = await poolManager.read.getPool([token0, token1, pool.index]);
+        addresses[pool.pool.toLowerCase()] = getAddress(created);
+    }
+    // 快照时已经禁用的费率
+    for (const fee of new Set(snapshot.pools.filter((pool) => pool.tickSpacing === 0).map((pool) => pool.fee))) {
+        await poolManager.write.disableFeeAmount([fee]);
+    }
+
+    // 按编号 mint 出同样的 position，已经销毁的先 mint 给自己再销毁，数量之后按快照覆盖
+    for (const [i, position] of snapshot.positions.entries()) {
+        if (BigInt(position.id) !== BigInt(i + 1)) {
+            throw new Error(`positions must be numbered from 1 without gaps, got ${position.id} at ${i}`);
+        }
+        await positionManager.write.mint([
+            {
+                token0: mapped(position.token0),
+                token1: mapped(position.token1),
+                index: position.index,
+                amount0Desired: 10n ** 18n,
+                amount1Desired: 10n ** 18n,
+                amount0Min: 0n,
+                amount1Min: 0n,
+                recipient: position.burned ? signer : mapped(position.owner),
+                deadline: 2n ** 64n,
+            },
+        ]);
+        if (position.burned) {
+            const tokenId = BigInt(position.id);
+            const [, , , , , , liquidity] = await positionManager.read.positions([tokenId]);
+            await positionManager.write.decreaseLiquidity([
+                { tokenId, liquidity, amount0Min: 0n, amount1Min: 0n, deadline: 2n ** 64n },
+            ]);
+            await positionManager.write.collect([
+                { tokenId, recipient: signer, amount0Max: 2n ** 128n - 1n, amount1Max: 2n ** 128n - 1n },
+            ]);
+            await positionManager.write.burn([tokenId]);
+        }
+    }
+
+    const poolLayout = await getStorageLayout(hre, 'Pool');
+    for (const pool of snapshot.pools) {
+        const address = mapped(pool.pool);
+        const values: [string, bigint][] = [
+            ['sqrtPriceX96', BigInt(pool.sqrtPriceX96)],
+            ['tick', BigInt(pool.tick)],
+            ['liquidity', BigInt(pool.liquidity)],
+            ['feeGrowthGlobal0X128', BigInt(pool.feeGrowthGlobal0X128)],
+            ['feeGrowthGlobal1X128', BigInt(pool.feeGrowthGlobal1X128)],
+            ['feeProtocol', BigInt(pool.feeProtocol)],
+        ];
+        for (const [label, value] of values) {
+            await writeStorage(hre, address, locate(poolLayout, label), value);
+        }
+        await writeStorage(hre, address, locate(poolLayout, 'protocolFees', [], 'token0'), BigInt(pool.protocolFees0));
+        await writeStorage(hre, address, locate(poolLayout, 'protocolFees', [], 'token1'), BigInt(pool.protocolFees1));
+
+        // 搭建结构时 PositionManager 在每个有 position 的池子中都有记录，不在快照中的要清零
+        const owners = new Map<string, SnapshotPoolPosition | undefined>([[positionManager.address, undefined]]);
+        for (const position of pool.positions) {
+            owners.set(mapped(position.owner), position);
+        }
+        for (const [owner, position] of owners) {
+            for (const member of [
+                'liquidity',
+                'tokensOwed0',
+                'tokensOwed1',
+                'feeGrowthInside0LastX128',
+                'feeGrowthInside1LastX128',
+            ] as const) {
+                const location = locate(poolLayout, 'positions', [owner as Address], member);
+                await writeStorage(hre, address, location, BigInt(position?.[member] ?? 0));
+            }
+        }
+    }
+
+    const positionLayout = await getStorageLayout(hre, 'PositionManager');
+    for (const position of snapshot.positions) {
+        const id = BigInt(position.id);
+        await writeStorage(hre, positionManager.address, locate(positionLayout, 'positions', [id], 'owner'), BigInt(mapped(position.owner)));
+        for (const member of [
+            'liquidity',
+            'tokensOwed0',
+            'tokensOwed1',
+            'feeGrowthInside0LastX128',
+            'feeGrowthInside1LastX128',
+        ] as const) {
+            await writeStorage(hre, positionManager.address, locate(positionLayout, 'positions', [id], member), BigInt(position[member]));
+        }
+    }
+
+    // 覆盖余额和总量，搭建结构时转过 token 的地址不在快照中时余额清零
+    const tokenLayout = await getStorageLayout(hre, 'TestToken');
+    const touched = [
+        signer,
+        positionManager.address,
+        ...snapshot.pools.map((pool) => mapped(pool.pool)),
+        ...snapshot.positions.map((position) => mapped(position.owner)),
+    ];
+    for (const token of snapshot.tokens) {
+        const address = mapped(token.address);
+        const balances = new Map<Address, bigint>(touched.map((holder) => [holder, 0n]));
+        for (const [holder, balance] of Object.entries(token.balances)) {
+            balances.set(mapped(holder as Address), BigInt(balance));
+        }
+        for (const [holder, balance] of balances) {
+            await writeStorage(hre, address, locate(tokenLayout, '_balances', [holder]), balance);
+        }
+        await writeStorage(hre, address, locate(tokenLayout, '_totalSupply'), BigInt(token.totalSupply));
+    }
+
+    // 暂停状态和 guardian 最后设置，暂停的池子不能 mint
+    for (const pool of snapshot.pools.filter((pool) => pool.paused)) {
+        await poolManager.write.pause([mapped(pool.pool)]);
+    }
+    if (snapshot.factory.globalPaused) {
+        await poolManager.write.pause([zeroAddress]);
+    }
+    await poolManager.write.setGuardian([mapped(snapshot.factory.guardian)]);
+
+    return {
+        contracts: {
+            poolManager: getAddress(poolManager.address),
+            positionManager: getAddress(positionManager.address),
+            swapRouter: getAddress(swapRouter.address),
+        },
+        addresses,
+    };
+}
+
+// 恢复时不会保持一致的字段
+const IGNORED_PATHS = [/^chainId$/, /^blockNumber$/, /^timestamp$/, /^factory\.owner$/];
+
+function diffValues(expected: unknown, actual: unknown, path: string, differences: string[]) {
+    if (IGNORED_PATHS.some((pattern) => pattern.test(path))) {
+        return;
+    }
+    if (expected && actual && typeof expected === 'object' && typeof actual === 'object') {
+        for (const key of new Set([...Object.keys(expected), ...Object.keys(actual)])) {
+            const child = Array.isArray(expected) ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+            diffValues(
+                (expected as Record<string, unknown>)[key],
+                (actual as Record<string, unknown>)[key],
+                child,
+                differences
+            );
+        }
+        return;
+    }
+    if (expected !== actual) {
+        differences.push(`${path}: expected ${JSON.stringify(expected)}, actual ${JSON.stringify(actual)}`);
+    }
+}
+
+/**
+ * 比较两个快照，返回不一致的字段，忽略链 id、区块和 Factory 的 owner
+ */
+export function diffSnapshots(expected: WtfswapSnapshot, actual: WtfswapSnapshot): string[] {
+    const differences: string[] = [];
+    diffValues(expected, actual, '', differences);
+    return differences;
+}
+
+/**
+ * 重新导出恢复后的状态，和快照中的地址替换成恢复后的地址之后比较，返回不一致的字段，为空表示恢复成功
+ */
+export async function verifySnapshot(
+    hre: HardhatRuntimeEnvironment,
+    snapshot: WtfswapSnapshot,
+    restored: RestoredSnapshot
+): Promise<string[]> {
+    const expected = mapSnapshotAddresses(snapshot, restored.addresses);
+    const actual = await exportSnapshot(hre, expected.contracts, {
+        holders: expected.tokens.flatMap((token) => Object.keys(token.balances) as Address[]),
+        poolOwners: expected.pools.flatMap((pool) => pool.positions.map((position) => position.owner)),
+    });
+    return diffSnapshots(expected, actual);
+}
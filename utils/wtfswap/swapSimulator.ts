@@ -0,0 +1,144 @@
+import { FullMath, MathError, Q128, SwapMath, TickMath, toInt256 } from './math';
+
+// Pool 的状态快照，字段和 IPoolManager.PoolInfo 一致，可以直接传入 getAllPools 的返回值
+// feeGrowthGlobal0X128 和 feeGrowthGlobal1X128 不在 PoolInfo 里，需要的话可以从 Pool 合约读取后补上
+export interface PoolState {
+    fee: number;
+    tickLower: number;
+    tickUpper: number;
+    tick: number;
+    sqrtPriceX96: bigint;
+    liquidity: bigint;
+    // 协议费比例，低 4 位是 token0，高 4 位是 token1，不传时当作没有开启协议费
+    feeProtocol?: number;
+    feeGrowthGlobal0X128?: bigint;
+    feeGrowthGlobal1X128?: bigint;
+}
+
+export interface SwapParams {
+    // 如果从 token0 交换 token1 则为 true，从 token1 交换 token0 则为 false
+    zeroForOne: boolean;
+    // 大于 0 代表指定输入数量，小于 0 代表指定输出数量
+    amountSpecified: bigint;
+    sqrtPriceLimitX96: bigint;
+}
+
+export interface SwapResult {
+    // 和 Pool.swap 的返回值一致，正数是用户需要转入 Pool 的数量，负数是用户收到的数量
+    amount0: bigint;
+    amount1: bigint;
+    sqrtPriceX96: bigint;
+    tick: number;
+    // 这次交易收取的手续费，单位是输入 token 的数量，包含协议费
+    feeAmount: bigint;
+    // 手续费中分给协议的部分，会累加到 Pool 的 protocolFees 中
+    protocolFee: bigint;
+    // 这次交易带来的 feeGrowthGlobal 增量
+    feeGrowthDeltaX128: bigint;
+    // 交易后的 feeGrowthGlobal，只有 PoolState 中提供了对应的值才会计算
+    feeGrowthGlobal0X128?: bigint;
+    feeGrowthGlobal1X128?: bigint;
+}
+
+/**
+ * 在链下模拟 Pool.swap，计算结果和合约逐位一致
+ * 合约中会 revert 的情况会抛出 MathError，错误信息和合约的 revert reason 一致（例如 "AS"、"SPL"）
+ */
+export function simulateSwap(pool: PoolState, params: SwapParams): SwapResult {
+    const { zeroForOne, amountSpecified, sqrtPriceLimitX96 } = params;
+
+    if (amountSpecified === 0n) {
+        throw new MathError('AS');
+    }
+
+    // 判断当前价格是否满足交易的条件
+    const validLimit = zeroForOne
+        ? sqrtPriceLimitX96 < pool.sqrtPriceX96 && sqrtPriceLimitX96 > TickMath.MIN_SQRT_PRICE
+        : sqrtPriceLimitX96 > pool.sqrtPriceX96 && sqrtPriceLimitX96 < TickMath.MAX_SQRT_PRICE;
+    if (!validLimit) {
+        throw new MathError('SPL');
+    }
+
+    const exactInput = amountSpecified > 0n;
+
+    // 交易价格不能超出 Pool 的价格区间
+    const sqrtPriceX96PoolLimit = zeroForOne
+        ? TickMath.getSqrtPriceAtTick(pool.tickLower)
+        : TickMath.getSqrtPriceAtTick(pool.tickUpper);
+    const sqrtPriceTargetX96 = (
+        zeroForOne ? sqrtPriceX96PoolLimit < sqrtPriceLimitX96 : sqrtPriceX96PoolLimit > sqrtPriceLimitX96
+    )
+        ? sqrtPriceLimitX96
+        : sqrtPriceX96PoolLimit;
+
+    const step = SwapMath.computeSwapStep(
+        pool.sqrtPriceX96,
+        sqrtPriceTargetX96,
+        pool.liquidity,
+        amountSpecified,
+        pool.fee
+    );
+
+    const tick = TickMath.getTickAtSqrtPrice(step.sqrtRatioNextX96);
+    // 先从手续费中分出协议费，剩下的才计入 feeGrowthGlobal
+    const feeProtocol = pool.feeProtocol ?? 0;
+    const feeProtocolForToken = BigInt(zeroForOne ? feeProtocol % 16 : feeProtocol >> 4);
+    const protocolFee = feeProtocolForToken > 0n ? step.feeAmount / feeProtocolForToken : 0n;
+    const feeGrowthDeltaX128 = FullMath.mulDiv(step.feeAmount - protocolFee, Q128, pool.liquidity);
+
+    let amountSpecifiedRemaining = amountSpecified;
+    let amountCalculated: bigint;
+    if (exactInput) {
+        amountSpecifiedRemaining -= toInt256(step.amountIn + step.feeAmount);
+        amountCalculated = -toInt256(step.amountOut);
+    } else {
+        amountSpecifiedRemaining += toInt256(step.amountOut);
+        amountCalculated = toInt256(step.amountIn + step.feeAmount);
+    }
+
+    const [amount0, amount1] =
+        zeroForOne === exactInput
+            ? [amountSpecified - amountSpecifiedRemaining, amountCalculated]
+            : [amountCalculated, amountSpecified - amountSpecifiedRemaining];
+
+    const result: SwapResult = {
+        amount0,
+        amount1,
+        sqrtPriceX96: step.sqrtRatioNextX96,
+        tick,
+        feeAmount: step.feeAmount,
+        protocolFee,
+        feeGrowthDeltaX128,
+    };
+
+    // 合约中 feeGrowthGlobal 的累加是 checked 运算，溢出会 revert
+    const feeGrowthGlobalX128 = zeroForOne ? pool.feeGrowthGlobal0X128 : pool.feeGrowthGlobal1X128;
+    if (feeGrowthGlobalX128 !== undefined) {
+        const next = feeGrowthGlobalX128 + feeGrowthDeltaX128;
+        if (next >= 2n ** 256n) {
+            throw new MathError('feeGrowthGlobal overflow');
+        }
+        if (zeroForOne) {
+            result.feeGrowthGlobal0X128 = next;
+            result.feeGrowthGlobal1X128 = pool.feeGrowthGlobal1X128;
+        } else {
+            result.feeGrowthGlobal0X128 = pool.feeGrowthGlobal0X128;
+            result.feeGrowthGlobal1X128 = next;
+        }
+    }
+
+    return result;
+}
+
+/**
+ * 把模拟结果应用到 PoolState 上，得到交易后的 Pool 状态，方便连续模拟多笔交易
+ */
+export function applySwap(pool: PoolState, result: SwapResult): PoolState {
+    return {
+        ...pool,
+        sqrtPriceX96: result.sqrtPriceX96,
+        tick: result.tick,
+        feeGrowthGlobal0X128: result.feeGrowthGlobal0X128 ?? pool.feeGrowthGlobal0X128,
+        feeGrowthGlobal1X128: result.feeGrowthGlobal1X128 ?? pool.feeGrowthGlobal1X128,
+    };
+}